@@ -37,14 +37,13 @@ const INTERVAL_MS = 60_000; // 60 seconds
 
 async function runCron() {
     const timestamp = new Date().toLocaleString("en-IN", { timeZone: "Asia/Kolkata" });
-    const url = CRON_SECRET
-        ? `${BASE_URL}/api/auto-orders/execute?secret=${CRON_SECRET}`
-        : `${BASE_URL}/api/auto-orders/execute`;
+    const url = `${BASE_URL}/api/auto-orders/execute`;
+    const headers = CRON_SECRET ? { Authorization: `Bearer ${CRON_SECRET}` } : {};
 
-    console.log(`\n[Dev Cron] ⏰ ${timestamp} — Hitting ${url.replace(CRON_SECRET, "***")}`);
+    console.log(`\n[Dev Cron] ⏰ ${timestamp} — Hitting ${url}`);
 
     try {
-        const res = await fetch(url);
+        const res = await fetch(url, { headers });
         const data = await res.json();
 
         if (res.ok) {
@@ -63,7 +62,7 @@ async function runCron() {
 console.log("══════════════════════════════════════════════════");
 console.log("  🔄 Auto-Order Dev Cron Simulator");
 console.log(`  📡 Target: ${BASE_URL}/api/auto-orders/execute`);
-console.log(`  🔑 CRON_SECRET: ${CRON_SECRET ? "configured" : "not set (no auth)"}`);
+console.log(`  🔑 CRON_SECRET: ${CRON_SECRET ? "configured" : "not set (requests will be rejected)"}`);
 console.log(`  ⏱️  Interval: ${INTERVAL_MS / 1000}s`);
 console.log("══════════════════════════════════════════════════");
 console.log("  Press Ctrl+C to stop\n");
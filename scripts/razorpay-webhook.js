@@ -0,0 +1,152 @@
+/**
+ * Razorpay Webhook Fixture Sender
+ *
+ * Builds a Razorpay-shaped webhook payload, signs it with
+ * RAZORPAY_WEBHOOK_SECRET exactly like Razorpay does, and POSTs it to the
+ * local /api/razorpay/webhook — no Razorpay account or network needed.
+ *
+ * Usage:
+ *   node scripts/razorpay-webhook.js payment.captured --user <uid> --amount 100
+ *   node scripts/razorpay-webhook.js payment.failed   --user <uid> --amount 100
+ *   node scripts/razorpay-webhook.js refund.processed --payment pay_fixture_123 --amount 50
+ *
+ * Options:
+ *   --payment <id>   Payment id (default: random pay_fixture_…)
+ *   --order <id>     Order id (default: random order_fixture_…)
+ *   --event-id <id>  X-Razorpay-Event-Id (reuse one to test redelivery)
+ *   --bad-signature  Sign with the wrong secret (expect 400)
+ *   --print          Print the payload and headers instead of sending
+ *
+ * The script reads RAZORPAY_WEBHOOK_SECRET from .env.local automatically.
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+// ─── Load .env.local ────────────────────────────
+
+const envPath = path.join(__dirname, "..", ".env.local");
+let WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || "";
+
+if (!WEBHOOK_SECRET && fs.existsSync(envPath)) {
+    const envContent = fs.readFileSync(envPath, "utf-8");
+    const match = envContent.match(/^RAZORPAY_WEBHOOK_SECRET=(.+)$/m);
+    if (match) {
+        WEBHOOK_SECRET = match[1].trim().replace(/^["']|["']$/g, "");
+    }
+}
+
+// ─── Args ───────────────────────────────────────
+
+const [eventName, ...rest] = process.argv.slice(2);
+const args = {};
+for (let i = 0; i < rest.length; i++) {
+    const key = rest[i].replace(/^--/, "");
+    const next = rest[i + 1];
+    if (next && !next.startsWith("--")) {
+        args[key] = next;
+        i++;
+    } else {
+        args[key] = true;
+    }
+}
+
+const PORT = process.env.PORT || 3000;
+const WEBHOOK_URL = `http://localhost:${PORT}/api/razorpay/webhook`;
+const rand = () => crypto.randomBytes(6).toString("hex");
+
+const amountPaise = Math.round(Number(args.amount || 100) * 100);
+const paymentId = args.payment || `pay_fixture_${rand()}`;
+const orderId = args.order || `order_fixture_${rand()}`;
+
+// ─── Fixtures ───────────────────────────────────
+
+function paymentEntity(status) {
+    return {
+        id: paymentId,
+        entity: "payment",
+        amount: amountPaise,
+        currency: "INR",
+        status,
+        order_id: orderId,
+        method: "upi",
+        captured: status === "captured",
+        notes: args.user ? { userId: args.user, purpose: "wallet_topup" } : [],
+        ...(status === "failed"
+            ? { error_code: "BAD_REQUEST_ERROR", error_description: "Payment was cancelled by the user" }
+            : {}),
+        created_at: Math.floor(Date.now() / 1000),
+    };
+}
+
+const FIXTURES = {
+    "payment.captured": () => ({ payment: { entity: paymentEntity("captured") } }),
+    "payment.failed": () => ({ payment: { entity: paymentEntity("failed") } }),
+    "refund.processed": () => ({
+        refund: {
+            entity: {
+                id: `rfnd_fixture_${rand()}`,
+                entity: "refund",
+                amount: amountPaise,
+                currency: "INR",
+                payment_id: paymentId,
+                status: "processed",
+                created_at: Math.floor(Date.now() / 1000),
+            },
+        },
+    }),
+};
+
+// ─── Send ───────────────────────────────────────
+
+async function main() {
+    if (!FIXTURES[eventName]) {
+        console.error(`Unknown event "${eventName || ""}". Use one of: ${Object.keys(FIXTURES).join(", ")}`);
+        process.exit(1);
+    }
+    if (!WEBHOOK_SECRET) {
+        console.error("RAZORPAY_WEBHOOK_SECRET not set (env or .env.local)");
+        process.exit(1);
+    }
+
+    const payload = FIXTURES[eventName]();
+    const body = JSON.stringify({
+        entity: "event",
+        account_id: "acc_fixture",
+        event: eventName,
+        contains: Object.keys(payload),
+        payload,
+        created_at: Math.floor(Date.now() / 1000),
+    });
+
+    const signature = crypto
+        .createHmac("sha256", args["bad-signature"] ? "wrong-secret" : WEBHOOK_SECRET)
+        .update(body)
+        .digest("hex");
+
+    const headers = {
+        "Content-Type": "application/json",
+        "X-Razorpay-Signature": signature,
+        "X-Razorpay-Event-Id": args["event-id"] || `evt_fixture_${rand()}`,
+    };
+
+    if (args.print) {
+        console.log(JSON.stringify({ headers, body: JSON.parse(body) }, null, 2));
+        return;
+    }
+
+    console.log(`[Webhook Fixture] → ${eventName} ${paymentId} ₹${amountPaise / 100} (${headers["X-Razorpay-Event-Id"]})`);
+
+    try {
+        const res = await fetch(WEBHOOK_URL, { method: "POST", headers, body });
+        const data = await res.json();
+        console.log(`[Webhook Fixture] ${res.ok ? "✅" : "❌"} Status ${res.status}:`, JSON.stringify(data));
+    } catch (err) {
+        console.error(`[Webhook Fixture] 💥 Request failed:`, err.message);
+        console.error(`[Webhook Fixture]    Is the dev server running on port ${PORT}?`);
+        process.exit(1);
+    }
+}
+
+main();
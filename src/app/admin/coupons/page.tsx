@@ -0,0 +1,410 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import type { Coupon, CouponDiscountType } from "@/types";
+
+interface CategoryOption {
+    slug: string;
+    name: string;
+}
+
+interface MenuOption {
+    id: string;
+    name: string;
+}
+
+interface CouponForm {
+    code: string;
+    description: string;
+    discountType: CouponDiscountType;
+    value: string;
+    maxDiscount: string;
+    minOrderValue: string;
+    usageLimit: string;
+    perUserLimit: string;
+    validFrom: string;
+    validUntil: string;
+    categories: string[];
+    itemIds: string[];
+    active: boolean;
+}
+
+const EMPTY_FORM: CouponForm = {
+    code: "",
+    description: "",
+    discountType: "flat",
+    value: "",
+    maxDiscount: "",
+    minOrderValue: "",
+    usageLimit: "",
+    perUserLimit: "1",
+    validFrom: "",
+    validUntil: "",
+    categories: [],
+    itemIds: [],
+    active: true,
+};
+
+/** ISO string → value for <input type="datetime-local"> (local time) */
+function toLocalInput(iso?: string): string {
+    if (!iso) return "";
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function toForm(coupon: Coupon): CouponForm {
+    const str = (n?: number) => (n === undefined ? "" : String(n));
+    return {
+        code: coupon.code,
+        description: coupon.description || "",
+        discountType: coupon.discountType,
+        value: String(coupon.value),
+        maxDiscount: str(coupon.maxDiscount),
+        minOrderValue: str(coupon.minOrderValue),
+        usageLimit: str(coupon.usageLimit),
+        perUserLimit: str(coupon.perUserLimit),
+        validFrom: toLocalInput(coupon.validFrom),
+        validUntil: toLocalInput(coupon.validUntil),
+        categories: coupon.categories || [],
+        itemIds: coupon.itemIds || [],
+        active: coupon.active,
+    };
+}
+
+function describeDiscount(coupon: Coupon): string {
+    if (coupon.discountType === "flat") return `₹${coupon.value} off`;
+    return `${coupon.value}% off${coupon.maxDiscount !== undefined ? ` (max ₹${coupon.maxDiscount})` : ""}`;
+}
+
+export default function AdminCouponsPage() {
+    const [coupons, setCoupons] = useState<Coupon[]>([]);
+    const [categories, setCategories] = useState<CategoryOption[]>([]);
+    const [menuItems, setMenuItems] = useState<MenuOption[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+    const [editing, setEditing] = useState<string | null>(null);
+
+    const getHeaders = () => ({
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
+    });
+
+    const fetchCoupons = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch("/api/admin/coupons", { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) setCoupons(data.coupons);
+            else toast.error(data.error || "Failed to load coupons");
+        } catch {
+            toast.error("Network error loading coupons");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchCoupons();
+
+        // Restriction pickers — failures only hide the options
+        fetch("/api/admin/categories", { headers: getHeaders() })
+            .then((res) => res.json())
+            .then((data) => setCategories(data.categories || []))
+            .catch(() => { });
+        fetch("/api/admin/menu", { headers: getHeaders() })
+            .then((res) => res.json())
+            .then((data) => setMenuItems(data.items || []))
+            .catch(() => { });
+    }, [fetchCoupons]);
+
+    const update = <K extends keyof CouponForm>(key: K, value: CouponForm[K]) =>
+        setForm((prev) => ({ ...prev, [key]: value }));
+
+    const toggleIn = (key: "categories" | "itemIds", value: string) =>
+        setForm((prev) => ({
+            ...prev,
+            [key]: prev[key].includes(value) ? prev[key].filter((v) => v !== value) : [...prev[key], value],
+        }));
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setEditing(null);
+    };
+
+    const saveCoupon = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            const body = {
+                ...form,
+                ...(editing ? { id: editing } : {}),
+                validFrom: form.validFrom ? new Date(form.validFrom).toISOString() : "",
+                validUntil: form.validUntil ? new Date(form.validUntil).toISOString() : "",
+            };
+            const res = await fetch("/api/admin/coupons", {
+                method: editing ? "PUT" : "POST",
+                headers: getHeaders(),
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success(editing ? `Coupon ${editing} updated` : `Coupon ${form.code.toUpperCase()} created`);
+                resetForm();
+                await fetchCoupons();
+            } else {
+                toast.error(data.error || "Failed to save coupon");
+            }
+        } catch {
+            toast.error("Network error saving coupon");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleActive = async (coupon: Coupon) => {
+        try {
+            const res = await fetch("/api/admin/coupons", {
+                method: "PUT",
+                headers: getHeaders(),
+                body: JSON.stringify({ ...coupon, active: !coupon.active }),
+            });
+            const data = await res.json();
+            if (res.ok) await fetchCoupons();
+            else toast.error(data.error || "Failed to update coupon");
+        } catch {
+            toast.error("Network error updating coupon");
+        }
+    };
+
+    const deleteCoupon = async (coupon: Coupon) => {
+        if (!confirm(`Delete coupon ${coupon.code}? Past orders keep their discount.`)) return;
+        try {
+            const res = await fetch("/api/admin/coupons", {
+                method: "DELETE",
+                headers: getHeaders(),
+                body: JSON.stringify({ id: coupon.id }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success(`Coupon ${coupon.code} deleted`);
+                if (editing === coupon.id) resetForm();
+                await fetchCoupons();
+            } else {
+                toast.error(data.error || "Failed to delete coupon");
+            }
+        } catch {
+            toast.error("Network error deleting coupon");
+        }
+    };
+
+    const inputClass = "w-full bg-zayko-900 border border-zayko-700 text-white px-3 py-2 rounded-lg focus:border-gold-400 focus:outline-none text-sm";
+    const labelClass = "block text-xs text-zayko-400 mb-1";
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-7xl mx-auto flex items-center gap-3">
+                        <Link href="/admin/dashboard" className="text-zayko-400 hover:text-white transition-colors">
+                            ← Dashboard
+                        </Link>
+                        <h1 className="text-xl font-display font-bold text-white">🎟️ Coupons</h1>
+                    </div>
+                </div>
+
+                <div className="max-w-7xl mx-auto px-6 mt-8 grid lg:grid-cols-[380px_1fr] gap-6 items-start">
+                    {/* ─── Create / Edit Form ─── */}
+                    <form onSubmit={saveCoupon} className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 space-y-4">
+                        <h2 className="font-display font-bold text-white">{editing ? `Edit ${editing}` : "New coupon"}</h2>
+
+                        <div>
+                            <label className={labelClass}>Code</label>
+                            <input
+                                value={form.code}
+                                onChange={(e) => update("code", e.target.value.toUpperCase())}
+                                disabled={!!editing}
+                                placeholder="WELCOME50"
+                                maxLength={20}
+                                className={`${inputClass} font-mono uppercase disabled:opacity-50`}
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Description (shown to students)</label>
+                            <input
+                                value={form.description}
+                                onChange={(e) => update("description", e.target.value)}
+                                maxLength={200}
+                                className={inputClass}
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className={labelClass}>Type</label>
+                                <select
+                                    value={form.discountType}
+                                    onChange={(e) => update("discountType", e.target.value as CouponDiscountType)}
+                                    className={inputClass}
+                                >
+                                    <option value="flat">Flat ₹</option>
+                                    <option value="percentage">Percentage %</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>{form.discountType === "flat" ? "Amount (₹)" : "Percent"}</label>
+                                <input type="number" min="1" value={form.value} onChange={(e) => update("value", e.target.value)} className={inputClass} required />
+                            </div>
+                            {form.discountType === "percentage" && (
+                                <div>
+                                    <label className={labelClass}>Max discount (₹)</label>
+                                    <input type="number" min="0" value={form.maxDiscount} onChange={(e) => update("maxDiscount", e.target.value)} className={inputClass} />
+                                </div>
+                            )}
+                            <div>
+                                <label className={labelClass}>Min order (₹)</label>
+                                <input type="number" min="0" value={form.minOrderValue} onChange={(e) => update("minOrderValue", e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Total uses</label>
+                                <input type="number" min="1" value={form.usageLimit} onChange={(e) => update("usageLimit", e.target.value)} placeholder="Unlimited" className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Uses per student</label>
+                                <input type="number" min="1" value={form.perUserLimit} onChange={(e) => update("perUserLimit", e.target.value)} placeholder="Unlimited" className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Valid from</label>
+                                <input type="datetime-local" value={form.validFrom} onChange={(e) => update("validFrom", e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Valid until</label>
+                                <input type="datetime-local" value={form.validUntil} onChange={(e) => update("validUntil", e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+
+                        {categories.length > 0 && (
+                            <div>
+                                <label className={labelClass}>Only these categories (none = whole cart)</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {categories.map((c) => (
+                                        <button
+                                            key={c.slug}
+                                            type="button"
+                                            onClick={() => toggleIn("categories", c.slug)}
+                                            className={`text-xs px-2.5 py-1 rounded-md border ${form.categories.includes(c.slug) ? "bg-gold-500/20 text-gold-400 border-gold-500/30" : "bg-zayko-900 text-zayko-400 border-zayko-700"}`}
+                                        >
+                                            {c.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {menuItems.length > 0 && (
+                            <div>
+                                <label className={labelClass}>Only these items</label>
+                                <div className="max-h-36 overflow-y-auto space-y-1 bg-zayko-900 border border-zayko-700 rounded-lg p-2">
+                                    {menuItems.map((item) => (
+                                        <label key={item.id} className="flex items-center gap-2 text-xs text-zayko-300">
+                                            <input type="checkbox" checked={form.itemIds.includes(item.id)} onChange={() => toggleIn("itemIds", item.id)} />
+                                            {item.name}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <label className="flex items-center gap-2 text-sm text-zayko-300">
+                            <input type="checkbox" checked={form.active} onChange={(e) => update("active", e.target.checked)} />
+                            Active
+                        </label>
+
+                        <div className="flex gap-2">
+                            <button
+                                type="submit"
+                                disabled={saving}
+                                className="flex-1 px-4 py-2 bg-gold-500/20 text-gold-400 border border-gold-500/30 rounded-lg hover:bg-gold-500/30 disabled:opacity-50"
+                            >
+                                {saving ? "Saving..." : editing ? "Save changes" : "Create coupon"}
+                            </button>
+                            {editing && (
+                                <button type="button" onClick={resetForm} className="px-4 py-2 bg-zayko-700 text-zayko-300 rounded-lg">
+                                    Cancel
+                                </button>
+                            )}
+                        </div>
+                    </form>
+
+                    {/* ─── Coupon List ─── */}
+                    <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md overflow-x-auto">
+                        {loading ? (
+                            <div className="flex items-center justify-center py-12">
+                                <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                            </div>
+                        ) : coupons.length === 0 ? (
+                            <div className="text-center py-6 text-zayko-500">No coupons yet.</div>
+                        ) : (
+                            <table className="w-full text-left border-collapse">
+                                <thead>
+                                    <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                        <th className="pb-3 font-medium">Code</th>
+                                        <th className="pb-3 font-medium">Discount</th>
+                                        <th className="pb-3 font-medium">Rules</th>
+                                        <th className="pb-3 font-medium text-right">Used</th>
+                                        <th className="pb-3 font-medium"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {coupons.map((coupon) => (
+                                        <tr key={coupon.id} className="border-b border-zayko-700/50 last:border-0 align-top">
+                                            <td className="py-4">
+                                                <span className="font-mono text-white">{coupon.code}</span>
+                                                <span className={`ml-2 text-xs px-2 py-0.5 rounded-md font-semibold ${coupon.active ? "bg-emerald-500/20 text-emerald-400" : "bg-zayko-700 text-zayko-500"}`}>
+                                                    {coupon.active ? "active" : "inactive"}
+                                                </span>
+                                                {coupon.description && <p className="text-xs text-zayko-500 mt-1">{coupon.description}</p>}
+                                            </td>
+                                            <td className="py-4 text-sm text-gold-400">{describeDiscount(coupon)}</td>
+                                            <td className="py-4 text-xs text-zayko-400 space-y-0.5">
+                                                {coupon.minOrderValue ? <p>Min ₹{coupon.minOrderValue}</p> : null}
+                                                {coupon.perUserLimit !== undefined && <p>{coupon.perUserLimit}× per student</p>}
+                                                {coupon.categories?.length ? <p>Categories: {coupon.categories.join(", ")}</p> : null}
+                                                {coupon.itemIds?.length ? <p>{coupon.itemIds.length} item(s)</p> : null}
+                                                {(coupon.validFrom || coupon.validUntil) && (
+                                                    <p>
+                                                        {coupon.validFrom ? new Date(coupon.validFrom).toLocaleString() : "…"} →{" "}
+                                                        {coupon.validUntil ? new Date(coupon.validUntil).toLocaleString() : "…"}
+                                                    </p>
+                                                )}
+                                            </td>
+                                            <td className="py-4 text-right text-white text-sm">
+                                                {coupon.usedCount || 0}
+                                                {coupon.usageLimit !== undefined && <span className="text-zayko-500"> / {coupon.usageLimit}</span>}
+                                            </td>
+                                            <td className="py-4 text-right whitespace-nowrap space-x-2">
+                                                <button onClick={() => { setEditing(coupon.id); setForm(toForm(coupon)); }} className="text-xs text-zayko-300 hover:text-white">
+                                                    Edit
+                                                </button>
+                                                <button onClick={() => toggleActive(coupon)} className="text-xs text-gold-400 hover:text-gold-300">
+                                                    {coupon.active ? "Disable" : "Enable"}
+                                                </button>
+                                                <button onClick={() => deleteCoupon(coupon)} className="text-xs text-red-400 hover:text-red-300">
+                                                    Delete
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </AdminGuard>
+    );
+}
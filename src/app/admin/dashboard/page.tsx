@@ -91,6 +91,7 @@ export default function AdminDashboard() {
     const adminLinks = [
         { href: "/admin/orders", label: "Manage Orders", icon: "📋", color: "from-blue-500 to-blue-600" },
         { href: "/admin/menu", label: "Manage Menu", icon: "🍽️", color: "from-teal-500 to-teal-600" },
+        { href: "/admin/coupons", label: "Coupons", icon: "🎟️", color: "from-emerald-500 to-emerald-600" },
         { href: "/admin/feedbacks", label: "Customer Feedback", icon: "⭐", color: "from-gold-500 to-gold-600" },
         { href: "/admin/settings", label: "Settings", icon: "⚙️", color: "from-purple-500 to-purple-600" },
     ];
@@ -112,6 +113,12 @@ export default function AdminDashboard() {
                             <Link href="/admin/orders" className="flex items-center gap-2 px-4 py-2 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 text-sm rounded-xl transition-all whitespace-nowrap">
                                 📋 Orders
                             </Link>
+                            <Link href="/admin/kds" className="flex items-center gap-2 px-4 py-2 bg-orange-500/10 hover:bg-orange-500/20 text-orange-400 text-sm rounded-xl transition-all whitespace-nowrap">
+                                👨‍🍳 Kitchen
+                            </Link>
+                            <Link href="/admin/pickup" className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 text-sm rounded-xl transition-all whitespace-nowrap">
+                                📷 Pickup
+                            </Link>
                             <Link href="/admin/menu" className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 text-sm rounded-xl transition-all whitespace-nowrap">
                                 🍔 Menu
                             </Link>
@@ -0,0 +1,247 @@
+/**
+ * Admin Kitchen Display — open order lines grouped by station and item,
+ * with bump-to-ready per item group or per ticket (see /api/admin/kds).
+ */
+
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { formatPickupTime } from "@/lib/pickup-slots";
+import type { KitchenDisplay, KitchenItemGroup, KitchenTicket } from "@/lib/kitchen-display";
+
+const REFRESH_MS = 10_000;
+
+type View = "items" | "tickets";
+
+function minutesSince(iso: string, now: number): number {
+    return Math.max(Math.floor((now - new Date(iso).getTime()) / 60_000), 0);
+}
+
+function ageColor(minutes: number): string {
+    if (minutes >= 20) return "text-red-400";
+    if (minutes >= 10) return "text-orange-400";
+    return "text-zayko-400";
+}
+
+export default function AdminKitchenDisplayPage() {
+    const [display, setDisplay] = useState<KitchenDisplay>({ stations: [], tickets: [] });
+    const [loading, setLoading] = useState(true);
+    const [view, setView] = useState<View>("items");
+    const [station, setStation] = useState("all");
+    const [bumping, setBumping] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    const getHeaders = () => {
+        const token = localStorage.getItem("adminToken");
+        return {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        };
+    };
+
+    const loadDisplay = useCallback(async () => {
+        try {
+            const res = await fetch("/api/admin/kds", { headers: getHeaders() });
+            const data = await res.json();
+            if (data.success) {
+                setDisplay({ stations: data.stations, tickets: data.tickets });
+                setNow(Date.now());
+            } else {
+                toast.error(data.error || "Failed to load kitchen display");
+            }
+        } catch {
+            toast.error("Failed to load kitchen display");
+        }
+        setLoading(false);
+    }, []);
+
+    useEffect(() => {
+        loadDisplay();
+        const interval = setInterval(loadDisplay, REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [loadDisplay]);
+
+    const bump = async (key: string, body: Record<string, unknown>) => {
+        setBumping(key);
+        try {
+            const res = await fetch("/api/admin/kds", {
+                method: "POST",
+                headers: getHeaders(),
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            if (data.success) {
+                toast.success(data.status === "ready" || data.ready > 0 ? "Bumped — order ready 🔔" : "Bumped ✅");
+            } else if (data.failed?.length) {
+                toast.error(`${data.failed.length} order(s) not bumped: ${data.failed[0].error}`);
+            } else {
+                toast.error(data.error || "Failed to bump");
+            }
+        } catch {
+            toast.error("Failed to bump");
+        }
+        setBumping(null);
+        loadDisplay();
+    };
+
+    const bumpGroup = (group: KitchenItemGroup) =>
+        bump(`group-${group.key}`, {
+            lines: group.lines.map((line) => ({ orderId: line.orderDocId, index: line.index })),
+        });
+
+    const bumpTicket = (ticket: KitchenTicket) => bump(`ticket-${ticket.orderDocId}`, { orderId: ticket.orderDocId });
+
+    const stationName = (id: string) => display.stations.find((s) => s.id === id)?.name || "General";
+    const visibleStations = display.stations.filter((s) => station === "all" || s.id === station);
+    const visibleTickets = display.tickets.filter(
+        (t) => station === "all" || t.items.some((item) => item.stationId === station && !item.ready)
+    );
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4">
+                    <div className="max-w-7xl mx-auto flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin/orders" className="text-zayko-400 hover:text-white transition-colors">
+                                ← Orders
+                            </Link>
+                            <h1 className="text-lg font-display font-bold text-white">👨‍🍳 Kitchen Display</h1>
+                            <span className="bg-orange-500 text-white text-xs font-bold px-2 py-1 rounded-full">
+                                {display.tickets.length} tickets
+                            </span>
+                        </div>
+                        <div className="flex bg-zayko-900 rounded-xl p-1">
+                            {(["items", "tickets"] as const).map((v) => (
+                                <button
+                                    key={v}
+                                    onClick={() => setView(v)}
+                                    className={`px-4 py-1.5 rounded-lg text-sm font-medium capitalize transition-all ${view === v ? "bg-gold-500 text-zayko-900" : "text-zayko-400 hover:text-white"}`}
+                                >
+                                    {v}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="max-w-7xl mx-auto p-6">
+                    {/* Station Filters */}
+                    <div className="flex gap-2 overflow-x-auto pb-4 mb-6">
+                        {[{ id: "all", name: "All stations", quantity: display.stations.reduce((sum, s) => sum + s.quantity, 0) }, ...display.stations].map((s) => (
+                            <button
+                                key={s.id}
+                                onClick={() => setStation(s.id)}
+                                className={`px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap transition-all ${station === s.id
+                                    ? "bg-gold-500 text-zayko-900"
+                                    : "bg-zayko-800 text-zayko-400 hover:bg-zayko-700"
+                                    }`}
+                            >
+                                {s.name} ({s.quantity})
+                            </button>
+                        ))}
+                    </div>
+
+                    {loading ? (
+                        <div className="flex items-center justify-center py-20">
+                            <div className="w-12 h-12 border-4 border-gold-500 border-t-transparent rounded-full animate-spin"></div>
+                        </div>
+                    ) : display.tickets.length === 0 ? (
+                        <div className="text-center py-20">
+                            <span className="text-5xl block mb-4">🍳</span>
+                            <p className="text-zayko-400">Nothing to cook — confirmed orders show up here</p>
+                        </div>
+                    ) : view === "items" ? (
+                        <div className="space-y-8">
+                            {visibleStations.map((s) => (
+                                <div key={s.id}>
+                                    <h2 className="text-sm font-bold uppercase tracking-widest text-zayko-400 mb-3">
+                                        {s.name} · {s.quantity} to cook
+                                    </h2>
+                                    {s.groups.length === 0 ? (
+                                        <p className="text-zayko-500 text-sm">All caught up ✅</p>
+                                    ) : (
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                                            {s.groups.map((group) => {
+                                                const age = minutesSince(group.oldestAt, now);
+                                                return (
+                                                    <div key={group.key} className="bg-zayko-800/50 border border-zayko-700 rounded-2xl p-5 flex flex-col">
+                                                        <div className="flex items-start justify-between gap-3 mb-3">
+                                                            <div className="min-w-0">
+                                                                <p className="font-display font-bold text-white text-lg truncate">{group.name}</p>
+                                                                {group.options.length > 0 && (
+                                                                    <p className="text-xs text-gold-400">{group.options.join(" · ")}</p>
+                                                                )}
+                                                            </div>
+                                                            <span className="text-4xl font-display font-bold text-white tabular-nums">×{group.quantity}</span>
+                                                        </div>
+                                                        <div className="flex flex-wrap gap-1.5 mb-4">
+                                                            {group.lines.map((line) => (
+                                                                <span key={`${line.orderDocId}-${line.index}`} className="text-xs font-mono bg-zayko-900 text-zayko-300 px-2 py-1 rounded-lg">
+                                                                    #{line.orderId} ×{line.quantity}
+                                                                </span>
+                                                            ))}
+                                                        </div>
+                                                        <div className="mt-auto flex items-center justify-between">
+                                                            <span className={`text-xs font-semibold ${ageColor(age)}`}>⏱ {age} min</span>
+                                                            <button
+                                                                onClick={() => bumpGroup(group)}
+                                                                disabled={bumping !== null}
+                                                                className="px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-bold rounded-xl transition-all disabled:opacity-50"
+                                                            >
+                                                                {bumping === `group-${group.key}` ? "..." : "Bump ✓"}
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                            {visibleTickets.map((ticket) => {
+                                const age = minutesSince(ticket.createdAt, now);
+                                return (
+                                    <div key={ticket.orderDocId} className="bg-zayko-800/50 border border-zayko-700 rounded-2xl p-5 flex flex-col">
+                                        <div className="flex items-center justify-between mb-1">
+                                            <span className="font-mono font-bold text-gold-400">#{ticket.orderId}</span>
+                                            <span className={`text-xs font-semibold ${ageColor(age)}`}>⏱ {age} min</span>
+                                        </div>
+                                        <p className="text-xs text-zayko-400 mb-3">
+                                            {ticket.userName} · <span className="capitalize">{ticket.status}</span>
+                                            {ticket.scheduledFor && ` · 🗓️ ${formatPickupTime(ticket.scheduledFor)}`}
+                                        </p>
+                                        <ul className="space-y-1.5 mb-4">
+                                            {ticket.items.map((item) => (
+                                                <li key={item.index} className={`text-sm ${item.ready ? "text-zayko-500 line-through" : "text-white"}`}>
+                                                    <span className="font-bold">{item.quantity}×</span> {item.name}
+                                                    {item.options.length > 0 && (
+                                                        <span className="text-xs text-gold-400"> ({item.options.join(", ")})</span>
+                                                    )}
+                                                    <span className="text-[10px] text-zayko-500 uppercase tracking-wider ml-1">{stationName(item.stationId)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                        <button
+                                            onClick={() => bumpTicket(ticket)}
+                                            disabled={bumping !== null}
+                                            className="mt-auto w-full py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-bold rounded-xl transition-all disabled:opacity-50"
+                                        >
+                                            {bumping === `ticket-${ticket.orderDocId}` ? "..." : "Bump Ticket ✓"}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </AdminGuard>
+    );
+}
@@ -3,11 +3,15 @@ import React, { useEffect, useState } from "react";
 import AdminGuard from "@/components/AdminGuard";
 import Link from "next/link";
 import { db } from "@/lib/firebase";
-import { collection, onSnapshot, query, orderBy } from "firebase/firestore";
+import { collection, onSnapshot, query, orderBy, where, limit } from "firebase/firestore";
 import toast from "react-hot-toast";
 import { useCountdown } from "@/hooks/useCountdown";
 import InvoiceModal from "@/components/InvoiceModal";
 import ThermalReceipt from "@/components/ThermalReceipt";
+import { canTransition, ORDER_STATUSES } from "@/lib/order-lifecycle";
+import { formatPickupTime, getPreOrderConfig, isHeldForSlot } from "@/lib/pickup-slots";
+import { useCanteenStatus } from "@/hooks/useCanteenStatus";
+import type { OrderStatus, PickupSlot } from "@/types";
 
 interface OrderItem {
     name: string;
@@ -24,17 +28,54 @@ interface AdminOrder {
     userRollNumber?: string;
     items: OrderItem[];
     total: number;
+    subtotal?: number;
+    discount?: number;
+    couponCode?: string;
+    pointsRedeemed?: number;
+    pointsDiscount?: number;
+    refundedTotal?: number;
     paymentMode?: string;
-    status: string;
+    status: OrderStatus;
     prepTime?: number;
     estimatedReadyAt?: string;
     readyAt?: string;
+    scheduledFor?: string;
+    pickupSlotId?: string;
+    pickupToken?: string;
+    pickupOtp?: string;
     createdAt: string;
 }
 
-const STATUS_OPTIONS = ["pending", "confirmed", "preparing", "ready", "completed", "cancelled"];
+const STATUS_OPTIONS = ORDER_STATUSES;
+const ADMIN_ACTOR = { type: "admin" } as const;
 const PREP_TIMES = [5, 10, 15, 20, 30];
 
+/** The live list covers orders from the last LIVE_WINDOW_HOURS — older ones are in History */
+const LIVE_WINDOW_HOURS = 24;
+const LIVE_ORDER_LIMIT = 300;
+
+interface HistoryFilters {
+    status: string;
+    from: string;
+    to: string;
+    email: string;
+    rollNumber: string;
+    orderId: string;
+    paymentMode: string;
+    q: string;
+}
+
+const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+    status: "",
+    from: "",
+    to: "",
+    email: "",
+    rollNumber: "",
+    orderId: "",
+    paymentMode: "",
+    q: "",
+};
+
 const statusColors: Record<string, string> = {
     pending: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
     confirmed: "bg-blue-500/20 text-blue-400 border-blue-500/30",
@@ -68,6 +109,19 @@ export default function AdminOrdersPage() {
     const [searchTerm, setSearchTerm] = useState("");
     const [debouncedSearch, setDebouncedSearch] = useState("");
     const [highlightOrderId, setHighlightOrderId] = useState<string | null>(null);
+    const { config } = useCanteenStatus();
+    const { releaseMinutes } = getPreOrderConfig(config);
+    const [now, setNow] = useState(() => new Date());
+    const [slots, setSlots] = useState<PickupSlot[]>([]);
+
+    // History (server-side search, paginated)
+    const [view, setView] = useState<"live" | "history">("live");
+    const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+    const [historyOrders, setHistoryOrders] = useState<AdminOrder[]>([]);
+    const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+    const [historyLoading, setHistoryLoading] = useState(false);
+    const [historySearched, setHistorySearched] = useState(false);
+    const [indexingKeywords, setIndexingKeywords] = useState(false);
 
     // Debounce search input
     useEffect(() => {
@@ -77,9 +131,15 @@ export default function AdminOrdersPage() {
         return () => clearTimeout(timer);
     }, [searchTerm]);
 
-    // Real-time subscription
+    // Real-time subscription — recent orders only, history is searched on demand
     useEffect(() => {
-        const q = query(collection(db, "orders"), orderBy("createdAt", "desc"));
+        const since = new Date(Date.now() - LIVE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+        const q = query(
+            collection(db, "orders"),
+            where("createdAt", ">=", since),
+            orderBy("createdAt", "desc"),
+            limit(LIVE_ORDER_LIMIT)
+        );
         const unsubscribe = onSnapshot(
             q,
             (snapshot) => {
@@ -99,7 +159,57 @@ export default function AdminOrdersPage() {
         return () => unsubscribe();
     }, []);
 
-    const updateOrder = async (orderId: string, data: { status?: string; prepTime?: number }) => {
+    // Re-evaluate every 30s which pre-orders have reached their release time
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 30_000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // ─── Pickup Slots ───
+    const loadSlots = async () => {
+        try {
+            const token = localStorage.getItem("adminToken");
+            const res = await fetch("/api/admin/pickup-slots", {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+            const data = await res.json();
+            if (data.success) setSlots(data.slots);
+        } catch {
+            // Slot list is informational — the orders themselves are live
+        }
+    };
+
+    useEffect(() => {
+        if (filter === "scheduled") loadSlots();
+    }, [filter]);
+
+    const cancelSlot = async (slot: PickupSlot) => {
+        const reason = prompt(`Cancel the ${formatPickupTime(slot.start)} pickup slot? All ${slot.orders} orders in it will be cancelled and refunded.\n\nReason:`);
+        if (!reason?.trim()) return;
+        try {
+            const token = localStorage.getItem("adminToken");
+            const res = await fetch("/api/admin/pickup-slots", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({ slotId: slot.id, reason: reason.trim() }),
+            });
+            const result = await res.json();
+            if (result.success) {
+                toast.success(`Slot cancelled — ${result.cancelled} orders refunded ₹${result.refunded}`);
+                if (result.failed) toast.error(`${result.failed} orders could not be cancelled — retry`);
+                loadSlots();
+            } else {
+                toast.error(result.error || "Failed to cancel slot");
+            }
+        } catch {
+            toast.error("Failed to cancel slot");
+        }
+    };
+
+    const updateOrder = async (orderId: string, data: { status?: string; prepTime?: number; wasted?: boolean }) => {
         try {
             const token = localStorage.getItem("adminToken");
             const res = await fetch("/api/admin/orders", {
@@ -110,24 +220,154 @@ export default function AdminOrdersPage() {
                 },
                 body: JSON.stringify({ orderId, ...data }),
             });
-            if ((await res.json()).success) {
+            const result = await res.json();
+            if (result.success) {
                 toast.success("Order updated!");
+            } else {
+                toast.error(result.error || "Failed to update order");
             }
         } catch {
             toast.error("Failed to update order");
         }
     };
 
+    // ─── History ───
+    const searchHistory = async (cursor?: string) => {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(historyFilters)) {
+            if (value.trim()) params.set(key, value.trim());
+        }
+        // Date inputs are local calendar days
+        if (historyFilters.from) params.set("from", new Date(`${historyFilters.from}T00:00:00`).toISOString());
+        if (historyFilters.to) params.set("to", new Date(`${historyFilters.to}T23:59:59.999`).toISOString());
+        if (cursor) params.set("cursor", cursor);
+
+        setHistoryLoading(true);
+        try {
+            const token = localStorage.getItem("adminToken");
+            const res = await fetch(`/api/admin/orders?${params}`, {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(data.error || "Failed to search orders");
+                return;
+            }
+            setHistoryOrders((prev) => (cursor ? [...prev, ...data.orders] : data.orders));
+            setHistoryCursor(data.nextCursor);
+            setHistorySearched(true);
+        } catch {
+            toast.error("Failed to search orders");
+        } finally {
+            setHistoryLoading(false);
+        }
+    };
+
+    // One-off backfill so item search also finds orders placed before it existed
+    const indexOlderOrders = async () => {
+        if (!confirm("Index the item names of every older order for search? This only needs to run once.")) return;
+        setIndexingKeywords(true);
+        let cursor: string | null = null;
+        let updated = 0;
+        try {
+            const token = localStorage.getItem("adminToken");
+            do {
+                const res: Response = await fetch("/api/admin/orders/keywords", {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        Authorization: `Bearer ${token}`,
+                    },
+                    body: JSON.stringify(cursor ? { cursor } : {}),
+                });
+                const data = await res.json();
+                if (!res.ok) {
+                    toast.error(data.error || "Failed to index orders");
+                    return;
+                }
+                updated += data.updated;
+                cursor = data.nextCursor;
+            } while (cursor);
+            toast.success(updated > 0 ? `Indexed ${updated} older orders` : "All orders are already indexed");
+        } catch {
+            toast.error("Failed to index orders");
+        } finally {
+            setIndexingKeywords(false);
+        }
+    };
+
+    const setHistoryFilter = (key: keyof HistoryFilters, value: string) => {
+        setHistoryFilters((prev) => ({ ...prev, [key]: value }));
+    };
+
+    const verifyPickup = async (order: AdminOrder) => {
+        const otp = prompt(`Pickup OTP for #${order.orderId} (or scan the QR on the Pickup screen):`);
+        if (!otp?.trim()) return;
+        try {
+            const token = localStorage.getItem("adminToken");
+            const res = await fetch("/api/admin/pickup", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({ orderId: order.orderId, otp: otp.trim() }),
+            });
+            const result = await res.json();
+            if (result.success) {
+                toast.success(`#${order.orderId} collected ✅`);
+            } else {
+                toast.error(result.error || "Pickup verification failed");
+            }
+        } catch {
+            toast.error("Pickup verification failed");
+        }
+    };
+
+    // Reduce a single line (quantity 0 removes it) and refund the difference
+    const adjustItem = async (order: AdminOrder, index: number, quantity: number) => {
+        const item = order.items[index];
+        const refund = item.price * (item.quantity - quantity);
+        const action = quantity === 0 ? `Remove ${item.name}` : `Reduce ${item.name} to ×${quantity}`;
+        if (!confirm(`${action} on #${order.orderId} and refund ₹${refund} to ${order.userName}?`)) return;
+
+        try {
+            const token = localStorage.getItem("adminToken");
+            const res = await fetch("/api/admin/orders/adjust", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify({ orderId: order.id, items: [{ index, quantity }], reason: "Item unavailable" }),
+            });
+            const result = await res.json();
+            if (result.success) {
+                toast.success(`₹${result.refunded} refunded`);
+            } else {
+                toast.error(result.error || "Failed to adjust order");
+            }
+        } catch {
+            toast.error("Failed to adjust order");
+        }
+    };
+
     // Filter orders by status and search term
-    const filteredOrders = orders.filter((o) => {
-        const matchesStatus = filter === "all" || o.status === filter;
+    // Pre-orders stay out of the queue until releaseMinutes before their slot
+    const heldOrders = orders.filter((o) => isHeldForSlot(o, releaseMinutes, now));
+    const queueOrders = orders.filter((o) => !isHeldForSlot(o, releaseMinutes, now));
+
+    const filteredOrders = (filter === "scheduled" ? heldOrders : queueOrders).filter((o) => {
+        const matchesStatus = filter === "all" || filter === "scheduled" || o.status === filter;
         const matchesSearch = !debouncedSearch ||
             o.orderId.toLowerCase().includes(debouncedSearch.toLowerCase()) ||
             o.userName.toLowerCase().includes(debouncedSearch.toLowerCase());
         return matchesStatus && matchesSearch;
     });
 
-    const pendingCount = orders.filter((o) => o.status === "pending").length;
+    const visibleOrders = view === "history" ? historyOrders : filteredOrders;
+
+    const pendingCount = queueOrders.filter((o) => o.status === "pending").length;
     const preparingCount = orders.filter((o) => o.status === "preparing").length;
 
     // Auto-scroll to highlighted order when search changes
@@ -168,56 +408,197 @@ export default function AdminOrdersPage() {
                                 </span>
                             )}
                         </div>
+                        <div className="flex items-center gap-2">
+                            <Link href="/admin/pickup" className="px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 text-sm rounded-xl transition-all">
+                                📷 Pickup
+                            </Link>
+                            <Link href="/admin/kds" className="px-4 py-2 bg-orange-500/10 hover:bg-orange-500/20 text-orange-400 text-sm rounded-xl transition-all">
+                                👨‍🍳 Kitchen Display
+                            </Link>
+                        </div>
                     </div>
                 </div>
 
                 <div className="max-w-7xl mx-auto p-6">
-                    {/* Search Bar */}
-                    <div className="mb-6 bg-zayko-800/50 border border-zayko-700 rounded-2xl p-4 animate-fade-in">
-                        <div className="relative">
-                            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl">🔍</span>
-                            <input
-                                type="text"
-                                placeholder="Search by Order ID or Customer Name..."
-                                value={searchTerm}
-                                onChange={(e) => setSearchTerm(e.target.value)}
-                                className="w-full pl-12 pr-12 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white placeholder-zayko-400 focus:outline-none focus:ring-2 focus:ring-gold-500 transition-all font-mono"
-                            />
-                            {searchTerm && (
-                                <button
-                                    onClick={() => setSearchTerm("")}
-                                    className="absolute right-4 top-1/2 -translate-y-1/2 text-zayko-400 hover:text-white transition-colors"
-                                >
-                                    ✕
-                                </button>
-                            )}
-                        </div>
-                    </div>
-
-                    {/* Status Filters */}
-                    <div className="flex gap-2 overflow-x-auto pb-4 mb-6">
-                        {["all", ...STATUS_OPTIONS].map((s) => (
+                    {/* Live / History */}
+                    <div className="flex gap-2 mb-4">
+                        {(["live", "history"] as const).map((v) => (
                             <button
-                                key={s}
-                                onClick={() => setFilter(s)}
-                                className={`px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap capitalize transition-all ${filter === s
+                                key={v}
+                                onClick={() => setView(v)}
+                                className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${view === v
                                     ? "bg-gold-500 text-zayko-900"
                                     : "bg-zayko-800 text-zayko-400 hover:bg-zayko-700"
                                     }`}
                             >
-                                {s} {s !== "all" && `(${orders.filter((o) => o.status === s).length})`}
+                                {v === "live" ? `🔴 Live (last ${LIVE_WINDOW_HOURS}h)` : "🗄️ History"}
                             </button>
                         ))}
                     </div>
 
-                    {loading ? (
+                    {view === "history" ? (
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                searchHistory();
+                            }}
+                            className="mb-6 bg-zayko-800/50 border border-zayko-700 rounded-2xl p-4 animate-fade-in grid grid-cols-2 md:grid-cols-4 gap-3"
+                        >
+                            <select
+                                value={historyFilters.status}
+                                onChange={(e) => setHistoryFilter("status", e.target.value)}
+                                className="px-3 py-2 bg-zayko-800 border border-zayko-600 rounded-xl text-white text-sm capitalize focus:outline-none focus:ring-2 focus:ring-gold-500"
+                            >
+                                <option value="">All statuses</option>
+                                {STATUS_OPTIONS.map((s) => (
+                                    <option key={s} value={s}>{s}</option>
+                                ))}
+                            </select>
+                            <label className="flex items-center gap-2 text-xs text-zayko-400">
+                                From
+                                <input
+                                    type="date"
+                                    value={historyFilters.from}
+                                    onChange={(e) => setHistoryFilter("from", e.target.value)}
+                                    className="flex-1 px-3 py-2 bg-zayko-800 border border-zayko-600 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold-500"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2 text-xs text-zayko-400">
+                                To
+                                <input
+                                    type="date"
+                                    value={historyFilters.to}
+                                    onChange={(e) => setHistoryFilter("to", e.target.value)}
+                                    className="flex-1 px-3 py-2 bg-zayko-800 border border-zayko-600 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold-500"
+                                />
+                            </label>
+                            {([
+                                ["orderId", "Order ID"],
+                                ["email", "Email"],
+                                ["rollNumber", "Roll number"],
+                                ["paymentMode", "Payment mode (e.g. Wallet)"],
+                                ["q", "Item name (whole words)"],
+                            ] as const).map(([key, placeholder]) => (
+                                <input
+                                    key={key}
+                                    type="text"
+                                    placeholder={placeholder}
+                                    value={historyFilters[key]}
+                                    onChange={(e) => setHistoryFilter(key, e.target.value)}
+                                    className="px-3 py-2 bg-zayko-800 border border-zayko-600 rounded-xl text-white text-sm placeholder-zayko-400 focus:outline-none focus:ring-2 focus:ring-gold-500"
+                                />
+                            ))}
+                            <div className="flex gap-2 col-span-2 md:col-span-1">
+                                <button
+                                    type="submit"
+                                    disabled={historyLoading}
+                                    className="flex-1 px-4 py-2 rounded-xl text-sm font-bold bg-gold-500 text-zayko-900 hover:bg-gold-400 disabled:opacity-50 transition-all"
+                                >
+                                    🔍 Search
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setHistoryFilters(EMPTY_HISTORY_FILTERS)}
+                                    className="px-4 py-2 rounded-xl text-sm bg-zayko-700 text-zayko-300 hover:bg-zayko-600 transition-all"
+                                >
+                                    Clear
+                                </button>
+                            </div>
+                            <p className="col-span-2 md:col-span-4 text-xs text-zayko-500">
+                                Item search misses orders placed before it existed —{" "}
+                                <button
+                                    type="button"
+                                    onClick={indexOlderOrders}
+                                    disabled={indexingKeywords}
+                                    className="text-gold-400 hover:underline disabled:opacity-50"
+                                >
+                                    {indexingKeywords ? "indexing…" : "index older orders"}
+                                </button>
+                            </p>
+                        </form>
+                    ) : (
+                        <>
+                            {/* Search Bar */}
+                            <div className="mb-6 bg-zayko-800/50 border border-zayko-700 rounded-2xl p-4 animate-fade-in">
+                                <div className="relative">
+                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl">🔍</span>
+                                    <input
+                                        type="text"
+                                        placeholder="Search by Order ID or Customer Name..."
+                                        value={searchTerm}
+                                        onChange={(e) => setSearchTerm(e.target.value)}
+                                        className="w-full pl-12 pr-12 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white placeholder-zayko-400 focus:outline-none focus:ring-2 focus:ring-gold-500 transition-all font-mono"
+                                    />
+                                    {searchTerm && (
+                                        <button
+                                            onClick={() => setSearchTerm("")}
+                                            className="absolute right-4 top-1/2 -translate-y-1/2 text-zayko-400 hover:text-white transition-colors"
+                                        >
+                                            ✕
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {/* Status Filters */}
+                            <div className="flex gap-2 overflow-x-auto pb-4 mb-6">
+                                {["all", ...STATUS_OPTIONS].map((s) => (
+                                    <button
+                                        key={s}
+                                        onClick={() => setFilter(s)}
+                                        className={`px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap capitalize transition-all ${filter === s
+                                            ? "bg-gold-500 text-zayko-900"
+                                            : "bg-zayko-800 text-zayko-400 hover:bg-zayko-700"
+                                            }`}
+                                    >
+                                        {s} {s !== "all" && `(${queueOrders.filter((o) => o.status === s).length})`}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => setFilter("scheduled")}
+                                    className={`px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap transition-all ${filter === "scheduled"
+                                        ? "bg-gold-500 text-zayko-900"
+                                        : "bg-zayko-800 text-zayko-400 hover:bg-zayko-700"
+                                        }`}
+                                >
+                                    🗓️ Scheduled ({heldOrders.length})
+                                </button>
+                            </div>
+
+                            {/* Pickup slots booked today (scheduled view) */}
+                            {filter === "scheduled" && slots.length > 0 && (
+                                <div className="flex gap-2 overflow-x-auto pb-4 mb-6">
+                                    {slots.map((slot) => (
+                                        <div key={slot.id} className="shrink-0 bg-zayko-800/50 border border-zayko-700 rounded-xl px-4 py-3">
+                                            <p className="font-mono font-bold text-white">{formatPickupTime(slot.start)}</p>
+                                            <p className="text-xs text-zayko-400">{slot.orders} orders · {slot.items} items</p>
+                                            {slot.cancelled ? (
+                                                <p className="text-xs text-red-400 mt-1">Cancelled</p>
+                                            ) : (
+                                                <button
+                                                    onClick={() => cancelSlot(slot)}
+                                                    className="text-xs text-red-400 hover:text-red-300 mt-1"
+                                                >
+                                                    Cancel slot
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {(view === "live" && loading) || (view === "history" && historyLoading && historyOrders.length === 0) ? (
                         <div className="flex items-center justify-center py-20">
                             <div className="w-12 h-12 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
                         </div>
-                    ) : filteredOrders.length === 0 ? (
+                    ) : visibleOrders.length === 0 ? (
                         <div className="text-center py-20 text-zayko-500">
                             <div className="text-5xl mb-4">📭</div>
-                            {debouncedSearch ? (
+                            {view === "history" ? (
+                                <p>{historySearched ? "No orders match these filters" : "Search past orders with the filters above"}</p>
+                            ) : debouncedSearch ? (
                                 <p>Order <strong className="text-white">"{debouncedSearch}"</strong> not found.</p>
                             ) : (
                                 <p>No orders found</p>
@@ -225,7 +606,7 @@ export default function AdminOrdersPage() {
                         </div>
                     ) : (
                         <div className="space-y-4">
-                            {filteredOrders.map((order) => (
+                            {visibleOrders.map((order) => (
                                 <div
                                     key={order.id}
                                     id={`order-${order.orderId}`}
@@ -243,6 +624,11 @@ export default function AdminOrdersPage() {
                                                     <span className={`px-3 py-1 rounded-full text-xs font-semibold border capitalize ${statusColors[order.status] || ""}`}>
                                                         {order.status}
                                                     </span>
+                                                    {order.scheduledFor && (
+                                                        <span className="px-3 py-1 rounded-full text-xs font-semibold border bg-gold-500/10 text-gold-400 border-gold-500/30">
+                                                            🗓️ Pickup {formatPickupTime(order.scheduledFor)}
+                                                        </span>
+                                                    )}
                                                     {/* Live countdown for confirmed/preparing orders */}
                                                     {(order.status === "preparing" || order.status === "confirmed") && (
                                                         <AdminCountdown readyAt={order.readyAt || order.estimatedReadyAt} />
@@ -254,16 +640,49 @@ export default function AdminOrdersPage() {
                                                     <span>🕐 {new Date(order.createdAt).toLocaleString()}</span>
                                                 </div>
                                             </div>
-                                            <span className="text-2xl font-display font-bold text-gold-400">₹{order.total}</span>
+                                            <div className="text-right">
+                                                <span className="text-2xl font-display font-bold text-gold-400">₹{order.total}</span>
+                                                {order.discount ? (
+                                                    <p className="text-xs text-emerald-400">🎟️ {order.couponCode} −₹{order.discount}</p>
+                                                ) : null}
+                                                {order.pointsDiscount ? (
+                                                    <p className="text-xs text-emerald-400">🎁 {order.pointsRedeemed} pts −₹{order.pointsDiscount}</p>
+                                                ) : null}
+                                            </div>
                                         </div>
                                     </div>
 
                                     {/* Items */}
                                     <div className="p-5 border-b border-zayko-700 bg-zayko-800/30">
                                         {order.items.map((item, idx) => (
-                                            <div key={idx} className="flex justify-between py-1 text-sm">
+                                            <div key={idx} className="flex justify-between items-center py-1 text-sm group">
                                                 <span className="text-zayko-300">{item.name} × {item.quantity}</span>
-                                                <span className="text-zayko-400">₹{item.price * item.quantity}</span>
+                                                <div className="flex items-center gap-2">
+                                                    {/* Per-item cancellation (partial refund) */}
+                                                    {order.status !== "cancelled" && order.items.length + item.quantity > 2 && (
+                                                        <span className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                            {item.quantity > 1 && (
+                                                                <button
+                                                                    onClick={() => adjustItem(order, idx, item.quantity - 1)}
+                                                                    title="Reduce by one and refund"
+                                                                    className="px-2 py-0.5 rounded-md text-xs bg-zayko-700 text-zayko-300 hover:bg-zayko-600"
+                                                                >
+                                                                    −1
+                                                                </button>
+                                                            )}
+                                                            {order.items.length > 1 && (
+                                                                <button
+                                                                    onClick={() => adjustItem(order, idx, 0)}
+                                                                    title="Remove item and refund"
+                                                                    className="px-2 py-0.5 rounded-md text-xs bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                                                                >
+                                                                    ✕
+                                                                </button>
+                                                            )}
+                                                        </span>
+                                                    )}
+                                                    <span className="text-zayko-400">₹{item.price * item.quantity}</span>
+                                                </div>
                                             </div>
                                         ))}
                                     </div>
@@ -276,11 +695,26 @@ export default function AdminOrdersPage() {
                                             {STATUS_OPTIONS.map((s) => (
                                                 <button
                                                     key={s}
-                                                    onClick={() => updateOrder(order.id, { status: s })}
-                                                    disabled={order.status === s}
+                                                    onClick={() => {
+                                                        // Orders with a pickup code are completed by verifying it
+                                                        if (s === "completed" && order.pickupOtp) {
+                                                            verifyPickup(order);
+                                                            return;
+                                                        }
+                                                        if (s !== "cancelled") {
+                                                            updateOrder(order.id, { status: s });
+                                                            return;
+                                                        }
+                                                        if (!confirm(`Cancel order #${order.orderId} and refund ₹${order.total}?`)) return;
+                                                        // Completed orders are never restocked server-side
+                                                        const wasted = order.status !== "completed" &&
+                                                            !confirm("Return the items to stock?\n\nOK = restock · Cancel = food already cooked (wasted)");
+                                                        updateOrder(order.id, { status: s, wasted });
+                                                    }}
+                                                    disabled={!canTransition(order.status, s, ADMIN_ACTOR)}
                                                     className={`px-3 py-1.5 rounded-lg text-xs font-medium capitalize transition-all ${order.status === s
                                                         ? "bg-gold-500 text-zayko-900"
-                                                        : "bg-zayko-700 text-zayko-300 hover:bg-zayko-600"
+                                                        : "bg-zayko-700 text-zayko-300 hover:bg-zayko-600 disabled:opacity-30 disabled:hover:bg-zayko-700"
                                                         }`}
                                                 >
                                                     {s}
@@ -290,46 +724,50 @@ export default function AdminOrdersPage() {
 
                                         {/* Prep Time + Mark Ready */}
                                         <div className="flex items-center gap-2 flex-wrap">
-                                            <span className="text-xs text-zayko-500">Prep:</span>
-                                            {PREP_TIMES.map((t) => (
-                                                <button
-                                                    key={t}
-                                                    onClick={() => updateOrder(order.id, { status: "preparing", prepTime: t })}
-                                                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${order.prepTime === t && order.status === "preparing"
-                                                        ? "bg-teal-500 text-white"
-                                                        : "bg-zayko-700 text-zayko-300 hover:bg-zayko-600"
-                                                        }`}
-                                                >
-                                                    +{t}m
-                                                </button>
-                                            ))}
+                                            {(order.status === "preparing" || canTransition(order.status, "preparing", ADMIN_ACTOR)) && (
+                                                <>
+                                                    <span className="text-xs text-zayko-500">Prep:</span>
+                                                    {PREP_TIMES.map((t) => (
+                                                        <button
+                                                            key={t}
+                                                            onClick={() => updateOrder(order.id, { status: "preparing", prepTime: t })}
+                                                            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${order.prepTime === t && order.status === "preparing"
+                                                                ? "bg-teal-500 text-white"
+                                                                : "bg-zayko-700 text-zayko-300 hover:bg-zayko-600"
+                                                                }`}
+                                                        >
+                                                            +{t}m
+                                                        </button>
+                                                    ))}
 
-                                            {/* Custom input */}
-                                            <div className="flex items-center gap-1">
-                                                <input
-                                                    type="number"
-                                                    min={1}
-                                                    max={120}
-                                                    placeholder="min"
-                                                    value={customPrepTimes[order.id] || ""}
-                                                    onChange={(e) => setCustomPrepTimes((prev) => ({ ...prev, [order.id]: e.target.value }))}
-                                                    className="w-16 px-2 py-1.5 rounded-lg bg-zayko-700 text-white text-xs border border-zayko-600 focus:border-teal-500 focus:outline-none placeholder:text-zayko-500"
-                                                />
-                                                <button
-                                                    onClick={() => {
-                                                        const mins = Number(customPrepTimes[order.id]);
-                                                        if (mins >= 1 && mins <= 120) {
-                                                            updateOrder(order.id, { status: "preparing", prepTime: mins });
-                                                            setCustomPrepTimes((prev) => ({ ...prev, [order.id]: "" }));
-                                                        } else {
-                                                            toast.error("Enter 1-120 minutes");
-                                                        }
-                                                    }}
-                                                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-teal-600 text-white hover:bg-teal-500 transition-all"
-                                                >
-                                                    Set
-                                                </button>
-                                            </div>
+                                                    {/* Custom input */}
+                                                    <div className="flex items-center gap-1">
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            max={120}
+                                                            placeholder="min"
+                                                            value={customPrepTimes[order.id] || ""}
+                                                            onChange={(e) => setCustomPrepTimes((prev) => ({ ...prev, [order.id]: e.target.value }))}
+                                                            className="w-16 px-2 py-1.5 rounded-lg bg-zayko-700 text-white text-xs border border-zayko-600 focus:border-teal-500 focus:outline-none placeholder:text-zayko-500"
+                                                        />
+                                                        <button
+                                                            onClick={() => {
+                                                                const mins = Number(customPrepTimes[order.id]);
+                                                                if (mins >= 1 && mins <= 120) {
+                                                                    updateOrder(order.id, { status: "preparing", prepTime: mins });
+                                                                    setCustomPrepTimes((prev) => ({ ...prev, [order.id]: "" }));
+                                                                } else {
+                                                                    toast.error("Enter 1-120 minutes");
+                                                                }
+                                                            }}
+                                                            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-teal-600 text-white hover:bg-teal-500 transition-all"
+                                                        >
+                                                            Set
+                                                        </button>
+                                                    </div>
+                                                </>
+                                            )}
 
                                             {/* Mark Ready button */}
                                             {(order.status === "preparing" || order.status === "confirmed") && (
@@ -362,6 +800,19 @@ export default function AdminOrdersPage() {
                             ))}
                         </div>
                     )}
+
+                    {/* Next page of history */}
+                    {view === "history" && historyCursor && (
+                        <div className="text-center mt-6">
+                            <button
+                                onClick={() => searchHistory(historyCursor)}
+                                disabled={historyLoading}
+                                className="px-6 py-2 rounded-xl text-sm font-medium bg-zayko-800 text-zayko-300 hover:bg-zayko-700 disabled:opacity-50 transition-all"
+                            >
+                                {historyLoading ? "Loading…" : "Load more"}
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
 
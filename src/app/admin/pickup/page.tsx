@@ -0,0 +1,227 @@
+/**
+ * Admin Pickup Counter — verify the student's QR or OTP and hand over the order.
+ *
+ * QR: a handheld scanner types the payload into the focused scan field
+ * (ending with Enter), or the camera is read with the browser's
+ * BarcodeDetector where supported. OTP: Order ID + 4-digit code.
+ * Both go to /api/admin/pickup, which completes the order.
+ */
+
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import type { OrderItem } from "@/types";
+
+interface PickupResult {
+    ok: boolean;
+    message: string;
+    order?: { orderId: string; userName: string; items: OrderItem[]; total: number };
+}
+
+// Not in every TS DOM lib yet — Chromium-based browsers ship it
+interface BarcodeDetectorLike {
+    detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorCtor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 400;
+
+export default function AdminPickupPage() {
+    const [scanValue, setScanValue] = useState("");
+    const [orderId, setOrderId] = useState("");
+    const [otp, setOtp] = useState("");
+    const [verifying, setVerifying] = useState(false);
+    const [result, setResult] = useState<PickupResult | null>(null);
+    const [cameraOn, setCameraOn] = useState(false);
+    const scanInputRef = useRef<HTMLInputElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const busyRef = useRef(false);
+
+    const verify = useCallback(async (body: Record<string, string>) => {
+        if (busyRef.current) return;
+        busyRef.current = true;
+        setVerifying(true);
+        try {
+            const token = localStorage.getItem("adminToken");
+            const res = await fetch("/api/admin/pickup", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${token}`,
+                },
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            if (data.success) {
+                setResult({ ok: true, message: `Hand over order #${data.order.orderId}`, order: data.order });
+                toast.success("Pickup verified ✅");
+                setOrderId("");
+                setOtp("");
+            } else {
+                setResult({ ok: false, message: data.error || "Pickup verification failed" });
+            }
+        } catch {
+            setResult({ ok: false, message: "Network error — try again" });
+        }
+        setScanValue("");
+        setVerifying(false);
+        busyRef.current = false;
+        scanInputRef.current?.focus();
+    }, []);
+
+    // ─── Camera scanning ───
+    useEffect(() => {
+        if (!cameraOn) return;
+        const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+        if (!Detector) {
+            toast.error("Camera scanning is not supported in this browser — use a scanner or OTP");
+            setCameraOn(false);
+            return;
+        }
+
+        let stream: MediaStream | null = null;
+        let interval: ReturnType<typeof setInterval> | null = null;
+        let lastValue = "";
+        const detector = new Detector({ formats: ["qr_code"] });
+
+        navigator.mediaDevices
+            .getUserMedia({ video: { facingMode: "environment" } })
+            .then((s) => {
+                stream = s;
+                if (!videoRef.current) return;
+                videoRef.current.srcObject = s;
+                videoRef.current.play();
+                interval = setInterval(async () => {
+                    if (!videoRef.current || busyRef.current) return;
+                    try {
+                        const codes = await detector.detect(videoRef.current);
+                        const value = codes[0]?.rawValue;
+                        // Same code stays in frame after a scan — only verify new ones
+                        if (value && value !== lastValue) {
+                            lastValue = value;
+                            verify({ token: value });
+                        }
+                    } catch {
+                        // Frame not ready yet
+                    }
+                }, SCAN_INTERVAL_MS);
+            })
+            .catch(() => {
+                toast.error("Could not open the camera");
+                setCameraOn(false);
+            });
+
+        return () => {
+            if (interval) clearInterval(interval);
+            stream?.getTracks().forEach((t) => t.stop());
+        };
+    }, [cameraOn, verify]);
+
+    const submitScan = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (scanValue.trim()) verify({ token: scanValue.trim() });
+    };
+
+    const submitOtp = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!orderId.trim() || !/^\d{4}$/.test(otp)) {
+            toast.error("Enter the Order ID and 4-digit OTP");
+            return;
+        }
+        verify({ orderId: orderId.trim(), otp });
+    };
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4">
+                    <div className="max-w-3xl mx-auto flex items-center gap-3">
+                        <Link href="/admin/orders" className="text-zayko-400 hover:text-white transition-colors">
+                            ← Orders
+                        </Link>
+                        <h1 className="text-lg font-display font-bold text-white">📷 Pickup Counter</h1>
+                    </div>
+                </div>
+
+                <div className="max-w-3xl mx-auto p-6 space-y-6">
+                    {/* Result */}
+                    {result && (
+                        <div className={`rounded-2xl p-5 border animate-fade-in ${result.ok ? "bg-emerald-500/10 border-emerald-500/30" : "bg-red-500/10 border-red-500/30"}`}>
+                            <p className={`font-display font-bold text-lg ${result.ok ? "text-emerald-400" : "text-red-400"}`}>
+                                {result.ok ? "✅ " : "✗ "}{result.message}
+                            </p>
+                            {result.order && (
+                                <div className="mt-3 text-sm text-zayko-300">
+                                    <p className="text-white font-semibold mb-1">{result.order.userName} · ₹{result.order.total}</p>
+                                    {result.order.items.map((item, idx) => (
+                                        <p key={idx}>{item.quantity}× {item.name}</p>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* QR */}
+                    <div className="bg-zayko-800/50 border border-zayko-700 rounded-2xl p-5">
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="font-display font-bold text-white">Scan QR</h2>
+                            <button
+                                onClick={() => setCameraOn((v) => !v)}
+                                className="px-3 py-1.5 bg-zayko-700 hover:bg-zayko-600 text-zayko-300 text-xs font-medium rounded-lg transition-all"
+                            >
+                                {cameraOn ? "Stop camera" : "Use camera"}
+                            </button>
+                        </div>
+                        {cameraOn && (
+                            <video ref={videoRef} muted playsInline className="w-full max-h-72 object-cover rounded-xl mb-4 bg-black" />
+                        )}
+                        <form onSubmit={submitScan}>
+                            <input
+                                ref={scanInputRef}
+                                type="text"
+                                autoFocus
+                                value={scanValue}
+                                onChange={(e) => setScanValue(e.target.value)}
+                                placeholder="Focus here and scan the student's QR…"
+                                className="w-full px-4 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white placeholder-zayko-400 focus:outline-none focus:ring-2 focus:ring-gold-500 font-mono text-sm"
+                            />
+                        </form>
+                    </div>
+
+                    {/* OTP */}
+                    <form onSubmit={submitOtp} className="bg-zayko-800/50 border border-zayko-700 rounded-2xl p-5">
+                        <h2 className="font-display font-bold text-white mb-4">Enter OTP</h2>
+                        <div className="flex gap-3">
+                            <input
+                                type="text"
+                                value={orderId}
+                                onChange={(e) => setOrderId(e.target.value.toUpperCase())}
+                                placeholder="Order ID (ZKO…)"
+                                maxLength={8}
+                                className="flex-1 min-w-0 px-4 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white placeholder-zayko-400 focus:outline-none focus:ring-2 focus:ring-gold-500 font-mono uppercase"
+                            />
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={otp}
+                                onChange={(e) => setOtp(e.target.value.replace(/\D/g, "").slice(0, 4))}
+                                placeholder="OTP"
+                                className="w-28 px-4 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white placeholder-zayko-400 focus:outline-none focus:ring-2 focus:ring-gold-500 font-mono tracking-[0.3em] text-center"
+                            />
+                            <button
+                                type="submit"
+                                disabled={verifying}
+                                className="px-5 py-3 bg-gold-500 hover:bg-gold-400 text-zayko-900 font-bold rounded-xl transition-all disabled:opacity-50"
+                            >
+                                {verifying ? "..." : "Verify"}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </AdminGuard>
+    );
+}
@@ -1,16 +1,33 @@
 /**
- * Admin Settings Page — Canteen hours + open/close toggle
+ * Admin Settings Page — Canteen hours + open/close toggle + cancellation window + PIN threshold
+ * + wallet adjustment approval threshold + loyalty program + pre-order pickup slots
+ * + kitchen display stations and parallelism
  */
 
 "use client";
 import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
+import { DEFAULT_CANCEL_GRACE_MINUTES, MAX_CANCEL_GRACE_MINUTES } from "@/lib/order-lifecycle";
+import { SLOT_LENGTHS } from "@/lib/pickup-slots";
+import { MAX_KITCHEN_PARALLELISM, MAX_KITCHEN_STATIONS } from "@/lib/kitchen-display";
+import type { KitchenConfig, KitchenStation, LoyaltyConfig, PreOrderConfig } from "@/types";
 
 interface CanteenConfig {
     isOpen: boolean;
     startTime: string;
     endTime: string;
+    cancelGraceMinutes?: number;
+    pinOrderThreshold?: number;
+    adjustmentApprovalThreshold?: number;
+    loyalty?: LoyaltyConfig;
+    preOrders?: PreOrderConfig;
+    kitchen?: KitchenConfig;
+}
+
+interface CategoryOption {
+    slug: string;
+    name: string;
 }
 
 export default function AdminSettingsPage() {
@@ -18,6 +35,7 @@ export default function AdminSettingsPage() {
     const [config, setConfig] = useState<CanteenConfig>({ isOpen: true, startTime: "09:00", endTime: "17:00" });
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
+    const [categories, setCategories] = useState<CategoryOption[]>([]);
 
     const getHeaders = () => {
         const token = localStorage.getItem("adminToken");
@@ -41,8 +59,42 @@ export default function AdminSettingsPage() {
                 toast.error("Failed to load settings");
                 setLoading(false);
             });
+
+        // Category list for loyalty multipliers and kitchen stations — failures only hide them
+        fetch("/api/admin/categories", { headers: getHeaders() })
+            .then((res) => res.json())
+            .then((data) => setCategories(data.categories || []))
+            .catch(() => { });
     }, [router]);
 
+    const updateLoyalty = (patch: Partial<LoyaltyConfig>) => {
+        if (!config.loyalty) return;
+        setConfig({ ...config, loyalty: { ...config.loyalty, ...patch } });
+    };
+
+    const updatePreOrders = (patch: Partial<PreOrderConfig>) => {
+        if (!config.preOrders) return;
+        setConfig({ ...config, preOrders: { ...config.preOrders, ...patch } });
+    };
+
+    const updateKitchen = (patch: Partial<KitchenConfig>) => {
+        if (!config.kitchen) return;
+        setConfig({ ...config, kitchen: { ...config.kitchen, ...patch } });
+    };
+
+    const setStations = (stations: KitchenStation[]) => updateKitchen({ stations });
+
+    // Each category is cooked at one station — move it off any other first
+    const assignCategory = (slug: string, stationIndex: number) => {
+        if (!config.kitchen) return;
+        setStations(config.kitchen.stations.map((station, i) => ({
+            ...station,
+            categories: i === stationIndex
+                ? [...station.categories.filter((c) => c !== slug), slug]
+                : station.categories.filter((c) => c !== slug),
+        })));
+    };
+
     const saveConfig = async () => {
         setSaving(true);
         try {
@@ -54,7 +106,8 @@ export default function AdminSettingsPage() {
             if (res.ok) {
                 toast.success("Settings saved! ✅");
             } else {
-                toast.error("Failed to save");
+                const data = await res.json().catch(() => ({}));
+                toast.error(data.error || "Failed to save");
             }
         } catch {
             toast.error("Error saving settings");
@@ -129,6 +182,303 @@ export default function AdminSettingsPage() {
                         </div>
                     </div>
 
+                    {/* Cancellation Window */}
+                    <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-4">✗ Order Cancellation</h3>
+                        <label className="text-sm font-medium text-gray-700 mb-1 block">
+                            Students can cancel a pending order within (minutes)
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            max={MAX_CANCEL_GRACE_MINUTES}
+                            value={config.cancelGraceMinutes ?? DEFAULT_CANCEL_GRACE_MINUTES}
+                            onChange={(e) => setConfig({ ...config, cancelGraceMinutes: Number(e.target.value) })}
+                            className="input-field text-lg font-mono"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Set to 0 to disable self-cancellation. Confirmed orders can never be cancelled by students.</p>
+                    </div>
+
+                    {/* PIN Step-up */}
+                    <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-4">🔐 PIN Confirmation</h3>
+                        <label className="text-sm font-medium text-gray-700 mb-1 block">
+                            Ask for the PIN on orders above (₹)
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            max={5000}
+                            value={config.pinOrderThreshold ?? ""}
+                            onChange={(e) => setConfig({ ...config, pinOrderThreshold: Number(e.target.value) })}
+                            className="input-field text-lg font-mono"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Wallet transfers always need the PIN. Set to 0 to require it on every order.</p>
+                    </div>
+
+                    {/* Wallet Adjustment Approval */}
+                    <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-4">🧾 Wallet Adjustments</h3>
+                        <label className="text-sm font-medium text-gray-700 mb-1 block">
+                            Second admin must approve adjustments above (₹)
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            max={5000}
+                            value={config.adjustmentApprovalThreshold ?? ""}
+                            onChange={(e) => setConfig({ ...config, adjustmentApprovalThreshold: Number(e.target.value) })}
+                            className="input-field text-lg font-mono"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Manual credits/debits up to this amount are applied immediately. Set to 0 to always require approval.</p>
+                    </div>
+
+                    {/* Loyalty Program */}
+                    {config.loyalty && (
+                        <div>
+                            <div className="flex items-center justify-between mb-4">
+                                <h3 className="font-display font-bold text-lg text-zayko-700">🎁 Loyalty Points</h3>
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={config.loyalty.enabled}
+                                        onChange={(e) => updateLoyalty({ enabled: e.target.checked })}
+                                    />
+                                    Enabled
+                                </label>
+                            </div>
+                            <div className="grid grid-cols-2 gap-6">
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Points per ₹1 paid</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={1}
+                                        step={0.01}
+                                        value={config.loyalty.pointsPerRupee}
+                                        onChange={(e) => updateLoyalty({ pointsPerRupee: Number(e.target.value) })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Value of 1 point (₹)</label>
+                                    <input
+                                        type="number"
+                                        min={0.01}
+                                        max={10}
+                                        step={0.01}
+                                        value={config.loyalty.pointValue}
+                                        onChange={(e) => updateLoyalty({ pointValue: Number(e.target.value) })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Minimum points to redeem</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={config.loyalty.minRedeemPoints}
+                                        onChange={(e) => updateLoyalty({ minRedeemPoints: Number(e.target.value) })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Points expire after (days)</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={3650}
+                                        value={config.loyalty.expiryDays}
+                                        onChange={(e) => updateLoyalty({ expiryDays: Number(e.target.value) })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-2">
+                                Effective cashback: {Math.round(config.loyalty.pointsPerRupee * config.loyalty.pointValue * 1000) / 10}% of what students pay.
+                            </p>
+
+                            {categories.length > 0 && (
+                                <div className="mt-4">
+                                    <label className="text-sm font-medium text-gray-700 mb-2 block">Category multipliers</label>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {categories.map((c) => (
+                                            <div key={c.slug} className="flex items-center justify-between gap-3">
+                                                <span className="text-sm text-gray-700">{c.name}</span>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={10}
+                                                    step={0.5}
+                                                    value={config.loyalty!.categoryMultipliers[c.slug] ?? 1}
+                                                    onChange={(e) => updateLoyalty({
+                                                        categoryMultipliers: {
+                                                            ...config.loyalty!.categoryMultipliers,
+                                                            [c.slug]: Number(e.target.value),
+                                                        },
+                                                    })}
+                                                    className="input-field w-24 font-mono"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Pre-orders */}
+                    {config.preOrders && (
+                        <div>
+                            <div className="flex items-center justify-between mb-4">
+                                <h3 className="font-display font-bold text-lg text-zayko-700">🗓️ Pre-orders</h3>
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={config.preOrders.enabled}
+                                        onChange={(e) => updatePreOrders({ enabled: e.target.checked })}
+                                    />
+                                    Enabled
+                                </label>
+                            </div>
+                            <div className="grid grid-cols-2 gap-6">
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Slot length</label>
+                                    <select
+                                        value={config.preOrders.slotMinutes}
+                                        onChange={(e) => updatePreOrders({ slotMinutes: Number(e.target.value) })}
+                                        className="input-field text-lg font-mono"
+                                    >
+                                        {SLOT_LENGTHS.map((m) => (
+                                            <option key={m} value={m}>{m} min</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Capacity per slot</label>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={1000}
+                                            value={config.preOrders.capacity}
+                                            onChange={(e) => updatePreOrders({ capacity: Number(e.target.value) })}
+                                            className="input-field text-lg font-mono"
+                                        />
+                                        <select
+                                            value={config.preOrders.capacityUnit}
+                                            onChange={(e) => updatePreOrders({ capacityUnit: e.target.value as PreOrderConfig["capacityUnit"] })}
+                                            className="input-field"
+                                        >
+                                            <option value="orders">orders</option>
+                                            <option value="items">items</option>
+                                        </select>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Minimum lead time (minutes)</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={240}
+                                        value={config.preOrders.minLeadMinutes}
+                                        onChange={(e) => updatePreOrders({ minLeadMinutes: Number(e.target.value) })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Show in queue before slot (minutes)</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={240}
+                                        value={config.preOrders.releaseMinutes}
+                                        onChange={(e) => updatePreOrders({ releaseMinutes: Number(e.target.value) })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-2">
+                                Slots run from opening to closing time. Capacity 0 means unlimited. Students can cancel a pre-order until it shows up in the queue.
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Kitchen Stations */}
+                    {config.kitchen && (
+                        <div>
+                            <h3 className="font-display font-bold text-lg text-zayko-700 mb-4">👨‍🍳 Kitchen</h3>
+                            <div className="mb-4">
+                                <label className="text-sm font-medium text-gray-700 mb-1 block">Orders cooked at once</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_KITCHEN_PARALLELISM}
+                                    value={config.kitchen.parallelism}
+                                    onChange={(e) => updateKitchen({ parallelism: Number(e.target.value) })}
+                                    className="input-field text-lg font-mono w-32"
+                                />
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Used with each item&apos;s preparation time and the queue to estimate when orders will be ready.
+                                </p>
+                            </div>
+                            <label className="text-sm font-medium text-gray-700 mb-2 block">Stations</label>
+                            <div className="space-y-3">
+                                {config.kitchen.stations.map((station, idx) => (
+                                    <div key={idx} className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={station.name}
+                                            maxLength={30}
+                                            onChange={(e) => setStations(config.kitchen!.stations.map((s, i) => (i === idx ? { ...s, name: e.target.value } : s)))}
+                                            placeholder="e.g. Tandoor"
+                                            className="input-field"
+                                        />
+                                        <button
+                                            onClick={() => setStations(config.kitchen!.stations.filter((_, i) => i !== idx))}
+                                            className="px-3 text-gray-400 hover:text-red-500"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                ))}
+                                {config.kitchen.stations.length < MAX_KITCHEN_STATIONS && (
+                                    <button
+                                        onClick={() => setStations([...config.kitchen!.stations, { id: "", name: "", categories: [] }])}
+                                        className="text-sm font-medium text-zayko-600 hover:text-zayko-800"
+                                    >
+                                        + Add station
+                                    </button>
+                                )}
+                            </div>
+                            {categories.length > 0 && config.kitchen.stations.length > 0 && (
+                                <div className="mt-4">
+                                    <label className="text-sm font-medium text-gray-700 mb-2 block">Cooked at</label>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {categories.map((c) => (
+                                            <div key={c.slug} className="flex items-center justify-between gap-3">
+                                                <span className="text-sm text-gray-700">{c.name}</span>
+                                                <select
+                                                    value={config.kitchen!.stations.findIndex((s) => s.categories.includes(c.slug))}
+                                                    onChange={(e) => assignCategory(c.slug, Number(e.target.value))}
+                                                    className="input-field w-36"
+                                                >
+                                                    <option value={-1}>General</option>
+                                                    {config.kitchen!.stations.map((s, i) => (
+                                                        <option key={i} value={i}>{s.name || `Station ${i + 1}`}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            <p className="text-xs text-gray-500 mt-2">
+                                The kitchen display groups items by station. Categories not assigned to a station show under General.
+                            </p>
+                        </div>
+                    )}
+
                     {/* Save Button */}
                     <button
                         onClick={saveConfig}
@@ -0,0 +1,362 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import type { WalletAdjustment, WalletAdjustmentReason, WalletAdjustmentStatus } from "@/types";
+
+const REASONS: Record<WalletAdjustmentReason, string> = {
+    goodwill: "Goodwill",
+    correction: "Correction",
+    cash_deposit: "Cash deposit",
+    complaint_compensation: "Complaint compensation",
+};
+
+const STATUS_STYLES: Record<WalletAdjustmentStatus, string> = {
+    pending: "bg-amber-500/20 text-amber-400",
+    applied: "bg-emerald-500/20 text-emerald-400",
+    rejected: "bg-red-500/20 text-red-400",
+};
+
+interface AdjustmentUser {
+    id: string;
+    name: string;
+    email: string;
+    uniqueCode: string;
+    walletBalance: number;
+}
+
+const EMPTY_FORM = {
+    direction: "credit" as WalletAdjustment["direction"],
+    amount: "",
+    reason: "goodwill" as WalletAdjustmentReason,
+    note: "",
+    orderId: "",
+    feedbackId: "",
+};
+
+export default function AdminWalletAdjustmentsPage() {
+    const [pending, setPending] = useState<WalletAdjustment[]>([]);
+    const [history, setHistory] = useState<WalletAdjustment[]>([]);
+    const [approvalThreshold, setApprovalThreshold] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [lookup, setLookup] = useState("");
+    const [selectedUser, setSelectedUser] = useState<AdjustmentUser | null>(null);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [submitting, setSubmitting] = useState(false);
+    const [updating, setUpdating] = useState<string | null>(null);
+
+    const getHeaders = () => ({
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
+    });
+
+    const fetchAdjustments = useCallback(async (userQuery: string) => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (userQuery.trim()) params.set("user", userQuery.trim());
+
+            const res = await fetch(`/api/admin/wallet/adjustments?${params}`, { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setPending(data.pending);
+                setHistory(data.history);
+                setApprovalThreshold(data.approvalThreshold);
+                setSelectedUser(data.user || null);
+            } else {
+                toast.error(data.error || "Failed to load adjustments");
+                setSelectedUser(null);
+            }
+        } catch {
+            toast.error("Network error loading adjustments");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchAdjustments("");
+    }, [fetchAdjustments]);
+
+    // ─── New Adjustment ───
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedUser) return;
+
+        const amount = Number(form.amount);
+        if (!amount || amount <= 0) {
+            toast.error("Enter a valid amount");
+            return;
+        }
+        const verb = form.direction === "credit" ? "Credit" : "Debit";
+        if (!confirm(`${verb} ₹${amount} ${form.direction === "credit" ? "to" : "from"} ${selectedUser.name || selectedUser.email} (${REASONS[form.reason]})?`)) return;
+
+        setSubmitting(true);
+        try {
+            const res = await fetch("/api/admin/wallet/adjustments", {
+                method: "POST",
+                headers: getHeaders(),
+                body: JSON.stringify({ ...form, amount, userId: selectedUser.id }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success(data.message);
+                setForm(EMPTY_FORM);
+                await fetchAdjustments(selectedUser.id);
+            } else {
+                toast.error(data.error || "Adjustment failed");
+            }
+        } catch {
+            toast.error("Network error recording adjustment");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // ─── Approval Queue ───
+    const updateAdjustment = async (adjustment: WalletAdjustment, action: "approve" | "reject") => {
+        const body: Record<string, string> = { adjustmentId: adjustment.id, action };
+
+        if (action === "approve") {
+            if (!confirm(`Approve ${adjustment.direction} of ₹${adjustment.amount} requested by ${adjustment.requestedBy}?`)) return;
+        } else {
+            const reason = prompt("Reason for rejecting this adjustment:");
+            if (!reason || reason.trim().length < 3) return;
+            body.reason = reason.trim();
+        }
+
+        setUpdating(adjustment.id);
+        try {
+            const res = await fetch("/api/admin/wallet/adjustments", {
+                method: "PATCH",
+                headers: getHeaders(),
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success(action === "approve" ? "Adjustment approved and applied" : "Adjustment rejected");
+                await fetchAdjustments(selectedUser?.id || "");
+            } else {
+                toast.error(data.error || "Update failed");
+            }
+        } catch {
+            toast.error("Network error updating adjustment");
+        } finally {
+            setUpdating(null);
+        }
+    };
+
+    const renderRow = (a: WalletAdjustment, showActions: boolean) => (
+        <tr key={a.id} className="border-b border-zayko-700/50 last:border-0 align-top">
+            <td className="py-4 text-sm text-zayko-300 whitespace-nowrap">
+                {new Date(a.requestedAt).toLocaleString()}
+                <span className="block text-xs text-zayko-500">by {a.requestedBy}</span>
+            </td>
+            <td className="py-4 text-xs text-zayko-500 font-mono">{a.userId}</td>
+            <td className="py-4 text-sm text-zayko-300">
+                {REASONS[a.reason]}
+                {a.note && <span className="block text-xs text-zayko-500">{a.note}</span>}
+                {a.orderId && <span className="block text-xs text-zayko-500">Order {a.orderId}</span>}
+                {a.feedbackId && <span className="block text-xs text-zayko-500">Feedback {a.feedbackId}</span>}
+            </td>
+            <td className={`py-4 text-right font-medium ${a.direction === "credit" ? "text-emerald-400" : "text-red-400"}`}>
+                {a.direction === "credit" ? "+" : "−"}₹{a.amount.toFixed(2)}
+            </td>
+            <td className="py-4">
+                <span className={`text-xs px-2 py-1 rounded-md font-semibold ${STATUS_STYLES[a.status]}`}>{a.status}</span>
+                {a.approvedBy && <span className="block text-xs text-zayko-500 mt-1">approved by {a.approvedBy}</span>}
+                {a.rejectedBy && (
+                    <span className="block text-xs text-zayko-500 mt-1">by {a.rejectedBy}: {a.rejectionReason}</span>
+                )}
+            </td>
+            {showActions && (
+                <td className="py-4 text-right space-x-2 whitespace-nowrap">
+                    <button
+                        onClick={() => updateAdjustment(a, "approve")}
+                        disabled={updating !== null}
+                        className="text-xs px-3 py-1.5 bg-emerald-500/20 text-emerald-400 rounded-lg hover:bg-emerald-500/30 disabled:opacity-50"
+                    >
+                        Approve
+                    </button>
+                    <button
+                        onClick={() => updateAdjustment(a, "reject")}
+                        disabled={updating !== null}
+                        className="text-xs px-3 py-1.5 bg-red-500/10 text-red-400 rounded-lg hover:bg-red-500/20 disabled:opacity-50"
+                    >
+                        Reject
+                    </button>
+                </td>
+            )}
+        </tr>
+    );
+
+    const tableHead = (showActions: boolean) => (
+        <thead>
+            <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                <th className="pb-3 font-medium">Requested</th>
+                <th className="pb-3 font-medium">User</th>
+                <th className="pb-3 font-medium">Reason</th>
+                <th className="pb-3 font-medium text-right">Amount</th>
+                <th className="pb-3 font-medium">Status</th>
+                {showActions && <th className="pb-3 font-medium text-right">Actions</th>}
+            </tr>
+        </thead>
+    );
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-7xl mx-auto flex items-center gap-3">
+                        <Link href="/admin/wallet" className="text-zayko-400 hover:text-white transition-colors">
+                            ← Wallet
+                        </Link>
+                        <h1 className="text-xl font-display font-bold text-white">🧾 Wallet Adjustments</h1>
+                    </div>
+                </div>
+
+                <div className="max-w-7xl mx-auto px-6 mt-8 space-y-6">
+                    {/* User Lookup */}
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            fetchAdjustments(lookup);
+                        }}
+                        className="flex flex-wrap gap-3"
+                    >
+                        <input
+                            value={lookup}
+                            onChange={(e) => setLookup(e.target.value)}
+                            placeholder="User ID, unique code or email"
+                            className="flex-1 min-w-[240px] bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                        />
+                        <button
+                            type="submit"
+                            className="px-4 py-2 bg-gold-500/20 text-gold-400 border border-gold-500/30 rounded-lg hover:bg-gold-500/30"
+                        >
+                            Find user
+                        </button>
+                    </form>
+
+                    {/* Adjustment Form */}
+                    {selectedUser && (
+                        <form onSubmit={handleSubmit} className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md space-y-4">
+                            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                                <h3 className="text-white font-display font-bold text-lg">
+                                    {selectedUser.name || selectedUser.email}
+                                    <span className="ml-2 text-xs text-zayko-500 font-mono">{selectedUser.uniqueCode || selectedUser.id}</span>
+                                </h3>
+                                <span className="text-sm text-zayko-300">Balance ₹{selectedUser.walletBalance.toFixed(2)}</span>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div className="flex rounded-lg overflow-hidden border border-zayko-700">
+                                    {(["credit", "debit"] as const).map((d) => (
+                                        <button
+                                            key={d}
+                                            type="button"
+                                            onClick={() => setForm({ ...form, direction: d, reason: d === "debit" && form.reason === "cash_deposit" ? "correction" : form.reason })}
+                                            className={`flex-1 py-2 text-sm font-semibold capitalize ${form.direction === d ? (d === "credit" ? "bg-emerald-500/20 text-emerald-400" : "bg-red-500/20 text-red-400") : "bg-zayko-800 text-zayko-400"}`}
+                                        >
+                                            {d}
+                                        </button>
+                                    ))}
+                                </div>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={5000}
+                                    step="0.01"
+                                    value={form.amount}
+                                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                                    placeholder="Amount (₹)"
+                                    className="bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                />
+                                <select
+                                    value={form.reason}
+                                    onChange={(e) => setForm({ ...form, reason: e.target.value as WalletAdjustmentReason })}
+                                    className="bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg"
+                                >
+                                    {(Object.keys(REASONS) as WalletAdjustmentReason[])
+                                        .filter((r) => form.direction === "credit" || r !== "cash_deposit")
+                                        .map((r) => (
+                                            <option key={r} value={r}>{REASONS[r]}</option>
+                                        ))}
+                                </select>
+                                <input
+                                    value={form.orderId}
+                                    onChange={(e) => setForm({ ...form, orderId: e.target.value })}
+                                    placeholder="Linked order ID (optional)"
+                                    className="bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                />
+                                <input
+                                    value={form.feedbackId}
+                                    onChange={(e) => setForm({ ...form, feedbackId: e.target.value })}
+                                    placeholder="Linked feedback ID (optional)"
+                                    className="bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                />
+                                <input
+                                    value={form.note}
+                                    onChange={(e) => setForm({ ...form, note: e.target.value })}
+                                    placeholder="Note (optional)"
+                                    maxLength={300}
+                                    className="bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                />
+                            </div>
+
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <p className="text-xs text-zayko-500">
+                                    {approvalThreshold !== null && Number(form.amount) > approvalThreshold
+                                        ? `Above ₹${approvalThreshold} — another admin must approve before it is applied.`
+                                        : "Applied immediately and logged under your admin account."}
+                                </p>
+                                <button
+                                    type="submit"
+                                    disabled={submitting}
+                                    className="px-6 py-2 btn-gold disabled:opacity-50"
+                                >
+                                    {submitting ? "Saving..." : "Record adjustment"}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    {/* Pending Approval */}
+                    {pending.length > 0 && (
+                        <div className="bg-zayko-800/50 border border-gold-500/30 rounded-3xl p-6 backdrop-blur-md overflow-x-auto">
+                            <h3 className="text-white font-display font-bold text-lg mb-6">
+                                ⏳ Awaiting Approval ({pending.length})
+                            </h3>
+                            <table className="w-full text-left border-collapse">
+                                {tableHead(true)}
+                                <tbody>{pending.map((a) => renderRow(a, true))}</tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {/* History */}
+                    <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md overflow-x-auto">
+                        <h3 className="text-white font-display font-bold text-lg mb-6">
+                            {selectedUser ? "Adjustments for this user" : "Recent Adjustments"}
+                        </h3>
+                        {loading ? (
+                            <div className="flex items-center justify-center py-12">
+                                <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                            </div>
+                        ) : history.length === 0 ? (
+                            <div className="text-center py-6 text-zayko-500">No adjustments yet.</div>
+                        ) : (
+                            <table className="w-full text-left border-collapse">
+                                {tableHead(false)}
+                                <tbody>{history.map((a) => renderRow(a, false))}</tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </AdminGuard>
+    );
+}
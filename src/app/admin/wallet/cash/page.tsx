@@ -0,0 +1,395 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import CashDepositSlip from "@/components/CashDepositSlip";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import type { CashDeposit, CashDepositStatus, CashDrawerDay } from "@/types";
+
+const STATUS_STYLES: Record<CashDepositStatus, string> = {
+    awaiting_confirmation: "bg-amber-500/20 text-amber-400",
+    confirmed: "bg-emerald-500/20 text-emerald-400",
+    declined: "bg-red-500/20 text-red-400",
+    cancelled: "bg-zayko-700 text-zayko-400",
+    expired: "bg-zayko-700 text-zayko-500",
+};
+
+interface Student {
+    id: string;
+    name: string;
+    email: string;
+    uniqueCode: string;
+    rollNumber: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+/** Unconfirmed deposits past their window are expired even before anyone touches them */
+const displayStatus = (d: CashDeposit): CashDepositStatus =>
+    d.status === "awaiting_confirmation" && d.expiresAt < new Date().toISOString() ? "expired" : d.status;
+
+export default function AdminCashDepositsPage() {
+    const [date, setDate] = useState(today);
+    const [deposits, setDeposits] = useState<CashDeposit[]>([]);
+    const [drawer, setDrawer] = useState<CashDrawerDay | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [lookup, setLookup] = useState("");
+    const [student, setStudent] = useState<Student | null>(null);
+    const [amount, setAmount] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    const [slip, setSlip] = useState<CashDeposit | null>(null);
+    const [countedAmount, setCountedAmount] = useState("");
+    const [closingNote, setClosingNote] = useState("");
+    const [closing, setClosing] = useState(false);
+
+    const getHeaders = () => ({
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
+    });
+
+    const fetchDeposits = useCallback(async (day: string, quiet = false) => {
+        if (!quiet) setLoading(true);
+        try {
+            const res = await fetch(`/api/admin/wallet/cash-deposits?date=${day}`, { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setDeposits(data.deposits);
+                setDrawer(data.drawer);
+            } else if (!quiet) {
+                toast.error(data.error || "Failed to load cash deposits");
+            }
+        } catch {
+            if (!quiet) toast.error("Network error loading cash deposits");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchDeposits(date);
+    }, [date, fetchDeposits]);
+
+    // Poll while a student still has to confirm on their device
+    const waiting = deposits.some((d) => displayStatus(d) === "awaiting_confirmation");
+    useEffect(() => {
+        if (!waiting) return;
+        const timer = setInterval(() => fetchDeposits(date, true), 4000);
+        return () => clearInterval(timer);
+    }, [waiting, date, fetchDeposits]);
+
+    // ─── Student Lookup ───
+    const findStudent = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!lookup.trim()) return;
+        try {
+            const res = await fetch(`/api/admin/wallet/cash-deposits?student=${encodeURIComponent(lookup.trim())}`, { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setStudent(data.student);
+            } else {
+                setStudent(null);
+                toast.error(data.error || "Student not found");
+            }
+        } catch {
+            toast.error("Network error looking up student");
+        }
+    };
+
+    // ─── Take Cash ───
+    const openDeposit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!student) return;
+        const value = Number(amount);
+        if (!value || value <= 0) {
+            toast.error("Enter the cash amount received");
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const res = await fetch("/api/admin/wallet/cash-deposits", {
+                method: "POST",
+                headers: getHeaders(),
+                body: JSON.stringify({ userId: student.id, amount: value }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success(data.message);
+                setStudent(null);
+                setLookup("");
+                setAmount("");
+                setDate(today());
+                await fetchDeposits(today(), true);
+            } else {
+                toast.error(data.error || "Failed to open deposit");
+            }
+        } catch {
+            toast.error("Network error opening deposit");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const cancelDeposit = async (deposit: CashDeposit) => {
+        if (!confirm(`Cancel the ₹${deposit.amount} deposit for ${deposit.userName}? Hand the cash back.`)) return;
+        try {
+            const res = await fetch("/api/admin/wallet/cash-deposits", {
+                method: "PATCH",
+                headers: getHeaders(),
+                body: JSON.stringify({ depositId: deposit.id, action: "cancel" }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success("Deposit cancelled");
+                await fetchDeposits(date, true);
+            } else {
+                toast.error(data.error || "Failed to cancel deposit");
+            }
+        } catch {
+            toast.error("Network error cancelling deposit");
+        }
+    };
+
+    // ─── End of Day ───
+    const closeDrawer = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const counted = Number(countedAmount);
+        if (countedAmount === "" || !Number.isFinite(counted) || counted < 0) {
+            toast.error("Enter the counted cash");
+            return;
+        }
+        if (!confirm(`Close the cash drawer for ${date} with ₹${counted} counted?`)) return;
+
+        setClosing(true);
+        try {
+            const res = await fetch("/api/admin/wallet/cash-drawer", {
+                method: "POST",
+                headers: getHeaders(),
+                body: JSON.stringify({ date, countedAmount: counted, note: closingNote }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                const variance = data.drawer.variance;
+                toast.success(variance === 0 ? "Drawer closed — cash matches ✅" : `Drawer closed with a ₹${variance} variance`);
+                setCountedAmount("");
+                setClosingNote("");
+                await fetchDeposits(date, true);
+            } else {
+                toast.error(data.error || "Failed to close drawer");
+            }
+        } catch {
+            toast.error("Network error closing drawer");
+        } finally {
+            setClosing(false);
+        }
+    };
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-7xl mx-auto flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin/wallet" className="text-zayko-400 hover:text-white transition-colors">
+                                ← Wallet
+                            </Link>
+                            <h1 className="text-xl font-display font-bold text-white">💵 Counter Cash</h1>
+                        </div>
+                        <input
+                            type="date"
+                            value={date}
+                            max={today()}
+                            onChange={(e) => e.target.value && setDate(e.target.value)}
+                            className="bg-zayko-800 border border-zayko-700 text-white px-3 py-2 rounded-lg"
+                        />
+                    </div>
+                </div>
+
+                <div className="max-w-7xl mx-auto px-6 mt-8 space-y-6">
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {/* Take Cash */}
+                        <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md space-y-4">
+                            <h3 className="text-white font-display font-bold text-lg">Take a cash deposit</h3>
+                            <form onSubmit={findStudent} className="flex gap-3">
+                                <input
+                                    value={lookup}
+                                    onChange={(e) => setLookup(e.target.value)}
+                                    placeholder="Student code or roll number"
+                                    className="flex-1 min-w-0 bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                />
+                                <button
+                                    type="submit"
+                                    className="px-4 py-2 bg-gold-500/20 text-gold-400 border border-gold-500/30 rounded-lg hover:bg-gold-500/30"
+                                >
+                                    Find
+                                </button>
+                            </form>
+
+                            {student && (
+                                <form onSubmit={openDeposit} className="space-y-3">
+                                    <div className="p-4 rounded-2xl bg-zayko-900/60 border border-zayko-700">
+                                        <p className="text-white font-bold">{student.name || student.email}</p>
+                                        <p className="text-xs text-zayko-400">
+                                            {student.uniqueCode}
+                                            {student.rollNumber && ` · Roll ${student.rollNumber}`}
+                                            {student.email && ` · ${student.email}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-3">
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={5000}
+                                            value={amount}
+                                            onChange={(e) => setAmount(e.target.value)}
+                                            placeholder="Cash received (₹)"
+                                            className="flex-1 min-w-0 bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={submitting}
+                                            className="px-6 py-2 btn-gold disabled:opacity-50"
+                                        >
+                                            {submitting ? "..." : "Send for confirmation"}
+                                        </button>
+                                    </div>
+                                    <p className="text-xs text-zayko-500">
+                                        The wallet is credited once the student taps Confirm in their Wallet (within 10 minutes).
+                                    </p>
+                                </form>
+                            )}
+                        </div>
+
+                        {/* Cash Drawer */}
+                        <div className="bg-gradient-to-br from-gold-500/20 to-purple-600/20 border border-gold-500/30 rounded-3xl p-6 backdrop-blur-xl space-y-4">
+                            <div className="flex items-baseline justify-between">
+                                <h3 className="text-gold-200 font-medium tracking-wide text-sm uppercase">Cash Drawer · {date}</h3>
+                                <span className="text-xs text-zayko-400">{drawer?.depositCount || 0} deposits</span>
+                            </div>
+                            <div className="text-5xl font-display font-bold text-white tracking-tight">
+                                ₹{(drawer?.expectedTotal || 0).toFixed(2)}
+                            </div>
+                            {(drawer?.lateTotal || 0) > 0 && (
+                                <p className="text-sm text-amber-400">+ ₹{drawer!.lateTotal!.toFixed(2)} confirmed after closing</p>
+                            )}
+
+                            {drawer?.closedAt ? (
+                                <div className="text-sm text-zayko-300 space-y-1">
+                                    <p>
+                                        Closed by <span className="text-white">{drawer.closedBy}</span> at {new Date(drawer.closedAt).toLocaleTimeString()}
+                                    </p>
+                                    <p>
+                                        Counted ₹{(drawer.countedAmount || 0).toFixed(2)} ·{" "}
+                                        <span className={drawer.variance ? "text-red-400 font-bold" : "text-emerald-400 font-bold"}>
+                                            variance ₹{(drawer.variance || 0).toFixed(2)}
+                                        </span>
+                                    </p>
+                                    {drawer.closingNote && <p className="text-xs text-zayko-500">{drawer.closingNote}</p>}
+                                </div>
+                            ) : (
+                                <form onSubmit={closeDrawer} className="space-y-3">
+                                    <div className="flex gap-3">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            value={countedAmount}
+                                            onChange={(e) => setCountedAmount(e.target.value)}
+                                            placeholder="Counted cash (₹)"
+                                            className="flex-1 min-w-0 bg-zayko-900/60 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={closing || waiting}
+                                            className="px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg border border-zayko-600 disabled:opacity-50"
+                                        >
+                                            {closing ? "..." : "Close drawer"}
+                                        </button>
+                                    </div>
+                                    <input
+                                        value={closingNote}
+                                        onChange={(e) => setClosingNote(e.target.value)}
+                                        placeholder="Note (optional)"
+                                        maxLength={300}
+                                        className="w-full bg-zayko-900/60 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                                    />
+                                    {waiting && <p className="text-xs text-amber-400">Waiting for students to confirm before closing.</p>}
+                                </form>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Deposits */}
+                    <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md overflow-x-auto">
+                        {loading ? (
+                            <div className="flex items-center justify-center py-12">
+                                <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                            </div>
+                        ) : deposits.length === 0 ? (
+                            <div className="text-center py-6 text-zayko-500">No cash deposits on {date}.</div>
+                        ) : (
+                            <table className="w-full text-left border-collapse">
+                                <thead>
+                                    <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                        <th className="pb-3 font-medium">Time</th>
+                                        <th className="pb-3 font-medium">Slip</th>
+                                        <th className="pb-3 font-medium">Student</th>
+                                        <th className="pb-3 font-medium text-right">Amount</th>
+                                        <th className="pb-3 font-medium">Status</th>
+                                        <th className="pb-3 font-medium text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {deposits.map((d) => {
+                                        const status = displayStatus(d);
+                                        return (
+                                            <tr key={d.id} className="border-b border-zayko-700/50 last:border-0 align-top">
+                                                <td className="py-4 text-sm text-zayko-300 whitespace-nowrap">
+                                                    {new Date(d.createdAt).toLocaleTimeString()}
+                                                    <span className="block text-xs text-zayko-500">by {d.receivedBy}</span>
+                                                </td>
+                                                <td className="py-4 text-xs text-zayko-300 font-mono">{d.slipNumber}</td>
+                                                <td className="py-4 text-sm text-zayko-300">
+                                                    {d.userName}
+                                                    <span className="block text-xs text-zayko-500">
+                                                        {d.userUniqueCode}{d.userRollNumber && ` · ${d.userRollNumber}`}
+                                                    </span>
+                                                </td>
+                                                <td className="py-4 text-right text-white">₹{d.amount.toFixed(2)}</td>
+                                                <td className="py-4">
+                                                    <span className={`text-xs px-2 py-1 rounded-md font-semibold ${STATUS_STYLES[status]}`}>
+                                                        {status.replace(/_/g, " ")}
+                                                    </span>
+                                                </td>
+                                                <td className="py-4 text-right space-x-2 whitespace-nowrap">
+                                                    <button
+                                                        onClick={() => setSlip(d)}
+                                                        className="text-xs px-3 py-1.5 bg-zayko-700 text-zayko-200 rounded-lg hover:bg-zayko-600"
+                                                    >
+                                                        🧾 Slip
+                                                    </button>
+                                                    {status === "awaiting_confirmation" && (
+                                                        <button
+                                                            onClick={() => cancelDeposit(d)}
+                                                            className="text-xs px-3 py-1.5 bg-red-500/10 text-red-400 rounded-lg hover:bg-red-500/20"
+                                                        >
+                                                            Cancel
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+
+                {slip && <CashDepositSlip deposit={slip} onClose={() => setSlip(null)} />}
+            </div>
+        </AdminGuard>
+    );
+}
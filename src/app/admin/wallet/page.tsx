@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useState, useMemo } from "react";
+import React, { useCallback, useEffect, useState, useMemo } from "react";
 import AdminGuard from "@/components/AdminGuard";
 import { db } from "@/lib/firebase";
 import { doc, onSnapshot, collection, query, orderBy, limit } from "firebase/firestore";
@@ -16,10 +16,12 @@ import {
     ResponsiveContainer,
 } from "recharts";
 import { Parser } from "@json2csv/plainjs";
+import type { PayoutDetails, Withdrawal } from "@/types";
 
 interface CanteenWallet {
     totalBalance: number;
     pendingAmount: number;
+    reservedAmount?: number; // Requested/approved withdrawals awaiting payout
     todayCollection: number;
     todayDate: string;
     lastUpdated: string;
@@ -41,6 +43,30 @@ export default function AdminWalletPage() {
     const [withdrawAmount, setWithdrawAmount] = useState("");
     const [withdrawing, setWithdrawing] = useState(false);
     const [showWithdraw, setShowWithdraw] = useState(false);
+    const [payoutMethod, setPayoutMethod] = useState<PayoutDetails["method"]>("upi");
+    const [payoutFields, setPayoutFields] = useState({ upiId: "", accountName: "", accountNumber: "", ifsc: "", bankName: "" });
+    const [withdrawNote, setWithdrawNote] = useState("");
+    const [pendingWithdrawals, setPendingWithdrawals] = useState<Withdrawal[]>([]);
+    const [updatingWithdrawal, setUpdatingWithdrawal] = useState<string | null>(null);
+
+    const getHeaders = () => ({
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
+    });
+
+    const fetchWithdrawals = useCallback(async () => {
+        try {
+            const res = await fetch("/api/admin/wallet/withdraw", { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) setPendingWithdrawals(data.pending);
+        } catch {
+            // Queue is secondary — the wallet listeners still work
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchWithdrawals();
+    }, [fetchWithdrawals]);
 
     // ─── Real-time Listeners ───
     useEffect(() => {
@@ -109,22 +135,31 @@ export default function AdminWalletPage() {
             return;
         }
 
+        const payout = payoutMethod === "upi"
+            ? { method: "upi", upiId: payoutFields.upiId }
+            : {
+                method: "bank",
+                accountName: payoutFields.accountName,
+                accountNumber: payoutFields.accountNumber,
+                ifsc: payoutFields.ifsc,
+                bankName: payoutFields.bankName,
+            };
+
         setWithdrawing(true);
         try {
             const res = await fetch("/api/admin/wallet/withdraw", {
                 method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
-                },
-                body: JSON.stringify({ amount }),
+                headers: getHeaders(),
+                body: JSON.stringify({ amount, payout, note: withdrawNote }),
             });
             const data = await res.json();
 
             if (res.ok) {
-                toast.success("Withdrawal successful! 🎉");
+                toast.success("Withdrawal requested — another admin must approve it");
                 setShowWithdraw(false);
                 setWithdrawAmount("");
+                setWithdrawNote("");
+                await fetchWithdrawals();
             } else {
                 toast.error(data.error || "Withdrawal failed");
             }
@@ -135,6 +170,49 @@ export default function AdminWalletPage() {
         }
     };
 
+    // ─── Withdrawal Approval Queue ───
+    const updateWithdrawal = async (withdrawal: Withdrawal, action: "approve" | "mark_paid" | "reject") => {
+        const body: Record<string, string> = { withdrawalId: withdrawal.id, action };
+
+        if (action === "approve") {
+            if (!confirm(`Approve withdrawal of ₹${withdrawal.amount.toFixed(2)} requested by ${withdrawal.requestedBy}?`)) return;
+        } else if (action === "mark_paid") {
+            const ref = prompt("Payout reference (UTR / UPI transaction ID):");
+            if (!ref || ref.trim().length < 4) return;
+            body.payoutReference = ref.trim();
+        } else {
+            const reason = prompt("Reason for rejecting this withdrawal:");
+            if (!reason || reason.trim().length < 3) return;
+            body.reason = reason.trim();
+        }
+
+        setUpdatingWithdrawal(withdrawal.id);
+        try {
+            const res = await fetch("/api/admin/wallet/withdraw", {
+                method: "PATCH",
+                headers: getHeaders(),
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success(action === "approve" ? "Withdrawal approved" : action === "mark_paid" ? "Marked as paid ✅" : "Withdrawal rejected");
+                await fetchWithdrawals();
+            } else {
+                toast.error(data.error || "Update failed");
+            }
+        } catch {
+            toast.error("Network error updating withdrawal");
+        } finally {
+            setUpdatingWithdrawal(null);
+        }
+    };
+
+    const describePayout = (payout?: PayoutDetails) => {
+        if (!payout) return "—";
+        if (payout.method === "upi") return `UPI · ${payout.upiId}`;
+        return `${payout.bankName || "Bank"} · ${payout.accountName} · ••••${payout.accountNumber.slice(-4)} · ${payout.ifsc}`;
+    };
+
     // ─── CSV Export ───
     const exportCSV = () => {
         try {
@@ -179,12 +257,38 @@ export default function AdminWalletPage() {
                             </Link>
                             <h1 className="text-xl font-display font-bold text-white">💰 Canteen Wallet</h1>
                         </div>
-                        <button
-                            onClick={exportCSV}
-                            className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600"
-                        >
-                            📥 Export CSV
-                        </button>
+                        <div className="flex items-center gap-3">
+                            <Link
+                                href="/admin/wallet/reconcile"
+                                className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600"
+                            >
+                                🧮 Reconcile
+                            </Link>
+                            <Link
+                                href="/admin/wallet/cash"
+                                className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600"
+                            >
+                                💵 Counter Cash
+                            </Link>
+                            <Link
+                                href="/admin/wallet/adjustments"
+                                className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600"
+                            >
+                                🧾 Adjustments
+                            </Link>
+                            <Link
+                                href="/admin/wallet/topups"
+                                className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600"
+                            >
+                                💳 Top-ups
+                            </Link>
+                            <button
+                                onClick={exportCSV}
+                                className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600"
+                            >
+                                📥 Export CSV
+                            </button>
+                        </div>
                     </div>
                 </div>
 
@@ -198,6 +302,11 @@ export default function AdminWalletPage() {
                             <div className="mt-4 text-5xl font-display font-bold text-white tracking-tight">
                                 ₹{wallet?.totalBalance?.toFixed(2) || "0.00"}
                             </div>
+                            {(wallet?.reservedAmount || 0) > 0 && (
+                                <p className="mt-2 text-sm text-gold-200/70">
+                                    ₹{wallet!.reservedAmount!.toFixed(2)} reserved for pending withdrawals
+                                </p>
+                            )}
                             <button
                                 onClick={() => setShowWithdraw(true)}
                                 className="mt-6 w-full btn-gold py-3 shadow-[0_0_20px_rgba(255,215,0,0.2)]"
@@ -231,6 +340,75 @@ export default function AdminWalletPage() {
                         </div>
                     </div>
 
+                    {/* Pending Withdrawals */}
+                    {pendingWithdrawals.length > 0 && (
+                        <div className="bg-zayko-800/50 border border-gold-500/30 rounded-3xl p-6 backdrop-blur-md">
+                            <h3 className="text-white font-display font-bold text-lg mb-6">
+                                🏦 Pending Withdrawals ({pendingWithdrawals.length})
+                            </h3>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left border-collapse">
+                                    <thead>
+                                        <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                            <th className="pb-3 font-medium">Requested</th>
+                                            <th className="pb-3 font-medium">Payout to</th>
+                                            <th className="pb-3 font-medium">Status</th>
+                                            <th className="pb-3 font-medium text-right">Amount</th>
+                                            <th className="pb-3 font-medium text-right">Actions</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {pendingWithdrawals.map((w) => (
+                                            <tr key={w.id} className="border-b border-zayko-700/50 last:border-0 align-top">
+                                                <td className="py-4 text-sm text-zayko-300">
+                                                    {new Date(w.requestedAt).toLocaleString()}
+                                                    <span className="block text-xs text-zayko-500">by {w.requestedBy}</span>
+                                                </td>
+                                                <td className="py-4 text-sm text-zayko-300">
+                                                    {describePayout(w.payout)}
+                                                    {w.note && <span className="block text-xs text-zayko-500">{w.note}</span>}
+                                                </td>
+                                                <td className="py-4">
+                                                    <span className={`inline-flex px-2.5 py-1 rounded-full text-xs font-semibold ${w.status === "approved" ? "bg-emerald-500/10 text-emerald-400 border border-emerald-500/20" : "bg-amber-500/10 text-amber-400 border border-amber-500/20"}`}>
+                                                        {w.status.toUpperCase()}
+                                                    </span>
+                                                    {w.approvedBy && <span className="block text-xs text-zayko-500 mt-1">by {w.approvedBy}</span>}
+                                                </td>
+                                                <td className="py-4 text-right font-medium text-white">₹{w.amount.toFixed(2)}</td>
+                                                <td className="py-4 text-right space-x-2 whitespace-nowrap">
+                                                    {w.status === "requested" ? (
+                                                        <button
+                                                            onClick={() => updateWithdrawal(w, "approve")}
+                                                            disabled={updatingWithdrawal !== null}
+                                                            className="text-xs px-3 py-1.5 bg-emerald-500/20 text-emerald-400 rounded-lg hover:bg-emerald-500/30 disabled:opacity-50"
+                                                        >
+                                                            Approve
+                                                        </button>
+                                                    ) : (
+                                                        <button
+                                                            onClick={() => updateWithdrawal(w, "mark_paid")}
+                                                            disabled={updatingWithdrawal !== null}
+                                                            className="text-xs px-3 py-1.5 bg-gold-500/20 text-gold-400 rounded-lg hover:bg-gold-500/30 disabled:opacity-50"
+                                                        >
+                                                            Mark paid
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        onClick={() => updateWithdrawal(w, "reject")}
+                                                        disabled={updatingWithdrawal !== null}
+                                                        className="text-xs px-3 py-1.5 bg-red-500/10 text-red-400 rounded-lg hover:bg-red-500/20 disabled:opacity-50"
+                                                    >
+                                                        Reject
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Chart Section */}
                     <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
                         <h3 className="text-white font-display font-bold text-lg mb-6 flex items-center gap-2">
@@ -329,7 +507,7 @@ export default function AdminWalletPage() {
                 {showWithdraw && (
                     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
                         <div className="bg-zayko-800 border border-zayko-700 rounded-3xl p-6 w-full max-w-sm animate-scale-in">
-                            <h3 className="text-xl font-display font-bold text-white mb-2">Withdraw Funds</h3>
+                            <h3 className="text-xl font-display font-bold text-white mb-2">Request Withdrawal</h3>
                             <p className="text-zayko-400 text-sm mb-6">
                                 Available Balance: <strong className="text-gold-400">₹{wallet?.totalBalance?.toFixed(2)}</strong>
                             </p>
@@ -349,6 +527,56 @@ export default function AdminWalletPage() {
                                         autoFocus
                                     />
                                 </div>
+
+                                {/* Payout Details */}
+                                <div className="flex gap-2 mb-4">
+                                    {(["upi", "bank"] as const).map((method) => (
+                                        <button
+                                            key={method}
+                                            type="button"
+                                            onClick={() => setPayoutMethod(method)}
+                                            className={`flex-1 py-2 rounded-xl text-sm font-medium border transition-colors ${payoutMethod === method ? "bg-gold-500/20 text-gold-400 border-gold-500/30" : "bg-zayko-900 text-zayko-400 border-zayko-600"}`}
+                                        >
+                                            {method === "upi" ? "UPI" : "Bank transfer"}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="space-y-3 mb-4">
+                                    {payoutMethod === "upi" ? (
+                                        <input
+                                            value={payoutFields.upiId}
+                                            onChange={(e) => setPayoutFields({ ...payoutFields, upiId: e.target.value })}
+                                            className="w-full px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white focus:ring-2 focus:ring-gold-400 focus:outline-none"
+                                            placeholder="UPI ID (name@bank)"
+                                        />
+                                    ) : (
+                                        <>
+                                            {([
+                                                ["accountName", "Account holder name"],
+                                                ["accountNumber", "Account number"],
+                                                ["ifsc", "IFSC code"],
+                                                ["bankName", "Bank name (optional)"],
+                                            ] as const).map(([field, placeholder]) => (
+                                                <input
+                                                    key={field}
+                                                    value={payoutFields[field]}
+                                                    onChange={(e) => setPayoutFields({ ...payoutFields, [field]: e.target.value })}
+                                                    className="w-full px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white focus:ring-2 focus:ring-gold-400 focus:outline-none"
+                                                    placeholder={placeholder}
+                                                />
+                                            ))}
+                                        </>
+                                    )}
+                                    <input
+                                        value={withdrawNote}
+                                        onChange={(e) => setWithdrawNote(e.target.value)}
+                                        className="w-full px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white focus:ring-2 focus:ring-gold-400 focus:outline-none"
+                                        placeholder="Note for the approver (optional)"
+                                    />
+                                </div>
+                                <p className="text-xs text-zayko-500 mb-6">
+                                    The amount is reserved now and paid out after another admin approves.
+                                </p>
                                 <div className="flex gap-3">
                                     <button
                                         type="button"
@@ -362,7 +590,7 @@ export default function AdminWalletPage() {
                                         disabled={withdrawing || !withdrawAmount}
                                         className="flex-1 btn-gold py-3 font-medium disabled:opacity-50"
                                     >
-                                        {withdrawing ? "Processing..." : "Confirm"}
+                                        {withdrawing ? "Processing..." : "Request"}
                                     </button>
                                 </div>
                             </form>
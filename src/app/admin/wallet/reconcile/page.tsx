@@ -0,0 +1,318 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import type { CanteenField, CorrectionAction, ReconciliationReport } from "@/lib/wallet-reconciliation";
+
+const PAYMENT_ISSUE_LABELS: Record<string, string> = {
+    missing_topup: "Payment recorded, no top-up transaction",
+    missing_payment: "Top-up transaction, no payment record",
+    amount_mismatch: "Amounts differ",
+};
+
+export default function AdminWalletReconcilePage() {
+    const [report, setReport] = useState<ReconciliationReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [fixing, setFixing] = useState<string | null>(null);
+
+    const getHeaders = () => ({
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
+    });
+
+    const fetchReport = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch("/api/admin/wallet/reconcile", { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setReport(data.report);
+            } else {
+                toast.error(data.error || "Failed to load report");
+            }
+        } catch {
+            toast.error("Network error loading report");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    // ─── Correction Handler ───
+    const applyFix = async (action: CorrectionAction | "opening_balances", description: string, target?: string) => {
+        const reason = prompt(`${description}\n\nReason for this correction (saved to the audit log):`);
+        if (!reason || reason.trim().length < 3) return;
+
+        const key = `${action}:${target || ""}`;
+        setFixing(key);
+        try {
+            const res = await fetch("/api/admin/wallet/reconcile", {
+                method: "POST",
+                headers: getHeaders(),
+                body: JSON.stringify({ action, target, reason }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success("Correction applied ✅");
+                await fetchReport();
+            } else {
+                toast.error(data.error || "Correction failed");
+            }
+        } catch {
+            toast.error("Network error applying correction");
+        } finally {
+            setFixing(null);
+        }
+    };
+
+    const allClear = report && report.users.length === 0 && report.canteen.length === 0 &&
+        report.usersLedger.length === 0 && report.payments.length === 0;
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-7xl mx-auto flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin/wallet" className="text-zayko-400 hover:text-white transition-colors">
+                                ← Wallet
+                            </Link>
+                            <h1 className="text-xl font-display font-bold text-white">🧮 Reconciliation</h1>
+                        </div>
+                        <button
+                            onClick={fetchReport}
+                            disabled={loading}
+                            className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600 disabled:opacity-50"
+                        >
+                            {loading ? "Checking..." : "🔄 Re-run"}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="max-w-7xl mx-auto px-6 mt-8 space-y-8">
+                    {loading && !report ? (
+                        <div className="flex items-center justify-center py-20">
+                            <div className="w-12 h-12 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                        </div>
+                    ) : report && (
+                        <>
+                            <p className="text-sm text-zayko-500">
+                                Checked {report.usersChecked} users and {report.paymentsChecked} payments · {new Date(report.generatedAt).toLocaleString()}
+                            </p>
+
+                            {allClear && (
+                                <div className="bg-emerald-500/10 border border-emerald-500/20 rounded-3xl p-6 text-emerald-400 font-semibold">
+                                    ✅ All wallet numbers match their sources.
+                                </div>
+                            )}
+
+                            {/* Canteen */}
+                            <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
+                                <div className="flex items-center justify-between mb-6">
+                                    <h3 className="text-white font-display font-bold text-lg">🏪 Canteen Wallet vs Orders</h3>
+                                    {report.canteen.length > 0 && (
+                                        <button
+                                            onClick={() => applyFix("canteen", "Set the canteen wallet to the order-derived values.")}
+                                            disabled={fixing !== null}
+                                            className="text-sm px-4 py-2 bg-gold-500/20 text-gold-400 border border-gold-500/30 rounded-lg hover:bg-gold-500/30 disabled:opacity-50"
+                                        >
+                                            {fixing === "canteen:" ? "Fixing..." : "Fix canteen wallet"}
+                                        </button>
+                                    )}
+                                </div>
+                                <table className="w-full text-left border-collapse">
+                                    <thead>
+                                        <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                            <th className="pb-3 font-medium">Field</th>
+                                            <th className="pb-3 font-medium text-right">Stored</th>
+                                            <th className="pb-3 font-medium text-right">From orders / withdrawals</th>
+                                            <th className="pb-3 font-medium text-right">From ledger</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {(["pendingAmount", "totalBalance", "reservedAmount"] as CanteenField[]).map((field, i) => {
+                                            const issue = report.canteen.find((c) => c.field === field);
+                                            const ledger = report.canteenLedger[i];
+                                            if (!ledger) return null;
+                                            return (
+                                                <tr key={field} className="border-b border-zayko-700/50 last:border-0">
+                                                    <td className="py-4 text-sm text-zayko-300">{field}</td>
+                                                    <td className="py-4 text-right text-white">₹{ledger.stored.toFixed(2)}</td>
+                                                    <td className={`py-4 text-right font-medium ${issue ? "text-red-400" : "text-emerald-400"}`}>
+                                                        ₹{(issue ? issue.expected : ledger.stored).toFixed(2)}
+                                                    </td>
+                                                    <td className={`py-4 text-right ${ledger.ok ? "text-emerald-400" : "text-amber-400"}`}>
+                                                        ₹{ledger.derived.toFixed(2)}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {/* Users */}
+                            <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
+                                <h3 className="text-white font-display font-bold text-lg mb-6">
+                                    👤 User Wallets vs Transactions ({report.users.length})
+                                </h3>
+                                {report.users.length === 0 ? (
+                                    <div className="text-center py-6 text-zayko-500">Every walletBalance matches its transactions.</div>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-left border-collapse">
+                                            <thead>
+                                                <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                                    <th className="pb-3 font-medium">User</th>
+                                                    <th className="pb-3 font-medium text-right">Balance</th>
+                                                    <th className="pb-3 font-medium text-right">Transactions</th>
+                                                    <th className="pb-3 font-medium text-right">Drift</th>
+                                                    <th className="pb-3 font-medium text-right">Fix</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {report.users.map((u) => (
+                                                    <tr key={u.userId} className="border-b border-zayko-700/50 last:border-0">
+                                                        <td className="py-4 text-sm text-zayko-300">
+                                                            {u.name}
+                                                            <span className="block text-xs text-zayko-500 font-mono">{u.userId}</span>
+                                                        </td>
+                                                        <td className="py-4 text-right text-white">₹{u.walletBalance.toFixed(2)}</td>
+                                                        <td className="py-4 text-right text-white">₹{u.transactionsTotal.toFixed(2)}</td>
+                                                        <td className="py-4 text-right font-medium text-red-400">
+                                                            {u.drift > 0 ? "+" : ""}₹{u.drift.toFixed(2)}
+                                                        </td>
+                                                        <td className="py-4 text-right space-x-2 whitespace-nowrap">
+                                                            <button
+                                                                onClick={() => applyFix("user_balance", `Set ${u.name}'s balance to ₹${u.transactionsTotal.toFixed(2)}.`, u.userId)}
+                                                                disabled={fixing !== null}
+                                                                className="text-xs px-3 py-1.5 bg-zayko-700 text-zayko-200 rounded-lg hover:bg-zayko-600 disabled:opacity-50"
+                                                            >
+                                                                Fix balance
+                                                            </button>
+                                                            <button
+                                                                onClick={() => applyFix("user_transactions", `Record a ₹${Math.abs(u.drift).toFixed(2)} correcting transaction for ${u.name}.`, u.userId)}
+                                                                disabled={fixing !== null}
+                                                                className="text-xs px-3 py-1.5 bg-zayko-700 text-zayko-200 rounded-lg hover:bg-zayko-600 disabled:opacity-50"
+                                                            >
+                                                                Fix history
+                                                            </button>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Users vs ledger */}
+                            <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
+                                <div className="flex items-center justify-between mb-6">
+                                    <h3 className="text-white font-display font-bold text-lg">
+                                        📒 User Wallets vs Ledger ({report.usersLedger.length})
+                                    </h3>
+                                    {!report.openingBalancesPostedAt && (
+                                        <button
+                                            onClick={() => applyFix("opening_balances", "Post an opening ledger entry for every wallet and canteen account, covering the balance it held before the ledger existed. This can only be done once.")}
+                                            disabled={fixing !== null}
+                                            className="text-sm px-4 py-2 bg-gold-500/20 text-gold-400 border border-gold-500/30 rounded-lg hover:bg-gold-500/30 disabled:opacity-50"
+                                        >
+                                            {fixing === "opening_balances:" ? "Posting..." : "Post opening balances"}
+                                        </button>
+                                    )}
+                                </div>
+                                {!report.openingBalancesPostedAt && (
+                                    <p className="text-sm text-amber-400 mb-4">
+                                        Opening balances have not been posted — wallets funded before the ledger existed show up here until they are.
+                                    </p>
+                                )}
+                                {report.usersLedger.length === 0 ? (
+                                    <div className="text-center py-6 text-zayko-500">Every walletBalance matches the ledger.</div>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-left border-collapse">
+                                            <thead>
+                                                <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                                    <th className="pb-3 font-medium">Account</th>
+                                                    <th className="pb-3 font-medium text-right">Balance</th>
+                                                    <th className="pb-3 font-medium text-right">Ledger</th>
+                                                    <th className="pb-3 font-medium text-right">Drift</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {report.usersLedger.map((check) => (
+                                                    <tr key={check.account} className="border-b border-zayko-700/50 last:border-0">
+                                                        <td className="py-4 text-sm text-zayko-300 font-mono">{check.account}</td>
+                                                        <td className="py-4 text-right text-white">₹{check.stored.toFixed(2)}</td>
+                                                        <td className="py-4 text-right text-white">₹{check.derived.toFixed(2)}</td>
+                                                        <td className="py-4 text-right font-medium text-red-400">
+                                                            {check.drift > 0 ? "+" : ""}₹{check.drift.toFixed(2)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Payments */}
+                            <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
+                                <h3 className="text-white font-display font-bold text-lg mb-6">
+                                    💳 Razorpay Payments vs Top-ups ({report.payments.length})
+                                </h3>
+                                {report.payments.length === 0 ? (
+                                    <div className="text-center py-6 text-zayko-500">Every payment has a matching top-up.</div>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-left border-collapse">
+                                            <thead>
+                                                <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                                    <th className="pb-3 font-medium">Payment</th>
+                                                    <th className="pb-3 font-medium">Issue</th>
+                                                    <th className="pb-3 font-medium text-right">Payment</th>
+                                                    <th className="pb-3 font-medium text-right">Top-up</th>
+                                                    <th className="pb-3 font-medium text-right">Fix</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {report.payments.map((p) => (
+                                                    <tr key={`${p.paymentId}-${p.issue}`} className="border-b border-zayko-700/50 last:border-0">
+                                                        <td className="py-4 text-sm text-zayko-300 font-mono">{p.paymentId}</td>
+                                                        <td className="py-4 text-sm text-amber-400">{PAYMENT_ISSUE_LABELS[p.issue]}</td>
+                                                        <td className="py-4 text-right text-white">{p.paymentAmount !== undefined ? `₹${p.paymentAmount}` : "—"}</td>
+                                                        <td className="py-4 text-right text-white">{p.topupAmount !== undefined ? `₹${p.topupAmount}` : "—"}</td>
+                                                        <td className="py-4 text-right">
+                                                            {p.issue === "missing_topup" ? (
+                                                                <button
+                                                                    onClick={() => applyFix("payment_topup", `Record the missing ₹${p.paymentAmount} top-up transaction. The wallet balance is not changed — re-run to check it.`, p.paymentId)}
+                                                                    disabled={fixing !== null}
+                                                                    className="text-xs px-3 py-1.5 bg-zayko-700 text-zayko-200 rounded-lg hover:bg-zayko-600 disabled:opacity-50"
+                                                                >
+                                                                    Record top-up
+                                                                </button>
+                                                            ) : (
+                                                                <span className="text-xs text-zayko-500">Check in Razorpay</span>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </AdminGuard>
+    );
+}
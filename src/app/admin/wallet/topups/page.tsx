@@ -0,0 +1,184 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import type { TopupIntent, TopupIntentStatus } from "@/types";
+
+const STATUS_STYLES: Record<TopupIntentStatus, string> = {
+    created: "bg-zayko-700 text-zayko-300",
+    paid: "bg-amber-500/20 text-amber-400",
+    credited: "bg-emerald-500/20 text-emerald-400",
+    failed: "bg-red-500/20 text-red-400",
+    expired: "bg-zayko-700 text-zayko-500",
+};
+
+export default function AdminTopupsPage() {
+    const [intents, setIntents] = useState<TopupIntent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [sweeping, setSweeping] = useState(false);
+    const [user, setUser] = useState("");
+    const [status, setStatus] = useState<TopupIntentStatus | "">("");
+
+    const getHeaders = () => ({
+        Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
+    });
+
+    const fetchIntents = useCallback(async (userQuery: string, statusFilter: string) => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (userQuery.trim()) params.set("user", userQuery.trim());
+            if (statusFilter) params.set("status", statusFilter);
+
+            const res = await fetch(`/api/admin/wallet/topups?${params}`, { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                setIntents(data.intents);
+            } else {
+                toast.error(data.error || "Failed to load top-ups");
+                setIntents([]);
+            }
+        } catch {
+            toast.error("Network error loading top-ups");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchIntents("", "");
+    }, [fetchIntents]);
+
+    // ─── Manual Sweep ───
+    const runSweep = async () => {
+        setSweeping(true);
+        try {
+            const res = await fetch("/api/razorpay/sweep", { headers: getHeaders() });
+            const data = await res.json();
+            if (res.ok) {
+                const { credited, failed, expired } = data.outcomes;
+                toast.success(`Checked ${data.checked}: ${credited} credited, ${failed} failed, ${expired} expired`);
+                await fetchIntents(user, status);
+            } else {
+                toast.error(data.error || "Sweep failed");
+            }
+        } catch {
+            toast.error("Network error running sweep");
+        } finally {
+            setSweeping(false);
+        }
+    };
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-7xl mx-auto flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin/wallet" className="text-zayko-400 hover:text-white transition-colors">
+                                ← Wallet
+                            </Link>
+                            <h1 className="text-xl font-display font-bold text-white">💳 Top-up Intents</h1>
+                        </div>
+                        <button
+                            onClick={runSweep}
+                            disabled={sweeping}
+                            className="text-sm px-4 py-2 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg transition-colors border border-zayko-600 disabled:opacity-50"
+                        >
+                            {sweeping ? "Sweeping..." : "🧹 Settle stale"}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="max-w-7xl mx-auto px-6 mt-8 space-y-6">
+                    {/* Filters */}
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            fetchIntents(user, status);
+                        }}
+                        className="flex flex-wrap gap-3"
+                    >
+                        <input
+                            value={user}
+                            onChange={(e) => setUser(e.target.value)}
+                            placeholder="User ID, unique code or email"
+                            className="flex-1 min-w-[240px] bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg focus:border-gold-400 focus:outline-none"
+                        />
+                        <select
+                            value={status}
+                            onChange={(e) => setStatus(e.target.value as TopupIntentStatus | "")}
+                            className="bg-zayko-800 border border-zayko-700 text-white px-4 py-2 rounded-lg"
+                        >
+                            <option value="">All statuses</option>
+                            {(Object.keys(STATUS_STYLES) as TopupIntentStatus[]).map((s) => (
+                                <option key={s} value={s}>{s}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="submit"
+                            className="px-4 py-2 bg-gold-500/20 text-gold-400 border border-gold-500/30 rounded-lg hover:bg-gold-500/30"
+                        >
+                            Search
+                        </button>
+                    </form>
+
+                    <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md overflow-x-auto">
+                        {loading ? (
+                            <div className="flex items-center justify-center py-12">
+                                <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                            </div>
+                        ) : intents.length === 0 ? (
+                            <div className="text-center py-6 text-zayko-500">No top-ups found.</div>
+                        ) : (
+                            <table className="w-full text-left border-collapse">
+                                <thead>
+                                    <tr className="border-b border-zayko-700 text-zayko-400 text-sm">
+                                        <th className="pb-3 font-medium">Created</th>
+                                        <th className="pb-3 font-medium">Razorpay order / payment</th>
+                                        <th className="pb-3 font-medium">User</th>
+                                        <th className="pb-3 font-medium text-right">Amount</th>
+                                        <th className="pb-3 font-medium">Status</th>
+                                        <th className="pb-3 font-medium">Notes</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {intents.map((intent) => (
+                                        <tr key={intent.id} className="border-b border-zayko-700/50 last:border-0 align-top">
+                                            <td className="py-4 text-sm text-zayko-300 whitespace-nowrap">
+                                                {new Date(intent.createdAt).toLocaleString()}
+                                            </td>
+                                            <td className="py-4 text-xs text-zayko-300 font-mono">
+                                                {intent.id}
+                                                {intent.razorpayPaymentId && (
+                                                    <span className="block text-zayko-500">{intent.razorpayPaymentId}</span>
+                                                )}
+                                            </td>
+                                            <td className="py-4 text-xs text-zayko-500 font-mono">{intent.userId}</td>
+                                            <td className="py-4 text-right text-white">₹{intent.amount}</td>
+                                            <td className="py-4">
+                                                <span className={`text-xs px-2 py-1 rounded-md font-semibold ${STATUS_STYLES[intent.status]}`}>
+                                                    {intent.status}
+                                                </span>
+                                            </td>
+                                            <td className="py-4 text-xs text-zayko-400">
+                                                {intent.failureReason}
+                                                {intent.creditedAt && `Credited ${new Date(intent.creditedAt).toLocaleString()}`}
+                                                {intent.sweepAttempts ? (
+                                                    <span className="block text-zayko-600">Swept {intent.sweepAttempts}×</span>
+                                                ) : null}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </AdminGuard>
+    );
+}
@@ -8,7 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { signAdminToken } from "@/lib/admin-auth";
+import { isValidAdminLogin, signAdminToken } from "@/lib/admin-auth";
 import { checkRateLimit } from "@/lib/rate-limit";
 
 export async function POST(req: NextRequest) {
@@ -20,10 +20,9 @@ export async function POST(req: NextRequest) {
         const { username, password } = await req.json();
 
         // SECURITY: No fallback defaults — fail if env vars not configured
-        const adminUsername = process.env.ADMIN_USERNAME;
-        const adminPassword = process.env.ADMIN_PASSWORD;
+        const valid = isValidAdminLogin(username, password);
 
-        if (!adminUsername || !adminPassword) {
+        if (valid === null) {
             console.error("[SECURITY] ADMIN_USERNAME or ADMIN_PASSWORD not configured");
             return NextResponse.json(
                 { error: "Server configuration error" },
@@ -31,7 +30,7 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        if (username !== adminUsername || password !== adminPassword) {
+        if (!valid) {
             return NextResponse.json(
                 { error: "Invalid credentials" },
                 { status: 401 }
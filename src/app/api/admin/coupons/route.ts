@@ -0,0 +1,133 @@
+/**
+ * Admin Coupons API — CRUD for promo codes (see lib/coupons)
+ *
+ * GET    → List all coupons, newest first
+ * POST   → Create coupon (code is the doc id; duplicates rejected)
+ * PUT    → Update coupon rules (code and usedCount cannot change)
+ * DELETE → Delete coupon (orders keep their stored discount)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { COUPONS_COLLECTION, couponRef, normalizeCouponCode, parseCouponInput } from "@/lib/coupons";
+import type { Coupon } from "@/types";
+
+export const runtime = "nodejs";
+
+function requireAdmin(req: NextRequest): NextResponse | null {
+    if (!verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return null;
+}
+
+// ─── GET: List all coupons ──────────────────────
+
+export async function GET(req: NextRequest) {
+    const authError = requireAdmin(req);
+    if (authError) return authError;
+
+    try {
+        const snapshot = await adminDb
+            .collection(COUPONS_COLLECTION)
+            .orderBy("createdAt", "desc")
+            .get();
+        const coupons = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+        return NextResponse.json({ coupons });
+    } catch (error) {
+        console.error("Failed to fetch coupons:", error);
+        return NextResponse.json({ error: "Failed to fetch coupons" }, { status: 500 });
+    }
+}
+
+// ─── POST: Create coupon ────────────────────────
+
+export async function POST(req: NextRequest) {
+    const authError = requireAdmin(req);
+    if (authError) return authError;
+
+    try {
+        const parsed = parseCouponInput(await req.json());
+        if (typeof parsed === "string") {
+            return NextResponse.json({ error: parsed }, { status: 400 });
+        }
+
+        const ref = couponRef(parsed.code);
+        const coupon: Omit<Coupon, "id"> = {
+            ...parsed,
+            usedCount: 0,
+            createdAt: new Date().toISOString(),
+        };
+
+        // create() fails if the code is taken, so two admins cannot race on it
+        try {
+            await ref.create(coupon);
+        } catch {
+            return NextResponse.json({ error: `Coupon ${parsed.code} already exists` }, { status: 409 });
+        }
+        return NextResponse.json({ id: ref.id, success: true });
+    } catch (error) {
+        console.error("Failed to create coupon:", error);
+        return NextResponse.json({ error: "Failed to create coupon" }, { status: 500 });
+    }
+}
+
+// ─── PUT: Update coupon ─────────────────────────
+
+export async function PUT(req: NextRequest) {
+    const authError = requireAdmin(req);
+    if (authError) return authError;
+
+    try {
+        const body = await req.json();
+        const code = normalizeCouponCode(body?.id);
+        if (!code) {
+            return NextResponse.json({ error: "Coupon code required" }, { status: 400 });
+        }
+
+        const parsed = parseCouponInput({ ...body, code });
+        if (typeof parsed === "string") {
+            return NextResponse.json({ error: parsed }, { status: 400 });
+        }
+
+        const ref = couponRef(code);
+        const existing = await ref.get();
+        if (!existing.exists) {
+            return NextResponse.json({ error: "Coupon not found" }, { status: 404 });
+        }
+
+        // set() without merge so cleared optional limits are removed
+        const { usedCount, createdAt } = existing.data() as Coupon;
+        await ref.set({
+            ...parsed,
+            usedCount: usedCount || 0,
+            createdAt,
+            updatedAt: new Date().toISOString(),
+        });
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to update coupon:", error);
+        return NextResponse.json({ error: "Failed to update coupon" }, { status: 500 });
+    }
+}
+
+// ─── DELETE: Delete coupon ──────────────────────
+
+export async function DELETE(req: NextRequest) {
+    const authError = requireAdmin(req);
+    if (authError) return authError;
+
+    try {
+        const { id } = await req.json();
+        const code = normalizeCouponCode(id);
+        if (!code) {
+            return NextResponse.json({ error: "Coupon code required" }, { status: 400 });
+        }
+        await couponRef(code).delete();
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete coupon:", error);
+        return NextResponse.json({ error: "Failed to delete coupon" }, { status: 500 });
+    }
+}
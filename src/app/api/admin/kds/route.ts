@@ -0,0 +1,153 @@
+/**
+ * /api/admin/kds — Kitchen Display System
+ *
+ * GET  — Confirmed and preparing order lines grouped by station and by
+ *        menu item + options, plus the open tickets (lib/kitchen-display)
+ * POST — Bump to ready
+ *        Body: { orderId }                      — the whole ticket
+ *           or { lines: [{ orderId, index }] }  — individual lines (e.g. a whole item group)
+ *
+ * Bumped lines get OrderItem.ready. The first bump moves a confirmed order
+ * to preparing and the last one moves it to ready, both through
+ * lib/order-transitions with the admin as actor — same as /api/admin/orders —
+ * and the queue ETA of the other open orders is refreshed (lib/kitchen-queue).
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin()
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { OrderTransitionError } from "@/lib/order-lifecycle";
+import { transitionOrder } from "@/lib/order-transitions";
+import { getCanteenConfig } from "@/lib/order-placement";
+import { refreshQueueEstimates } from "@/lib/kitchen-queue";
+import { buildKitchenDisplay, getKitchenConfig, KITCHEN_STATUSES } from "@/lib/kitchen-display";
+import type { Order, OrderStatus } from "@/types";
+
+export const runtime = "nodejs";
+
+const MAX_BUMP_LINES = 200;
+
+// ─── GET ────────────────────────────────────────
+export async function GET(req: NextRequest) {
+    if (!verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const [snapshot, config] = await Promise.all([
+            adminDb.collection("orders").where("status", "in", KITCHEN_STATUSES).get(),
+            getCanteenConfig(),
+        ]);
+        const orders = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Order);
+        const display = buildKitchenDisplay(orders, getKitchenConfig(config));
+        return NextResponse.json({ success: true, ...display, generatedAt: new Date().toISOString() });
+    } catch (error) {
+        console.error("[KDS] Failed to build display:", error);
+        return NextResponse.json({ error: "Failed to load kitchen display" }, { status: 500 });
+    }
+}
+
+// ─── POST ───────────────────────────────────────
+
+/**
+ * Mark lines of one order ready (all of them when indexes is null) and
+ * advance its status. Returns the order's status afterwards.
+ */
+async function bumpOrder(orderDocId: string, indexes: number[] | null, adminUsername: string): Promise<OrderStatus> {
+    const orderRef = adminDb.collection("orders").doc(orderDocId);
+
+    return adminDb.runTransaction(async (transaction) => {
+        const orderDoc = await transaction.get(orderRef);
+        if (!orderDoc.exists) throw new OrderTransitionError("Order not found — refresh the display");
+
+        const order = orderDoc.data() as Omit<Order, "id">;
+        if (!KITCHEN_STATUSES.includes(order.status)) {
+            throw new OrderTransitionError(`Order #${order.orderId} is ${order.status}, not in the kitchen`);
+        }
+
+        const items = order.items || [];
+        if (indexes?.some((index) => !items[index])) {
+            throw new OrderTransitionError(`Order #${order.orderId} has changed — refresh the display`);
+        }
+        const newItems = items.map((item, index) =>
+            indexes === null || indexes.includes(index) ? { ...item, ready: true } : item
+        );
+
+        const actor = { type: "admin" as const, id: adminUsername };
+        const updates = { items: newItems };
+
+        if (newItems.every((item) => item.ready)) {
+            await transitionOrder(transaction, orderDoc, "ready", actor, { updates });
+            return "ready";
+        }
+        if (order.status === "confirmed") {
+            await transitionOrder(transaction, orderDoc, "preparing", actor, { updates });
+            return "preparing";
+        }
+        transaction.update(orderRef, { ...updates, updatedAt: new Date().toISOString() });
+        return order.status;
+    });
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { orderId, lines } = await req.json();
+
+        // Whole ticket
+        if (orderId !== undefined) {
+            if (typeof orderId !== "string" || !orderId) {
+                return NextResponse.json({ error: "Invalid orderId" }, { status: 400 });
+            }
+            const status = await bumpOrder(orderId, null, admin.username);
+            await refreshQueueEstimates();
+            return NextResponse.json({ success: true, status });
+        }
+
+        // Individual lines, grouped per order — one transaction each so one
+        // stale order doesn't block the rest of the group
+        if (!Array.isArray(lines) || lines.length === 0 || lines.length > MAX_BUMP_LINES) {
+            return NextResponse.json({ error: `Send an orderId or 1–${MAX_BUMP_LINES} lines` }, { status: 400 });
+        }
+        const byOrder = new Map<string, number[]>();
+        for (const line of lines as { orderId: unknown; index: unknown }[]) {
+            if (typeof line?.orderId !== "string" || !line.orderId || !Number.isInteger(line.index) || (line.index as number) < 0) {
+                return NextResponse.json({ error: "Each line needs an orderId and index" }, { status: 400 });
+            }
+            byOrder.set(line.orderId, [...(byOrder.get(line.orderId) || []), line.index as number]);
+        }
+
+        let bumped = 0;
+        let ready = 0;
+        const failed: { orderId: string; error: string }[] = [];
+        for (const [docId, indexes] of byOrder) {
+            try {
+                const status = await bumpOrder(docId, indexes, admin.username);
+                bumped += indexes.length;
+                if (status === "ready") ready++;
+            } catch (error) {
+                const message = error instanceof OrderTransitionError ? error.message : "Failed to bump order";
+                if (!(error instanceof OrderTransitionError)) {
+                    console.error(`[KDS] Failed to bump order ${docId}:`, error);
+                }
+                failed.push({ orderId: docId, error: message });
+            }
+        }
+
+        if (bumped > 0) await refreshQueueEstimates();
+        return NextResponse.json({ success: failed.length === 0, bumped, ready, failed });
+    } catch (error) {
+        if (error instanceof OrderTransitionError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("KDS bump error:", error);
+        const message = error instanceof Error ? error.message : "Failed to bump order";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * POST /api/admin/orders/adjust — Remove or reduce items on an order
+ *
+ * Body: { orderId, items: [{ index, quantity }], reason?, restock? }
+ * Refunds the removed value to the user's wallet and recomputes the order
+ * total (see lib/order-adjustments).
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin()
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { OrderTransitionError } from "@/lib/order-lifecycle";
+import { adjustOrderItems } from "@/lib/order-adjustments";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { orderId, items, reason, restock } = await req.json();
+        if (!orderId) {
+            return NextResponse.json({ error: "Order ID required" }, { status: 400 });
+        }
+        if (!Array.isArray(items) || items.length === 0) {
+            return NextResponse.json({ error: "items must list at least one { index, quantity }" }, { status: 400 });
+        }
+
+        const orderRef = adminDb.collection("orders").doc(orderId);
+
+        const result = await adminDb.runTransaction(async (transaction) => {
+            const orderDoc = await transaction.get(orderRef);
+            return adjustOrderItems(
+                transaction,
+                orderDoc,
+                items.map((i: { index: unknown; quantity: unknown }) => ({
+                    index: Number(i.index),
+                    quantity: Number(i.quantity),
+                })),
+                { type: "admin", id: admin.username },
+                { reason: typeof reason === "string" ? reason : undefined, restock: restock === true }
+            );
+        });
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        if (error instanceof OrderTransitionError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Failed to adjust order:", error);
+        const message = error instanceof Error ? error.message : "Failed to adjust order";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
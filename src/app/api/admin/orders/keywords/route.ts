@@ -0,0 +1,40 @@
+/**
+ * /api/admin/orders/keywords — One-off itemKeywords backfill for order search
+ *
+ * POST — Index one page of orders placed before Order.itemKeywords existed
+ *        Body: { cursor? }
+ * Returns { scanned, updated, nextCursor } — call again with nextCursor until
+ * it is null (lib/order-search). Orders that already have keywords are skipped.
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin()
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { backfillItemKeywords, OrderSearchError } from "@/lib/order-search";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { cursor } = await req.json();
+        if (cursor !== undefined && (typeof cursor !== "string" || !cursor)) {
+            return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+        }
+
+        const page = await backfillItemKeywords(cursor);
+        console.log(`[OrderSearch] Keyword backfill by ${admin.username}: ${page.updated}/${page.scanned} orders updated`);
+        return NextResponse.json({ success: true, ...page });
+    } catch (error) {
+        if (error instanceof OrderSearchError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("[OrderSearch] Keyword backfill failed:", error);
+        return NextResponse.json({ error: "Failed to backfill item keywords" }, { status: 500 });
+    }
+}
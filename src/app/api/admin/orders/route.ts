@@ -1,16 +1,31 @@
 /**
- * Admin Orders API — View all orders + Update order status/prepTime
- * 
+ * Admin Orders API — Search orders + Update order status/prepTime
+ *
  * SECURITY CHANGES:
  * - All handlers now require admin JWT verification via verifyAdmin()
  * - Returns 401 Unauthorized if token is missing or invalid
+ *
+ * GET is paginated and filterable (lib/order-search):
+ *   ?status=&from=&to=&email=&rollNumber=&orderId=&paymentMode=&q=&limit=&cursor=
+ * Returns { orders, nextCursor } — pass nextCursor back as cursor for the next page.
+ *
+ * Status changes go through lib/order-transitions: illegal jumps
+ * (e.g. completed → preparing) are rejected with 409, and every step is
+ * recorded in orderEvents with the admin username.
+ *
+ * Orders with a pickup code can only be completed by verifying it
+ * (/api/admin/pickup) — the status buttons reject "completed" for them.
+ * Every change re-runs the queue ETA for the other open orders (lib/kitchen-queue).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
 import { verifyAdmin } from "@/lib/admin-auth";
-import { FieldValue } from "firebase-admin/firestore";
-import { updateCanteenWallet } from "@/lib/canteen-wallet";
+import { isOrderStatus, OrderTransitionError } from "@/lib/order-lifecycle";
+import { transitionOrder } from "@/lib/order-transitions";
+import { refreshQueueEstimates } from "@/lib/kitchen-queue";
+import { OrderSearchError, parseOrderSearch, searchOrders } from "@/lib/order-search";
+import type { OrderStatus } from "@/types";
 
 export const runtime = "nodejs";
 
@@ -26,91 +41,52 @@ export async function GET(req: NextRequest) {
     const authError = requireAdmin(req);
     if (authError) return authError;
 
+    const search = parseOrderSearch(req.nextUrl.searchParams);
+    if (typeof search === "string") {
+        return NextResponse.json({ error: search }, { status: 400 });
+    }
+
     try {
-        const snapshot = await adminDb
-            .collection("orders")
-            .orderBy("createdAt", "desc")
-            .get();
-        const orders = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
-        return NextResponse.json({ orders });
+        const page = await searchOrders(search);
+        return NextResponse.json(page);
     } catch (error) {
+        if (error instanceof OrderSearchError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
         console.error("Failed to fetch orders:", error);
         return NextResponse.json({ error: "Failed to fetch orders" }, { status: 500 });
     }
 }
 
 export async function PATCH(req: NextRequest) {
-    const authError = requireAdmin(req);
-    if (authError) return authError;
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
-        const { orderId, status, prepTime } = await req.json();
+        const { orderId, status, prepTime, reason, wasted } = await req.json();
         if (!orderId) {
             return NextResponse.json({ error: "Order ID required" }, { status: 400 });
         }
+        if (status !== undefined && !isOrderStatus(status)) {
+            return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+        }
 
         const orderRef = adminDb.collection("orders").doc(orderId);
 
-        await adminDb.runTransaction(async (transaction) => {
+        const result = await adminDb.runTransaction(async (transaction) => {
             const orderDoc = await transaction.get(orderRef);
             if (!orderDoc.exists) throw new Error("Order not found");
 
-            const orderData = orderDoc.data()!;
-            const oldStatus = orderData.status;
-
-            // --- 1. HANDLE CANCELLATION & REFUND ---
-            if (status === "cancelled") {
-                if (oldStatus === "cancelled") {
-                    throw new Error("Order is already cancelled");
-                }
-
-                const userId = orderData.userId;
-                const total = orderData.total;
-                const orderIdDisplay = orderData.orderId;
-
-                // Sync Wallet (deduct pending/total if cancelling an active/completed order)
-                await updateCanteenWallet(transaction, oldStatus, "cancelled", total, orderIdDisplay);
-
-                // Update order
-                transaction.update(orderRef, {
-                    status: "cancelled",
-                    updatedAt: new Date().toISOString(),
-                });
-
-                // Refund User Wallet
-                const userRef = adminDb.collection("users").doc(userId);
-                transaction.update(userRef, {
-                    walletBalance: FieldValue.increment(total),
-                });
-
-                // Record Refund Txn for User
-                const txnRef = adminDb.collection("walletTransactions").doc();
-                transaction.set(txnRef, {
-                    userId,
-                    type: "refund",
-                    amount: total,
-                    description: `Refund - Order #${orderIdDisplay} Cancelled`,
-                    transactionId: txnRef.id,
-                    createdAt: new Date().toISOString(),
-                });
-
-                return; // End transaction for cancellation block
+            const oldStatus = orderDoc.data()!.status as OrderStatus;
+            if (status === "completed" && orderDoc.data()!.pickupOtp) {
+                throw new OrderTransitionError("Verify the student's pickup QR or OTP to complete this order");
             }
+            const updateData: Record<string, unknown> = {};
+            let newStatus: OrderStatus = status || oldStatus;
 
-            // --- 2. NORMAL STATUS / PREP TIME UPDATE ---
-            const updateData: Record<string, unknown> = {
-                updatedAt: new Date().toISOString(),
-            };
-
-            let newStatus = status || oldStatus;
-
-            // When status is set to "ready", clear countdowns
-            if (newStatus === "ready") {
-                updateData.readyAt = null;
-                updateData.estimatedReadyAt = null;
-            }
-
-            if (prepTime) {
+            if (prepTime && newStatus !== "cancelled") {
                 updateData.prepTime = prepTime;
                 const readyAtISO = new Date(Date.now() + prepTime * 60 * 1000).toISOString();
                 updateData.estimatedReadyAt = readyAtISO;
@@ -122,24 +98,34 @@ export async function PATCH(req: NextRequest) {
                 }
             }
 
-            if (newStatus !== oldStatus) {
-                updateData.status = newStatus;
-
-                // Sync Wallet for status progression
-                await updateCanteenWallet(
-                    transaction,
-                    oldStatus,
-                    newStatus,
-                    orderData.total,
-                    orderData.orderId
-                );
+            // Prep time change only (e.g. bumping prep time while preparing) — no transition
+            if (newStatus === oldStatus && Object.keys(updateData).length > 0) {
+                transaction.update(orderRef, { ...updateData, updatedAt: new Date().toISOString() });
+                return null;
             }
 
-            transaction.update(orderRef, updateData);
+            return transitionOrder(
+                transaction,
+                orderDoc,
+                newStatus,
+                { type: "admin", id: admin.username },
+                // "wasted" = food already cooked, don't give the quantities back to the menu
+                { reason, updates: updateData, restock: wasted !== true }
+            );
         });
 
-        return NextResponse.json({ success: true, refunded: status === "cancelled" });
+        await refreshQueueEstimates();
+
+        return NextResponse.json({
+            success: true,
+            status: result?.to,
+            refunded: (result?.refunded ?? 0) > 0,
+            restocked: result?.restocked ?? false,
+        });
     } catch (error) {
+        if (error instanceof OrderTransitionError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
         console.error("Failed to update order:", error);
         const message = error instanceof Error ? error.message : "Failed to update order";
         return NextResponse.json({ error: message }, { status: 500 });
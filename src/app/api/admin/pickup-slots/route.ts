@@ -0,0 +1,106 @@
+/**
+ * /api/admin/pickup-slots — Pre-order pickup slots
+ *
+ * GET  — Today's booked slots with their order/item counts
+ * POST — Cancel a slot: it stops taking pre-orders and every open order
+ *        booked in it is cancelled, refunded and restocked
+ *        Body: { slotId, reason }
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin()
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { transitionOrder } from "@/lib/order-transitions";
+import { listBookedSlots, slotRef } from "@/lib/pickup-slot-capacity";
+import { refreshQueueEstimates } from "@/lib/kitchen-queue";
+import type { Order, OrderStatus, PickupSlot } from "@/types";
+
+export const runtime = "nodejs";
+
+const SLOT_ID_PATTERN = /^\d{4}-\d{2}-\d{2}_\d{4}$/;
+
+/** Statuses an order can still be in when its slot is cancelled */
+const OPEN_STATUSES: OrderStatus[] = ["pending", "confirmed", "preparing", "ready"];
+
+// ─── GET ────────────────────────────────────────
+export async function GET(req: NextRequest) {
+    if (!verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const startOfDay = new Date();
+        startOfDay.setHours(0, 0, 0, 0);
+        const slots = await listBookedSlots(startOfDay);
+        return NextResponse.json({ success: true, slots });
+    } catch (error) {
+        console.error("[PickupSlots] Failed to list:", error);
+        return NextResponse.json({ error: "Failed to load pickup slots" }, { status: 500 });
+    }
+}
+
+// ─── POST ───────────────────────────────────────
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { slotId, reason } = await req.json();
+
+        if (typeof slotId !== "string" || !SLOT_ID_PATTERN.test(slotId)) {
+            return NextResponse.json({ error: "Invalid slotId" }, { status: 400 });
+        }
+        if (typeof reason !== "string" || !reason.trim()) {
+            return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+        }
+        const cancelReason = reason.trim().slice(0, 200);
+
+        const slotDoc = await slotRef(slotId).get();
+        if (!slotDoc.exists) {
+            return NextResponse.json({ error: "No orders are booked in that slot" }, { status: 404 });
+        }
+        if ((slotDoc.data() as PickupSlot).cancelled) {
+            return NextResponse.json({ error: "Slot is already cancelled" }, { status: 409 });
+        }
+
+        const now = new Date().toISOString();
+        await slotDoc.ref.set(
+            { cancelled: true, cancelledBy: admin.username, cancelledAt: now, cancelReason, updatedAt: now },
+            { merge: true }
+        );
+
+        // One transaction per order, so a failure part-way leaves the rest cancelled
+        const ordersSnap = await adminDb.collection("orders").where("pickupSlotId", "==", slotId).get();
+        let cancelled = 0;
+        let refunded = 0;
+        let failed = 0;
+        for (const doc of ordersSnap.docs) {
+            if (!OPEN_STATUSES.includes((doc.data() as Order).status)) continue;
+            try {
+                const result = await adminDb.runTransaction(async (transaction) => {
+                    const orderDoc = await transaction.get(doc.ref);
+                    return transitionOrder(transaction, orderDoc, "cancelled", { type: "admin", id: admin.username }, {
+                        reason: `Pickup slot cancelled: ${cancelReason}`,
+                    });
+                });
+                cancelled++;
+                refunded += result.refunded;
+            } catch (error) {
+                failed++;
+                console.error(`[PickupSlots] Failed to cancel order ${doc.id} in slot ${slotId}:`, error);
+            }
+        }
+
+        if (cancelled > 0) await refreshQueueEstimates();
+
+        console.log(`[PickupSlots] Slot ${slotId} cancelled by ${admin.username}: ${cancelled} orders, ₹${refunded} refunded, ${failed} failed`);
+        return NextResponse.json({ success: true, cancelled, refunded, failed });
+    } catch (error) {
+        console.error("Pickup slot cancel error:", error);
+        return NextResponse.json({ error: "Failed to cancel pickup slot" }, { status: 500 });
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * POST /api/admin/pickup — Verify a pickup code and complete the order
+ *
+ * Body: { token, orderId? }  — scanned QR payload; orderId (display id)
+ *                              optionally pins the order staff expect
+ *    or { orderId, otp }     — display Order ID + 4-digit OTP
+ *
+ * Moves ready → completed through lib/pickup-verification. Mismatched
+ * codes, cancelled, not-yet-ready and already collected orders are
+ * rejected with 409.
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin(). Rate limited
+ * so 4-digit OTPs cannot be brute-forced.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentReference } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { OrderTransitionError } from "@/lib/order-lifecycle";
+import { completePickup, readPickupToken, PickupVerificationError, type PickupProof } from "@/lib/pickup-verification";
+import type { Order } from "@/types";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 20, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const { token, orderId, otp } = await req.json();
+        const displayId = typeof orderId === "string" ? orderId.trim().toUpperCase().replace(/^#/, "") : "";
+
+        let orderRef: DocumentReference;
+        let proof: PickupProof;
+
+        if (typeof token === "string" && token.trim()) {
+            const scanned = readPickupToken(token);
+            if (!scanned) {
+                return NextResponse.json({ error: "Not a valid pickup QR code" }, { status: 400 });
+            }
+            orderRef = adminDb.collection("orders").doc(scanned.orderDocId);
+            proof = { token: scanned.token };
+        } else {
+            if (!displayId || typeof otp !== "string" || !/^\d{4}$/.test(otp.trim())) {
+                return NextResponse.json({ error: "Enter the Order ID and 4-digit OTP" }, { status: 400 });
+            }
+            const snap = await adminDb.collection("orders").where("orderId", "==", displayId).limit(1).get();
+            if (snap.empty) {
+                return NextResponse.json({ error: `Order #${displayId} not found` }, { status: 404 });
+            }
+            orderRef = snap.docs[0].ref;
+            proof = { otp: otp.trim() };
+        }
+
+        const order = await adminDb.runTransaction(async (transaction) => {
+            const orderDoc = await transaction.get(orderRef);
+            const data = orderDoc.data() as Omit<Order, "id"> | undefined;
+            // A valid QR for a different order than the one staff are handing out
+            if ("token" in proof && displayId && data?.orderId !== displayId) {
+                throw new PickupVerificationError(`This QR code is for order #${data?.orderId ?? "unknown"}, not #${displayId}`);
+            }
+            await completePickup(transaction, orderDoc, proof, { type: "admin", id: admin.username });
+            return data!;
+        });
+
+        console.log(`[Pickup] Order #${order.orderId} collected (${"token" in proof ? "qr" : "otp"}) — verified by ${admin.username}`);
+        return NextResponse.json({
+            success: true,
+            order: {
+                orderId: order.orderId,
+                userName: order.userName,
+                items: order.items,
+                total: order.total,
+            },
+        });
+    } catch (error) {
+        if (error instanceof PickupVerificationError || error instanceof OrderTransitionError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Pickup verification error:", error);
+        return NextResponse.json({ error: "Failed to verify pickup" }, { status: 500 });
+    }
+}
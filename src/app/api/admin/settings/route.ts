@@ -2,12 +2,24 @@
  * Admin Settings API — GET + PUT canteen configuration
  * 
  * Stored in Firestore at settings/canteenConfig.
- * Admins can toggle canteen open/close and set operating hours.
+ * Admins can toggle canteen open/close, set operating hours and the
+ * window in which students may cancel their own pending orders, the
+ * order total above which a PIN step-up is required, the amount above
+ * which a manual wallet adjustment needs a second admin, the loyalty
+ * program (earn rate, category multipliers, point value, expiry),
+ * pre-order pickup slots (length, capacity, lead and release times) and
+ * the kitchen (display stations and how many orders it cooks at once).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { verifyAdmin } from "@/lib/admin-auth";
 import { adminDb } from "@/lib/firebase-admin";
+import { DEFAULT_CANCEL_GRACE_MINUTES, MAX_CANCEL_GRACE_MINUTES } from "@/lib/order-lifecycle";
+import { DEFAULT_PIN_ORDER_THRESHOLD } from "@/lib/pin-token";
+import { DEFAULT_LOYALTY_CONFIG, parseLoyaltyConfig } from "@/lib/loyalty";
+import { DEFAULT_ADJUSTMENT_APPROVAL_THRESHOLD, MAX_ADJUSTMENT } from "@/lib/wallet-adjustments";
+import { DEFAULT_PRE_ORDER_CONFIG, parsePreOrderConfig } from "@/lib/pickup-slots";
+import { DEFAULT_KITCHEN_CONFIG, parseKitchenConfig } from "@/lib/kitchen-display";
 
 export const runtime = "nodejs";
 
@@ -17,6 +29,12 @@ const DEFAULT_CONFIG = {
     isOpen: true,
     startTime: "09:00",
     endTime: "17:00",
+    cancelGraceMinutes: DEFAULT_CANCEL_GRACE_MINUTES,
+    pinOrderThreshold: DEFAULT_PIN_ORDER_THRESHOLD,
+    adjustmentApprovalThreshold: DEFAULT_ADJUSTMENT_APPROVAL_THRESHOLD,
+    loyalty: DEFAULT_LOYALTY_CONFIG,
+    preOrders: DEFAULT_PRE_ORDER_CONFIG,
+    kitchen: DEFAULT_KITCHEN_CONFIG,
 };
 
 // GET /api/admin/settings — Fetch current canteen config
@@ -33,7 +51,15 @@ export async function GET(req: NextRequest) {
             await adminDb.doc(CONFIG_PATH).set(DEFAULT_CONFIG);
             return NextResponse.json(DEFAULT_CONFIG);
         }
-        return NextResponse.json(doc.data());
+        // Fill in settings added after the doc was created
+        const data = doc.data()!;
+        return NextResponse.json({
+            ...DEFAULT_CONFIG,
+            ...data,
+            loyalty: { ...DEFAULT_LOYALTY_CONFIG, ...data.loyalty },
+            preOrders: { ...DEFAULT_PRE_ORDER_CONFIG, ...data.preOrders },
+            kitchen: { ...DEFAULT_KITCHEN_CONFIG, ...data.kitchen },
+        });
     } catch (error) {
         console.error("Failed to fetch settings:", error);
         return NextResponse.json({ error: "Failed to fetch settings" }, { status: 500 });
@@ -63,13 +89,62 @@ export async function PUT(req: NextRequest) {
             update.endTime = data.endTime;
         }
 
+        if (data.cancelGraceMinutes !== undefined) {
+            const minutes = data.cancelGraceMinutes;
+            if (typeof minutes !== "number" || !Number.isInteger(minutes) || minutes < 0 || minutes > MAX_CANCEL_GRACE_MINUTES) {
+                return NextResponse.json({ error: `Cancellation window must be 0–${MAX_CANCEL_GRACE_MINUTES} minutes` }, { status: 400 });
+            }
+            update.cancelGraceMinutes = minutes;
+        }
+
+        if (data.pinOrderThreshold !== undefined) {
+            const threshold = data.pinOrderThreshold;
+            if (typeof threshold !== "number" || !Number.isInteger(threshold) || threshold < 0 || threshold > 5000) {
+                return NextResponse.json({ error: "PIN threshold must be ₹0–₹5000" }, { status: 400 });
+            }
+            update.pinOrderThreshold = threshold;
+        }
+
+        if (data.adjustmentApprovalThreshold !== undefined) {
+            const threshold = data.adjustmentApprovalThreshold;
+            if (typeof threshold !== "number" || !Number.isInteger(threshold) || threshold < 0 || threshold > MAX_ADJUSTMENT) {
+                return NextResponse.json({ error: `Approval threshold must be ₹0–₹${MAX_ADJUSTMENT}` }, { status: 400 });
+            }
+            update.adjustmentApprovalThreshold = threshold;
+        }
+
+        if (data.loyalty !== undefined) {
+            const loyalty = parseLoyaltyConfig(data.loyalty);
+            if (typeof loyalty === "string") {
+                return NextResponse.json({ error: loyalty }, { status: 400 });
+            }
+            update.loyalty = loyalty;
+        }
+
+        if (data.preOrders !== undefined) {
+            const preOrders = parsePreOrderConfig(data.preOrders);
+            if (typeof preOrders === "string") {
+                return NextResponse.json({ error: preOrders }, { status: 400 });
+            }
+            update.preOrders = preOrders;
+        }
+
+        if (data.kitchen !== undefined) {
+            const kitchen = parseKitchenConfig(data.kitchen);
+            if (typeof kitchen === "string") {
+                return NextResponse.json({ error: kitchen }, { status: 400 });
+            }
+            update.kitchen = kitchen;
+        }
+
         if (Object.keys(update).length === 0) {
             return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
         }
 
         update.updatedAt = new Date().toISOString();
 
-        await adminDb.doc(CONFIG_PATH).set(update, { merge: true });
+        // mergeFields replaces each given field whole, so removed category multipliers and stations go away
+        await adminDb.doc(CONFIG_PATH).set(update, { mergeFields: Object.keys(update) });
 
         return NextResponse.json({ success: true });
     } catch (error) {
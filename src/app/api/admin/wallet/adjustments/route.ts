@@ -0,0 +1,172 @@
+/**
+ * /api/admin/wallet/adjustments — Manual user wallet credits/debits
+ *
+ * GET   — Pending adjustments plus the most recent ones
+ *         ?user=<uid | email | 6-char user code> also resolves that user and
+ *         lists only their adjustments
+ * POST  — Request an adjustment; applied at once up to the approval threshold
+ *         Body: { userId, direction: "credit" | "debit", amount,
+ *                 reason: "goodwill" | "correction" | "cash_deposit" | "complaint_compensation",
+ *                 note?, orderId?, feedbackId? }
+ * PATCH — Approve or reject a pending adjustment (see lib/wallet-adjustments)
+ *         Body: { adjustmentId, action: "approve" | "reject", reason? }
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin(); adjustments
+ * above the threshold must be approved by a different admin than the requester
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { getCanteenConfig } from "@/lib/order-placement";
+import {
+    AdjustmentError,
+    approveAdjustment,
+    getAdjustmentApprovalThreshold,
+    parseAdjustmentInput,
+    rejectAdjustment,
+    requestAdjustment,
+    WALLET_ADJUSTMENTS_COLLECTION,
+} from "@/lib/wallet-adjustments";
+import type { WalletAdjustment } from "@/types";
+
+export const runtime = "nodejs";
+
+/** Find a user by uid, email or unique code. */
+async function findUser(lookup: string) {
+    const direct = await adminDb.collection("users").doc(lookup).get();
+    if (direct.exists) return direct;
+
+    const field = lookup.includes("@") ? "email" : "uniqueCode";
+    const value = field === "email" ? lookup : lookup.toUpperCase();
+    const snap = await adminDb.collection("users").where(field, "==", value).limit(1).get();
+    return snap.empty ? null : snap.docs[0];
+}
+
+// ─── GET ────────────────────────────────────────
+export async function GET(req: NextRequest) {
+    if (!verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const lookup = req.nextUrl.searchParams.get("user")?.trim();
+        const collection = adminDb.collection(WALLET_ADJUSTMENTS_COLLECTION);
+        const toAdjustment = (d: QueryDocumentSnapshot) => ({ id: d.id, ...d.data() }) as WalletAdjustment;
+        const [config, pendingSnap] = await Promise.all([
+            getCanteenConfig(),
+            collection.where("status", "==", "pending").get(),
+        ]);
+        const pending = pendingSnap.docs.map(toAdjustment).sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+        const approvalThreshold = getAdjustmentApprovalThreshold(config);
+
+        if (lookup) {
+            const userDoc = await findUser(lookup);
+            if (!userDoc) {
+                return NextResponse.json({ error: "No user matches that ID, email or code" }, { status: 404 });
+            }
+            const data = userDoc.data()!;
+            const historySnap = await collection
+                .where("userId", "==", userDoc.id)
+                .orderBy("requestedAt", "desc")
+                .limit(30)
+                .get();
+
+            return NextResponse.json({
+                success: true,
+                approvalThreshold,
+                pending,
+                user: {
+                    id: userDoc.id,
+                    name: data.name || "",
+                    email: data.email || "",
+                    uniqueCode: data.uniqueCode || "",
+                    walletBalance: data.walletBalance || 0,
+                },
+                history: historySnap.docs.map(toAdjustment),
+            });
+        }
+
+        const recentSnap = await collection.orderBy("requestedAt", "desc").limit(30).get();
+        const history = recentSnap.docs.map(toAdjustment).filter((a) => a.status !== "pending");
+
+        return NextResponse.json({ success: true, approvalThreshold, pending, history });
+    } catch (error) {
+        console.error("[Adjustments] Failed to list:", error);
+        return NextResponse.json({ error: "Failed to load adjustments" }, { status: 500 });
+    }
+}
+
+// ─── POST ───────────────────────────────────────
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const input = parseAdjustmentInput(await req.json());
+        if (typeof input === "string") {
+            return NextResponse.json({ error: input }, { status: 400 });
+        }
+
+        const result = await requestAdjustment({
+            input,
+            adminUsername: admin.username,
+            approvalThreshold: getAdjustmentApprovalThreshold(await getCanteenConfig()),
+        });
+
+        return NextResponse.json({
+            success: true,
+            ...result,
+            message: result.status === "pending"
+                ? "Adjustment recorded — another admin must approve it"
+                : `₹${input.amount} ${input.direction === "credit" ? "credited to" : "debited from"} wallet`,
+        });
+    } catch (error) {
+        if (error instanceof AdjustmentError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Adjustment error:", error);
+        return NextResponse.json({ error: "Failed to record adjustment" }, { status: 500 });
+    }
+}
+
+// ─── PATCH ──────────────────────────────────────
+export async function PATCH(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { adjustmentId, action, reason } = await req.json();
+
+        if (typeof adjustmentId !== "string" || !adjustmentId) {
+            return NextResponse.json({ error: "adjustmentId is required" }, { status: 400 });
+        }
+
+        switch (action) {
+            case "approve":
+                await approveAdjustment(adjustmentId, admin.username);
+                break;
+            case "reject":
+                if (typeof reason !== "string" || reason.trim().length < 3) {
+                    return NextResponse.json({ error: "A reason is required to reject an adjustment" }, { status: 400 });
+                }
+                await rejectAdjustment(adjustmentId, admin.username, reason.trim().slice(0, 300));
+                break;
+            default:
+                return NextResponse.json({ error: "action must be approve or reject" }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof AdjustmentError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Adjustment update error:", error);
+        return NextResponse.json({ error: "Failed to update adjustment" }, { status: 500 });
+    }
+}
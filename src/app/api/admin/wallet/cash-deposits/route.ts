@@ -0,0 +1,155 @@
+/**
+ * /api/admin/wallet/cash-deposits — Counter cash deposits
+ *
+ * GET   — ?student=<uniqueCode | roll number> looks a student up before taking cash;
+ *         otherwise lists the deposits opened on ?date=YYYY-MM-DD (default today)
+ *         together with that day's cash drawer
+ * POST  — Open a deposit the student must confirm on their device
+ *         Body: { userId, amount }
+ * PATCH — Cancel an unconfirmed deposit
+ *         Body: { depositId, action: "cancel" }
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin(); the wallet
+ * is only credited once the student confirms (see lib/cash-deposits)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import {
+    CASH_DEPOSITS_COLLECTION,
+    CASH_DRAWERS_COLLECTION,
+    CashDepositError,
+    closeCashDeposit,
+    createCashDeposit,
+    drawerDate,
+    findStudent,
+    MAX_CASH_DEPOSIT,
+} from "@/lib/cash-deposits";
+import type { CashDeposit, CashDrawerDay } from "@/types";
+
+export const runtime = "nodejs";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ─── GET ────────────────────────────────────────
+export async function GET(req: NextRequest) {
+    if (!verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const student = req.nextUrl.searchParams.get("student")?.trim();
+        if (student) {
+            const userDoc = await findStudent(student);
+            if (!userDoc) {
+                return NextResponse.json({ error: "No student matches that code or roll number" }, { status: 404 });
+            }
+            const data = userDoc.data()!;
+            return NextResponse.json({
+                success: true,
+                student: {
+                    id: userDoc.id,
+                    name: data.name || "",
+                    email: data.email || "",
+                    uniqueCode: data.uniqueCode || "",
+                    rollNumber: data.rollNumber || "",
+                },
+            });
+        }
+
+        const date = req.nextUrl.searchParams.get("date") || drawerDate();
+        if (!DATE_PATTERN.test(date)) {
+            return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 });
+        }
+
+        const nextDay = drawerDate(new Date(new Date(`${date}T00:00:00.000Z`).getTime() + 86_400_000));
+        const [depositSnap, drawerDoc] = await Promise.all([
+            adminDb
+                .collection(CASH_DEPOSITS_COLLECTION)
+                .where("createdAt", ">=", date)
+                .where("createdAt", "<", nextDay)
+                .orderBy("createdAt", "desc")
+                .get(),
+            adminDb.collection(CASH_DRAWERS_COLLECTION).doc(date).get(),
+        ]);
+
+        const drawer: CashDrawerDay = drawerDoc.exists
+            ? (drawerDoc.data() as CashDrawerDay)
+            : { date, expectedTotal: 0, depositCount: 0, updatedAt: "" };
+
+        return NextResponse.json({
+            success: true,
+            date,
+            drawer,
+            deposits: depositSnap.docs.map((d) => ({ id: d.id, ...d.data() }) as CashDeposit),
+        });
+    } catch (error) {
+        console.error("[CashDeposits] Failed to list:", error);
+        return NextResponse.json({ error: "Failed to load cash deposits" }, { status: 500 });
+    }
+}
+
+// ─── POST ───────────────────────────────────────
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { userId, amount } = await req.json();
+
+        if (typeof userId !== "string" || !userId) {
+            return NextResponse.json({ error: "userId is required" }, { status: 400 });
+        }
+        const parsedAmount = Math.round(Number(amount) * 100) / 100;
+        if (!Number.isFinite(parsedAmount) || parsedAmount < 1 || parsedAmount > MAX_CASH_DEPOSIT) {
+            return NextResponse.json({ error: `Amount must be ₹1–₹${MAX_CASH_DEPOSIT}` }, { status: 400 });
+        }
+
+        const userDoc = await adminDb.collection("users").doc(userId).get();
+        if (!userDoc.exists) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        const deposit = await createCashDeposit({ userDoc, amount: parsedAmount, adminUsername: admin.username });
+
+        return NextResponse.json({
+            success: true,
+            deposit,
+            message: "Ask the student to confirm the deposit in their wallet",
+        });
+    } catch (error) {
+        console.error("Cash deposit error:", error);
+        return NextResponse.json({ error: "Failed to open cash deposit" }, { status: 500 });
+    }
+}
+
+// ─── PATCH ──────────────────────────────────────
+export async function PATCH(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { depositId, action } = await req.json();
+
+        if (typeof depositId !== "string" || !depositId) {
+            return NextResponse.json({ error: "depositId is required" }, { status: 400 });
+        }
+        if (action !== "cancel") {
+            return NextResponse.json({ error: "action must be cancel" }, { status: 400 });
+        }
+
+        await closeCashDeposit(depositId, { type: "admin", id: admin.username });
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof CashDepositError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Cash deposit update error:", error);
+        return NextResponse.json({ error: "Failed to update cash deposit" }, { status: 500 });
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * POST /api/admin/wallet/cash-drawer — Close a day's cash drawer
+ *
+ * Body: { date?: "YYYY-MM-DD" (default today), countedAmount, note? }
+ * Records the physically counted cash against the total of confirmed
+ * counter deposits and stores the variance (see lib/cash-deposits).
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin()
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { CashDepositError, closeCashDrawer, drawerDate } from "@/lib/cash-deposits";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { date, countedAmount, note } = await req.json();
+
+        const day = typeof date === "string" && date ? date : drawerDate();
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || day > drawerDate()) {
+            return NextResponse.json({ error: "date must be today or earlier (YYYY-MM-DD)" }, { status: 400 });
+        }
+
+        const counted = Math.round(Number(countedAmount) * 100) / 100;
+        if (!Number.isFinite(counted) || counted < 0) {
+            return NextResponse.json({ error: "Counted amount must be zero or more" }, { status: 400 });
+        }
+
+        const drawer = await closeCashDrawer({
+            date: day,
+            countedAmount: counted,
+            adminUsername: admin.username,
+            note: typeof note === "string" && note.trim() ? note.trim().slice(0, 300) : undefined,
+        });
+
+        return NextResponse.json({ success: true, drawer });
+    } catch (error) {
+        if (error instanceof CashDepositError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Cash drawer close error:", error);
+        return NextResponse.json({ error: "Failed to close cash drawer" }, { status: 500 });
+    }
+}
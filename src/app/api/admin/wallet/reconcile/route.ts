@@ -0,0 +1,82 @@
+/**
+ * /api/admin/wallet/reconcile — Wallet reconciliation report + corrections
+ *
+ * GET  — Compare stored wallet numbers with their sources (see lib/wallet-reconciliation)
+ * POST — Apply one audited correction
+ *        Body: { action, target?, reason }
+ *        or { action: "opening_balances", reason } — one-off ledger backfill (lib/ledger)
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin();
+ * the admin's username is recorded on every correction
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { LedgerError, postOpeningBalances } from "@/lib/ledger";
+import {
+    buildReconciliationReport,
+    applyCorrection,
+    CORRECTION_ACTIONS,
+    type CorrectionAction,
+} from "@/lib/wallet-reconciliation";
+
+export const runtime = "nodejs";
+
+// ─── GET ────────────────────────────────────────
+export async function GET(req: NextRequest) {
+    if (!verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const report = await buildReconciliationReport();
+        return NextResponse.json({ success: true, report });
+    } catch (error) {
+        console.error("[Reconcile] Report failed:", error);
+        return NextResponse.json({ error: "Failed to build reconciliation report" }, { status: 500 });
+    }
+}
+
+// ─── POST ───────────────────────────────────────
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { action, target, reason } = await req.json();
+
+        if (action !== "opening_balances" && !CORRECTION_ACTIONS.includes(action as CorrectionAction)) {
+            return NextResponse.json({ error: `action must be one of: ${[...CORRECTION_ACTIONS, "opening_balances"].join(", ")}` }, { status: 400 });
+        }
+        if (typeof reason !== "string" || reason.trim().length < 3) {
+            return NextResponse.json({ error: "A reason is required for every correction" }, { status: 400 });
+        }
+
+        if (action === "opening_balances") {
+            console.log(`[Reconcile] ${admin.username} posting opening balances: ${reason.trim().slice(0, 500)}`);
+            const result = await postOpeningBalances(admin.username);
+            return NextResponse.json({ success: true, ...result });
+        }
+        if (action !== "canteen" && (typeof target !== "string" || !target)) {
+            return NextResponse.json({ error: "target is required" }, { status: 400 });
+        }
+
+        const result = await applyCorrection({
+            action,
+            target: action === "canteen" ? undefined : target,
+            reason: reason.trim().slice(0, 500),
+            adminUsername: admin.username,
+        });
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        if (error instanceof LedgerError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("[Reconcile] Correction failed:", error);
+        const message = error instanceof Error ? error.message : "Failed to apply correction";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * GET /api/admin/wallet/topups — Top-up intents for support
+ *
+ * Query:
+ *   user   — uid, unique code or email (optional)
+ *   status — created | paid | credited | failed | expired (optional)
+ *
+ * Answers "I paid but didn't get money": each intent shows what Razorpay
+ * order was created, whether a payment arrived and why it was not credited.
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin()
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Query } from "firebase-admin/firestore";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { adminDb } from "@/lib/firebase-admin";
+import { TOPUP_INTENTS_COLLECTION } from "@/lib/topup-intents";
+import type { TopupIntent, TopupIntentStatus } from "@/types";
+
+export const runtime = "nodejs";
+
+const STATUSES: TopupIntentStatus[] = ["created", "paid", "credited", "failed", "expired"];
+
+async function resolveUserId(user: string): Promise<string | null> {
+    const users = adminDb.collection("users");
+    const direct = await users.doc(user).get();
+    if (direct.exists) return user;
+
+    const field = user.includes("@") ? "email" : "uniqueCode";
+    const value = field === "email" ? user : user.toUpperCase();
+    const snap = await users.where(field, "==", value).limit(1).get();
+    return snap.empty ? null : snap.docs[0].id;
+}
+
+export async function GET(req: NextRequest) {
+    if (!verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = req.nextUrl.searchParams.get("user")?.trim();
+    const status = req.nextUrl.searchParams.get("status") as TopupIntentStatus | null;
+
+    if (status && !STATUSES.includes(status)) {
+        return NextResponse.json({ error: `status must be one of: ${STATUSES.join(", ")}` }, { status: 400 });
+    }
+
+    try {
+        let query: Query = adminDb.collection(TOPUP_INTENTS_COLLECTION);
+
+        if (user) {
+            const userId = await resolveUserId(user);
+            if (!userId) {
+                return NextResponse.json({ error: "User not found" }, { status: 404 });
+            }
+            query = query.where("userId", "==", userId);
+        }
+
+        const snapshot = await query.orderBy("createdAt", "desc").limit(user ? 100 : 200).get();
+        let intents = snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as TopupIntent);
+        // Filtered in memory to avoid an index per status combination
+        if (status) intents = intents.filter((i) => i.status === status);
+
+        return NextResponse.json({ success: true, intents });
+    } catch (error) {
+        console.error("[Topups] Lookup failed:", error);
+        return NextResponse.json({ error: "Failed to load top-ups" }, { status: 500 });
+    }
+}
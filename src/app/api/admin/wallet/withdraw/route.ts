@@ -1,59 +1,94 @@
+/**
+ * /api/admin/wallet/withdraw — Canteen withdrawal workflow
+ *
+ * GET   — Open withdrawals (requested/approved) plus the most recent closed ones
+ * POST  — Request a withdrawal; reserves the amount
+ *         Body: { amount, payout: { method: "upi", upiId } | { method: "bank", accountName, accountNumber, ifsc, bankName? }, note? }
+ * PATCH — Advance a withdrawal (see lib/withdrawals)
+ *         Body: { withdrawalId, action: "approve" | "mark_paid" | "reject", payoutReference?, reason? }
+ *
+ * SECURITY: Requires admin JWT verification via verifyAdmin(); approval
+ * must come from a different admin than the requester
+ */
+
 import { NextRequest, NextResponse } from "next/server";
+import { QueryDocumentSnapshot } from "firebase-admin/firestore";
 import { adminDb } from "@/lib/firebase-admin";
 import { verifyAdmin } from "@/lib/admin-auth";
-import { FieldValue } from "firebase-admin/firestore";
+import {
+    approveWithdrawal,
+    markWithdrawalPaid,
+    parsePayoutDetails,
+    rejectWithdrawal,
+    requestWithdrawal,
+    WithdrawalError,
+    WITHDRAWALS_COLLECTION,
+} from "@/lib/withdrawals";
+import type { Withdrawal } from "@/types";
 
 export const runtime = "nodejs";
 
-export async function POST(req: NextRequest) {
+const MAX_WITHDRAWAL = 500_000;
+
+// ─── GET ────────────────────────────────────────
+export async function GET(req: NextRequest) {
     if (!verifyAdmin(req)) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     try {
-        const { amount } = await req.json();
-        if (!amount || amount <= 0) {
+        const [openSnap, recentSnap] = await Promise.all([
+            adminDb.collection(WITHDRAWALS_COLLECTION).where("status", "in", ["requested", "approved"]).get(),
+            adminDb.collection(WITHDRAWALS_COLLECTION).orderBy("requestedAt", "desc").limit(30).get(),
+        ]);
+
+        const toWithdrawal = (d: QueryDocumentSnapshot) => ({ id: d.id, ...d.data() }) as Withdrawal;
+        const pending = openSnap.docs.map(toWithdrawal).sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+        const history = recentSnap.docs.map(toWithdrawal).filter((w) => w.status !== "requested" && w.status !== "approved");
+
+        return NextResponse.json({ success: true, pending, history });
+    } catch (error) {
+        console.error("[Withdrawals] Failed to list:", error);
+        return NextResponse.json({ error: "Failed to load withdrawals" }, { status: 500 });
+    }
+}
+
+// ─── POST ───────────────────────────────────────
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { amount, payout, note } = await req.json();
+
+        const parsedAmount = Number(amount);
+        if (!Number.isFinite(parsedAmount) || parsedAmount <= 0 || parsedAmount > MAX_WITHDRAWAL) {
             return NextResponse.json({ error: "Invalid withdrawal amount" }, { status: 400 });
         }
 
-        const walletRef = adminDb.collection("wallets").doc("canteen_owner");
-
-        await adminDb.runTransaction(async (transaction) => {
-            const walletDoc = await transaction.get(walletRef);
-            if (!walletDoc.exists) throw new Error("Wallet not found");
-
-            const currentBalance = walletDoc.data()!.totalBalance || 0;
-            if (currentBalance < amount) {
-                throw new Error("Insufficient balance for withdrawal");
-            }
-
-            // Deduct balance
-            transaction.update(walletRef, {
-                totalBalance: FieldValue.increment(-amount),
-                lastUpdated: new Date().toISOString(),
-            });
-
-            // Record Global Transaction
-            const txnRef = adminDb.collection("canteenTransactions").doc();
-            transaction.set(txnRef, {
-                amount,
-                type: "withdrawal",
-                description: "Wallet Withdrawal",
-                createdAt: new Date().toISOString(),
-            });
-
-            // Record specific Withdrawal request
-            const withdrawRef = adminDb.collection("withdrawals").doc();
-            transaction.set(withdrawRef, {
-                amount,
-                status: "completed",
-                requestedAt: new Date().toISOString(),
-                processedAt: new Date().toISOString(),
-            });
+        const payoutDetails = parsePayoutDetails(payout);
+        if (typeof payoutDetails === "string") {
+            return NextResponse.json({ error: payoutDetails }, { status: 400 });
+        }
+
+        const withdrawalId = await requestWithdrawal({
+            amount: Math.round(parsedAmount * 100) / 100,
+            payout: payoutDetails,
+            note: typeof note === "string" && note.trim() ? note.trim().slice(0, 300) : undefined,
+            adminUsername: admin.username,
         });
 
-        return NextResponse.json({ success: true, message: "Withdrawal successful" });
+        return NextResponse.json({
+            success: true,
+            withdrawalId,
+            message: "Withdrawal requested — another admin must approve it",
+        });
     } catch (error) {
+        if (error instanceof WithdrawalError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
         console.error("Withdrawal error:", error);
         return NextResponse.json(
             { error: error instanceof Error ? error.message : "Withdrawal failed" },
@@ -61,3 +96,47 @@ export async function POST(req: NextRequest) {
         );
     }
 }
+
+// ─── PATCH ──────────────────────────────────────
+export async function PATCH(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { withdrawalId, action, payoutReference, reason } = await req.json();
+
+        if (typeof withdrawalId !== "string" || !withdrawalId) {
+            return NextResponse.json({ error: "withdrawalId is required" }, { status: 400 });
+        }
+
+        switch (action) {
+            case "approve":
+                await approveWithdrawal(withdrawalId, admin.username);
+                break;
+            case "mark_paid":
+                if (typeof payoutReference !== "string" || payoutReference.trim().length < 4) {
+                    return NextResponse.json({ error: "Payout reference (UTR / transaction ID) is required" }, { status: 400 });
+                }
+                await markWithdrawalPaid(withdrawalId, admin.username, payoutReference.trim().slice(0, 100));
+                break;
+            case "reject":
+                if (typeof reason !== "string" || reason.trim().length < 3) {
+                    return NextResponse.json({ error: "A reason is required to reject a withdrawal" }, { status: 400 });
+                }
+                await rejectWithdrawal(withdrawalId, admin.username, reason.trim().slice(0, 300));
+                break;
+            default:
+                return NextResponse.json({ error: "action must be approve, mark_paid or reject" }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof WithdrawalError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Withdrawal update error:", error);
+        return NextResponse.json({ error: "Failed to update withdrawal" }, { status: 500 });
+    }
+}
@@ -1,55 +1,72 @@
 /**
  * GET /api/auto-orders/execute — Triggered by cron.
- * Processes all active auto-orders that match the current time and day.
+ * Processes all active auto-orders with a slot due inside the grace window
+ * (see lib/auto-order-scheduler), placing real wallet-paid orders via
+ * lib/auto-order-executor. Safe to call as often as needed: each slot is
+ * executed at most once.
+ *
+ * SECURITY: Requires `Authorization: Bearer <CRON_SECRET>` (sent by Vercel Cron
+ * and scripts/dev-cron.js).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
+import { verifyCronRequest } from "@/lib/cron-auth";
+import { getCanteenConfig } from "@/lib/order-placement";
+import { getDueSlot, getGraceMinutes, getNextDueAt } from "@/lib/auto-order-scheduler";
+import {
+    executeAutoOrder,
+    AUTO_ORDERS_COLLECTION,
+    type AutoOrderExecutionResult,
+} from "@/lib/auto-order-executor";
+import type { AutoOrder } from "@/types";
+
+export const runtime = "nodejs";
 
 export async function GET(req: NextRequest) {
-    // In production, you might want to check a CRON_SECRET header from Vercel/cron-job.org
+    // SECURITY: Only the scheduler may trigger order placement
+    if (!verifyCronRequest(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
         const now = new Date();
-        const currentHour = now.getHours().toString().padStart(2, "0");
-        const currentMinute = now.getMinutes().toString().padStart(2, "0");
-        const currentTime = `${currentHour}:${currentMinute}`;
+        const graceMinutes = getGraceMinutes();
 
-        const days = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-        const currentDay = days[now.getDay()];
-
-        // Find active auto-orders for this time
-        const snapshot = await adminDb.collection("auto-orders")
+        const snapshot = await adminDb.collection(AUTO_ORDERS_COLLECTION)
             .where("status", "==", "active")
-            .where("time", "==", currentTime)
             .get();
 
-        const results = [];
+        // Find active auto-orders with a slot due in (now - grace, now]
+        const due: { autoOrder: AutoOrder; slot: Date }[] = [];
         for (const doc of snapshot.docs) {
-            const data = doc.data();
-
-            // Handle frequency logic
-            let shouldExecute = false;
-            if (data.frequency === "daily") {
-                shouldExecute = true;
-            } else if (data.frequency === "weekdays" && !["saturday", "sunday"].includes(currentDay)) {
-                shouldExecute = true;
-            } else if (data.frequency === "custom" && data.customDays?.includes(currentDay)) {
-                shouldExecute = true;
-            }
-
-            if (shouldExecute) {
-                // Logic to create an actual order (simplified here)
-                // In a real app, you'd call a internal function or order API
-                results.push({ id: doc.id, userId: data.userId, executed: true });
-            }
+            const autoOrder = { id: doc.id, ...doc.data() } as AutoOrder;
+            const slot = getDueSlot(autoOrder, now, graceMinutes);
+            if (slot) due.push({ autoOrder, slot });
         }
 
+        const config = due.length > 0 ? await getCanteenConfig() : undefined;
+
+        // Orders are placed sequentially so a user's wallet is never raced by two auto-orders
+        const results: (AutoOrderExecutionResult & { nextDueAt?: string })[] = [];
+        for (const { autoOrder, slot } of due) {
+            const result = await executeAutoOrder(autoOrder, slot, config, now);
+            results.push({ ...result, nextDueAt: getNextDueAt(autoOrder, now)?.toISOString() });
+        }
+
+        const executed = results.filter((r) => !r.skipped);
+        const succeeded = executed.filter((r) => r.success).length;
+
         return NextResponse.json({
             success: true,
             processed: snapshot.size,
-            executed: results.length,
-            time: currentTime
+            candidates: due.length,
+            succeeded,
+            failed: executed.length - succeeded,
+            skipped: results.length - executed.length,
+            graceMinutes,
+            results,
+            time: now.toISOString(),
         });
     } catch (error) {
         console.error("Auto-order execution failed:", error);
@@ -1,68 +1,231 @@
 /**
- * GET /api/auto-orders — Fetch all auto-orders for a user
- * POST /api/auto-orders — Create a new auto-order
- * PATCH /api/auto-orders?id={id} — Update an auto-order (status, quantity, etc.)
- * DELETE /api/auto-orders?id={id} — Delete an auto-order
+ * /api/auto-orders — User Auto Recurring Order CRUD
+ *
+ * GET    — List the caller's auto-orders (with computed nextDueAt)
+ * POST   — Create a new auto-order
+ * PATCH  ?id={id} — Update quantity/time/frequency/days/item/status
+ * DELETE ?id={id} — Delete an auto-order
+ *
+ * SECURITY:
+ * - All handlers require a Firebase ID token; userId always comes from the token
+ * - PATCH/DELETE enforce ownership of the auto-order
+ * - Request bodies are validated field-by-field against the AutoOrder type;
+ *   item name/price are copied from the referenced menuItems doc
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { adminDb, adminAuth } from "@/lib/firebase-admin";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { getNextDueAt } from "@/lib/auto-order-scheduler";
+import { AUTO_ORDERS_COLLECTION } from "@/lib/auto-order-executor";
+import type { AutoOrder, AutoOrderFrequency, AutoOrderStatus, DayOfWeek } from "@/types";
 
+export const runtime = "nodejs";
+
+const VALID_DAYS: DayOfWeek[] = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const VALID_FREQUENCIES: AutoOrderFrequency[] = ["daily", "weekdays", "custom"];
+const VALID_STATUSES: AutoOrderStatus[] = ["active", "paused"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_QUANTITY = 20;
+
+type AutoOrderFields = Partial<Pick<AutoOrder,
+    "itemId" | "itemName" | "itemPrice" | "quantity" | "time" | "frequency" | "customDays" | "status"
+>>;
+
+/**
+ * Validate the user-editable fields of an auto-order.
+ * Returns the sanitized fields, or an error message. Unknown fields are dropped.
+ */
+function validateFields(body: Record<string, unknown>, existing?: AutoOrder): AutoOrderFields | string {
+    const fields: AutoOrderFields = {};
+
+    if (body.itemId !== undefined) {
+        if (typeof body.itemId !== "string" || !body.itemId.trim()) return "itemId must be a string";
+        fields.itemId = body.itemId.trim();
+    }
+    if (body.quantity !== undefined) {
+        if (typeof body.quantity !== "number" || !Number.isInteger(body.quantity) || body.quantity < 1 || body.quantity > MAX_QUANTITY) {
+            return `Quantity must be 1–${MAX_QUANTITY}`;
+        }
+        fields.quantity = body.quantity;
+    }
+    if (body.time !== undefined) {
+        if (typeof body.time !== "string" || !TIME_PATTERN.test(body.time)) return "Time must be in HH:MM format";
+        fields.time = body.time;
+    }
+    if (body.frequency !== undefined) {
+        if (!VALID_FREQUENCIES.includes(body.frequency as AutoOrderFrequency)) {
+            return `Frequency must be one of: ${VALID_FREQUENCIES.join(", ")}`;
+        }
+        fields.frequency = body.frequency as AutoOrderFrequency;
+    }
+    if (body.customDays !== undefined) {
+        if (!Array.isArray(body.customDays)) return "customDays must be an array";
+        const invalidDays = body.customDays.filter((d) => !VALID_DAYS.includes(d as DayOfWeek));
+        if (invalidDays.length > 0) return `Invalid days: ${invalidDays.join(", ")}`;
+        fields.customDays = [...new Set(body.customDays as DayOfWeek[])];
+    }
+    if (body.status !== undefined) {
+        if (!VALID_STATUSES.includes(body.status as AutoOrderStatus)) return "Status must be active or paused";
+        fields.status = body.status as AutoOrderStatus;
+    }
+
+    // customDays is required (and only kept) for the "custom" frequency
+    const frequency = fields.frequency ?? existing?.frequency;
+    const customDays = fields.customDays ?? existing?.customDays;
+    if (frequency === "custom" && (!customDays || customDays.length === 0)) {
+        return "Pick at least one day for a custom schedule";
+    }
+
+    return fields;
+}
+
+/**
+ * Copy the display name and price from the referenced menu item.
+ * Returns an error response when the item does not exist.
+ */
+async function attachMenuItem(fields: AutoOrderFields): Promise<NextResponse | null> {
+    if (!fields.itemId) return null;
+
+    const itemDoc = await adminDb.collection("menuItems").doc(fields.itemId).get();
+    if (!itemDoc.exists) {
+        return NextResponse.json({ error: "Menu item not found" }, { status: 404 });
+    }
+    fields.itemName = itemDoc.data()?.name ?? "Unknown Item";
+    fields.itemPrice = itemDoc.data()?.price ?? 0;
+    return null;
+}
+
+// ─── GET ────────────────────────────────────────
 export async function GET(req: NextRequest) {
-    const userId = req.nextUrl.searchParams.get("userId");
-    if (!userId) return NextResponse.json({ error: "userId is required" }, { status: 400 });
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
     try {
-        const snapshot = await adminDb.collection("auto-orders")
-            .where("userId", "==", userId)
+        const snapshot = await adminDb.collection(AUTO_ORDERS_COLLECTION)
+            .where("userId", "==", uid)
             .get();
 
-        const autoOrders = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        const now = new Date();
+        const autoOrders = snapshot.docs.map(doc => {
+            const autoOrder = { id: doc.id, ...doc.data() } as AutoOrder;
+            const nextDueAt = autoOrder.status === "active" ? getNextDueAt(autoOrder, now) : null;
+            return { ...autoOrder, nextDueAt: nextDueAt?.toISOString() };
+        });
         return NextResponse.json({ success: true, autoOrders });
-    } catch (error) {
+    } catch (err) {
+        console.error("[AutoOrders] GET error:", err);
         return NextResponse.json({ error: "Failed to fetch auto-orders" }, { status: 500 });
     }
 }
 
+// ─── POST ───────────────────────────────────────
 export async function POST(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
     try {
-        const data = await req.json();
-        const docRef = await adminDb.collection("auto-orders").add({
-            ...data,
+        const body = await req.json();
+        if (!body.itemId || body.quantity === undefined || !body.time || !body.frequency) {
+            return NextResponse.json({ error: "itemId, quantity, time and frequency are required" }, { status: 400 });
+        }
+
+        const fields = validateFields(body);
+        if (typeof fields === "string") {
+            return NextResponse.json({ error: fields }, { status: 400 });
+        }
+
+        const itemError = await attachMenuItem(fields);
+        if (itemError) return itemError;
+
+        const now = new Date().toISOString();
+        const autoOrder: Omit<AutoOrder, "id"> = {
+            userId: uid,
+            itemId: fields.itemId!,
+            itemName: fields.itemName!,
+            itemPrice: fields.itemPrice!,
+            quantity: fields.quantity!,
+            time: fields.time!,
+            frequency: fields.frequency!,
+            ...(fields.frequency === "custom" ? { customDays: fields.customDays } : {}),
             status: "active",
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-        });
-        return NextResponse.json({ success: true, id: docRef.id });
-    } catch (error) {
+            totalExecutions: 0,
+            totalFailures: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        const ref = await adminDb.collection(AUTO_ORDERS_COLLECTION).add(autoOrder);
+        console.log(`[AutoOrders] Created auto-order ${ref.id} for user ${uid}`);
+        return NextResponse.json({ success: true, id: ref.id });
+    } catch (err) {
+        console.error("[AutoOrders] POST error:", err);
         return NextResponse.json({ error: "Failed to create auto-order" }, { status: 500 });
     }
 }
 
+// ─── PATCH ──────────────────────────────────────
 export async function PATCH(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
     const id = req.nextUrl.searchParams.get("id");
     if (!id) return NextResponse.json({ error: "ID is required" }, { status: 400 });
 
     try {
-        const data = await req.json();
-        await adminDb.collection("auto-orders").doc(id).update({
-            ...data,
-            updatedAt: new Date().toISOString(),
-        });
+        const docRef = adminDb.collection(AUTO_ORDERS_COLLECTION).doc(id);
+        const docSnap = await docRef.get();
+
+        if (!docSnap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        const existing = { id: docSnap.id, ...docSnap.data() } as AutoOrder;
+        if (existing.userId !== uid) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+        const body = await req.json();
+        const fields = validateFields(body, existing);
+        if (typeof fields === "string") {
+            return NextResponse.json({ error: fields }, { status: 400 });
+        }
+        if (Object.keys(fields).length === 0) {
+            return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
+        }
+
+        const itemError = await attachMenuItem(fields);
+        if (itemError) return itemError;
+
+        const updates: Record<string, unknown> = { ...fields, updatedAt: new Date().toISOString() };
+        if (fields.frequency && fields.frequency !== "custom") {
+            updates.customDays = [];
+        }
+
+        await docRef.update(updates);
+        console.log(`[AutoOrders] Updated auto-order ${id}`);
         return NextResponse.json({ success: true });
-    } catch (error) {
+    } catch (err) {
+        console.error("[AutoOrders] PATCH error:", err);
         return NextResponse.json({ error: "Failed to update auto-order" }, { status: 500 });
     }
 }
 
+// ─── DELETE ─────────────────────────────────────
 export async function DELETE(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
     const id = req.nextUrl.searchParams.get("id");
     if (!id) return NextResponse.json({ error: "ID is required" }, { status: 400 });
 
     try {
-        await adminDb.collection("auto-orders").doc(id).delete();
+        const docRef = adminDb.collection(AUTO_ORDERS_COLLECTION).doc(id);
+        const docSnap = await docRef.get();
+
+        if (!docSnap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        if (docSnap.data()?.userId !== uid) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+        await docRef.delete();
+        console.log(`[AutoOrders] Deleted auto-order ${id}`);
         return NextResponse.json({ success: true });
-    } catch (error) {
+    } catch (err) {
+        console.error("[AutoOrders] DELETE error:", err);
         return NextResponse.json({ error: "Failed to delete auto-order" }, { status: 500 });
     }
 }
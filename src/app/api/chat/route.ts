@@ -13,6 +13,7 @@ import { getAuthenticatedUser } from "@/lib/user-auth";
 import { checkRateLimit } from "@/lib/rate-limit";
 import { adminDb } from "@/lib/firebase-admin";
 import { generateOrderId } from "@/lib/orderIdUtils";
+import { getCancelGraceMinutes } from "@/lib/order-lifecycle";
 
 export const runtime = "nodejs";
 
@@ -28,7 +29,7 @@ export async function POST(req: NextRequest) {
     }
 
     try {
-        const { messages, cart, userProfile, action } = await req.json();
+        const { messages, cart, coupon, pointsRedemption, pickupSlot, userProfile, action } = await req.json();
 
         // SECURITY: Zayko-format order ID (replaces UUID-based ID)
         const generateId = () => generateOrderId();
@@ -36,11 +37,13 @@ export async function POST(req: NextRequest) {
         // Fetch canteen status for AI context
         let canteenIsOpen = true;
         let canteenTiming = "9AM – 6PM";
+        let cancelGraceMinutes = getCancelGraceMinutes();
         try {
             const configDoc = await adminDb.doc("settings/canteenConfig").get();
             if (configDoc.exists) {
                 const config = configDoc.data();
                 canteenIsOpen = config?.isOpen !== false;
+                cancelGraceMinutes = getCancelGraceMinutes(config);
                 if (config?.startTime && config?.endTime) {
                     canteenTiming = `${config.startTime} – ${config.endTime}`;
                 }
@@ -173,9 +176,14 @@ CANCEL ORDER RULE
 ------------------------------------------
 
 If user asks to cancel order:
-- Always respond:
-
-"Sorry 😔 order yahan se cancel nahi ho sakta.
+- A PENDING order (not yet accepted by the canteen) can be cancelled
+  within ${cancelGraceMinutes} minutes of placing it.
+- Tell the user to tap "Cancel Order" on the My Orders page, or type
+  "cancel order" to Jarvis 🤖. The amount is refunded to the wallet instantly.
+- Never claim you cancelled the order yourself.
+- If the order is already confirmed/preparing/ready, or the window has passed, respond:
+
+"Sorry 😔 yeh order ab cancel nahi ho sakta.
 Kripya canteen owner se contact karein:
 📞 9302593483"
 
@@ -243,7 +251,14 @@ Never go outside canteen domain.`;
             const cartSummary = cart
                 .map((item: { name: string; quantity: number; price: number }) => `• ${item.name} x${item.quantity} — ₹${item.price * item.quantity}`)
                 .join("\n");
-            const total = cart.reduce((sum: number, item: { price: number; quantity: number }) => sum + item.price * item.quantity, 0);
+            const subtotal = cart.reduce((sum: number, item: { price: number; quantity: number }) => sum + item.price * item.quantity, 0);
+            // Preview only — POST /api/orders re-applies the coupon and points server-side
+            const discount = coupon?.code ? Math.min(Math.max(Number(coupon.discount) || 0, 0), subtotal) : 0;
+            const pointsDiscount = pointsRedemption?.points
+                ? Math.min(Math.max(Number(pointsRedemption.discount) || 0, 0), subtotal - discount)
+                : 0;
+            const total = subtotal - discount - pointsDiscount;
+            const slotLabel = typeof pickupSlot?.label === "string" ? pickupSlot.label.slice(0, 20) : "";
 
             systemPrompt += `\n\nThe user wants to place an order. Here are the details:
 Student Name: ${userProfile.name}
@@ -253,16 +268,16 @@ Roll Number: ${userProfile.rollNumber}
 Cart Items:
 ${cartSummary}
 
-Total: ₹${total}
+${discount > 0 || pointsDiscount > 0 ? `Subtotal: ₹${subtotal}\n` : ""}${discount > 0 ? `Coupon ${coupon.code}: −₹${discount}\n` : ""}${pointsDiscount > 0 ? `Loyalty points (${pointsRedemption.points}): −₹${pointsDiscount}\n` : ""}Total: ₹${total}
 Order ID: #${orderId}
-
+${slotLabel ? `Pre-order for pickup slot: ${slotLabel} today\n` : ""}
 Generate a short, friendly order confirmation message that:
 1. Greets the student by name
 2. Lists all items with quantities and prices
 3. Shows the total amount
 4. Shows the Order ID #${orderId}
 5. Asks if they want to confirm the order
-6. Mentions the amount will be deducted from their wallet
+6. Mentions the amount will be deducted from their wallet${slotLabel ? "\n7. Mentions it is a pre-order to collect in the pickup slot" : ""}
 Keep it concise and fun with emojis!`;
 
             const chatMessages: ChatMessage[] = [
@@ -0,0 +1,65 @@
+/**
+ * POST /api/coupons/validate — Preview a coupon against the caller's cart
+ *
+ * Body: { items, couponCode }
+ * Returns the server PriceBreakdown with the discount applied, so the cart
+ * page can show (and later submit) the discounted total. Nothing is redeemed
+ * here — limits are re-checked and counted when POST /api/orders commits.
+ *
+ * SECURITY:
+ * - Requires Firebase ID token (per-user limits are checked for the caller)
+ * - Rate limited (20 req/min per IP) to stop code guessing
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { priceCart, CartPricingError, type CartLineInput } from "@/lib/order-pricing";
+import { readCoupon, applyCoupon, CouponError } from "@/lib/coupons";
+import type { MenuItem } from "@/types";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 20, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { items, couponCode } = (await req.json()) as { items?: CartLineInput[]; couponCode?: unknown };
+        if (!Array.isArray(items) || items.length === 0) {
+            return NextResponse.json({ error: "No items in cart" }, { status: 400 });
+        }
+
+        const ids = [...new Set(items.map((item) => item?.id).filter((id): id is string => typeof id === "string" && id !== ""))];
+        const menuItems = new Map<string, Omit<MenuItem, "id">>();
+        if (ids.length > 0) {
+            const snapshots = await adminDb.getAll(...ids.map((id) => adminDb.collection("menuItems").doc(id)));
+            for (const snapshot of snapshots) {
+                if (snapshot.exists) menuItems.set(snapshot.id, snapshot.data() as Omit<MenuItem, "id">);
+            }
+        }
+
+        const coupon = await readCoupon(couponCode, uid);
+        const breakdown = applyCoupon(coupon, priceCart(items, menuItems));
+
+        return NextResponse.json({
+            valid: true,
+            couponCode: breakdown.couponCode,
+            description: coupon.coupon.description || null,
+            discount: breakdown.discount,
+            breakdown,
+        });
+    } catch (error) {
+        if (error instanceof CouponError || error instanceof CartPricingError) {
+            return NextResponse.json({ valid: false, error: error.message }, { status: 400 });
+        }
+        console.error("Coupon validation failed:", error);
+        return NextResponse.json({ error: "Failed to validate coupon" }, { status: 500 });
+    }
+}
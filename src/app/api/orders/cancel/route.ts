@@ -0,0 +1,82 @@
+/**
+ * POST /api/orders/cancel — User cancels their own order
+ *
+ * Body: { orderId }  (Firestore doc id of the order)
+ * Only "pending" orders can be cancelled, and only within the grace period
+ * configured at settings/canteenConfig.cancelGraceMinutes — or, for scheduled
+ * pre-orders, until they are released to the kitchen. The wallet refund,
+ * restock and pickup slot release are applied by lib/order-transitions.
+ *
+ * SECURITY:
+ * - Requires Firebase ID token; the order must belong to the caller
+ * - Rate limited (10 req/min per IP)
+ * - Status and grace period are re-checked inside the transaction
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { getCanteenConfig } from "@/lib/order-placement";
+import {
+    OrderTransitionError,
+    getCancelGraceMinutes,
+    getUserCancelBlockReason,
+} from "@/lib/order-lifecycle";
+import { transitionOrder } from "@/lib/order-transitions";
+import { getPreOrderConfig } from "@/lib/pickup-slots";
+import type { Order } from "@/types";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { orderId, reason } = await req.json();
+        if (!orderId || typeof orderId !== "string") {
+            return NextResponse.json({ error: "Order ID required" }, { status: 400 });
+        }
+
+        const orderRef = adminDb.collection("orders").doc(orderId);
+        const existing = await orderRef.get();
+        if (!existing.exists) {
+            return NextResponse.json({ error: "Order not found" }, { status: 404 });
+        }
+        // SECURITY: Prevent IDOR — users can only cancel their own orders
+        if (existing.data()?.userId !== uid) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const config = await getCanteenConfig();
+        const graceMinutes = getCancelGraceMinutes(config);
+        const { releaseMinutes } = getPreOrderConfig(config);
+
+        const result = await adminDb.runTransaction(async (transaction) => {
+            const orderDoc = await transaction.get(orderRef);
+            const order = orderDoc.data() as Omit<Order, "id">;
+
+            const blockReason = getUserCancelBlockReason(order, graceMinutes, new Date(), releaseMinutes);
+            if (blockReason) throw new OrderTransitionError(blockReason);
+
+            return transitionOrder(transaction, orderDoc, "cancelled", { type: "user", id: uid }, {
+                reason: typeof reason === "string" && reason.trim() ? reason.trim().slice(0, 200) : "Cancelled by user",
+            });
+        });
+
+        console.log(`[Orders] User ${uid} cancelled order ${orderId}, refunded ₹${result.refunded}`);
+        return NextResponse.json({ success: true, refunded: result.refunded, restocked: result.restocked });
+    } catch (error) {
+        if (error instanceof OrderTransitionError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Cancel order error:", error);
+        return NextResponse.json({ error: "Failed to cancel order" }, { status: 500 });
+    }
+}
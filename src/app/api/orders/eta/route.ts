@@ -0,0 +1,64 @@
+/**
+ * POST /api/orders/eta — Estimated ready time for a cart, before paying
+ *
+ * Body: { items: [{ id, quantity }] }
+ * Returns { estimatedReadyAt, minutes, ordersAhead } from the current
+ * kitchen queue (lib/order-eta, lib/kitchen-queue). The same estimate is
+ * stored on the order when it is placed and refined as the queue moves.
+ *
+ * SECURITY:
+ * - Requires Firebase ID token
+ * - Rate limited (20 req/min per IP) — the cart re-asks on every change and
+ *   each call reads the menu items and the kitchen queue
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { getCanteenConfig } from "@/lib/order-placement";
+import { readKitchenQueue } from "@/lib/kitchen-queue";
+import { estimateReadyAt, getEtaMinutes, getOrderPrepMinutes } from "@/lib/order-eta";
+
+export const runtime = "nodejs";
+
+const MAX_ETA_ITEMS = 50;
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 20, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { items } = await req.json();
+        if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ETA_ITEMS) {
+            return NextResponse.json({ error: "No items to estimate" }, { status: 400 });
+        }
+        const ids = [...new Set((items as { id: unknown }[]).map((i) => i?.id))];
+        if (ids.some((id) => typeof id !== "string" || !id)) {
+            return NextResponse.json({ error: "Invalid item" }, { status: 400 });
+        }
+
+        const [menuDocs, queue] = await Promise.all([
+            adminDb.getAll(...(ids as string[]).map((id) => adminDb.collection("menuItems").doc(id))),
+            getCanteenConfig().then(readKitchenQueue),
+        ]);
+
+        const prepMinutes = getOrderPrepMinutes(menuDocs.map((doc) => doc.data()?.preparationTime));
+        const now = new Date();
+        const readyAt = estimateReadyAt(queue, prepMinutes, now);
+
+        return NextResponse.json({
+            estimatedReadyAt: readyAt.toISOString(),
+            minutes: getEtaMinutes(readyAt, now),
+            ordersAhead: queue.entries.length,
+        });
+    } catch (error) {
+        console.error("Failed to estimate order ETA:", error);
+        return NextResponse.json({ error: "Failed to estimate ready time" }, { status: 500 });
+    }
+}
@@ -6,13 +6,28 @@
  * - POST: Requires Firebase ID token, enforces caller === userId
  * - Order ID now uses UUID-based format (not 6-digit random number)
  * - Client-provided orderId is ignored — server generates it
+ * - Client-provided prices/total are ignored — the cart is re-priced from
+ *   menuItems (see lib/order-pricing) and mismatches are rejected with 409
+ * - Order creation runs through lib/order-placement (shared with auto-orders)
+ * - Orders above canteenConfig.pinOrderThreshold need an X-Pin-Token (lib/pin-token)
+ * - Optional couponCode is validated, applied and counted server-side (lib/coupons)
+ * - Optional redeemPoints spends loyalty points after the coupon (lib/loyalty)
+ * - Optional pickupSlotId makes it a pre-order for a later slot today; the
+ *   slot must still be offered and have capacity (lib/pickup-slots)
+ * - Returns a queue-aware estimatedReadyAt (lib/order-eta)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
 import { getAuthenticatedUser } from "@/lib/user-auth";
-import { generateOrderId } from "@/lib/orderIdUtils";
-import { FieldValue, DocumentSnapshot } from "firebase-admin/firestore";
+import { CartPricingError } from "@/lib/order-pricing";
+import { CouponError } from "@/lib/coupons";
+import { LoyaltyError, getLoyaltyConfig } from "@/lib/loyalty";
+import { placeWalletOrder, getCanteenConfig, getCanteenClosedReason, getPreOrderClosedReason } from "@/lib/order-placement";
+import { findPickupSlot, getPreOrderConfig } from "@/lib/pickup-slots";
+import { PickupSlotError } from "@/lib/pickup-slot-capacity";
+import { readKitchenQueue } from "@/lib/kitchen-queue";
+import { PinRequiredError, getPinOrderThreshold, hasValidPinToken, pinRequiredResponse } from "@/lib/pin-token";
 
 export const runtime = "nodejs";
 
@@ -56,7 +71,7 @@ export async function POST(req: NextRequest) {
     }
 
     try {
-        const { userId, items, total, userName, userEmail } = await req.json();
+        const { userId, items, total, couponCode, redeemPoints, pickupSlotId, userName, userEmail } = await req.json();
 
         // SECURITY: Prevent IDOR — user can only create orders for themselves
         if (userId !== uid) {
@@ -67,125 +82,65 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "No items in order" }, { status: 400 });
         }
 
-        if (!total || total <= 0) {
-            return NextResponse.json({ error: "Invalid order total" }, { status: 400 });
+        // CANTEEN CHECK: Block orders if canteen is closed or outside operating hours
+        // (pre-orders only need pre-ordering switched on and a slot that is still offered)
+        const config = await getCanteenConfig();
+        const closedReason = pickupSlotId ? getPreOrderClosedReason(config) : getCanteenClosedReason(config);
+        if (closedReason) {
+            return NextResponse.json({ error: closedReason }, { status: 403 });
         }
 
-        // SECURITY: Server generates the order ID (ignores client-provided orderId)
-        const orderId = generateOrderId();
-
-        // CANTEEN CHECK: Block orders if canteen is closed
-        const configDoc = await adminDb.doc("settings/canteenConfig").get();
-        if (configDoc.exists) {
-            const config = configDoc.data();
-            if (config && config.isOpen === false) {
-                return NextResponse.json({ error: "Canteen is currently closed" }, { status: 403 });
-            }
-
-            // Check operating hours
-            if (config?.startTime && config?.endTime) {
-                const now = new Date();
-                const currentMinutes = now.getHours() * 60 + now.getMinutes();
-                const [startH, startM] = config.startTime.split(":").map(Number);
-                const [endH, endM] = config.endTime.split(":").map(Number);
-                const startMinutes = startH * 60 + startM;
-                const endMinutes = endH * 60 + endM;
-
-                if (currentMinutes < startMinutes || currentMinutes > endMinutes) {
-                    return NextResponse.json(
-                        { error: `Canteen is open from ${config.startTime} to ${config.endTime}` },
-                        { status: 403 }
-                    );
-                }
-            }
+        const pickupSlot = pickupSlotId ? findPickupSlot(config, String(pickupSlotId)) : undefined;
+        if (pickupSlot === null) {
+            return NextResponse.json({ error: "That pickup slot is no longer available", slotInvalid: true }, { status: 400 });
         }
-        await adminDb.runTransaction(async (transaction) => {
-            // 1. READ PHASE: Fetch all required data first
-
-            // 1.1 Fetch user doc
-            const userRef = adminDb.collection("users").doc(userId);
-            const userDoc = await transaction.get(userRef);
-            if (!userDoc.exists) throw new Error("User not found");
-
-            // 1.2 Fetch all menu items in parallel (within the transaction)
-            const itemSnapshots: { item: any, snapshot: DocumentSnapshot }[] = [];
-            for (const item of items) {
-                const itemRef = adminDb.collection("menuItems").doc(item.id);
-                const itemDoc = await transaction.get(itemRef);
-                itemSnapshots.push({ item, snapshot: itemDoc });
-            }
-
-            // 2. VALIDATION PHASE
-
-            // 2.1 Check wallet balance
-            const walletBalance = userDoc.data()?.walletBalance || 0;
-            if (walletBalance < total) {
-                throw new Error("Insufficient wallet balance");
-            }
-
-            // 2.2 Check menu item quantities
-            for (const { item, snapshot } of itemSnapshots) {
-                if (!snapshot.exists) throw new Error(`Item ${item.name} no longer exists`);
-
-                const currentQty = snapshot.data()?.quantity || 0;
-                if (currentQty < item.quantity) {
-                    throw new Error(`${item.name} only has ${currentQty} left`);
-                }
-            }
-
-            // 3. WRITE PHASE: All updates happen after all reads/validations
 
-            // 3.1 Update menu item quantities
-            for (const { item, snapshot } of itemSnapshots) {
-                const itemRef = adminDb.collection("menuItems").doc(item.id);
-                const currentQty = snapshot.data()?.quantity || 0;
-                const newQty = currentQty - item.quantity;
-
-                transaction.update(itemRef, {
-                    quantity: newQty,
-                    available: newQty > 0,
-                    updatedAt: new Date().toISOString(),
-                });
-            }
-
-            // 3.2 Deduct wallet
-            transaction.update(userRef, {
-                walletBalance: FieldValue.increment(-total),
-            });
-
-            // 3.3 Create order document
-            const userRollNumber = userDoc.data()?.rollNumber || "";
-            const userPhone = userDoc.data()?.phone || "";
-            const orderRef = adminDb.collection("orders").doc();
-            transaction.set(orderRef, {
-                orderId,
-                userId,
-                userName: userName || "Unknown",
-                userEmail: userEmail || "Unknown",
-                userPhone,
-                userRollNumber,
-                items,
-                total,
-                paymentMode: "Wallet",
-                status: "pending",
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-            });
-
-            // 3.4 Record wallet debit transaction
-            const txnRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(txnRef, {
-                userId,
-                type: "debit",
-                amount: total,
-                description: `Order #${orderId}`,
-                transactionId: txnRef.id,
-                createdAt: new Date().toISOString(),
-            });
+        // SECURITY: Server generates the order ID and re-prices the cart
+        const { orderId, breakdown, estimatedReadyAt } = await placeWalletOrder({
+            userId,
+            items,
+            clientTotal: total,
+            couponCode: couponCode || undefined,
+            redeemPoints: redeemPoints || undefined,
+            loyaltyConfig: getLoyaltyConfig(config),
+            userName,
+            userEmail,
+            pinThreshold: getPinOrderThreshold(config),
+            pinVerified: hasValidPinToken(req, uid),
+            pickupSlot,
+            preOrderConfig: getPreOrderConfig(config),
+            kitchenQueue: pickupSlot ? undefined : await readKitchenQueue(config),
         });
 
-        return NextResponse.json({ success: true, orderId });
+        return NextResponse.json({
+            success: true,
+            orderId,
+            total: breakdown.total,
+            breakdown,
+            ...(pickupSlot ? { scheduledFor: pickupSlot.start } : {}),
+            ...(estimatedReadyAt ? { estimatedReadyAt } : {}),
+        });
     } catch (error) {
+        // Tampered or stale carts get the server breakdown so the client can re-price
+        if (error instanceof CartPricingError) {
+            return NextResponse.json(
+                { error: error.message, breakdown: error.breakdown },
+                { status: error.breakdown ? 409 : 400 }
+            );
+        }
+        // The coupon stopped applying (expired, limit reached…) — the client drops it
+        if (error instanceof CouponError) {
+            return NextResponse.json({ error: error.message, couponInvalid: true }, { status: 400 });
+        }
+        if (error instanceof LoyaltyError) {
+            return NextResponse.json({ error: error.message, pointsInvalid: true }, { status: 400 });
+        }
+        if (error instanceof PickupSlotError) {
+            return NextResponse.json({ error: error.message, slotInvalid: true }, { status: 409 });
+        }
+        if (error instanceof PinRequiredError) {
+            return pinRequiredResponse(error.message);
+        }
         console.error("Order creation failed:", error);
         const message = error instanceof Error ? error.message : "Failed to create order";
         return NextResponse.json({ error: message }, { status: 500 });
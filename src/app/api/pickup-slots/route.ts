@@ -0,0 +1,34 @@
+/**
+ * GET /api/pickup-slots — Today's bookable pre-order pickup slots
+ *
+ * Returns each slot with the capacity it has left (see lib/pickup-slots and
+ * lib/pickup-slot-capacity). Empty when pre-orders are switched off.
+ *
+ * SECURITY: Requires Firebase ID token
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { getCanteenConfig } from "@/lib/order-placement";
+import { getPreOrderConfig } from "@/lib/pickup-slots";
+import { listAvailableSlots } from "@/lib/pickup-slot-capacity";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const config = await getCanteenConfig();
+        const { enabled, capacityUnit } = getPreOrderConfig(config);
+        const slots = enabled ? await listAvailableSlots(config) : [];
+
+        return NextResponse.json({ enabled, capacityUnit, slots });
+    } catch (error) {
+        console.error("Failed to list pickup slots:", error);
+        return NextResponse.json({ error: "Failed to load pickup slots" }, { status: 500 });
+    }
+}
@@ -5,39 +5,23 @@
  * 1. Verify Firebase ID token (authentication)
  * 2. Validate amount (₹1–₹5,000)
  * 3. Create order via Razorpay Orders API (dynamic, not static QR)
- * 4. Return order_id to frontend for Razorpay Checkout
+ * 4. Record a topupIntents/{order_id} doc (status "created")
+ * 5. Return order_id to frontend for Razorpay Checkout
  *
  * SECURITY:
  * - key_secret never leaves the server
- * - Env vars validated at startup (fail-fast)
+ * - Env vars validated on first Razorpay call (fail-fast)
  * - Amount validated server-side before Razorpay call
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/lib/user-auth";
-import Razorpay from "razorpay";
+import { getRazorpayGateway } from "@/lib/razorpay-gateway";
+import { createTopupIntent } from "@/lib/topup-intents";
+import { MIN_TOPUP_AMOUNT, MAX_TOPUP_AMOUNT } from "@/lib/razorpay-payments";
 
 export const runtime = "nodejs";
 
-// ── Fail-fast env validation ────────────────────────────────────────────
-if (!process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
-    throw new Error(
-        "[FATAL] Missing Razorpay env vars. Set NEXT_PUBLIC_RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET in .env.local"
-    );
-}
-
-const RAZORPAY_KEY_ID: string = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
-const RAZORPAY_SECRET: string = process.env.RAZORPAY_KEY_SECRET;
-
-const razorpay = new Razorpay({
-    key_id: RAZORPAY_KEY_ID,
-    key_secret: RAZORPAY_SECRET,
-});
-
-// ── Minimum / maximum amount in INR ─────────────────────────────────────
-const MIN_AMOUNT = 1;
-const MAX_AMOUNT = 5000;
-
 export async function POST(req: NextRequest) {
     // SECURITY: Require Firebase ID token
     const uid = await getAuthenticatedUser(req);
@@ -52,11 +36,11 @@ export async function POST(req: NextRequest) {
         const parsedAmount = Number(amount);
         if (
             !Number.isFinite(parsedAmount) ||
-            parsedAmount < MIN_AMOUNT ||
-            parsedAmount > MAX_AMOUNT
+            parsedAmount < MIN_TOPUP_AMOUNT ||
+            parsedAmount > MAX_TOPUP_AMOUNT
         ) {
             return NextResponse.json(
-                { error: `Amount must be between ₹${MIN_AMOUNT} and ₹${MAX_AMOUNT}` },
+                { error: `Amount must be between ₹${MIN_TOPUP_AMOUNT} and ₹${MAX_TOPUP_AMOUNT}` },
                 { status: 400 }
             );
         }
@@ -64,9 +48,9 @@ export async function POST(req: NextRequest) {
         // Convert to paise (integer) — Razorpay rejects float values
         const amountInPaise = Math.round(parsedAmount * 100);
 
-        const order = await razorpay.orders.create({
-            amount: amountInPaise,
-            currency: "INR",
+        // Fails fast if Razorpay env vars are missing
+        const order = await getRazorpayGateway().createOrder({
+            amountPaise: amountInPaise,
             receipt: `w_${uid.slice(0, 8)}_${Date.now()}`,
             notes: {
                 userId: uid,
@@ -74,6 +58,9 @@ export async function POST(req: NextRequest) {
             },
         });
 
+        // Our own record, so a top-up can be traced and settled even if checkout never returns
+        await createTopupIntent(order.id, uid, amountInPaise);
+
         console.log(
             `[Razorpay] Order created: ${order.id} | ₹${parsedAmount} | user=${uid.slice(0, 8)}…`
         );
@@ -81,7 +68,7 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({
             orderId: order.id,
             amount: order.amount,
-            currency: order.currency,
+            currency: "INR",
         });
     } catch (error: any) {
         console.error("[Razorpay] Order creation failed:", {
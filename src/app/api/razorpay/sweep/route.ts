@@ -0,0 +1,30 @@
+/**
+ * GET /api/razorpay/sweep — Settle stale top-up intents
+ * Re-checks open topupIntents against Razorpay and credits, fails or
+ * expires them (see lib/topup-sweeper). Safe to call as often as needed.
+ *
+ * SECURITY: Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron)
+ * or an admin JWT (manual run from the admin panel).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron-auth";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { getRazorpayGateway } from "@/lib/razorpay-gateway";
+import { sweepTopupIntents } from "@/lib/topup-sweeper";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+    if (!verifyCronRequest(req) && !verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await sweepTopupIntents(getRazorpayGateway());
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error("[TopupSweep] Sweep failed:", error);
+        return NextResponse.json({ error: "Top-up sweep failed" }, { status: 500 });
+    }
+}
@@ -6,6 +6,7 @@
  * 2. Verify Razorpay payment signature (HMAC SHA256, timing-safe)
  * 3. Cross-verify amount with Razorpay Orders API (don't trust frontend)
  * 4. Atomic Firestore transaction: dedup → credit wallet → log transaction
+ *    (shared with /api/razorpay/webhook, which may have credited it already)
  *
  * SECURITY:
  * - Timing-safe signature comparison (prevents timing attacks)
@@ -16,10 +17,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/lib/user-auth";
-import { adminDb } from "@/lib/firebase-admin";
-import { FieldValue } from "firebase-admin/firestore";
-import crypto from "crypto";
-import Razorpay from "razorpay";
+import { creditRazorpayTopup, isValidSignature } from "@/lib/razorpay-payments";
+import { getRazorpayGateway } from "@/lib/razorpay-gateway";
 
 export const runtime = "nodejs";
 
@@ -30,14 +29,8 @@ if (!process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET
     );
 }
 
-const RAZORPAY_KEY_ID: string = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
 const RAZORPAY_SECRET: string = process.env.RAZORPAY_KEY_SECRET;
 
-const razorpay = new Razorpay({
-    key_id: RAZORPAY_KEY_ID,
-    key_secret: RAZORPAY_SECRET,
-});
-
 export async function POST(req: NextRequest) {
     // SECURITY: Require Firebase ID token
     const uid = await getAuthenticatedUser(req);
@@ -60,20 +53,7 @@ export async function POST(req: NextRequest) {
         }
 
         // ── STEP 1: Timing-safe signature verification ──────────────────
-        const body = razorpay_order_id + "|" + razorpay_payment_id;
-        const expectedSignature = crypto
-            .createHmac("sha256", RAZORPAY_SECRET)
-            .update(body)
-            .digest("hex");
-
-        // Timing-safe comparison prevents timing attacks
-        const sigBuffer = Buffer.from(razorpay_signature, "hex");
-        const expectedBuffer = Buffer.from(expectedSignature, "hex");
-
-        if (
-            sigBuffer.length !== expectedBuffer.length ||
-            !crypto.timingSafeEqual(sigBuffer, expectedBuffer)
-        ) {
+        if (!isValidSignature(razorpay_order_id + "|" + razorpay_payment_id, razorpay_signature, RAZORPAY_SECRET)) {
             console.warn(
                 `[Razorpay] ⚠ Invalid signature for order=${razorpay_order_id} user=${uid.slice(0, 8)}…`
             );
@@ -86,8 +66,8 @@ export async function POST(req: NextRequest) {
         // ── STEP 2: Cross-verify amount from Razorpay (don't trust frontend) ─
         let orderAmount: number;
         try {
-            const order = await razorpay.orders.fetch(razorpay_order_id);
-            orderAmount = Number(order.amount); // in paise
+            const order = await getRazorpayGateway().fetchOrder(razorpay_order_id);
+            orderAmount = order.amount; // in paise
         } catch (fetchErr) {
             console.error("[Razorpay] Failed to fetch order for cross-check:", fetchErr);
             return NextResponse.json(
@@ -96,63 +76,17 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        // Convert paise → rupees
-        const amountInRupees = Math.round(orderAmount / 100);
-
-        if (amountInRupees < 1 || amountInRupees > 5000) {
-            return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
-        }
-
-        // ── STEP 3: Atomic Firestore transaction ────────────────────────
-        await adminDb.runTransaction(async (transaction) => {
-            // DEDUP: Check if this payment was already processed
-            const paymentRef = adminDb.collection("payments").doc(razorpay_payment_id);
-            const paymentDoc = await transaction.get(paymentRef);
-            if (paymentDoc.exists) {
-                throw new Error("Payment already processed");
-            }
-
-            const userRef = adminDb.collection("users").doc(uid);
-            const userDoc = await transaction.get(userRef);
-
-            if (!userDoc.exists) {
-                throw new Error("User not found");
-            }
-
-            // Record payment for dedup
-            transaction.set(paymentRef, {
-                razorpayPaymentId: razorpay_payment_id,
-                razorpayOrderId: razorpay_order_id,
-                userId: uid,
-                amount: amountInRupees,
-                amountPaise: orderAmount,
-                verified: true,
-                createdAt: new Date().toISOString(),
-            });
-
-            // Credit wallet
-            transaction.update(userRef, {
-                walletBalance: FieldValue.increment(amountInRupees),
-            });
-
-            // Record wallet transaction
-            const txnRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(txnRef, {
-                userId: uid,
-                fromUserId: "razorpay",
-                toUserId: uid,
-                type: "topup",
-                amount: amountInRupees,
-                description: `Wallet top-up via Razorpay`,
-                razorpayPaymentId: razorpay_payment_id,
-                razorpayOrderId: razorpay_order_id,
-                transactionId: txnRef.id,
-                createdAt: new Date().toISOString(),
-            });
+        // ── STEP 3: Atomic credit (no-op if the webhook got there first) ─
+        const { credited, amount: amountInRupees } = await creditRazorpayTopup({
+            paymentId: razorpay_payment_id,
+            orderId: razorpay_order_id,
+            userId: uid,
+            amountPaise: orderAmount,
+            source: "verify",
         });
 
         console.log(
-            `[Razorpay] ✅ Payment verified: ${razorpay_payment_id} | ₹${amountInRupees} | user=${uid.slice(0, 8)}…`
+            `[Razorpay] ✅ Payment verified: ${razorpay_payment_id} | ₹${amountInRupees} | user=${uid.slice(0, 8)}…${credited ? "" : " (already credited)"}`
         );
 
         return NextResponse.json({
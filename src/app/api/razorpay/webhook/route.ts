@@ -0,0 +1,83 @@
+/**
+ * POST /api/razorpay/webhook — Razorpay server-to-server events
+ *
+ * Credits top-ups even when the browser never calls /api/razorpay/verify
+ * (tab closed, network drop). Handles:
+ * - payment.captured  → credit wallet (idempotent via payments/{payment_id})
+ * - payment.failed    → record the failed attempt
+ * - refund.processed  → take the refunded amount back out of the wallet
+ *
+ * SECURITY:
+ * - No user auth — the X-Razorpay-Signature HMAC of the raw body is the auth
+ * - Fails closed when RAZORPAY_WEBHOOK_SECRET is not configured
+ * - Event ids are recorded so redeliveries are acknowledged without work
+ * - Non-2xx responses make Razorpay retry, so only processing errors return 500
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import {
+    handleRazorpayWebhookEvent,
+    isValidSignature,
+    RazorpayWebhookEvent,
+    WEBHOOK_EVENTS_COLLECTION,
+} from "@/lib/razorpay-payments";
+import { getRazorpayGateway } from "@/lib/razorpay-gateway";
+
+export const runtime = "nodejs";
+
+/** Fallback owner lookup for orders with no top-up intent and no userId in the payment notes */
+async function lookupOrderOwner(orderId: string): Promise<string | null> {
+    const order = await getRazorpayGateway().fetchOrder(orderId);
+    return order.notes.userId || null;
+}
+
+export async function POST(req: NextRequest) {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!secret) {
+        console.error("[Razorpay Webhook] RAZORPAY_WEBHOOK_SECRET not configured");
+        return NextResponse.json({ error: "Webhook not configured" }, { status: 500 });
+    }
+
+    // Signature covers the exact raw body — read it before parsing
+    const rawBody = await req.text();
+    const signature = req.headers.get("x-razorpay-signature") || "";
+    if (!signature || !isValidSignature(rawBody, signature, secret)) {
+        console.warn("[Razorpay Webhook] ⚠ Invalid signature");
+        return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+    }
+
+    let event: RazorpayWebhookEvent;
+    try {
+        event = JSON.parse(rawBody);
+    } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const eventId = req.headers.get("x-razorpay-event-id");
+    const eventRef = eventId ? adminDb.collection(WEBHOOK_EVENTS_COLLECTION).doc(eventId) : null;
+
+    try {
+        if (eventRef && (await eventRef.get()).exists) {
+            return NextResponse.json({ success: true, duplicate: true });
+        }
+
+        const result = await handleRazorpayWebhookEvent(event, lookupOrderOwner);
+
+        if (eventRef) {
+            await eventRef.set({
+                event: event.event,
+                handled: result.handled,
+                detail: result.detail,
+                receivedAt: new Date().toISOString(),
+            });
+        }
+
+        console.log(`[Razorpay Webhook] ${event.event} ${eventId || ""} — ${result.detail}`);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error(`[Razorpay Webhook] ${event.event} processing failed:`, error);
+        const message = error instanceof Error ? error.message : "Webhook processing failed";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
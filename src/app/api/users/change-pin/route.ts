@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import {
+    checkPin,
+    describePinFailure,
+    pinFailureStatus,
+    recordSecurityEvent,
+    PIN_HASH_ROUNDS,
+    PIN_PATTERN,
+} from "@/lib/pin-security";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/users/change-pin — Replace the PIN, proving knowledge of the old one.
+ * Wrong old PINs count towards the same lockout as /api/users/verify-pin.
+ */
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 5, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { oldPin, newPin } = await req.json();
+
+        if (typeof oldPin !== "string" || !PIN_PATTERN.test(oldPin)) {
+            return NextResponse.json({ error: "Current 4-digit PIN required" }, { status: 400 });
+        }
+        if (typeof newPin !== "string" || !PIN_PATTERN.test(newPin)) {
+            return NextResponse.json({ error: "New PIN must be 4 digits" }, { status: 400 });
+        }
+        if (oldPin === newPin) {
+            return NextResponse.json({ error: "New PIN must be different from the current PIN" }, { status: 400 });
+        }
+
+        const newPinHash = await bcrypt.hash(newPin, PIN_HASH_ROUNDS);
+
+        const result = await checkPin(req, uid, oldPin, (transaction, userRef) => {
+            transaction.update(userRef, {
+                pinHash: newPinHash,
+                pinUpdatedAt: new Date().toISOString(),
+            });
+            recordSecurityEvent(req, uid, "pin_changed", {}, transaction);
+        });
+
+        if (result.status !== "ok") {
+            return NextResponse.json(
+                {
+                    error: describePinFailure(result),
+                    ...(result.status === "incorrect" ? { attemptsLeft: result.attemptsLeft } : {}),
+                },
+                { status: pinFailureStatus(result) }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("PIN change failed:", error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+}
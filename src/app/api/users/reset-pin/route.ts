@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedToken, isRecentLogin } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { signPinToken } from "@/lib/pin-token";
+import { recordSecurityEvent, PIN_HASH_ROUNDS, PIN_PATTERN } from "@/lib/pin-security";
+
+export const runtime = "nodejs";
+
+// How recently the user must have signed in with Google to reset
+const RESET_MAX_LOGIN_AGE_SECONDS = 5 * 60;
+
+/**
+ * POST /api/users/reset-pin — Set a new PIN without the old one.
+ *
+ * SECURITY: Identity is re-proven by a fresh Firebase sign-in
+ * (auth_time within the last 5 minutes) instead of the forgotten PIN.
+ * A refreshed ID token from an old session is not enough. Resetting
+ * also clears any brute-force lockout.
+ */
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 5, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const decoded = await getAuthenticatedToken(req);
+    if (!decoded) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!isRecentLogin(decoded, RESET_MAX_LOGIN_AGE_SECONDS)) {
+        return NextResponse.json(
+            { error: "Please sign in again to reset your PIN", reauthRequired: true },
+            { status: 401 }
+        );
+    }
+
+    const uid = decoded.uid;
+
+    try {
+        const { newPin } = await req.json();
+
+        if (typeof newPin !== "string" || !PIN_PATTERN.test(newPin)) {
+            return NextResponse.json({ error: "New PIN must be 4 digits" }, { status: 400 });
+        }
+
+        const userRef = adminDb.collection("users").doc(uid);
+        const userDoc = await userRef.get();
+        if (!userDoc.exists) {
+            return NextResponse.json({ error: "User profile not found" }, { status: 404 });
+        }
+
+        const pinHash = await bcrypt.hash(newPin, PIN_HASH_ROUNDS);
+
+        await userRef.update({
+            pinHash,
+            pinFailedAttempts: 0,
+            pinLockedUntil: null,
+            pinUpdatedAt: new Date().toISOString(),
+        });
+        await recordSecurityEvent(req, uid, "pin_reset");
+
+        console.log(`[PinSecurity] PIN reset for user ${uid.slice(0, 8)}…`);
+
+        // The user just proved identity and set the PIN — let them continue
+        return NextResponse.json({ success: true, ...signPinToken(uid) });
+    } catch (error) {
+        console.error("PIN reset failed:", error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+}
@@ -1,50 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
-import { adminDb, adminAuth } from "@/lib/firebase-admin";
-import bcrypt from "bcryptjs";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { signPinToken } from "@/lib/pin-token";
+import { checkPin, describePinFailure, pinFailureStatus, PIN_PATTERN } from "@/lib/pin-security";
 
 export const runtime = "nodejs";
 
 export async function POST(req: NextRequest) {
-    const authHeader = req.headers.get("authorization");
-    if (!authHeader?.startsWith("Bearer ")) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const token = authHeader.slice(7);
-    let uid: string;
+    // Per-IP burst limit; the per-user lockout lives on the users doc
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
 
-    try {
-        const decoded = await adminAuth.verifyIdToken(token);
-        uid = decoded.uid;
-    } catch {
-        return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     try {
         const { pin } = await req.json();
 
-        if (!pin || !/^\d{4}$/.test(pin)) {
+        if (typeof pin !== "string" || !PIN_PATTERN.test(pin)) {
             return NextResponse.json({ error: "4-digit PIN required" }, { status: 400 });
         }
 
-        const userDoc = await adminDb.collection("users").doc(uid).get();
-        if (!userDoc.exists) {
-            return NextResponse.json({ error: "User profile not found" }, { status: 404 });
-        }
-
-        const { pinHash } = userDoc.data()!;
-        if (!pinHash) {
-            return NextResponse.json({ error: "PIN not set for this account" }, { status: 400 });
-        }
-
-        const isValid = await bcrypt.compare(pin, pinHash);
+        const result = await checkPin(req, uid, pin);
 
-        if (isValid) {
-            return NextResponse.json({ success: true });
-        } else {
-            return NextResponse.json({ error: "Incorrect PIN" }, { status: 401 });
+        if (result.status === "ok") {
+            // Short-lived step-up token for transfers and large orders
+            return NextResponse.json({ success: true, ...signPinToken(uid) });
         }
 
+        return NextResponse.json(
+            {
+                error: describePinFailure(result),
+                ...(result.status === "incorrect" ? { attemptsLeft: result.attemptsLeft } : {}),
+                ...("lockedUntil" in result && result.lockedUntil ? { lockedUntil: result.lockedUntil } : {}),
+            },
+            { status: pinFailureStatus(result) }
+        );
     } catch (error) {
         console.error("PIN verification failed:", error);
         return NextResponse.json({ error: "Internal server error" }, { status: 500 });
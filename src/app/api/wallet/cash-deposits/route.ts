@@ -0,0 +1,59 @@
+/**
+ * POST /api/wallet/cash-deposits — Student response to a counter cash deposit
+ *
+ * Body: { depositId, action: "confirm" | "decline" }
+ * Confirming credits the wallet with the cash the admin recorded;
+ * declining closes the deposit without crediting anything.
+ *
+ * SECURITY: Requires Firebase ID token; a student can only answer their
+ * own deposits. Rate limited (10 req/min).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { CashDepositError, closeCashDeposit, confirmCashDeposit } from "@/lib/cash-deposits";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { depositId, action } = await req.json();
+
+        if (typeof depositId !== "string" || !depositId) {
+            return NextResponse.json({ error: "depositId is required" }, { status: 400 });
+        }
+
+        if (action === "decline") {
+            await closeCashDeposit(depositId, { type: "user", id: uid });
+            return NextResponse.json({ success: true });
+        }
+        if (action !== "confirm") {
+            return NextResponse.json({ error: "action must be confirm or decline" }, { status: 400 });
+        }
+
+        const deposit = await confirmCashDeposit(uid, depositId);
+        if (deposit.status === "expired") {
+            return NextResponse.json(
+                { error: "This deposit expired — ask the counter to enter it again" },
+                { status: 410 }
+            );
+        }
+
+        return NextResponse.json({ success: true, deposit });
+    } catch (error) {
+        if (error instanceof CashDepositError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Cash deposit confirmation error:", error);
+        return NextResponse.json({ error: "Failed to confirm cash deposit" }, { status: 500 });
+    }
+}
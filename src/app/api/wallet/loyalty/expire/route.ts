@@ -0,0 +1,29 @@
+/**
+ * GET /api/wallet/loyalty/expire — Expire loyalty points past their expiry date
+ * Closes expired lots and takes their remaining points off users.loyaltyPoints
+ * (see lib/loyalty). Safe to call as often as needed.
+ *
+ * SECURITY: Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron)
+ * or an admin JWT (manual run from the admin panel).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron-auth";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { expireLoyaltyPoints } from "@/lib/loyalty";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+    if (!verifyCronRequest(req) && !verifyAdmin(req)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await expireLoyaltyPoints();
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error("[Loyalty] Expiry failed:", error);
+        return NextResponse.json({ error: "Loyalty expiry failed" }, { status: 500 });
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Loyalty API — GET points balance/history + POST convert points to wallet credit
+ *
+ * SECURITY:
+ * - Requires Firebase ID token; always acts on the caller's own points
+ * - Rate limited (10 req/min per IP)
+ * - Conversion runs in one transaction with the wallet credit and ledger entry
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { getCanteenConfig } from "@/lib/order-placement";
+import { LoyaltyError, convertPointsToWallet, getLoyaltyConfig, getLoyaltySummary } from "@/lib/loyalty";
+
+export const runtime = "nodejs";
+
+// GET /api/wallet/loyalty — Points balance, program terms and recent history
+export async function GET(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const summary = await getLoyaltySummary(uid, getLoyaltyConfig(await getCanteenConfig()));
+        return NextResponse.json(summary);
+    } catch (error) {
+        console.error("Failed to fetch loyalty points:", error);
+        return NextResponse.json({ error: "Failed to fetch loyalty points" }, { status: 500 });
+    }
+}
+
+// POST /api/wallet/loyalty — Convert points to wallet credit. Body: { points }
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { points } = await req.json();
+        const result = await convertPointsToWallet(uid, points);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        if (error instanceof LoyaltyError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Loyalty conversion failed:", error);
+        return NextResponse.json({ error: "Failed to convert points" }, { status: 500 });
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * /api/wallet/requests — Money requests between students
+ *
+ * POST  — Ask another student for money
+ *         Body: { payerCode, amount, note? }
+ * PATCH — Answer or withdraw a pending request
+ *         Body: { requestId, action: "accept" | "decline" | "cancel" }
+ *
+ * SECURITY: Requires Firebase ID token. Accepting moves money out of the
+ * payer's wallet and needs an X-Pin-Token step-up (lib/pin-token) once the
+ * payer has a PIN. Rate limited (10 req/min). Students read their requests
+ * directly from Firestore (see firestore.rules).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { PinRequiredError, hasValidPinToken, pinRequiredResponse } from "@/lib/pin-token";
+import {
+    MAX_MONEY_REQUEST,
+    MoneyRequestError,
+    acceptMoneyRequest,
+    closeMoneyRequest,
+    createMoneyRequest,
+} from "@/lib/money-requests";
+
+export const runtime = "nodejs";
+
+// ─── POST ───────────────────────────────────────
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { payerCode, amount, note } = await req.json();
+
+        if (!payerCode || typeof payerCode !== "string") {
+            return NextResponse.json({ error: "Friend's code is required" }, { status: 400 });
+        }
+        const requestAmount = Math.round(Number(amount) * 100) / 100;
+        if (!Number.isFinite(requestAmount) || requestAmount < 1 || requestAmount > MAX_MONEY_REQUEST) {
+            return NextResponse.json({ error: `Amount must be ₹1–₹${MAX_MONEY_REQUEST}` }, { status: 400 });
+        }
+
+        const request = await createMoneyRequest({
+            requesterId: uid,
+            payerCode,
+            amount: requestAmount,
+            note: typeof note === "string" && note.trim() ? note.trim().slice(0, 100) : undefined,
+        });
+
+        return NextResponse.json({
+            success: true,
+            request,
+            message: `Asked ${request.payerName} for ₹${requestAmount}`,
+        });
+    } catch (error) {
+        if (error instanceof MoneyRequestError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Money request error:", error);
+        return NextResponse.json({ error: "Failed to send request" }, { status: 500 });
+    }
+}
+
+// ─── PATCH ──────────────────────────────────────
+export async function PATCH(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { requestId, action } = await req.json();
+
+        if (typeof requestId !== "string" || !requestId) {
+            return NextResponse.json({ error: "requestId is required" }, { status: 400 });
+        }
+
+        if (action === "decline" || action === "cancel") {
+            await closeMoneyRequest(requestId, { role: action === "decline" ? "payer" : "requester", uid });
+            return NextResponse.json({ success: true });
+        }
+        if (action !== "accept") {
+            return NextResponse.json({ error: "action must be accept, decline or cancel" }, { status: 400 });
+        }
+
+        const request = await acceptMoneyRequest(uid, requestId, hasValidPinToken(req, uid));
+        if (request.status === "expired") {
+            return NextResponse.json({ error: "This request has expired" }, { status: 410 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            request,
+            message: `₹${request.amount} sent to ${request.requesterName}`,
+        });
+    } catch (error) {
+        if (error instanceof PinRequiredError) {
+            return pinRequiredResponse(error.message);
+        }
+        if (error instanceof MoneyRequestError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error("Money request update error:", error);
+        return NextResponse.json({ error: "Failed to update request" }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * POST /api/wallet/requests/split — Split an order's bill with friends
+ *
+ * Body: { orderId (orders doc id), mode: "even" | "items",
+ *         friends: [{ code, items?: [{ index, quantity }] }] }
+ * Opens one linked money request per friend for their share; friends pay
+ * from their own wallets (see lib/money-requests).
+ *
+ * SECURITY: Requires Firebase ID token; only the student who placed the
+ * order can split it, and only once. Rate limited (5 req/min).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { MAX_SPLIT_FRIENDS, MoneyRequestError, createBillSplit, type SplitFriendInput } from "@/lib/money-requests";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 5, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { orderId, mode, friends } = await req.json();
+
+        if (typeof orderId !== "string" || !orderId) {
+            return NextResponse.json({ error: "orderId is required" }, { status: 400 });
+        }
+        if (mode !== "even" && mode !== "items") {
+            return NextResponse.json({ error: "mode must be even or items" }, { status: 400 });
+        }
+        if (!Array.isArray(friends) || friends.length === 0 || friends.length > MAX_SPLIT_FRIENDS) {
+            return NextResponse.json({ error: `Add 1–${MAX_SPLIT_FRIENDS} friends` }, { status: 400 });
+        }
+
+        const parsed: SplitFriendInput[] = [];
+        for (const friend of friends) {
+            if (!friend || typeof friend.code !== "string" || !friend.code.trim()) {
+                return NextResponse.json({ error: "Every friend needs a code" }, { status: 400 });
+            }
+            const items = mode === "items" && Array.isArray(friend.items)
+                ? friend.items.map((i: { index: unknown; quantity: unknown }) => ({
+                    index: Number(i?.index),
+                    quantity: Number(i?.quantity),
+                }))
+                : undefined;
+            parsed.push({ code: friend.code.trim(), items });
+        }
+
+        const { split, requests } = await createBillSplit({ requesterId: uid, orderDocId: orderId, mode, friends: parsed });
+
+        return NextResponse.json({
+            success: true,
+            split,
+            requests,
+            message: `Sent ${requests.length} request${requests.length === 1 ? "" : "s"} for order #${split.orderId}`,
+        });
+    } catch (error) {
+        if (error instanceof MoneyRequestError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Bill split error:", error);
+        return NextResponse.json({ error: "Failed to split bill" }, { status: 500 });
+    }
+}
@@ -3,8 +3,9 @@
  * 
  * SECURITY CHANGES:
  * - GET: Requires Firebase ID token, enforces caller === userId
- * - POST: Admin-only top-up (no more self-service free money)
- * - Top-up uses Firestore transaction for atomic balance + txn record
+ * - POST: Admin-only top-up (no more self-service free money), recorded as a
+ *   cash_deposit wallet adjustment — prefer /api/admin/wallet/adjustments,
+ *   which also supports debits and the other reason codes
  * - Rate limited (10 req/min)
  * - Removed `paymentVerified = true` bypass
  */
@@ -14,7 +15,15 @@ import { adminDb } from "@/lib/firebase-admin";
 import { getAuthenticatedUser } from "@/lib/user-auth";
 import { verifyAdmin } from "@/lib/admin-auth";
 import { checkRateLimit } from "@/lib/rate-limit";
-import { FieldValue } from "firebase-admin/firestore";
+import { getCanteenConfig } from "@/lib/order-placement";
+import {
+    AdjustmentError,
+    getAdjustmentApprovalThreshold,
+    parseAdjustmentInput,
+    requestAdjustment,
+} from "@/lib/wallet-adjustments";
+import { readWalletTransaction } from "@/lib/wallet-transaction-types";
+import type { WalletTransaction } from "@/types";
 
 export const runtime = "nodejs";
 
@@ -54,10 +63,9 @@ export async function GET(req: NextRequest) {
             .limit(20)
             .get();
 
-        const transactions = txnSnapshot.docs.map((doc) => ({
-            id: doc.id,
-            ...doc.data(),
-        }));
+        const transactions = txnSnapshot.docs.map((doc) =>
+            readWalletTransaction({ id: doc.id, ...doc.data() } as WalletTransaction)
+        );
 
         return NextResponse.json({ walletBalance, transactions });
     } catch (error) {
@@ -73,7 +81,8 @@ export async function POST(req: NextRequest) {
     if (rateLimitResponse) return rateLimitResponse;
 
     // SECURITY: Only admin can top up wallets (removed self-service bypass)
-    if (!verifyAdmin(req)) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
         return NextResponse.json(
             { error: "Unauthorized — only admin can add funds" },
             { status: 401 }
@@ -83,45 +92,29 @@ export async function POST(req: NextRequest) {
     try {
         const { userId, amount } = await req.json();
 
-        if (!userId || !amount || amount <= 0) {
-            return NextResponse.json({ error: "Invalid userId or amount" }, { status: 400 });
-        }
-
-        if (amount > 5000) {
-            return NextResponse.json({ error: "Maximum top-up is ₹5,000" }, { status: 400 });
+        const input = parseAdjustmentInput({ userId, amount, direction: "credit", reason: "cash_deposit" });
+        if (typeof input === "string") {
+            return NextResponse.json({ error: input }, { status: 400 });
         }
 
-        // SECURITY: Atomic transaction — balance update + transaction record together
-        await adminDb.runTransaction(async (transaction) => {
-            const userRef = adminDb.collection("users").doc(userId);
-            const userDoc = await transaction.get(userRef);
-
-            if (!userDoc.exists) {
-                throw new Error("User not found");
-            }
-
-            // Update balance atomically
-            transaction.update(userRef, {
-                walletBalance: FieldValue.increment(amount),
-            });
-
-            // Record the transaction atomically
-            const txnRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(txnRef, {
-                userId,
-                type: "credit",
-                amount,
-                description: `Wallet top-up (Admin)`,
-                transactionId: txnRef.id,
-                createdAt: new Date().toISOString(),
-            });
+        const { adjustmentId, status } = await requestAdjustment({
+            input,
+            adminUsername: admin.username,
+            approvalThreshold: getAdjustmentApprovalThreshold(await getCanteenConfig()),
         });
 
         return NextResponse.json({
             success: true,
-            message: `₹${amount} added to wallet`,
+            adjustmentId,
+            status,
+            message: status === "pending"
+                ? `₹${input.amount} top-up awaiting approval by another admin`
+                : `₹${input.amount} added to wallet`,
         });
     } catch (error) {
+        if (error instanceof AdjustmentError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
         console.error("Wallet top-up failed:", error);
         const message = error instanceof Error ? error.message : "Failed to process top-up";
         return NextResponse.json({ error: message }, { status: 500 });
@@ -3,12 +3,14 @@
  * 
  * SECURITY: Uses Firestore runTransaction() for atomic debit/credit.
  * Validates: auth, amount >= 1, sender != recipient, sufficient balance.
+ * Requires an X-Pin-Token step-up (lib/pin-token) once the sender has a PIN.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/lib/user-auth";
 import { adminDb } from "@/lib/firebase-admin";
-import { FieldValue } from "firebase-admin/firestore";
+import { recordTransfer } from "@/lib/wallet-transfers";
+import { PinRequiredError, hasValidPinToken, pinRequiredResponse } from "@/lib/pin-token";
 
 export const runtime = "nodejs";
 
@@ -55,6 +57,8 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "Cannot transfer to yourself" }, { status: 400 });
         }
 
+        const pinVerified = hasValidPinToken(req, uid);
+
         // Atomic transaction: debit sender + credit receiver
         await adminDb.runTransaction(async (transaction) => {
             const senderRef = adminDb.collection("users").doc(uid);
@@ -66,47 +70,22 @@ export async function POST(req: NextRequest) {
             if (!senderDoc.exists) throw new Error("Sender not found");
             if (!receiverDoc.exists) throw new Error("Recipient not found");
 
+            // SECURITY: A Firebase session alone cannot move money out of the wallet
+            if (senderDoc.data()?.pinHash && !pinVerified) {
+                throw new PinRequiredError("Enter your PIN to send money");
+            }
+
             const senderBalance = senderDoc.data()?.walletBalance || 0;
             if (senderBalance < transferAmount) {
                 throw new Error("Insufficient wallet balance");
             }
 
-            // Debit sender
-            transaction.update(senderRef, {
-                walletBalance: FieldValue.increment(-transferAmount),
-            });
-
-            // Credit receiver
-            transaction.update(receiverRef, {
-                walletBalance: FieldValue.increment(transferAmount),
-            });
-
-            const senderName = senderDoc.data()?.name || "Unknown";
-
-            // Record debit transaction for sender
-            const debitRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(debitRef, {
-                userId: uid,
-                fromUserId: uid,
-                toUserId: recipientId,
-                type: "transfer",
-                amount: transferAmount,
-                description: `Transfer to ${recipientName}`,
-                transactionId: debitRef.id,
-                createdAt: new Date().toISOString(),
-            });
-
-            // Record credit transaction for receiver
-            const creditRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(creditRef, {
-                userId: recipientId,
-                fromUserId: uid,
-                toUserId: recipientId,
-                type: "transfer",
+            recordTransfer(transaction, {
+                fromId: uid,
+                fromName: senderDoc.data()?.name || "Unknown",
+                toId: recipientId,
+                toName: recipientName,
                 amount: transferAmount,
-                description: `Received from ${senderName}`,
-                transactionId: creditRef.id,
-                createdAt: new Date().toISOString(),
             });
         });
 
@@ -115,6 +94,9 @@ export async function POST(req: NextRequest) {
             message: `₹${transferAmount} sent to ${recipientName}`,
         });
     } catch (error) {
+        if (error instanceof PinRequiredError) {
+            return pinRequiredResponse(error.message);
+        }
         console.error("Transfer failed:", error);
         const message = error instanceof Error ? error.message : "Transfer failed";
         return NextResponse.json({ error: message }, { status: 500 });
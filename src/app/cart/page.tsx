@@ -1,21 +1,114 @@
 "use client";
-import React, { useEffect } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useCart } from "@/context/CartContext";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
+import { validateCoupon } from "@/services/couponService";
+import { getLoyalty, type LoyaltyInfo } from "@/services/walletService";
+import { getOrderEta, getPickupSlots } from "@/services/orderService";
+import type { SlotAvailability } from "@/lib/pickup-slot-capacity";
 
 export default function CartPage() {
-    const { user, profile, loading } = useAuth();
-    const { items, updateQuantity, removeItem, clearCart, total, itemCount } = useCart();
+    const { user, profile, loading, getIdToken } = useAuth();
+    const { items, updateQuantity, removeItem, clearCart, coupon, setCoupon, pointsRedemption, setPointsRedemption, pickupSlot, setPickupSlot, total, payable, itemCount } = useCart();
     const router = useRouter();
+    const [couponInput, setCouponInput] = useState("");
+    const [applyingCoupon, setApplyingCoupon] = useState(false);
+    const [loyalty, setLoyalty] = useState<LoyaltyInfo | null>(null);
+    const [slots, setSlots] = useState<SlotAvailability[]>([]);
+    const [eta, setEta] = useState<{ minutes: number; ordersAhead: number } | null>(null);
 
     useEffect(() => {
         if (!loading && !user) router.push("/auth");
     }, [user, loading, router]);
 
+    // ─── Coupon ───
+    const applyCouponCode = useCallback(async (code: string, quiet = false) => {
+        if (!code.trim() || items.length === 0) return;
+        setApplyingCoupon(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await validateCoupon(token, items, code.trim());
+            if (data.valid && data.couponCode) {
+                setCoupon({ code: data.couponCode, discount: data.discount || 0, description: data.description });
+                setCouponInput("");
+                if (!quiet) toast.success(`Coupon ${data.couponCode} applied — you save ₹${data.discount}`);
+            } else {
+                setCoupon(null);
+                toast.error(data.error || "Coupon could not be applied");
+            }
+        } catch {
+            if (!quiet) toast.error("Network error applying coupon");
+        } finally {
+            setApplyingCoupon(false);
+        }
+    }, [items, getIdToken, setCoupon]);
+
+    // Re-check the discount whenever the cart changes (limits and min order depend on it);
+    // applyCouponCode changes with the cart items
+    const couponCodeRef = useRef(coupon?.code);
+    couponCodeRef.current = coupon?.code;
+    useEffect(() => {
+        if (user && couponCodeRef.current && items.length > 0) applyCouponCode(couponCodeRef.current, true);
+    }, [user, items.length, applyCouponCode]);
+
+    // ─── Loyalty Points ───
+    useEffect(() => {
+        if (!user) return;
+        getIdToken()
+            .then((token) => (token ? getLoyalty(token) : null))
+            .then((info) => setLoyalty(info))
+            .catch(() => setLoyalty(null));
+    }, [user, getIdToken]);
+
+    // Largest whole-point redemption that fits the balance and the post-coupon total
+    const couponDiscount = coupon?.discount || 0;
+    const pointsOffer = useMemo(() => {
+        if (!loyalty?.enabled || loyalty.pointValue <= 0) return null;
+        const afterCoupon = Math.max(total - couponDiscount, 0);
+        const points = Math.min(loyalty.points, Math.floor(afterCoupon / loyalty.pointValue));
+        if (points < loyalty.minRedeemPoints) return null;
+        return { points, discount: Math.floor(points * loyalty.pointValue) };
+    }, [loyalty, total, couponDiscount]);
+
+    // Keep an active redemption in step with cart/coupon changes
+    const pointsUsed = pointsRedemption !== null;
+    useEffect(() => {
+        if (!pointsUsed || !loyalty) return;
+        setPointsRedemption(pointsOffer);
+    }, [pointsUsed, loyalty, pointsOffer, setPointsRedemption]);
+
+    // ─── Pickup Slots (pre-orders) ───
+    // Read through a ref so choosing a slot doesn't refetch the list
+    const pickupSlotRef = useRef(pickupSlot);
+    pickupSlotRef.current = pickupSlot;
+    useEffect(() => {
+        if (!user) return;
+        getIdToken()
+            .then((token) => (token ? getPickupSlots(token) : null))
+            .then((data) => {
+                const offered = data?.enabled ? data.slots : [];
+                setSlots(offered);
+                // Drop a remembered slot that has passed or been cancelled
+                const chosen = pickupSlotRef.current;
+                if (chosen && !offered.some((s) => s.id === chosen.id && !s.cancelled)) setPickupSlot(null);
+            })
+            .catch(() => setSlots([]));
+    }, [user, getIdToken, setPickupSlot]);
+
+    // ─── Ready-time estimate (orders for now) ───
+    useEffect(() => {
+        if (!user || items.length === 0) return;
+        getIdToken()
+            .then((token) => (token ? getOrderEta(token, items.map((i) => ({ id: i.id, quantity: i.quantity }))) : null))
+            .then((data) => setEta(data))
+            .catch(() => setEta(null));
+    }, [user, items, getIdToken]);
+
     if (loading) {
         return (
             <div className="min-h-screen bg-zayko-900 flex items-center justify-center">
@@ -31,7 +124,7 @@ export default function CartPage() {
             toast.error("Please complete your profile first");
             return;
         }
-        if ((profile.walletBalance || 0) < total) {
+        if ((profile.walletBalance || 0) < payable) {
             toast.error("Insufficient wallet balance. Please top up your wallet first!", {
                 icon: "💰",
                 style: { background: "#1e3a5f", color: "#fff" }
@@ -157,6 +250,28 @@ export default function CartPage() {
                                     <span className="text-zayko-500">Subtotal ({itemCount} items)</span>
                                     <span className="text-white font-medium">₹{total}</span>
                                 </div>
+                                {coupon && (
+                                    <div className="flex justify-between items-center text-xs sm:text-sm">
+                                        <span className="text-zayko-500">
+                                            Coupon <span className="font-bold text-emerald-400">{coupon.code}</span>
+                                            <button
+                                                onClick={() => { setCoupon(null); toast.success("Coupon removed"); }}
+                                                className="ml-2 text-[10px] text-red-400 hover:text-red-300 font-bold uppercase"
+                                            >
+                                                Remove
+                                            </button>
+                                        </span>
+                                        <span className="text-emerald-400 font-bold">−₹{coupon.discount}</span>
+                                    </div>
+                                )}
+                                {pointsRedemption && (
+                                    <div className="flex justify-between items-center text-xs sm:text-sm">
+                                        <span className="text-zayko-500">
+                                            {pointsRedemption.points} loyalty points
+                                        </span>
+                                        <span className="text-emerald-400 font-bold">−₹{pointsRedemption.discount}</span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between text-xs sm:text-sm">
                                     <span className="text-zayko-500">Platform Fee</span>
                                     <span className="text-emerald-400 font-bold bg-emerald-400/10 px-2 py-0.5 rounded-md uppercase tracking-tighter text-[10px]">FREE ✨</span>
@@ -164,22 +279,114 @@ export default function CartPage() {
                                 <div className="h-px bg-white/[0.04] my-2" />
                                 <div className="flex justify-between items-center">
                                     <span className="font-display font-bold text-lg text-white">To Pay</span>
-                                    <span className="font-display font-bold text-3xl text-gold-400 tabular-nums">₹{total}</span>
+                                    <span className="font-display font-bold text-3xl text-gold-400 tabular-nums">₹{payable}</span>
                                 </div>
                             </div>
 
+                            {/* Coupon Entry */}
+                            {!coupon && (
+                                <form
+                                    onSubmit={(e) => { e.preventDefault(); applyCouponCode(couponInput); }}
+                                    className="flex gap-2"
+                                >
+                                    <input
+                                        value={couponInput}
+                                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                                        placeholder="Promo code"
+                                        maxLength={20}
+                                        className="flex-1 min-w-0 bg-zayko-900 border border-white/[0.08] text-white text-sm px-4 py-2.5 rounded-xl uppercase tracking-wider placeholder:normal-case placeholder:tracking-normal focus:border-gold-400 focus:outline-none"
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={applyingCoupon || !couponInput.trim()}
+                                        className="px-4 py-2.5 text-xs font-bold text-gold-400 bg-gold-400/10 rounded-xl border border-gold-400/20 active:scale-95 disabled:opacity-40"
+                                    >
+                                        {applyingCoupon ? "..." : "APPLY"}
+                                    </button>
+                                </form>
+                            )}
+                            {coupon?.description && (
+                                <p className="text-[11px] text-emerald-400/80 -mt-2">🎟️ {coupon.description}</p>
+                            )}
+
+                            {/* Loyalty Points Toggle */}
+                            {loyalty?.enabled && loyalty.points > 0 && (
+                                <label className={`p-3.5 rounded-2xl bg-white/[0.03] border border-white/[0.05] flex items-center justify-between ${pointsOffer ? "cursor-pointer" : "opacity-60"}`}>
+                                    <div className="flex items-center gap-2.5">
+                                        <span className="w-8 h-8 rounded-full bg-gold-400/10 flex items-center justify-center text-sm">🎁</span>
+                                        <div className="text-left">
+                                            <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-wider">Use Loyalty Points</p>
+                                            <p className="text-sm font-bold text-white">
+                                                {pointsOffer
+                                                    ? `${pointsOffer.points} pts = ₹${pointsOffer.discount} off`
+                                                    : `${loyalty.points} pts (min ${loyalty.minRedeemPoints} to redeem)`}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <input
+                                        type="checkbox"
+                                        checked={pointsUsed}
+                                        disabled={!pointsOffer}
+                                        onChange={(e) => setPointsRedemption(e.target.checked ? pointsOffer : null)}
+                                        className="w-5 h-5 accent-amber-400"
+                                    />
+                                </label>
+                            )}
+
+                            {/* Pickup Time */}
+                            {slots.length > 0 && (
+                                <div className="p-3.5 rounded-2xl bg-white/[0.03] border border-white/[0.05] flex items-center justify-between gap-3">
+                                    <div className="flex items-center gap-2.5">
+                                        <span className="w-8 h-8 rounded-full bg-gold-400/10 flex items-center justify-center text-sm">🗓️</span>
+                                        <div className="text-left">
+                                            <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-wider">Pickup Time</p>
+                                            <p className="text-sm font-bold text-white">{pickupSlot ? `Pre-order · ${pickupSlot.label}` : "As soon as possible"}</p>
+                                        </div>
+                                    </div>
+                                    <select
+                                        value={pickupSlot?.id || ""}
+                                        onChange={(e) => {
+                                            const slot = slots.find((s) => s.id === e.target.value);
+                                            setPickupSlot(slot ? { id: slot.id, start: slot.start, label: slot.label } : null);
+                                        }}
+                                        className="bg-zayko-900 border border-white/[0.08] text-white text-xs font-bold rounded-xl px-3 py-2 focus:outline-none focus:border-gold-400"
+                                    >
+                                        <option value="">Now</option>
+                                        {slots.map((slot) => (
+                                            <option key={slot.id} value={slot.id} disabled={slot.cancelled || slot.remaining === 0}>
+                                                {slot.label}{slot.cancelled ? " (closed)" : slot.remaining === 0 ? " (full)" : ""}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            {/* Ready-time estimate */}
+                            {!pickupSlot && eta && (
+                                <div className="p-3.5 rounded-2xl bg-white/[0.03] border border-white/[0.05] flex items-center gap-2.5">
+                                    <span className="w-8 h-8 rounded-full bg-orange-400/10 flex items-center justify-center text-sm">⏱️</span>
+                                    <div className="text-left">
+                                        <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-wider">Estimated Ready In</p>
+                                        <p className="text-sm font-bold text-white">
+                                            ~{eta.minutes} min
+                                            <span className="text-zayko-500 font-medium"> · {eta.ordersAhead === 0 ? "no queue" : `${eta.ordersAhead} order${eta.ordersAhead === 1 ? "" : "s"} ahead`}</span>
+                                        </p>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Wallet Info Badge */}
                             <div className="p-3.5 rounded-2xl bg-white/[0.03] border border-white/[0.05] flex items-center justify-between">
                                 <div className="flex items-center gap-2.5">
                                     <span className="w-8 h-8 rounded-full bg-gold-400/10 flex items-center justify-center text-sm">💰</span>
                                     <div className="text-left">
                                         <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-widest leading-none mb-1">Wallet Balance</p>
-                                        <p className={`text-sm font-bold ${(profile?.walletBalance || 0) >= total ? "text-emerald-400" : "text-red-400"}`}>
+                                        <p className={`text-sm font-bold ${(profile?.walletBalance || 0) >= payable ? "text-emerald-400" : "text-red-400"}`}>
                                             ₹{profile?.walletBalance || 0}
                                         </p>
                                     </div>
                                 </div>
-                                {(profile?.walletBalance || 0) < total && (
+                                {(profile?.walletBalance || 0) < payable && (
                                     <Link href="/wallet" className="text-xs font-bold text-gold-400 bg-gold-400/10 px-3 py-1.5 rounded-xl border border-gold-400/20 active:scale-95">
                                         ADD CASH
                                     </Link>
@@ -198,20 +405,20 @@ export default function CartPage() {
                             initial={{ scale: 0.95, opacity: 0 }}
                             animate={{ scale: 1, opacity: 1 }}
                             onClick={handlePlaceOrder}
-                            disabled={(profile?.walletBalance || 0) < total}
+                            disabled={(profile?.walletBalance || 0) < payable}
                             className="w-full flex items-center justify-between bg-gradient-to-r from-gold-500 to-gold-400 text-zayko-900 px-6 py-4 rounded-2xl shadow-[0_10px_40px_rgba(251,191,36,0.3)] hover:shadow-[0_15px_50px_rgba(251,191,36,0.4)] transition-all font-display font-bold text-lg group active:scale-[0.98] disabled:from-zayko-700 disabled:to-zayko-700 disabled:text-zayko-500 disabled:shadow-none"
                         >
                             <div className="flex flex-col items-start leading-none">
                                 <span className="text-[10px] text-zayko-950/60 uppercase tracking-widest mb-1 italic font-black">AI Powered Checkout</span>
-                                <span>Place Order</span>
+                                <span>{pickupSlot ? `Pre-order · ${pickupSlot.label.split(" ")[0]}` : "Place Order"}</span>
                             </div>
                             <div className="flex items-center gap-2">
-                                <span>₹{total}</span>
+                                <span>₹{payable}</span>
                                 <span className="text-2xl group-hover:translate-x-1 transition-transform">→</span>
                             </div>
                         </motion.button>
 
-                        {(profile?.walletBalance || 0) < total && (
+                        {(profile?.walletBalance || 0) < payable && (
                             <p className="text-center text-[10px] text-red-400 font-bold mt-2 uppercase tracking-tight">Insufficient Balance. Please top up your wallet first.</p>
                         )}
                     </div>
@@ -5,6 +5,9 @@ import { useCart } from "@/context/CartContext";
 import { useRouter, useSearchParams } from "next/navigation";
 import ChatBubble from "@/components/ChatBubble";
 import toast from "react-hot-toast";
+import { fetchWithPin } from "@/services/pinService";
+import { formatPickupTime } from "@/lib/pickup-slots";
+import { getEtaMinutes } from "@/lib/order-eta";
 
 export default function ChatPage() {
     return (
@@ -27,8 +30,8 @@ interface Message {
 }
 
 function ChatPageInner() {
-    const { user, profile, loading, refreshProfile, getIdToken } = useAuth();
-    const { items: cartItems, total: cartTotal, clearCart } = useCart();
+    const { user, profile, loading, refreshProfile, getIdToken, getPinToken } = useAuth();
+    const { items: cartItems, total: cartTotal, coupon, setCoupon, pointsRedemption, setPointsRedemption, pickupSlot, setPickupSlot, clearCart } = useCart();
     const router = useRouter();
     const searchParams = useSearchParams();
     const [messages, setMessages] = useState<Message[]>([]);
@@ -74,6 +77,9 @@ function ChatPageInner() {
                 body: JSON.stringify({
                     action: "place_order",
                     cart: cartItems,
+                    coupon,
+                    pointsRedemption,
+                    pickupSlot,
                     userProfile: profile,
                 }),
             });
@@ -98,7 +104,7 @@ function ChatPageInner() {
 
         try {
             const token = await getIdToken();
-            const res = await fetch("/api/orders", {
+            const res = await fetchWithPin("/api/orders", {
                 method: "POST",
                 headers: {
                     "Content-Type": "application/json",
@@ -111,25 +117,51 @@ function ChatPageInner() {
                         name: item.name,
                         price: item.price,
                         quantity: item.quantity,
+                        selectedOptions: item.selectedOptions,
                     })),
                     total: pendingOrder.total,
+                    couponCode: coupon?.code,
+                    redeemPoints: pointsRedemption?.points,
+                    pickupSlotId: pickupSlot?.id,
                     orderId: pendingOrder.orderId,
                     userName: profile.name,
                     userEmail: profile.email,
                 }),
-            });
+            }, getPinToken);
 
             const data = await res.json();
 
             if (data.success) {
                 addMessage(
                     "assistant",
-                    `🎉 Order confirmed!\n\n✅ Order #${pendingOrder.orderId} has been placed successfully!\n💰 ₹${pendingOrder.total} deducted from your wallet.\n\nYour food is being prepared! Check the Orders page for real-time updates. Enjoy your meal! 🍽️😊`
+                    data.scheduledFor
+                        ? `🎉 Pre-order confirmed!\n\n✅ Order #${data.orderId} is booked for pickup at ${formatPickupTime(data.scheduledFor)}.\n💰 ₹${data.total} deducted from your wallet.\n\nThe kitchen starts on it shortly before your slot — you can cancel from the Orders page until then. 🗓️`
+                        : `🎉 Order confirmed!\n\n✅ Order #${data.orderId} has been placed successfully!\n💰 ₹${data.total} deducted from your wallet.${data.estimatedReadyAt ? `\n⏱️ Estimated ready in ~${getEtaMinutes(new Date(data.estimatedReadyAt))} min.` : ""}\n\nYour food is being prepared! Check the Orders page for real-time updates. Enjoy your meal! 🍽️😊`
                 );
                 clearCart();
                 setPendingOrder(null);
                 await refreshProfile();
                 toast.success("Order placed successfully! 🎉");
+            } else if (data.slotInvalid) {
+                // Slot filled up or closed since checkout — offer to order for now instead
+                setPickupSlot(null);
+                addMessage("assistant", `⚠️ ${data.error}\n\nReply "yes" to order for pickup now, or go back to the cart to pick another slot.`);
+            } else if (data.couponInvalid) {
+                // Coupon stopped applying since it was checked — offer the full price instead
+                const retryTotal = Math.max(cartTotal - (pointsRedemption?.discount || 0), 0);
+                setCoupon(null);
+                setPendingOrder({ orderId: pendingOrder.orderId, total: retryTotal });
+                addMessage("assistant", `⚠️ ${data.error}\n\nThe coupon was removed. Reply "yes" to confirm at ₹${retryTotal}.`);
+            } else if (data.pointsInvalid) {
+                // Points balance changed since checkout — offer the price without points
+                const retryTotal = Math.max(cartTotal - (coupon?.discount || 0), 0);
+                setPointsRedemption(null);
+                setPendingOrder({ orderId: pendingOrder.orderId, total: retryTotal });
+                addMessage("assistant", `⚠️ ${data.error}\n\nThe points were removed. Reply "yes" to confirm at ₹${retryTotal}.`);
+            } else if (data.breakdown) {
+                // Server re-priced the cart — keep the order pending with the corrected total
+                setPendingOrder({ orderId: pendingOrder.orderId, total: data.breakdown.total });
+                addMessage("assistant", `⚠️ ${data.error}\n\nReply "yes" to confirm at the updated price.`);
             } else {
                 addMessage("assistant", `❌ ${data.error || "Failed to place order. Please try again."}`);
             }
@@ -7,7 +7,14 @@ import { collection, onSnapshot, query, where, orderBy } from "firebase/firestor
 import toast from "react-hot-toast";
 import { useCountdown } from "@/hooks/useCountdown";
 import { useOrderNotifications } from "@/hooks/useOrderNotifications";
+import { useCanteenStatus } from "@/hooks/useCanteenStatus";
+import { getCancelDeadline, getCancelGraceMinutes } from "@/lib/order-lifecycle";
+import { formatPickupTime, getPreOrderConfig } from "@/lib/pickup-slots";
+import { cancelOrder } from "@/services/orderService";
 import type { Order } from "@/types";
+import SplitBillModal from "@/components/SplitBillModal";
+import { QRCodeSVG } from "qrcode.react";
+import { PICKUP_QR_PREFIX } from "@/lib/orderIdUtils";
 import { motion, AnimatePresence } from "framer-motion";
 import Link from "next/link";
 
@@ -27,6 +34,9 @@ export default function OrdersPage() {
     const router = useRouter();
     const [orders, setOrders] = useState<Order[]>([]);
     const [ordersLoading, setOrdersLoading] = useState(true);
+    const { config } = useCanteenStatus();
+    const cancelGraceMinutes = getCancelGraceMinutes(config);
+    const { releaseMinutes } = getPreOrderConfig(config);
 
     // Feedback Modal State
     const [feedbackOrder, setFeedbackOrder] = useState<Order | null>(null);
@@ -34,6 +44,8 @@ export default function OrdersPage() {
     const [comment, setComment] = useState("");
     const [submitting, setSubmitting] = useState(false);
 
+    const [splitOrder, setSplitOrder] = useState<Order | null>(null);
+
     useEffect(() => {
         if (!loading && !user) router.push("/auth");
     }, [user, loading, router]);
@@ -89,6 +101,22 @@ export default function OrdersPage() {
         }
     };
 
+    const handleCancel = async (order: Order) => {
+        if (!user) return;
+        if (!confirm(`Cancel order #${order.orderId}? ₹${order.total} will be refunded to your wallet.`)) return;
+        try {
+            const token = await user.getIdToken();
+            const result = await cancelOrder(token, order.id);
+            if (result.success) {
+                toast.success(`Order cancelled — ₹${result.refunded} refunded 💰`);
+            } else {
+                toast.error(result.error || "Failed to cancel order");
+            }
+        } catch {
+            toast.error("Failed to cancel order");
+        }
+    };
+
     useOrderNotifications(orders);
 
     if (loading || ordersLoading) {
@@ -136,7 +164,14 @@ export default function OrdersPage() {
                                 </h2>
                                 <div className="space-y-5">
                                     {activeOrders.map((order) => (
-                                        <OrderCard key={order.id} order={order} />
+                                        <OrderCard
+                                            key={order.id}
+                                            order={order}
+                                            cancelGraceMinutes={cancelGraceMinutes}
+                                            releaseMinutes={releaseMinutes}
+                                            onCancel={() => handleCancel(order)}
+                                            onSplit={() => setSplitOrder(order)}
+                                        />
                                     ))}
                                 </div>
                             </div>
@@ -150,7 +185,12 @@ export default function OrdersPage() {
                                 </h2>
                                 <div className="space-y-4">
                                     {pastOrders.map((order) => (
-                                        <OrderCard key={order.id} order={order} onReview={() => setFeedbackOrder(order)} />
+                                        <OrderCard
+                                            key={order.id}
+                                            order={order}
+                                            onReview={() => setFeedbackOrder(order)}
+                                            onSplit={() => setSplitOrder(order)}
+                                        />
                                     ))}
                                 </div>
                             </div>
@@ -159,6 +199,11 @@ export default function OrdersPage() {
                 )}
             </div>
 
+            {/* Split Bill Modal */}
+            <AnimatePresence>
+                {splitOrder && <SplitBillModal order={splitOrder} onClose={() => setSplitOrder(null)} />}
+            </AnimatePresence>
+
             {/* Feedback Modal */}
             <AnimatePresence>
                 {feedbackOrder && (
@@ -219,9 +264,21 @@ export default function OrdersPage() {
 }
 
 /* ─── Order Card Component ───────────────────────────────── */
-function OrderCard({ order, onReview }: { order: Order; onReview?: () => void }) {
+function OrderCard({ order, onReview, onCancel, onSplit, cancelGraceMinutes = 0, releaseMinutes = 0 }: {
+    order: Order;
+    onReview?: () => void;
+    onCancel?: () => void;
+    onSplit?: () => void;
+    cancelGraceMinutes?: number;
+    releaseMinutes?: number;
+}) {
     const st = statusConfig[order.status] || statusConfig.pending;
+    const [showQr, setShowQr] = useState(false);
+    const canCollect = !!order.pickupOtp && order.status !== "completed" && order.status !== "cancelled";
     const { formatted, isExpired } = useCountdown(order.readyAt || order.estimatedReadyAt);
+    const cancelWindow = useCountdown(
+        order.status === "pending" ? getCancelDeadline(order, cancelGraceMinutes, releaseMinutes).toISOString() : undefined
+    );
 
     return (
         <div className={`bg-zayko-800/40 border border-white/[0.06] rounded-2xl overflow-hidden transition-all duration-300 ${order.status === "ready" ? "ring-2 ring-emerald-400/50 scale-[1.01]" : ""}`}>
@@ -241,24 +298,64 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                 </div>
 
                 {/* Status-specific progress/countdown */}
-                {order.status === "ready" ? (
+                {order.status === "pending" && order.scheduledFor ? (
+                    <div className="p-3 rounded-xl bg-gold-400/5 border border-gold-400/10">
+                        <p className="text-gold-400 text-xs font-bold">
+                            🗓️ Pre-order · pickup at {formatPickupTime(order.scheduledFor)}
+                        </p>
+                    </div>
+                ) : order.status === "ready" ? (
                     <div className="p-3 rounded-xl bg-emerald-400/10 border border-emerald-400/20">
                         <p className="text-emerald-400 text-xs font-bold flex items-center gap-1.5">
                             <span className="animate-bounce">🍜</span> Your food is ready for pickup!
                         </p>
                     </div>
-                ) : (order.status === "preparing" || order.status === "confirmed") && (order.readyAt || order.estimatedReadyAt) ? (
+                ) : (order.status === "pending" || order.status === "preparing" || order.status === "confirmed") && (order.readyAt || order.estimatedReadyAt) ? (
                     <div className="p-3 rounded-xl bg-orange-400/5 border border-white/[0.04]">
                         <div className="flex justify-between items-center">
-                            <p className="text-[10px] text-zayko-400 uppercase font-bold tracking-tight">Estimated Prep Time</p>
+                            <p className="text-[10px] text-zayko-400 uppercase font-bold tracking-tight">
+                                {order.readyAt ? "Estimated Prep Time" : "Estimated Ready In"}
+                            </p>
                             <span className={`text-sm font-bold tabular-nums ${isExpired ? "text-amber-400 animate-pulse" : "text-orange-400"}`}>
                                 {isExpired ? "Almost ready..." : formatted}
                             </span>
                         </div>
                     </div>
                 ) : order.status === "completed" ? (
-                    <p className="text-[10px] text-zayko-500 italic px-1">Delivered on {new Date(order.createdAt).toLocaleDateString()}</p>
+                    <p className="text-[10px] text-zayko-500 italic px-1">
+                        {order.collectedAt
+                            ? `Collected on ${new Date(order.collectedAt).toLocaleDateString()} at ${new Date(order.collectedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                            : `Delivered on ${new Date(order.createdAt).toLocaleDateString()}`}
+                    </p>
                 ) : null}
+
+                {/* Pickup code — shown at the counter, or shared with a friend collecting for you */}
+                {canCollect && (
+                    <div className="mt-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="text-[10px] text-zayko-400 uppercase font-bold tracking-tight">Pickup OTP</p>
+                                <p className="text-2xl font-display font-bold text-white tracking-[0.3em] tabular-nums">{order.pickupOtp}</p>
+                            </div>
+                            {order.pickupToken && (
+                                <button
+                                    onClick={() => setShowQr((v) => !v)}
+                                    className="px-3 py-2 border border-white/10 text-white rounded-xl text-xs font-bold hover:bg-white/5 active:scale-[0.98] transition-all"
+                                >
+                                    {showQr ? "Hide QR" : "📷 Show QR"}
+                                </button>
+                            )}
+                        </div>
+                        {showQr && order.pickupToken && (
+                            <div className="mt-3 flex justify-center">
+                                <div className="bg-white p-3 rounded-xl">
+                                    <QRCodeSVG value={`${PICKUP_QR_PREFIX}${order.pickupToken}`} size={160} level="M" />
+                                </div>
+                            </div>
+                        )}
+                        <p className="text-[10px] text-zayko-500 mt-2">Show this at the counter with Order #{order.orderId}. Anyone with the code can collect.</p>
+                    </div>
+                )}
             </div>
 
             {/* Items */}
@@ -274,6 +371,15 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                     ))}
                 </div>
 
+                {order.status === "pending" && onCancel && !cancelWindow.isExpired && (
+                    <button
+                        onClick={onCancel}
+                        className="mt-4 w-full py-2.5 border border-red-400/20 text-red-400 rounded-xl text-xs font-bold hover:bg-red-400/10 active:scale-[0.98] transition-all flex items-center justify-center gap-2"
+                    >
+                        ✗ Cancel Order <span className="tabular-nums text-red-400/70">({cancelWindow.formatted})</span>
+                    </button>
+                )}
+
                 {order.status === "completed" && onReview && (
                     <button
                         onClick={onReview}
@@ -282,6 +388,19 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                         ⭐ Rate Your Food
                     </button>
                 )}
+
+                {order.status !== "cancelled" && onSplit && (
+                    order.splitId ? (
+                        <p className="mt-3 text-[10px] text-zayko-500 text-center font-bold uppercase tracking-widest">👥 Bill split with friends</p>
+                    ) : (
+                        <button
+                            onClick={onSplit}
+                            className="mt-3 w-full py-2.5 border border-gold-400/20 text-gold-400 rounded-xl text-xs font-bold hover:bg-gold-400/10 active:scale-[0.98] transition-all flex items-center justify-center gap-2"
+                        >
+                            👥 Split Bill
+                        </button>
+                    )
+                )}
             </div>
 
             <div className="px-4 py-2 border-t border-white/[0.04]">
@@ -4,12 +4,13 @@
  */
 
 "use client";
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { motion } from "framer-motion";
 import toast from "react-hot-toast";
+import { changePin } from "@/services/authService";
 
 interface ProfileItem {
     label: string;
@@ -26,8 +27,12 @@ interface ProfileSection {
 }
 
 export default function ProfilePage() {
-    const { user, profile, loading, signOut } = useAuth();
+    const { user, profile, loading, signOut, getIdToken } = useAuth();
     const router = useRouter();
+    const [showChangePin, setShowChangePin] = useState(false);
+    const [oldPin, setOldPin] = useState("");
+    const [newPin, setNewPin] = useState("");
+    const [changingPin, setChangingPin] = useState(false);
 
     useEffect(() => {
         if (!loading && !user) router.push("/auth");
@@ -43,6 +48,31 @@ export default function ProfilePage() {
 
     if (!user || !profile) return null;
 
+    const handleChangePin = async () => {
+        if (oldPin.length !== 4 || newPin.length !== 4) {
+            toast.error("Both PINs must be 4 digits");
+            return;
+        }
+        setChangingPin(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await changePin(token, oldPin, newPin);
+            if (data.success) {
+                toast.success("PIN changed 🔐");
+                setShowChangePin(false);
+            } else {
+                toast.error(data.error || "Could not change PIN");
+            }
+        } catch {
+            toast.error("Connection error");
+        } finally {
+            setOldPin("");
+            setNewPin("");
+            setChangingPin(false);
+        }
+    };
+
     const sections: ProfileSection[] = [
         {
             title: "Shopping & Activity",
@@ -158,6 +188,59 @@ export default function ProfilePage() {
                     </div>
                 ))}
 
+                {/* Security */}
+                {profile.pinHash && (
+                    <div className="space-y-3">
+                        <h3 className="px-1 text-[10px] font-black uppercase text-zayko-600 tracking-[0.2em]">Security</h3>
+                        <div className="bg-zayko-800/40 border border-white/[0.06] rounded-3xl overflow-hidden">
+                            <button
+                                onClick={() => setShowChangePin((v) => !v)}
+                                className="w-full px-5 py-4 flex items-center justify-between group active:bg-white/5 transition-colors"
+                            >
+                                <div className="flex items-center gap-4">
+                                    <div className="w-10 h-10 rounded-xl bg-white/[0.03] flex items-center justify-center text-xl border border-white/[0.05]">
+                                        🔐
+                                    </div>
+                                    <div className="text-left">
+                                        <p className="text-sm font-bold text-white">Change PIN</p>
+                                        <p className="text-[11px] text-zayko-500 font-medium">Forgot it? Use &quot;Forgot PIN?&quot; on the lock screen</p>
+                                    </div>
+                                </div>
+                                <span className="text-zayko-600">{showChangePin ? "▾" : "→"}</span>
+                            </button>
+                            {showChangePin && (
+                                <div className="px-5 pb-5 space-y-3">
+                                    <input
+                                        type="password"
+                                        inputMode="numeric"
+                                        maxLength={4}
+                                        value={oldPin}
+                                        onChange={(e) => setOldPin(e.target.value.replace(/\D/g, ""))}
+                                        placeholder="Current PIN"
+                                        className="w-full bg-zayko-900 border border-zayko-700 text-white font-mono tracking-widest px-4 py-3 rounded-xl focus:border-gold-400 focus:outline-none"
+                                    />
+                                    <input
+                                        type="password"
+                                        inputMode="numeric"
+                                        maxLength={4}
+                                        value={newPin}
+                                        onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ""))}
+                                        placeholder="New PIN"
+                                        className="w-full bg-zayko-900 border border-zayko-700 text-white font-mono tracking-widest px-4 py-3 rounded-xl focus:border-gold-400 focus:outline-none"
+                                    />
+                                    <button
+                                        onClick={handleChangePin}
+                                        disabled={changingPin}
+                                        className="w-full py-3 rounded-xl bg-gold-400 text-zayko-900 font-bold active:scale-[0.98] transition-all disabled:opacity-50"
+                                    >
+                                        {changingPin ? "Saving..." : "Update PIN"}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Logout Button */}
                 <button
                     onClick={signOut}
@@ -1,11 +1,24 @@
 /**
- * Wallet Page — View balance + transaction history
+ * Wallet Page — View balance + transaction history + loyalty points
+ * + confirming cash handed in at the counter
+ * + money requests between students (incl. bill splits)
  * Refactored for Premium Mobile UI (Dark Theme)
  */
 
 "use client";
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
+import { fetchWithPin } from "@/services/pinService";
+import {
+    getLoyalty,
+    convertLoyaltyPoints,
+    respondToCashDeposit,
+    requestMoney,
+    respondToMoneyRequest,
+    type LoyaltyInfo,
+} from "@/services/walletService";
+import { readWalletTransaction } from "@/lib/wallet-transaction-types";
+import type { CashDeposit, MoneyRequest, WalletTransaction } from "@/types";
 import { useRouter } from "next/navigation";
 import { db } from "@/lib/firebase";
 import { collection, onSnapshot, query, where, orderBy, limit } from "firebase/firestore";
@@ -14,7 +27,7 @@ import { motion, AnimatePresence } from "framer-motion";
 
 interface Transaction {
     id: string;
-    type: "topup" | "transfer" | "payment" | "credit" | "debit" | "refund";
+    type: WalletTransaction["type"];
     amount: number;
     description: string;
     fromUserId?: string;
@@ -24,7 +37,7 @@ interface Transaction {
 }
 
 export default function WalletPage() {
-    const { user, profile, loading, getIdToken } = useAuth();
+    const { user, profile, loading, getIdToken, getPinToken } = useAuth();
     const router = useRouter();
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [txnLoading, setTxnLoading] = useState(true);
@@ -35,12 +48,63 @@ export default function WalletPage() {
     const [transferAmount, setTransferAmount] = useState("");
     const [lookupLoading, setLookupLoading] = useState(false);
     const [transferring, setTransferring] = useState(false);
-    const [activeTab, setActiveTab] = useState<"history" | "transfer" | "add">("history");
+    const [activeTab, setActiveTab] = useState<"history" | "transfer" | "requests" | "add" | "points">("history");
+    const [loyalty, setLoyalty] = useState<LoyaltyInfo | null>(null);
+    const [convertPoints, setConvertPoints] = useState("");
+    const [converting, setConverting] = useState(false);
+    const [cashDeposits, setCashDeposits] = useState<CashDeposit[]>([]);
+    const [answeringDeposit, setAnsweringDeposit] = useState<string | null>(null);
+    const [incomingRequests, setIncomingRequests] = useState<MoneyRequest[]>([]);
+    const [outgoingRequests, setOutgoingRequests] = useState<MoneyRequest[]>([]);
+    const [requestCode, setRequestCode] = useState("");
+    const [requestAmount, setRequestAmount] = useState("");
+    const [requestNote, setRequestNote] = useState("");
+    const [sendingRequest, setSendingRequest] = useState(false);
+    const [answeringRequest, setAnsweringRequest] = useState<string | null>(null);
 
     useEffect(() => {
         if (!loading && !user) router.push("/auth");
     }, [user, loading, router]);
 
+    // ─── Loyalty Points ───
+    const loadLoyalty = useCallback(async () => {
+        try {
+            const token = await getIdToken();
+            if (token) setLoyalty(await getLoyalty(token));
+        } catch {
+            // Points are optional — the card just stays hidden
+        }
+    }, [getIdToken]);
+
+    useEffect(() => {
+        if (user) loadLoyalty();
+    }, [user, loadLoyalty]);
+
+    const handleConvert = async () => {
+        const points = parseInt(convertPoints, 10);
+        if (!loyalty || !points || points <= 0) {
+            toast.error("Enter the number of points to convert");
+            return;
+        }
+        setConverting(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await convertLoyaltyPoints(token, points);
+            if (data.success) {
+                toast.success(`${data.points} points converted to ₹${data.amount} 🎉`);
+                setConvertPoints("");
+                await loadLoyalty();
+            } else {
+                toast.error(data.error || "Conversion failed");
+            }
+        } catch {
+            toast.error("Network error converting points");
+        } finally {
+            setConverting(false);
+        }
+    };
+
     useEffect(() => {
         if (!user) {
             setTransactions([]);
@@ -56,10 +120,9 @@ export default function WalletPage() {
         );
 
         const unsubscribe = onSnapshot(q, (snapshot) => {
-            const txnList = snapshot.docs.map((doc) => ({
-                id: doc.id,
-                ...doc.data(),
-            })) as Transaction[];
+            const txnList = snapshot.docs.map((doc) =>
+                readWalletTransaction({ id: doc.id, ...doc.data() } as Transaction)
+            );
             setTransactions(txnList);
             setTxnLoading(false);
         }, (error) => {
@@ -70,6 +133,119 @@ export default function WalletPage() {
         return () => unsubscribe();
     }, [user]);
 
+    // ─── Counter Cash Deposits awaiting this student's confirmation ───
+    useEffect(() => {
+        if (!user) {
+            setCashDeposits([]);
+            return;
+        }
+
+        const q = query(
+            collection(db, "cashDeposits"),
+            where("userId", "==", user.uid),
+            where("status", "==", "awaiting_confirmation")
+        );
+
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            const now = new Date().toISOString();
+            setCashDeposits(
+                snapshot.docs
+                    .map((doc) => ({ id: doc.id, ...doc.data() }) as CashDeposit)
+                    .filter((d) => d.expiresAt > now)
+            );
+        }, (error) => {
+            console.error("Cash deposit listener error:", error);
+        });
+
+        return () => unsubscribe();
+    }, [user]);
+
+    const answerCashDeposit = async (deposit: CashDeposit, action: "confirm" | "decline") => {
+        setAnsweringDeposit(deposit.id);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await respondToCashDeposit(token, deposit.id, action);
+            if (data.success) {
+                toast.success(action === "confirm" ? `₹${deposit.amount} added to your wallet 💵` : "Deposit declined");
+            } else {
+                toast.error(data.error || "Could not update the deposit");
+            }
+        } catch {
+            toast.error("Network error — please try again");
+        } finally {
+            setAnsweringDeposit(null);
+        }
+    };
+
+    // ─── Money Requests (incoming = asked of me, outgoing = I asked) ───
+    useEffect(() => {
+        if (!user) {
+            setIncomingRequests([]);
+            setOutgoingRequests([]);
+            return;
+        }
+
+        const listen = (field: "payerId" | "requesterId", set: (requests: MoneyRequest[]) => void) =>
+            onSnapshot(
+                query(collection(db, "moneyRequests"), where(field, "==", user.uid), orderBy("createdAt", "desc"), limit(30)),
+                (snapshot) => set(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as MoneyRequest)),
+                (error) => console.error("Money request listener error:", error)
+            );
+
+        const unsubIncoming = listen("payerId", setIncomingRequests);
+        const unsubOutgoing = listen("requesterId", setOutgoingRequests);
+        return () => {
+            unsubIncoming();
+            unsubOutgoing();
+        };
+    }, [user]);
+
+    // Pending requests lapse server-side only when answered; hide them once expired
+    const requestStatus = (request: MoneyRequest) =>
+        request.status === "pending" && request.expiresAt < new Date().toISOString() ? "expired" : request.status;
+    const pendingIncoming = incomingRequests.filter((r) => requestStatus(r) === "pending");
+
+    const handleRequestMoney = async () => {
+        const amt = Number(requestAmount);
+        if (requestCode.length < 4) return toast.error("Enter your friend's code");
+        if (!amt || amt < 1) return toast.error("Invalid amount");
+        setSendingRequest(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await requestMoney(token, requestCode, amt, requestNote.trim() || undefined);
+            if (data.success) {
+                toast.success(data.message || "Request sent");
+                setRequestCode(""); setRequestAmount(""); setRequestNote("");
+            } else {
+                toast.error(data.error || "Could not send request");
+            }
+        } catch {
+            toast.error("Network error — please try again");
+        } finally {
+            setSendingRequest(false);
+        }
+    };
+
+    const answerRequest = async (request: MoneyRequest, action: "accept" | "decline" | "cancel") => {
+        setAnsweringRequest(request.id);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await respondToMoneyRequest(token, request.id, action, getPinToken);
+            if (data.success) {
+                toast.success(action === "accept" ? data.message || "Paid 💸" : action === "decline" ? "Request declined" : "Request cancelled");
+            } else {
+                toast.error(data.error || "Could not update the request");
+            }
+        } catch {
+            toast.error("Network error — please try again");
+        } finally {
+            setAnsweringRequest(null);
+        }
+    };
+
     const handleTopUp = async (amount: number) => {
         if (!amount || amount < 1) {
             toast.error("Please enter a valid amount");
@@ -98,6 +274,8 @@ export default function WalletPage() {
                 name: "Zayko",
                 description: "Wallet Top-up",
                 order_id: orderData.orderId,
+                // Lets /api/razorpay/webhook credit the wallet if this tab closes before verify
+                notes: { userId: user?.uid, purpose: "wallet_topup" },
                 handler: async (response: any) => {
                     setProcessing(true);
                     try {
@@ -187,17 +365,57 @@ export default function WalletPage() {
                             <span className="w-1.5 h-1.5 bg-emerald-400 rounded-full animate-pulse shadow-[0_0_8px_rgba(52,211,153,0.5)]"></span>
                             <span className="text-[10px] text-white font-bold tracking-wider">{profile?.name.toUpperCase()}</span>
                         </div>
+                        {loyalty?.enabled && (
+                            <button
+                                onClick={() => setActiveTab("points")}
+                                className="px-3 py-1 bg-gold-400/10 border border-gold-400/20 rounded-full text-[10px] text-gold-400 font-bold tracking-wider"
+                            >
+                                🎁 {loyalty.points.toLocaleString()} PTS
+                            </button>
+                        )}
                     </motion.div>
                 </div>
             </div>
 
+            {/* Cash Deposit Confirmation */}
+            {cashDeposits.length > 0 && (
+                <div className="px-4 -mt-4 mb-4 max-w-xl mx-auto space-y-3">
+                    {cashDeposits.map((deposit) => (
+                        <div key={deposit.id} className="bg-emerald-500/10 border border-emerald-500/30 p-4 rounded-2xl space-y-3">
+                            <p className="text-sm text-white">
+                                💵 Did you hand <span className="font-bold text-emerald-400">₹{deposit.amount}</span> in cash to{" "}
+                                <span className="font-bold">{deposit.receivedBy}</span> at the counter?
+                            </p>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => answerCashDeposit(deposit, "confirm")}
+                                    disabled={answeringDeposit !== null}
+                                    className="flex-1 py-2.5 bg-emerald-500 text-white font-bold rounded-xl active:scale-95 disabled:opacity-50"
+                                >
+                                    {answeringDeposit === deposit.id ? "..." : "Yes, add to wallet"}
+                                </button>
+                                <button
+                                    onClick={() => answerCashDeposit(deposit, "decline")}
+                                    disabled={answeringDeposit !== null}
+                                    className="px-4 py-2.5 bg-white/[0.05] text-zayko-300 font-bold rounded-xl active:scale-95 disabled:opacity-50"
+                                >
+                                    No
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Sub-navigation Tabs */}
             <div className="sticky top-0 z-40 bg-zayko-900/80 backdrop-blur-xl border-b border-white/[0.06] px-4">
                 <div className="max-w-xl mx-auto flex">
                     {[
                         { id: "history", label: "History", icon: "📊" },
                         { id: "transfer", label: "Transfer", icon: "💸" },
+                        { id: "requests", label: "Requests", icon: "🤝", badge: pendingIncoming.length },
                         { id: "add", label: "Add Cash", icon: "➕" },
+                        ...(loyalty?.enabled ? [{ id: "points", label: "Points", icon: "🎁" }] : []),
                     ].map((tab) => (
                         <button
                             key={tab.id}
@@ -205,6 +423,9 @@ export default function WalletPage() {
                             className={`flex-1 py-4 text-xs font-bold uppercase tracking-widest transition-all relative ${activeTab === tab.id ? "text-gold-400" : "text-zayko-500"}`}
                         >
                             <span className="mr-1.5">{tab.icon}</span> {tab.label}
+                            {"badge" in tab && !!tab.badge && (
+                                <span className="ml-1 px-1.5 py-0.5 bg-red-500 text-white text-[9px] rounded-full">{tab.badge}</span>
+                            )}
                             {activeTab === tab.id && (
                                 <motion.div layoutId="tab-active" className="absolute bottom-0 left-0 right-0 h-0.5 bg-gold-400 shadow-[0_0_10px_rgba(251,191,36,0.5)]" />
                             )}
@@ -330,11 +551,11 @@ export default function WalletPage() {
                                             setTransferring(true);
                                             try {
                                                 const token = await getIdToken();
-                                                const res = await fetch("/api/wallet/transfer", {
+                                                const res = await fetchWithPin("/api/wallet/transfer", {
                                                     method: "POST",
                                                     headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
                                                     body: JSON.stringify({ recipientCode, amount: amt }),
-                                                });
+                                                }, getPinToken);
                                                 const data = await res.json();
                                                 if (res.ok) {
                                                     toast.success("Sent successfully! 🚀");
@@ -354,6 +575,215 @@ export default function WalletPage() {
                         </motion.div>
                     )}
 
+                    {/* REQUESTS TAB */}
+                    {activeTab === "requests" && (
+                        <motion.div
+                            key="requests"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -10 }}
+                            className="space-y-6"
+                        >
+                            {pendingIncoming.length > 0 && (
+                                <div className="space-y-3">
+                                    <h3 className="text-[10px] text-zayko-500 font-black uppercase tracking-widest">Waiting for you</h3>
+                                    {pendingIncoming.map((request) => (
+                                        <div key={request.id} className="bg-gold-400/10 border border-gold-400/20 p-4 rounded-2xl space-y-3">
+                                            <div>
+                                                <p className="text-sm text-white">
+                                                    <span className="font-bold">{request.requesterName}</span> requests{" "}
+                                                    <span className="font-bold text-gold-400">₹{request.amount}</span>
+                                                </p>
+                                                {request.note && <p className="text-xs text-zayko-400 mt-1">“{request.note}”</p>}
+                                                {request.items && (
+                                                    <p className="text-xs text-zayko-500 mt-1">
+                                                        {request.items.map((i) => `${i.quantity}× ${i.name}`).join(", ")}
+                                                    </p>
+                                                )}
+                                                <p className="text-[10px] text-zayko-600 mt-1">
+                                                    Expires {new Date(request.expiresAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                                                </p>
+                                            </div>
+                                            <div className="flex gap-2">
+                                                <button
+                                                    onClick={() => answerRequest(request, "accept")}
+                                                    disabled={answeringRequest !== null || balance < request.amount}
+                                                    className="flex-1 py-2.5 bg-emerald-500 text-white font-bold rounded-xl active:scale-95 disabled:opacity-50"
+                                                >
+                                                    {answeringRequest === request.id ? "..." : balance < request.amount ? "Insufficient balance" : `Pay ₹${request.amount}`}
+                                                </button>
+                                                <button
+                                                    onClick={() => answerRequest(request, "decline")}
+                                                    disabled={answeringRequest !== null}
+                                                    className="px-4 py-2.5 bg-white/[0.05] text-zayko-300 font-bold rounded-xl active:scale-95 disabled:opacity-50"
+                                                >
+                                                    Decline
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="bg-zayko-800/40 border border-white/[0.06] p-6 rounded-3xl">
+                                <h3 className="text-sm font-bold text-white mb-4">Request from a Friend</h3>
+                                <div className="space-y-4">
+                                    <input
+                                        type="text"
+                                        value={requestCode}
+                                        onChange={(e) => setRequestCode(e.target.value.toUpperCase())}
+                                        placeholder="Friend's unique code"
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] p-4 rounded-xl text-white font-bold uppercase tracking-widest outline-none focus:border-gold-400/30 transition-all"
+                                        maxLength={8}
+                                    />
+                                    <input
+                                        type="number"
+                                        value={requestAmount}
+                                        onChange={(e) => setRequestAmount(e.target.value)}
+                                        placeholder="₹ 0"
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] p-4 rounded-xl text-white font-bold text-xl outline-none focus:border-gold-400/30"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={requestNote}
+                                        onChange={(e) => setRequestNote(e.target.value)}
+                                        placeholder="What's it for? (optional)"
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] p-4 rounded-xl text-white outline-none focus:border-gold-400/30"
+                                        maxLength={100}
+                                    />
+                                    <button
+                                        onClick={handleRequestMoney}
+                                        disabled={sendingRequest || !requestCode || !requestAmount}
+                                        className="w-full py-4 bg-gold-400 text-zayko-900 rounded-2xl font-display font-bold active:scale-[0.98] disabled:opacity-30 transition-all"
+                                    >
+                                        {sendingRequest ? "Sending..." : `Request ₹${requestAmount || "0"} 🤝`}
+                                    </button>
+                                    <p className="text-[10px] text-center text-zayko-600">Requests expire after 48 hours</p>
+                                </div>
+                            </div>
+
+                            <div className="space-y-3">
+                                <h3 className="text-[10px] text-zayko-500 font-black uppercase tracking-widest">Recent Requests</h3>
+                                {[...outgoingRequests, ...incomingRequests.filter((r) => requestStatus(r) !== "pending")]
+                                    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+                                    .map((request) => {
+                                        const mine = request.requesterId === user?.uid;
+                                        const status = requestStatus(request);
+                                        return (
+                                            <div key={request.id} className="bg-zayko-800/40 border border-white/[0.06] p-4 rounded-2xl flex items-center justify-between gap-3">
+                                                <div className="min-w-0">
+                                                    <p className="font-bold text-sm text-white truncate">
+                                                        {mine ? `From ${request.payerName}` : `To ${request.requesterName}`}
+                                                    </p>
+                                                    <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-tight mt-0.5 truncate">
+                                                        {new Date(request.createdAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+                                                        {request.note ? ` • ${request.note}` : ""}
+                                                        {request.refundedAmount ? ` • ₹${request.refundedAmount} returned` : ""}
+                                                    </p>
+                                                </div>
+                                                <div className="text-right shrink-0">
+                                                    <p className={`font-display font-bold text-lg ${status === "paid" ? (mine ? "text-emerald-400" : "text-white opacity-80") : "text-zayko-400"}`}>
+                                                        ₹{request.amount}
+                                                    </p>
+                                                    {mine && status === "pending" ? (
+                                                        <button
+                                                            onClick={() => answerRequest(request, "cancel")}
+                                                            disabled={answeringRequest !== null}
+                                                            className="text-[9px] font-black uppercase text-red-400 tracking-tighter disabled:opacity-50"
+                                                        >
+                                                            {answeringRequest === request.id ? "..." : "Cancel"}
+                                                        </button>
+                                                    ) : (
+                                                        <span className="text-[9px] font-black uppercase text-zayko-600 tracking-tighter">{status}</span>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                {outgoingRequests.length === 0 && incomingRequests.length === 0 && (
+                                    <p className="text-center text-zayko-500 text-xs py-8">No requests yet. Split an order from My Orders or ask a friend above.</p>
+                                )}
+                            </div>
+                        </motion.div>
+                    )}
+
+                    {/* POINTS TAB */}
+                    {activeTab === "points" && loyalty && (
+                        <motion.div
+                            key="points"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -10 }}
+                            className="space-y-6"
+                        >
+                            <div className="bg-zayko-800/40 border border-white/[0.06] p-6 rounded-3xl space-y-4">
+                                <div className="flex items-end justify-between">
+                                    <div>
+                                        <p className="text-[10px] text-zayko-500 font-black uppercase tracking-widest mb-1">Loyalty Points</p>
+                                        <p className="text-4xl font-display font-bold text-gold-400">{loyalty.points.toLocaleString()}</p>
+                                    </div>
+                                    <p className="text-sm text-zayko-400">
+                                        Worth <span className="text-white font-bold">₹{Math.floor(loyalty.points * loyalty.pointValue)}</span>
+                                    </p>
+                                </div>
+                                <p className="text-xs text-zayko-500">
+                                    Earn {loyalty.pointsPerRupee * 100} points per ₹100 on completed orders. Use them at checkout or convert them to wallet cash.
+                                </p>
+                                {loyalty.nextExpiry && (
+                                    <p className="text-xs text-amber-400">
+                                        ⏳ {loyalty.nextExpiry.points} points expire on {new Date(loyalty.nextExpiry.expiresAt).toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" })}
+                                    </p>
+                                )}
+
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        min={loyalty.minRedeemPoints}
+                                        max={loyalty.points}
+                                        value={convertPoints}
+                                        onChange={(e) => setConvertPoints(e.target.value)}
+                                        placeholder={`Min ${loyalty.minRedeemPoints} points`}
+                                        className="flex-1 min-w-0 bg-zayko-900 border border-white/[0.08] text-white px-4 py-3 rounded-xl focus:border-gold-400 focus:outline-none"
+                                    />
+                                    <button
+                                        onClick={handleConvert}
+                                        disabled={converting || loyalty.points < loyalty.minRedeemPoints}
+                                        className="px-5 py-3 bg-gold-400 text-zayko-900 font-bold rounded-xl active:scale-95 disabled:opacity-40"
+                                    >
+                                        {converting ? "..." : "To Wallet"}
+                                    </button>
+                                </div>
+                                {Number(convertPoints) > 0 && (
+                                    <p className="text-xs text-zayko-400">= ₹{Math.floor(Number(convertPoints) * loyalty.pointValue)} wallet credit</p>
+                                )}
+                            </div>
+
+                            <div className="space-y-3">
+                                {loyalty.transactions.length === 0 ? (
+                                    <p className="text-center text-zayko-500 text-xs py-8">Complete an order to start earning points.</p>
+                                ) : (
+                                    loyalty.transactions.map((txn) => (
+                                        <div key={txn.id} className="bg-zayko-800/40 border border-white/[0.06] p-4 rounded-2xl flex items-center justify-between">
+                                            <div className="min-w-0">
+                                                <p className="font-bold text-sm text-white truncate">{txn.description}</p>
+                                                <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-tight mt-0.5">
+                                                    {new Date(txn.createdAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+                                                    {txn.expiresAt && txn.open ? ` • expires ${new Date(txn.expiresAt).toLocaleDateString([], { month: "short", day: "numeric" })}` : ""}
+                                                </p>
+                                            </div>
+                                            <div className="text-right shrink-0">
+                                                <p className={`font-display font-bold text-lg ${txn.points > 0 ? "text-emerald-400" : "text-white opacity-80"}`}>
+                                                    {txn.points > 0 ? "+" : ""}{txn.points}
+                                                </p>
+                                                <span className="text-[9px] font-black uppercase text-zayko-600 tracking-tighter">{txn.type}</span>
+                                            </div>
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+                        </motion.div>
+                    )}
+
                     {/* HISTORY TAB */}
                     {activeTab === "history" && (
                         <motion.div
@@ -373,7 +803,7 @@ export default function WalletPage() {
                                     <div key={txn.id} className="bg-zayko-800/40 border border-white/[0.06] p-4 rounded-2xl flex items-center justify-between hover:bg-zayko-800/60 transition-all">
                                         <div className="flex items-center gap-4">
                                             <div className={`w-12 h-12 rounded-xl flex items-center justify-center text-xl bg-white/[0.03] border border-white/[0.05]`}>
-                                                {txn.type === "topup" || txn.type === "credit" ? "💳" : txn.type === "refund" ? "🔄" : txn.type === "transfer" ? "💸" : "🍱"}
+                                                {txn.type === "topup" ? "💳" : txn.type === "refund" ? "🔄" : txn.type === "transfer" ? "💸" : "🍱"}
                                             </div>
                                             <div className="min-w-0">
                                                 <p className="font-bold text-sm text-white truncate max-w-[150px]">{txn.description}</p>
@@ -383,8 +813,8 @@ export default function WalletPage() {
                                             </div>
                                         </div>
                                         <div className="text-right shrink-0">
-                                            <p className={`font-display font-bold text-lg ${(txn.type === "topup" || txn.type === "credit" || txn.type === "refund" || (txn.type === "transfer" && txn.toUserId === user?.uid)) ? "text-emerald-400" : "text-white opacity-80"}`}>
-                                                {(txn.type === "topup" || txn.type === "credit" || txn.type === "refund" || (txn.type === "transfer" && txn.toUserId === user?.uid)) ? "+" : "-"}₹{txn.amount}
+                                            <p className={`font-display font-bold text-lg ${(txn.type === "topup" || txn.type === "refund" || (txn.type === "transfer" && txn.toUserId === user?.uid)) ? "text-emerald-400" : "text-white opacity-80"}`}>
+                                                {(txn.type === "topup" || txn.type === "refund" || (txn.type === "transfer" && txn.toUserId === user?.uid)) ? "+" : "-"}₹{txn.amount}
                                             </p>
                                             <span className="text-[9px] font-black uppercase text-zayko-600 tracking-tighter">{txn.type}</span>
                                         </div>
@@ -0,0 +1,141 @@
+/**
+ * CashDepositSlip — thermal-printer slip for a counter cash deposit.
+ *
+ * Same 32-char monospace layout as ThermalReceipt; handed to the student
+ * as proof that the cash was received and credited to their wallet.
+ */
+
+"use client";
+import React from "react";
+import { QRCodeSVG } from "qrcode.react";
+import type { CashDeposit } from "@/types";
+
+interface CashDepositSlipProps {
+    deposit: CashDeposit;
+    onClose: () => void;
+}
+
+const DIVIDER = "- - - - - - - - - - - - - - - -";
+const THICK_DIVIDER = "================================";
+
+/** Pad a line with spaces between left and right text */
+function padLine(left: string, right: string, width = 32): string {
+    const gap = width - left.length - right.length;
+    return left + " ".repeat(Math.max(1, gap)) + right;
+}
+
+function formatStamp(iso: string): string {
+    const date = new Date(iso);
+    return `${date.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })} ${date.toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit", hour12: true })}`;
+}
+
+export default function CashDepositSlip({ deposit, onClose }: CashDepositSlipProps) {
+    const confirmed = deposit.status === "confirmed";
+
+    return (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+            {/* Backdrop close */}
+            <div className="absolute inset-0" onClick={onClose} />
+
+            <div className="relative z-10 w-full max-w-[340px] max-h-[95vh] overflow-y-auto mx-4">
+                {/* Action buttons (hidden on print) */}
+                <div className="no-print flex items-center justify-center gap-2 mb-3">
+                    <button
+                        onClick={() => window.print()}
+                        className="px-4 py-2.5 bg-zayko-500 text-white rounded-xl font-semibold text-sm hover:bg-zayko-600 transition-all flex items-center gap-2 shadow-lg"
+                    >
+                        🖨️ Print
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2.5 bg-gray-600 text-white rounded-xl font-semibold text-sm hover:bg-gray-500 transition-all shadow-lg"
+                    >
+                        ✕ Close
+                    </button>
+                </div>
+
+                {/* ═══ SLIP PAPER ═══ */}
+                <div
+                    className="thermal-receipt-area bg-white text-black mx-auto shadow-2xl"
+                    style={{
+                        width: "300px",
+                        fontFamily: "'Courier New', Courier, monospace",
+                        fontSize: "12px",
+                        lineHeight: "1.4",
+                        padding: "16px 12px",
+                    }}
+                >
+                    {/* ── Header ── */}
+                    <div style={{ textAlign: "center", marginBottom: "4px" }}>
+                        <div style={{ fontSize: "18px", fontWeight: "bold", letterSpacing: "2px" }}>
+                            ⚡ ZAYKO
+                        </div>
+                        <div style={{ fontSize: "10px", color: "#666", marginTop: "2px" }}>
+                            Wallet Cash Deposit Slip
+                        </div>
+                    </div>
+
+                    <pre style={{ margin: "6px 0", color: "#999", textAlign: "center", fontSize: "11px" }}>{THICK_DIVIDER}</pre>
+
+                    {/* ── Deposit Info ── */}
+                    <div style={{ fontSize: "11px" }}>
+                        <pre style={{ margin: "1px 0" }}>{padLine("Slip", deposit.slipNumber)}</pre>
+                        <pre style={{ margin: "1px 0" }}>{padLine("Student", deposit.userName.slice(0, 22))}</pre>
+                        {deposit.userUniqueCode && (
+                            <pre style={{ margin: "1px 0" }}>{padLine("Code", deposit.userUniqueCode)}</pre>
+                        )}
+                        {deposit.userRollNumber && (
+                            <pre style={{ margin: "1px 0" }}>{padLine("Roll", deposit.userRollNumber)}</pre>
+                        )}
+                        <pre style={{ margin: "1px 0" }}>{padLine("Received by", deposit.receivedBy.slice(0, 18))}</pre>
+                        <pre style={{ margin: "1px 0", color: "#666" }}>{padLine("Taken", formatStamp(deposit.createdAt))}</pre>
+                        {deposit.confirmedAt && (
+                            <pre style={{ margin: "1px 0", color: "#666" }}>{padLine("Credited", formatStamp(deposit.confirmedAt))}</pre>
+                        )}
+                    </div>
+
+                    <pre style={{ margin: "4px 0", color: "#999", textAlign: "center", fontSize: "11px" }}>{THICK_DIVIDER}</pre>
+
+                    <pre style={{ fontSize: "14px", fontWeight: "bold", margin: "2px 0", textAlign: "center" }}>
+                        {`CASH: ₹${deposit.amount.toFixed(2)}`}
+                    </pre>
+
+                    <pre style={{ margin: "4px 0", color: "#999", textAlign: "center", fontSize: "11px" }}>{THICK_DIVIDER}</pre>
+
+                    <pre style={{ fontSize: "11px", margin: "2px 0" }}>
+                        {padLine("Status", confirmed ? "CREDITED TO WALLET" : deposit.status.replace(/_/g, " ").toUpperCase())}
+                    </pre>
+
+                    <pre style={{ margin: "6px 0", color: "#ccc", textAlign: "center", fontSize: "11px" }}>{DIVIDER}</pre>
+
+                    {/* ── QR Code ── */}
+                    <div style={{ textAlign: "center", margin: "8px 0" }}>
+                        <QRCodeSVG
+                            value={`ZAYKO-CASH:${deposit.id}`}
+                            size={90}
+                            level="M"
+                            style={{ margin: "0 auto", display: "block" }}
+                        />
+                    </div>
+
+                    {/* ── Footer ── */}
+                    <div style={{ textAlign: "center", fontSize: "10px", color: "#666", marginTop: "4px" }}>
+                        <div style={{ fontWeight: "bold" }}>
+                            {confirmed ? "Keep this slip as proof of deposit" : "Not valid until confirmed by the student"}
+                        </div>
+                        <div style={{ marginTop: "2px" }}>Powered by Zayko ⚡</div>
+                    </div>
+
+                    {/* Tear-off visual */}
+                    <div
+                        style={{
+                            marginTop: "12px",
+                            borderTop: "2px dashed #ccc",
+                            height: "8px",
+                        }}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
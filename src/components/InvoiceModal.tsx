@@ -22,6 +22,11 @@ interface InvoiceOrder {
     userRollNumber?: string;
     items: OrderItem[];
     total: number;
+    subtotal?: number;
+    discount?: number;
+    couponCode?: string;
+    pointsRedeemed?: number;
+    pointsDiscount?: number;
     paymentMode?: string;
     status: string;
     prepTime?: number;
@@ -145,7 +150,31 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
                                 ))}
                             </tbody>
                             <tfoot>
-                                <tr className="border-t-2 border-gray-800">
+                                {order.discount || order.pointsDiscount ? (
+                                    <>
+                                        <tr className="border-t-2 border-gray-800">
+                                            <td colSpan={4} className="pt-3 pb-1 text-right text-gray-700 text-sm">Subtotal</td>
+                                            <td className="pt-3 pb-1 text-right text-gray-800">₹{(order.subtotal ?? order.total + (order.discount || 0) + (order.pointsDiscount || 0)).toFixed(2)}</td>
+                                        </tr>
+                                        {order.discount ? (
+                                            <tr>
+                                                <td colSpan={4} className="py-1 text-right text-gray-700 text-sm">
+                                                    Discount{order.couponCode ? ` (${order.couponCode})` : ""}
+                                                </td>
+                                                <td className="py-1 text-right text-emerald-700">−₹{order.discount.toFixed(2)}</td>
+                                            </tr>
+                                        ) : null}
+                                        {order.pointsDiscount ? (
+                                            <tr>
+                                                <td colSpan={4} className="py-1 text-right text-gray-700 text-sm">
+                                                    Loyalty points ({order.pointsRedeemed || 0})
+                                                </td>
+                                                <td className="py-1 text-right text-emerald-700">−₹{order.pointsDiscount.toFixed(2)}</td>
+                                            </tr>
+                                        ) : null}
+                                    </>
+                                ) : null}
+                                <tr className={order.discount || order.pointsDiscount ? "" : "border-t-2 border-gray-800"}>
                                     <td colSpan={4} className="py-3 text-right font-bold text-gray-900 uppercase text-sm">Total Amount</td>
                                     <td className="py-3 text-right font-bold text-lg text-gray-900">₹{order.total.toFixed(2)}</td>
                                 </tr>
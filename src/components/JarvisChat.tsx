@@ -2,8 +2,11 @@
 import React, { useState, useRef, useEffect, useCallback } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { db } from "@/lib/firebase";
-import { collection, onSnapshot, query } from "firebase/firestore";
-import { parseNaturalLanguage, fuzzyMatchItem, ParsedItem } from "@/lib/jarvis-parser";
+import { collection, getDocs, onSnapshot, query, where } from "firebase/firestore";
+import { parseNaturalLanguage, parseCancelIntent, fuzzyMatchItem, ParsedItem } from "@/lib/jarvis-parser";
+import { cancelOrder } from "@/services/orderService";
+import { fetchWithPin } from "@/services/pinService";
+import type { Order } from "@/types";
 import { motion, AnimatePresence } from "framer-motion";
 import { auth } from "@/lib/firebase";
 
@@ -23,7 +26,7 @@ interface ChatMessage {
 }
 
 export default function JarvisChat() {
-    const { user, profile } = useAuth();
+    const { user, profile, getPinToken } = useAuth();
     const [open, setOpen] = useState(false);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState("");
@@ -45,7 +48,7 @@ export default function JarvisChat() {
     useEffect(() => {
         if (open && messages.length === 0) {
             const name = profile?.name?.split(" ")[0] || "there";
-            addJarvisMessage(`Hey ${name}! 👋 Bataiye kya order karu? \n\nAap naturally bol sakte ho jaise:\n• "2 momos add karo"\n• "milk 1 packet de do"\n• "1 boil egg aur 2 upma"`);
+            addJarvisMessage(`Hey ${name}! 👋 Bataiye kya order karu? \n\nAap naturally bol sakte ho jaise:\n• "2 momos add karo"\n• "milk 1 packet de do"\n• "1 boil egg aur 2 upma"\n\nGalti ho gayi? "cancel order" bolo (sirf pending orders).`);
         }
     }, [open, profile]);
 
@@ -67,6 +70,39 @@ export default function JarvisChat() {
         setMessages(prev => [...prev, { role: "user", text, timestamp: Date.now() }]);
     }, []);
 
+    // Cancel the user's pending order (the one named, or the most recent)
+    const handleCancel = async (orderId?: string) => {
+        if (!user) return;
+
+        const snap = await getDocs(query(
+            collection(db, "orders"),
+            where("userId", "==", user.uid),
+            where("status", "==", "pending")
+        ));
+        const pending = snap.docs
+            .map(d => ({ id: d.id, ...d.data() }) as Order)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        const target = orderId ? pending.find(o => o.orderId === orderId) : pending[0];
+
+        if (!target) {
+            addJarvisMessage(
+                orderId
+                    ? `❌ #${orderId} pending orders mein nahi mila. Confirmed orders ke liye canteen se contact karo 📞`
+                    : "🤔 Aapka koi pending order nahi hai jo cancel ho sake."
+            );
+            return;
+        }
+
+        const token = await user.getIdToken();
+        const result = await cancelOrder(token, target.id, "Cancelled via Jarvis");
+
+        if (result.success) {
+            addJarvisMessage(`✅ Order #${target.orderId} cancel ho gaya!\n💰 ₹${result.refunded} wallet mein refund kar diya.`);
+        } else {
+            addJarvisMessage(`❌ Cancel nahi ho paya: ${result.error || "Unknown error"}`);
+        }
+    };
+
     const handleSend = async () => {
         const text = input.trim();
         if (!text || processing) return;
@@ -76,6 +112,13 @@ export default function JarvisChat() {
         setProcessing(true);
 
         try {
+            // 0. Cancellation request
+            const cancelIntent = parseCancelIntent(text);
+            if (cancelIntent) {
+                await handleCancel(cancelIntent.orderId);
+                return;
+            }
+
             // 1. Parse natural language
             const parsed = parseNaturalLanguage(text);
 
@@ -153,7 +196,7 @@ export default function JarvisChat() {
                 category: m.menuItem.category,
             }));
 
-            const res = await fetch("/api/orders", {
+            const res = await fetchWithPin("/api/orders", {
                 method: "POST",
                 headers: {
                     "Content-Type": "application/json",
@@ -166,7 +209,7 @@ export default function JarvisChat() {
                     userName: profile?.name || "Unknown",
                     userEmail: user?.email || "Unknown",
                 }),
-            });
+            }, getPinToken);
 
             const data = await res.json();
 
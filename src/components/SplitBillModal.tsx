@@ -0,0 +1,215 @@
+/**
+ * SplitBillModal — split a paid order with friends.
+ *
+ * Even mode divides the total by everyone (you included); by-item mode
+ * charges each friend for the items they had. Each friend gets a money
+ * request in their wallet (see lib/money-requests); the amounts shown here
+ * are a preview — the server computes the final shares.
+ */
+
+"use client";
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import toast from "react-hot-toast";
+import { useAuth } from "@/context/AuthContext";
+import { splitBill } from "@/services/walletService";
+import type { BillSplitMode, Order } from "@/types";
+
+interface SplitBillModalProps {
+    order: Order;
+    onClose: () => void;
+}
+
+interface FriendRow {
+    code: string;
+    quantities: Record<number, number>; // order.items index → quantity (by-item mode)
+}
+
+const MAX_FRIENDS = 10;
+
+export default function SplitBillModal({ order, onClose }: SplitBillModalProps) {
+    const { getIdToken } = useAuth();
+    const [mode, setMode] = useState<BillSplitMode>("even");
+    const [friends, setFriends] = useState<FriendRow[]>([{ code: "", quantities: {} }]);
+    const [submitting, setSubmitting] = useState(false);
+
+    const itemsSubtotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const paidRatio = itemsSubtotal > 0 ? order.total / itemsSubtotal : 0;
+    const evenShare = Math.floor((order.total * 100) / (friends.length + 1)) / 100;
+
+    const assigned = (index: number) => friends.reduce((sum, f) => sum + (f.quantities[index] || 0), 0);
+    const friendShare = (friend: FriendRow) =>
+        mode === "even"
+            ? evenShare
+            : Math.round(
+                order.items.reduce((sum, item, i) => sum + item.price * (friend.quantities[i] || 0), 0) * paidRatio * 100
+            ) / 100;
+    const yourShare = Math.round((order.total - friends.reduce((sum, f) => sum + friendShare(f), 0)) * 100) / 100;
+
+    const updateFriend = (idx: number, update: Partial<FriendRow>) =>
+        setFriends((prev) => prev.map((f, i) => (i === idx ? { ...f, ...update } : f)));
+
+    const setQuantity = (idx: number, itemIndex: number, quantity: number) =>
+        updateFriend(idx, { quantities: { ...friends[idx].quantities, [itemIndex]: quantity } });
+
+    const handleSubmit = async () => {
+        if (friends.some((f) => f.code.trim().length < 4)) {
+            toast.error("Enter a code for every friend");
+            return;
+        }
+        if (friends.some((f) => friendShare(f) < 1)) {
+            toast.error("Each share must be at least ₹1");
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await splitBill(
+                token,
+                order.id,
+                mode,
+                friends.map((f) => ({
+                    code: f.code.trim(),
+                    ...(mode === "items"
+                        ? {
+                            items: Object.entries(f.quantities)
+                                .filter(([, quantity]) => quantity > 0)
+                                .map(([index, quantity]) => ({ index: Number(index), quantity })),
+                        }
+                        : {}),
+                }))
+            );
+            if (data.success) {
+                toast.success(data.message || "Split requests sent 🤝");
+                onClose();
+            } else {
+                toast.error(data.error || "Could not split the bill");
+            }
+        } catch {
+            toast.error("Network error — please try again");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/80 backdrop-blur-md">
+            <motion.div
+                initial={{ y: "100%" }}
+                animate={{ y: 0 }}
+                exit={{ y: "100%" }}
+                transition={{ type: "spring", damping: 25, stiffness: 300 }}
+                className="bg-zayko-800 rounded-t-3xl sm:rounded-3xl w-full max-w-md max-h-[90vh] overflow-y-auto"
+            >
+                <div className="p-6">
+                    <div className="w-12 h-1.5 bg-zayko-700 rounded-full mx-auto mb-6 sm:hidden" />
+                    <h3 className="text-xl font-display font-bold text-white mb-1">Split Order #{order.orderId}</h3>
+                    <p className="text-zayko-400 text-sm mb-6">₹{order.total} paid from your wallet</p>
+
+                    {/* Mode */}
+                    <div className="flex bg-white/5 rounded-xl p-1 mb-6">
+                        {([["even", "Split Evenly"], ["items", "By Item"]] as const).map(([value, label]) => (
+                            <button
+                                key={value}
+                                onClick={() => setMode(value)}
+                                className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${mode === value ? "bg-gold-400 text-zayko-900" : "text-zayko-400"}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Friends */}
+                    <div className="space-y-4 mb-4">
+                        {friends.map((friend, idx) => (
+                            <div key={idx} className="bg-white/[0.03] border border-white/[0.06] rounded-2xl p-4 space-y-3">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        value={friend.code}
+                                        onChange={(e) => updateFriend(idx, { code: e.target.value.toUpperCase() })}
+                                        placeholder="Friend's code"
+                                        className="flex-1 min-w-0 bg-zayko-900 border border-white/[0.08] px-3 py-2.5 rounded-xl text-white font-bold uppercase tracking-widest outline-none focus:border-gold-400/30"
+                                        maxLength={8}
+                                    />
+                                    <span className="text-sm font-bold text-gold-400 tabular-nums">₹{friendShare(friend)}</span>
+                                    {friends.length > 1 && (
+                                        <button
+                                            onClick={() => setFriends((prev) => prev.filter((_, i) => i !== idx))}
+                                            className="w-8 h-8 rounded-lg bg-white/5 text-zayko-400 hover:text-red-400"
+                                        >
+                                            ✕
+                                        </button>
+                                    )}
+                                </div>
+
+                                {mode === "items" && (
+                                    <div className="space-y-1.5">
+                                        {order.items.map((item, itemIndex) => {
+                                            const quantity = friend.quantities[itemIndex] || 0;
+                                            const remaining = item.quantity - assigned(itemIndex);
+                                            return (
+                                                <div key={itemIndex} className="flex items-center justify-between text-xs">
+                                                    <span className="text-zayko-300 truncate">{item.name}</span>
+                                                    <div className="flex items-center gap-2 shrink-0">
+                                                        <button
+                                                            onClick={() => setQuantity(idx, itemIndex, quantity - 1)}
+                                                            disabled={quantity === 0}
+                                                            className="w-6 h-6 rounded-md bg-white/5 text-white disabled:opacity-30"
+                                                        >
+                                                            −
+                                                        </button>
+                                                        <span className="w-4 text-center font-bold text-white tabular-nums">{quantity}</span>
+                                                        <button
+                                                            onClick={() => setQuantity(idx, itemIndex, quantity + 1)}
+                                                            disabled={remaining <= 0}
+                                                            className="w-6 h-6 rounded-md bg-white/5 text-white disabled:opacity-30"
+                                                        >
+                                                            +
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    {friends.length < MAX_FRIENDS && (
+                        <button
+                            onClick={() => setFriends((prev) => [...prev, { code: "", quantities: {} }])}
+                            className="w-full py-2.5 border border-dashed border-white/10 text-zayko-400 rounded-xl text-xs font-bold hover:text-white mb-6"
+                        >
+                            + Add Friend
+                        </button>
+                    )}
+
+                    <div className="flex justify-between text-sm mb-6 px-1">
+                        <span className="text-zayko-400">Your share</span>
+                        <span className={`font-bold tabular-nums ${yourShare < 0 ? "text-red-400" : "text-white"}`}>₹{yourShare}</span>
+                    </div>
+
+                    <div className="flex gap-3 pb-safe">
+                        <button
+                            onClick={onClose}
+                            className="flex-1 py-4 text-sm font-bold text-zayko-400 hover:text-white transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSubmit}
+                            disabled={submitting || yourShare < 0}
+                            className="flex-[2] py-4 bg-gold-400 text-zayko-900 font-display font-bold rounded-2xl hover:bg-gold-500 shadow-lg shadow-gold-400/10 transition-all disabled:opacity-50 active:scale-95"
+                        >
+                            {submitting ? "Sending..." : "Send Requests 🤝"}
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    );
+}
@@ -8,6 +8,7 @@
 "use client";
 import React, { useRef } from "react";
 import { QRCodeSVG } from "qrcode.react";
+import { PICKUP_QR_PREFIX } from "@/lib/orderIdUtils";
 
 interface OrderItem {
     name: string;
@@ -23,9 +24,15 @@ interface ReceiptOrder {
     userRollNumber?: string;
     items: OrderItem[];
     total: number;
+    subtotal?: number;
+    discount?: number;
+    couponCode?: string;
+    pointsRedeemed?: number;
+    pointsDiscount?: number;
     paymentMode?: string;
     status: string;
     prepTime?: number;
+    pickupToken?: string;
     createdAt: string;
 }
 
@@ -200,6 +207,17 @@ export default function ThermalReceipt({ order, onClose }: ThermalReceiptProps)
 
                     {/* ── Totals ── */}
                     <div style={{ fontSize: "11px" }}>
+                        {order.discount || order.pointsDiscount ? (
+                            <>
+                                <pre style={{ margin: "1px 0" }}>{padLine("Items", `₹${(order.subtotal ?? order.total + (order.discount || 0) + (order.pointsDiscount || 0)).toFixed(2)}`)}</pre>
+                                {order.discount ? (
+                                    <pre style={{ margin: "1px 0" }}>{padLine(truncate(`Coupon ${order.couponCode || ""}`, 20), `-₹${order.discount.toFixed(2)}`)}</pre>
+                                ) : null}
+                                {order.pointsDiscount ? (
+                                    <pre style={{ margin: "1px 0" }}>{padLine(truncate(`Points (${order.pointsRedeemed || 0})`, 20), `-₹${order.pointsDiscount.toFixed(2)}`)}</pre>
+                                ) : null}
+                            </>
+                        ) : null}
                         <pre style={{ margin: "1px 0" }}>{padLine("Subtotal", `₹${baseAmount.toFixed(2)}`)}</pre>
                         <pre style={{ margin: "1px 0", color: "#666" }}>{padLine("GST @5%", `₹${gstAmount.toFixed(2)}`)}</pre>
                     </div>
@@ -225,13 +243,13 @@ export default function ThermalReceipt({ order, onClose }: ThermalReceiptProps)
                     {/* ── QR Code ── */}
                     <div style={{ textAlign: "center", margin: "8px 0" }}>
                         <QRCodeSVG
-                            value={`ZAYKO-ORDER:${order.orderId}`}
+                            value={order.pickupToken ? `${PICKUP_QR_PREFIX}${order.pickupToken}` : `ZAYKO-ORDER:${order.orderId}`}
                             size={100}
                             level="M"
                             style={{ margin: "0 auto", display: "block" }}
                         />
                         <div style={{ fontSize: "8px", color: "#999", marginTop: "3px" }}>
-                            Scan for order details
+                            {order.pickupToken ? "Scan at the counter to collect" : "Scan for order details"}
                         </div>
                     </div>
 
@@ -5,17 +5,23 @@
  * - Profile uses onSnapshot for REAL-TIME updates (wallet balance, etc.)
  * - Exposes getIdToken() for API calls that need Firebase ID tokens
  * - No more stale wallet balance after orders
+ * - Caches the short-lived PIN step-up token from /api/users/verify-pin and
+ *   exposes getPinToken(), which re-prompts for the PIN once it expires
+ * - "Forgot PIN?" re-verifies identity with a fresh Google sign-in before
+ *   /api/users/reset-pin accepts a new PIN
  */
 
 "use client";
-import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from "react";
-import { auth, db } from "@/lib/firebase";
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef, ReactNode } from "react";
+import { auth, db, GoogleAuthProvider } from "@/lib/firebase";
 import {
     onAuthStateChanged,
     User,
     signOut as firebaseSignOut,
+    reauthenticateWithPopup,
 } from "firebase/auth";
 import { doc, onSnapshot } from "firebase/firestore";
+import { resetPin } from "@/services/authService";
 
 interface UserProfile {
     uid: string;
@@ -39,8 +45,18 @@ interface AuthContextType {
     signOut: () => Promise<void>;
     refreshProfile: () => Promise<void>;
     getIdToken: () => Promise<string | null>;
+    /** Valid PIN step-up token (prompts for the PIN if needed); null if cancelled or no PIN set */
+    getPinToken: () => Promise<string | null>;
 }
 
+interface PinToken {
+    token: string;
+    expiresAt: number;
+}
+
+/** Re-prompt a little before the server-side expiry */
+const PIN_TOKEN_MARGIN_MS = 30_000;
+
 const AuthContext = createContext<AuthContextType>({
     user: null,
     profile: null,
@@ -50,6 +66,7 @@ const AuthContext = createContext<AuthContextType>({
     signOut: async () => { },
     refreshProfile: async () => { },
     getIdToken: async () => null,
+    getPinToken: async () => null,
 });
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -57,12 +74,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const [profile, setProfile] = useState<UserProfile | null>(null);
     const [loading, setLoading] = useState(true);
     const [isPinVerified, setPinVerified] = useState(false);
+    const pinTokenRef = useRef<PinToken | null>(null);
+    const pinPromptRef = useRef<((token: string | null) => void) | null>(null);
+    const [pinPromptOpen, setPinPromptOpen] = useState(false);
 
     // Real-time profile listener
     useEffect(() => {
         if (!user) {
             setProfile(null);
             setPinVerified(false); // Reset on logout
+            pinTokenRef.current = null;
             return;
         }
 
@@ -96,6 +117,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setUser(null);
         setProfile(null);
         setPinVerified(false);
+        pinTokenRef.current = null;
     };
 
     const getIdToken = useCallback(async (): Promise<string | null> => {
@@ -107,26 +129,106 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
     }, [user]);
 
+    const storePinToken = useCallback((token?: string, expiresAt?: string) => {
+        pinTokenRef.current = token && expiresAt ? { token, expiresAt: new Date(expiresAt).getTime() } : null;
+    }, []);
+
+    const getPinToken = useCallback(async (): Promise<string | null> => {
+        if (!profile?.pinHash) return null;
+
+        const cached = pinTokenRef.current;
+        if (cached && cached.expiresAt - PIN_TOKEN_MARGIN_MS > Date.now()) return cached.token;
+
+        // Ask for the PIN again; resolved by the confirm overlay below
+        pinPromptRef.current?.(null);
+        return new Promise((resolve) => {
+            pinPromptRef.current = resolve;
+            setPinPromptOpen(true);
+        });
+    }, [profile?.pinHash]);
+
+    const closePinPrompt = (token: string | null) => {
+        pinPromptRef.current?.(token);
+        pinPromptRef.current = null;
+        setPinPromptOpen(false);
+    };
+
     return (
-        <AuthContext.Provider value={{ user, profile, loading, isPinVerified, setPinVerified, signOut, refreshProfile: async () => { }, getIdToken }}>
+        <AuthContext.Provider value={{ user, profile, loading, isPinVerified, setPinVerified, signOut, refreshProfile: async () => { }, getIdToken, getPinToken }}>
             {children}
             {/* Global PIN Lock Screen Overlay */}
             {user && profile && profile.pinHash && !isPinVerified && (
-                <PinLockScreen />
+                <PinLockScreen
+                    onVerified={(token, expiresAt) => {
+                        storePinToken(token, expiresAt);
+                        setPinVerified(true);
+                    }}
+                />
+            )}
+            {/* PIN confirmation for transfers / large orders */}
+            {user && profile && isPinVerified && pinPromptOpen && (
+                <PinLockScreen
+                    mode="confirm"
+                    onVerified={(token, expiresAt) => {
+                        storePinToken(token, expiresAt);
+                        closePinPrompt(token || null);
+                    }}
+                    onCancel={() => closePinPrompt(null)}
+                />
             )}
         </AuthContext.Provider>
     );
 }
 
 // ─── PIN Lock Screen Component ─────────────────────────────────────
-function PinLockScreen() {
-    const { user, profile, setPinVerified, signOut, getIdToken } = useAuth();
+function PinLockScreen({ mode = "unlock", onVerified, onCancel }: {
+    /** "unlock" gates the session; "confirm" authorizes a single money movement */
+    mode?: "unlock" | "confirm";
+    onVerified: (pinToken?: string, expiresAt?: string) => void;
+    onCancel?: () => void;
+}) {
+    const { user, profile, signOut, getIdToken } = useAuth();
     const [pin, setPin] = useState("");
     const [error, setError] = useState("");
     const [verifying, setVerifying] = useState(false);
+    // Set after a fresh Google sign-in; the next 4 digits become the new PIN
+    const [resetIdToken, setResetIdToken] = useState<string | null>(null);
+
+    const handleForgotPin = async () => {
+        if (!user) return;
+        setError("");
+        try {
+            await reauthenticateWithPopup(user, new GoogleAuthProvider());
+            setResetIdToken(await user.getIdToken(true));
+            setPin("");
+        } catch {
+            setError("Could not confirm your Google account");
+        }
+    };
+
+    const handleResetPin = async () => {
+        if (pin.length !== 4 || !resetIdToken) return;
+        setVerifying(true);
+        setError("");
+        try {
+            const data = await resetPin(resetIdToken, pin);
+            if (data.success) {
+                onVerified(data.pinToken, data.expiresAt);
+            } else {
+                setError(data.error || "Could not reset PIN");
+                setPin("");
+                if (data.reauthRequired) setResetIdToken(null);
+            }
+        } catch {
+            setError("Connection error");
+        } finally {
+            setVerifying(false);
+        }
+    };
 
     const handleVerifyPin = async () => {
         if (pin.length !== 4) return;
+        if (resetIdToken) return handleResetPin();
         setVerifying(true);
         setError("");
         try {
@@ -140,10 +242,10 @@ function PinLockScreen() {
                 body: JSON.stringify({ pin })
             });
 
+            const data = await res.json();
             if (res.ok) {
-                setPinVerified(true);
+                onVerified(data.pinToken, data.expiresAt);
             } else {
-                const data = await res.json();
                 setError(data.error || "Incorrect PIN");
                 setPin("");
             }
@@ -165,8 +267,22 @@ function PinLockScreen() {
                     🔐
                 </div>
 
-                <h2 className="text-2xl font-display font-bold text-white mb-2">Welcome Back!</h2>
-                <p className="text-zayko-400 text-sm mb-8">Hello, {profile?.email}<br />Please enter your 4-digit PIN to continue.</p>
+                {resetIdToken ? (
+                    <>
+                        <h2 className="text-2xl font-display font-bold text-white mb-2">Set a New PIN</h2>
+                        <p className="text-zayko-400 text-sm mb-8">Identity confirmed. Choose a new 4-digit PIN.</p>
+                    </>
+                ) : mode === "confirm" ? (
+                    <>
+                        <h2 className="text-2xl font-display font-bold text-white mb-2">Confirm with PIN</h2>
+                        <p className="text-zayko-400 text-sm mb-8">Enter your 4-digit PIN to authorize this payment.</p>
+                    </>
+                ) : (
+                    <>
+                        <h2 className="text-2xl font-display font-bold text-white mb-2">Welcome Back!</h2>
+                        <p className="text-zayko-400 text-sm mb-8">Hello, {profile?.email}<br />Please enter your 4-digit PIN to continue.</p>
+                    </>
+                )}
 
                 <div className="relative mb-8">
                     <input
@@ -190,12 +306,32 @@ function PinLockScreen() {
                 {error && <p className="text-red-400 text-sm mb-6 animate-shake">❌ {error}</p>}
 
                 <div className="flex flex-col gap-4">
-                    <button
-                        onClick={signOut}
-                        className="text-zayko-500 hover:text-red-400 text-sm font-bold transition-colors"
-                    >
-                        Sign Out & Switch Account
-                    </button>
+                    {mode === "confirm" ? (
+                        <button
+                            onClick={onCancel}
+                            className="text-zayko-500 hover:text-white text-sm font-bold transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    ) : (
+                        <>
+                            {!resetIdToken && (
+                                <button
+                                    onClick={handleForgotPin}
+                                    disabled={verifying}
+                                    className="text-gold-400 hover:text-gold-300 text-sm font-bold transition-colors"
+                                >
+                                    Forgot PIN?
+                                </button>
+                            )}
+                            <button
+                                onClick={signOut}
+                                className="text-zayko-500 hover:text-red-400 text-sm font-bold transition-colors"
+                            >
+                                Sign Out & Switch Account
+                            </button>
+                        </>
+                    )}
                     <p className="text-[10px] text-zayko-600 uppercase tracking-widest font-bold">Encrypted with BCrypt</p>
                 </div>
             </div>
@@ -2,6 +2,12 @@
  * CartContext — Shopping cart state management
  * 
  * UX FIX: Cart is now persisted to localStorage so items survive page refreshes.
+ * The applied coupon is persisted alongside; its discount is only a preview
+ * from /api/coupons/validate — POST /api/orders re-applies it server-side.
+ * Loyalty points chosen for redemption work the same way: the points count is
+ * sent with the order and the server recomputes their value.
+ * A chosen pickup slot turns the checkout into a pre-order for later today;
+ * the server re-checks that the slot is still offered and has room.
  */
 
 "use client";
@@ -9,13 +15,39 @@ import React, { createContext, useContext, useState, useEffect, ReactNode, useCa
 
 import { CartItem, SelectedOption } from "@/types";
 
+export interface AppliedCoupon {
+    code: string;
+    discount: number;
+    description?: string | null;
+}
+
+export interface PointsRedemption {
+    points: number;
+    discount: number;
+}
+
+export interface ChosenPickupSlot {
+    id: string;
+    start: string;
+    label: string;
+}
+
 interface CartContextType {
     items: CartItem[];
     addItem: (item: Omit<CartItem, "quantity"> & { quantity?: number }) => void;
     removeItem: (id: string, selectedOptions?: SelectedOption[]) => void;
     updateQuantity: (id: string, quantity: number, selectedOptions?: SelectedOption[]) => void;
     clearCart: () => void;
+    coupon: AppliedCoupon | null;
+    setCoupon: (coupon: AppliedCoupon | null) => void;
+    pointsRedemption: PointsRedemption | null;
+    setPointsRedemption: (redemption: PointsRedemption | null) => void;
+    /** null = order for now */
+    pickupSlot: ChosenPickupSlot | null;
+    setPickupSlot: (slot: ChosenPickupSlot | null) => void;
     total: number;
+    /** total minus the coupon and points discounts */
+    payable: number;
     itemCount: number;
 }
 
@@ -25,11 +57,21 @@ const CartContext = createContext<CartContextType>({
     removeItem: () => { },
     updateQuantity: () => { },
     clearCart: () => { },
+    coupon: null,
+    setCoupon: () => { },
+    pointsRedemption: null,
+    setPointsRedemption: () => { },
+    pickupSlot: null,
+    setPickupSlot: () => { },
     total: 0,
+    payable: 0,
     itemCount: 0,
 });
 
 const CART_STORAGE_KEY = "canteen_cart";
+const COUPON_STORAGE_KEY = "canteen_coupon";
+const POINTS_STORAGE_KEY = "canteen_points";
+const PICKUP_SLOT_STORAGE_KEY = "canteen_pickup_slot";
 
 export function CartProvider({ children }: { children: ReactNode }) {
     // UX FIX: Initialize cart from localStorage to survive page refreshes
@@ -43,6 +85,36 @@ export function CartProvider({ children }: { children: ReactNode }) {
         }
     });
 
+    const [coupon, setCoupon] = useState<AppliedCoupon | null>(() => {
+        if (typeof window === "undefined") return null;
+        try {
+            const saved = localStorage.getItem(COUPON_STORAGE_KEY);
+            return saved ? JSON.parse(saved) : null;
+        } catch {
+            return null;
+        }
+    });
+
+    const [pointsRedemption, setPointsRedemption] = useState<PointsRedemption | null>(() => {
+        if (typeof window === "undefined") return null;
+        try {
+            const saved = localStorage.getItem(POINTS_STORAGE_KEY);
+            return saved ? JSON.parse(saved) : null;
+        } catch {
+            return null;
+        }
+    });
+
+    const [pickupSlot, setPickupSlot] = useState<ChosenPickupSlot | null>(() => {
+        if (typeof window === "undefined") return null;
+        try {
+            const saved = localStorage.getItem(PICKUP_SLOT_STORAGE_KEY);
+            return saved ? JSON.parse(saved) : null;
+        } catch {
+            return null;
+        }
+    });
+
     // UX FIX: Persist cart to localStorage on every change
     useEffect(() => {
         try {
@@ -52,6 +124,33 @@ export function CartProvider({ children }: { children: ReactNode }) {
         }
     }, [items]);
 
+    useEffect(() => {
+        try {
+            if (coupon) localStorage.setItem(COUPON_STORAGE_KEY, JSON.stringify(coupon));
+            else localStorage.removeItem(COUPON_STORAGE_KEY);
+        } catch {
+            // Silently ignore
+        }
+    }, [coupon]);
+
+    useEffect(() => {
+        try {
+            if (pointsRedemption) localStorage.setItem(POINTS_STORAGE_KEY, JSON.stringify(pointsRedemption));
+            else localStorage.removeItem(POINTS_STORAGE_KEY);
+        } catch {
+            // Silently ignore
+        }
+    }, [pointsRedemption]);
+
+    useEffect(() => {
+        try {
+            if (pickupSlot) localStorage.setItem(PICKUP_SLOT_STORAGE_KEY, JSON.stringify(pickupSlot));
+            else localStorage.removeItem(PICKUP_SLOT_STORAGE_KEY);
+        } catch {
+            // Silently ignore
+        }
+    }, [pickupSlot]);
+
     const addItem = useCallback((item: Omit<CartItem, "quantity"> & { quantity?: number }) => {
         setItems((prev) => {
             const existing = prev.find((i) =>
@@ -91,6 +190,9 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
     const clearCart = useCallback(() => {
         setItems([]);
+        setCoupon(null);
+        setPointsRedemption(null);
+        setPickupSlot(null);
         try {
             localStorage.removeItem(CART_STORAGE_KEY);
         } catch {
@@ -99,10 +201,11 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }, []);
 
     const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const payable = Math.max(total - (coupon?.discount || 0) - (pointsRedemption?.discount || 0), 0);
     const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
     return (
-        <CartContext.Provider value={{ items, addItem, removeItem, updateQuantity, clearCart, total, itemCount }}>
+        <CartContext.Provider value={{ items, addItem, removeItem, updateQuantity, clearCart, coupon, setCoupon, pointsRedemption, setPointsRedemption, pickupSlot, setPickupSlot, total, payable, itemCount }}>
             {children}
         </CartContext.Provider>
     );
@@ -27,7 +27,7 @@ export function useAutoOrders() {
                 console.warn("[useAutoOrders] No auth token available");
                 return;
             }
-            const data = await getAutoOrders(token, user.uid);
+            const data = await getAutoOrders(token);
             setAutoOrders(data.autoOrders || []);
         } catch (err) {
             const message = err instanceof Error ? err.message : "Unknown error";
@@ -54,10 +54,7 @@ export function useAutoOrders() {
             const token = await getIdToken();
             if (!token) return false;
 
-            const result = await createAutoOrder(token, {
-                userId: user.uid,
-                ...data,
-            });
+            const result = await createAutoOrder(token, data);
 
             if (result.success) {
                 toast.success("Auto order created!");
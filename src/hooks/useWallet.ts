@@ -7,6 +7,7 @@
 import { useState, useEffect } from "react";
 import { collection, onSnapshot, query, where, orderBy, limit } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { readWalletTransaction } from "@/lib/wallet-transaction-types";
 import type { WalletTransaction } from "@/types";
 
 export function useWallet(userId: string | undefined) {
@@ -31,7 +32,7 @@ export function useWallet(userId: string | undefined) {
             q,
             (snapshot) => {
                 const txnList = snapshot.docs.map(
-                    (doc) => ({ id: doc.id, ...doc.data() }) as WalletTransaction
+                    (doc) => readWalletTransaction({ id: doc.id, ...doc.data() } as WalletTransaction)
                 );
                 setTransactions(txnList);
                 setLoading(false);
@@ -4,6 +4,10 @@
  * SECURITY: Replaces the insecure Base64 token with properly signed JWTs.
  * - signAdminToken() creates a signed JWT with ADMIN_SECRET (8h expiry)
  * - verifyAdmin() extracts + verifies the JWT from the Authorization header
+ * - isValidAdminLogin() checks ADMIN_USERNAME/ADMIN_PASSWORD plus the optional
+ *   ADMIN_APPROVERS list ("name:password,name2:password2"), so actions that
+ *   need a second admin (withdrawal and wallet adjustment approval) have
+ *   someone to ask
  */
 
 import jwt from "jsonwebtoken";
@@ -14,6 +18,26 @@ interface AdminPayload {
     username: string;
 }
 
+/**
+ * Check admin login credentials against the primary admin and ADMIN_APPROVERS.
+ * Returns null when the primary admin is not configured.
+ */
+export function isValidAdminLogin(username: string, password: string): boolean | null {
+    const adminUsername = process.env.ADMIN_USERNAME;
+    const adminPassword = process.env.ADMIN_PASSWORD;
+    if (!adminUsername || !adminPassword) return null;
+
+    if (username === adminUsername && password === adminPassword) return true;
+
+    return (process.env.ADMIN_APPROVERS || "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .some((entry) => {
+            const sep = entry.indexOf(":");
+            return sep > 0 && entry.slice(0, sep) === username && entry.slice(sep + 1) === password;
+        });
+}
+
 /**
  * Create a signed JWT for an authenticated admin.
  */
@@ -0,0 +1,145 @@
+/**
+ * Auto-Order Executor — turns a due AutoOrder into a real wallet-paid order.
+ *
+ * Orders go through placeWalletOrder() (same path as POST /api/orders), and
+ * every attempt writes an AutoOrderExecution record plus the bookkeeping
+ * fields on the AutoOrder (lastExecutedAt, totalExecutions, totalFailures…).
+ *
+ * IDEMPOTENCY: The execution record id is the slot's execution key and is
+ * written with create(), so a slot is executed at most once even when two
+ * cron runs overlap — the second attempt fails with ALREADY_EXISTS.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { placeWalletOrder, getCanteenClosedReason } from "@/lib/order-placement";
+import { getExecutionKey } from "@/lib/auto-order-scheduler";
+import { readKitchenQueue } from "@/lib/kitchen-queue";
+import type { AutoOrder, AutoOrderExecution, CanteenConfig } from "@/types";
+
+export const AUTO_ORDERS_COLLECTION = "auto-orders";
+export const AUTO_ORDER_EXECUTIONS_COLLECTION = "autoOrderExecutions";
+
+export interface AutoOrderExecutionResult {
+    autoOrderId: string;
+    executionKey: string;
+    success: boolean;
+    /** True when the slot had already been executed by an earlier run */
+    skipped?: boolean;
+    orderId?: string;
+    failureReason?: string;
+}
+
+// gRPC status code returned by create() when the doc already exists
+const ALREADY_EXISTS = 6;
+
+function isAlreadyExists(error: unknown): boolean {
+    return (error as { code?: number })?.code === ALREADY_EXISTS;
+}
+
+function skipped(autoOrder: AutoOrder, executionKey: string): AutoOrderExecutionResult {
+    return { autoOrderId: autoOrder.id, executionKey, success: false, skipped: true };
+}
+
+/**
+ * Record a failed attempt on the execution log and the AutoOrder counters.
+ */
+async function recordFailure(
+    autoOrder: AutoOrder,
+    executionKey: string,
+    scheduledFor: string,
+    reason: string,
+    executedAt: string
+): Promise<AutoOrderExecutionResult> {
+    const execution: Omit<AutoOrderExecution, "id"> = {
+        autoOrderId: autoOrder.id,
+        userId: autoOrder.userId,
+        success: false,
+        failureReason: reason,
+        scheduledFor,
+        executedAt,
+    };
+
+    const batch = adminDb.batch();
+    batch.create(adminDb.collection(AUTO_ORDER_EXECUTIONS_COLLECTION).doc(executionKey), execution);
+    batch.update(adminDb.collection(AUTO_ORDERS_COLLECTION).doc(autoOrder.id), {
+        lastFailedAt: executedAt,
+        lastFailureReason: reason,
+        totalFailures: FieldValue.increment(1),
+        updatedAt: executedAt,
+    });
+
+    try {
+        await batch.commit();
+    } catch (error) {
+        if (isAlreadyExists(error)) return skipped(autoOrder, executionKey);
+        throw error;
+    }
+
+    return { autoOrderId: autoOrder.id, executionKey, success: false, failureReason: reason };
+}
+
+/**
+ * Execute one scheduled slot of an auto-order.
+ * Failures are recorded and returned in the result; slots that were already
+ * executed come back with `skipped: true`.
+ */
+export async function executeAutoOrder(
+    autoOrder: AutoOrder,
+    slot: Date,
+    config: Partial<CanteenConfig> | undefined,
+    now = new Date()
+): Promise<AutoOrderExecutionResult> {
+    const executedAt = now.toISOString();
+    const scheduledFor = slot.toISOString();
+    const executionKey = getExecutionKey(autoOrder.id, slot);
+    const executionRef = adminDb.collection(AUTO_ORDER_EXECUTIONS_COLLECTION).doc(executionKey);
+
+    // Cheap pre-check; create() below is what actually guarantees at-most-once
+    if ((await executionRef.get()).exists) {
+        return skipped(autoOrder, executionKey);
+    }
+
+    // Respect canteen open/close state and operating hours
+    const closedReason = getCanteenClosedReason(config, now);
+    if (closedReason) {
+        return recordFailure(autoOrder, executionKey, scheduledFor, closedReason, executedAt);
+    }
+
+    try {
+        const { orderId } = await placeWalletOrder({
+            userId: autoOrder.userId,
+            items: [{ id: autoOrder.itemId, name: autoOrder.itemName, quantity: autoOrder.quantity }],
+            extraOrderFields: { source: "auto-order", autoOrderId: autoOrder.id },
+            kitchenQueue: await readKitchenQueue(config),
+            // Execution log + counters commit atomically with the order itself
+            onWrite: (transaction, placed) => {
+                const execution: Omit<AutoOrderExecution, "id"> = {
+                    autoOrderId: autoOrder.id,
+                    userId: autoOrder.userId,
+                    orderId: placed.orderId,
+                    success: true,
+                    amountDeducted: placed.breakdown.total,
+                    scheduledFor,
+                    executedAt,
+                };
+                transaction.create(executionRef, execution);
+                transaction.update(adminDb.collection(AUTO_ORDERS_COLLECTION).doc(autoOrder.id), {
+                    lastExecutedAt: executedAt,
+                    totalExecutions: FieldValue.increment(1),
+                    updatedAt: executedAt,
+                });
+            },
+        });
+
+        console.log(`[AutoOrder] ✅ ${executionKey} → order #${orderId}`);
+        return { autoOrderId: autoOrder.id, executionKey, success: true, orderId };
+    } catch (error) {
+        // Another run executed this slot between our pre-check and commit
+        if (isAlreadyExists(error)) return skipped(autoOrder, executionKey);
+
+        const reason = error instanceof Error ? error.message : "Order placement failed";
+        console.warn(`[AutoOrder] ❌ ${executionKey} failed: ${reason}`);
+        return recordFailure(autoOrder, executionKey, scheduledFor, reason, executedAt);
+    }
+}
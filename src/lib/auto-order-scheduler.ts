@@ -0,0 +1,123 @@
+/**
+ * Auto-Order Scheduler — decides which AutoOrder slots are due.
+ *
+ * A "slot" is one scheduled occurrence: the AutoOrder's "HH:MM" on a day
+ * its frequency allows. The cron is not guaranteed to fire every minute, so
+ * instead of matching the current minute we look back over a grace window
+ * and catch up on the most recent missed slot. Each slot has a deterministic
+ * execution key, used as the autoOrderExecutions doc id, so a slot can only
+ * ever be executed once no matter how often the cron runs.
+ *
+ * All times are in the server's local timezone, matching the canteen hours check.
+ */
+
+import type { AutoOrder, DayOfWeek } from "@/types";
+
+const DAY_NAMES: DayOfWeek[] = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAYS: DayOfWeek[] = ["Mon", "Tue", "Wed", "Thu", "Fri"];
+
+// Look far enough ahead to always find the next slot of a weekly schedule
+const MAX_LOOKAHEAD_DAYS = 8;
+
+export const DEFAULT_GRACE_MINUTES = 60;
+
+type SchedulableAutoOrder = Pick<AutoOrder, "id" | "time" | "frequency" | "customDays" | "createdAt">;
+
+/**
+ * Grace window for catching up on missed slots, from AUTO_ORDER_GRACE_MINUTES.
+ */
+export function getGraceMinutes(): number {
+    const value = Number(process.env.AUTO_ORDER_GRACE_MINUTES);
+    return Number.isFinite(value) && value >= 0 ? value : DEFAULT_GRACE_MINUTES;
+}
+
+/**
+ * Normalize stored day values to DayOfWeek ("monday" / "Monday" → "Mon").
+ */
+export function normalizeDay(day: string): DayOfWeek | null {
+    const short = day.trim().slice(0, 3).toLowerCase();
+    return DAY_NAMES.find((d) => d.toLowerCase() === short) ?? null;
+}
+
+/**
+ * Whether the auto-order's frequency includes the calendar day of `date`.
+ */
+export function isScheduledOn(autoOrder: SchedulableAutoOrder, date: Date): boolean {
+    const day = DAY_NAMES[date.getDay()];
+
+    switch (autoOrder.frequency) {
+        case "daily":
+            return true;
+        case "weekdays":
+            return WEEKDAYS.includes(day);
+        case "custom":
+            return (autoOrder.customDays || []).some((d) => normalizeDay(d) === day);
+        default:
+            return false;
+    }
+}
+
+/**
+ * The slot instant on the calendar day of `date` (ignores the frequency).
+ */
+export function slotOn(autoOrder: SchedulableAutoOrder, date: Date): Date | null {
+    const match = /^(\d{2}):(\d{2})$/.exec(autoOrder.time || "");
+    if (!match) return null;
+
+    const slot = new Date(date);
+    slot.setHours(Number(match[1]), Number(match[2]), 0, 0);
+    return slot;
+}
+
+/**
+ * Deterministic key for one slot: "{autoOrderId}_{YYYYMMDD}_{HHMM}".
+ */
+export function getExecutionKey(autoOrderId: string, slot: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const date = `${slot.getFullYear()}${pad(slot.getMonth() + 1)}${pad(slot.getDate())}`;
+    const time = `${pad(slot.getHours())}${pad(slot.getMinutes())}`;
+    return `${autoOrderId}_${date}_${time}`;
+}
+
+/**
+ * Next slot strictly after `after`, or null if the schedule never fires.
+ */
+export function getNextDueAt(autoOrder: SchedulableAutoOrder, after = new Date()): Date | null {
+    for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+        const day = new Date(after);
+        day.setDate(day.getDate() + offset);
+
+        const slot = slotOn(autoOrder, day);
+        if (slot && slot > after && isScheduledOn(autoOrder, slot)) {
+            return slot;
+        }
+    }
+    return null;
+}
+
+/**
+ * Most recent slot in the window (now - graceMinutes, now] that has not
+ * passed before the auto-order was created, or null if nothing is due.
+ */
+export function getDueSlot(
+    autoOrder: SchedulableAutoOrder,
+    now = new Date(),
+    graceMinutes = getGraceMinutes()
+): Date | null {
+    const windowStart = new Date(now.getTime() - graceMinutes * 60_000);
+    const createdAt = autoOrder.createdAt ? new Date(autoOrder.createdAt) : null;
+
+    // Walk back day by day until the slot falls before the grace window
+    for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+        const day = new Date(now);
+        day.setDate(day.getDate() - offset);
+
+        const slot = slotOn(autoOrder, day);
+        if (!slot) return null;
+        if (slot <= windowStart) return null;
+        if (slot > now || !isScheduledOn(autoOrder, slot)) continue;
+        if (createdAt && slot < createdAt) return null;
+        return slot;
+    }
+    return null;
+}
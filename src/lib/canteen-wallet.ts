@@ -1,5 +1,6 @@
 import { FieldValue, Transaction, DocumentReference } from "firebase-admin/firestore";
 import { adminDb } from "./firebase-admin";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "./ledger";
 
 const CANTEEN_WALLET_ID = "canteen_owner";
 
@@ -14,6 +15,8 @@ export interface WalletTransaction {
 /**
  * Syncs the Canteen Wallet balances safely within an existing Firestore transaction.
  * Automatically handles pendingAmount vs totalBalance based on order status changes.
+ * Settlements (clearing → pending → balance) are journaled in the ledger here;
+ * cancellation refunds are journaled by the caller that credits the user.
  */
 export async function updateCanteenWallet(
     transaction: Transaction,
@@ -65,6 +68,12 @@ export async function updateCanteenWallet(
 
     if (isNewConfirmed) {
         updates.pendingAmount = FieldValue.increment(amount);
+        postLedgerEntry(transaction, {
+            type: "order_settlement",
+            description: `Order Confirmed - #${orderId}`,
+            postings: transferPostings(LedgerAccounts.ORDERS_CLEARING, LedgerAccounts.CANTEEN_PENDING, amount),
+            referenceId: orderId,
+        });
     }
 
     // 2. Confirmed/Preparing/Ready -> Completed (Funds move from pending to total)
@@ -86,6 +95,12 @@ export async function updateCanteenWallet(
             orderId,
             description: `Order Completed - #${orderId}`,
         };
+        postLedgerEntry(transaction, {
+            type: "order_settlement",
+            description: `Order Completed - #${orderId}`,
+            postings: transferPostings(LedgerAccounts.CANTEEN_PENDING, LedgerAccounts.CANTEEN_BALANCE, amount),
+            referenceId: orderId,
+        });
     } else if (isDirectCompleted) {
         updates.totalBalance = FieldValue.increment(amount);
         updates.todayCollection = FieldValue.increment(amount);
@@ -96,6 +111,12 @@ export async function updateCanteenWallet(
             orderId,
             description: `Order Completed (Direct) - #${orderId}`,
         };
+        postLedgerEntry(transaction, {
+            type: "order_settlement",
+            description: `Order Completed (Direct) - #${orderId}`,
+            postings: transferPostings(LedgerAccounts.ORDERS_CLEARING, LedgerAccounts.CANTEEN_BALANCE, amount),
+            referenceId: orderId,
+        });
     }
 
     // 3. Cancellation & Refunds
@@ -139,3 +160,53 @@ export async function updateCanteenWallet(
         });
     }
 }
+
+/**
+ * Reverses part of an order's value from the Canteen Wallet (partial refund).
+ * Must run inside an existing Firestore transaction, before any writes.
+ * - pending orders: funds never reached the canteen wallet, nothing moves
+ * - confirmed/preparing/ready: deduct from pendingAmount
+ * - completed: deduct from totalBalance and record a refund_deduction
+ */
+export async function refundCanteenWallet(
+    transaction: Transaction,
+    status: string,
+    amount: number,
+    orderId: string
+) {
+    if (amount <= 0 || !["confirmed", "preparing", "ready", "completed"].includes(status)) return;
+
+    const walletRef = adminDb.collection("wallets").doc(CANTEEN_WALLET_ID);
+    const walletDoc = await transaction.get(walletRef);
+
+    if (!walletDoc.exists) {
+        transaction.set(walletRef, {
+            totalBalance: 0,
+            pendingAmount: 0,
+            todayCollection: 0,
+            todayDate: new Date().toISOString().split("T")[0],
+            lastUpdated: new Date().toISOString(),
+        });
+    }
+
+    if (status === "completed") {
+        transaction.update(walletRef, {
+            totalBalance: FieldValue.increment(-amount),
+            lastUpdated: new Date().toISOString(),
+        });
+
+        const txnRef = adminDb.collection("canteenTransactions").doc();
+        transaction.set(txnRef, {
+            amount,
+            type: "refund_deduction",
+            orderId,
+            description: `Partial Refund - #${orderId}`,
+            createdAt: new Date().toISOString(),
+        } satisfies WalletTransaction);
+    } else {
+        transaction.update(walletRef, {
+            pendingAmount: FieldValue.increment(-amount),
+            lastUpdated: new Date().toISOString(),
+        });
+    }
+}
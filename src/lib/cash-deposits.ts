@@ -0,0 +1,260 @@
+/**
+ * Counter cash deposits — turning cash handed to the canteen into wallet balance.
+ *
+ *   awaiting_confirmation → confirmed
+ *            ↘ declined (student) / cancelled (admin) / expired
+ *
+ * - The admin looks the student up by uniqueCode or roll number and enters
+ *   the amount received; this only opens a deposit.
+ * - The student confirms it on their own device within the confirmation
+ *   window. Only then is the wallet credited, so neither side can invent
+ *   a deposit alone.
+ * - Confirmed cash is added to that day's cash drawer (cashDrawers/{date}),
+ *   as are cash_deposit wallet adjustments (lib/wallet-adjustments);
+ *   closing the drawer records the counted cash and the variance for
+ *   end-of-day reconciliation.
+ *
+ * Crediting journals external:cash_drawer → user:{uid} in the same
+ * transaction as the balance update.
+ */
+
+import { DocumentReference, DocumentSnapshot, FieldValue, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "@/lib/ledger";
+import type { CashDeposit, CashDrawerDay } from "@/types";
+
+export const CASH_DEPOSITS_COLLECTION = "cashDeposits";
+export const CASH_DRAWERS_COLLECTION = "cashDrawers";
+
+export const MAX_CASH_DEPOSIT = 5000;
+const CONFIRMATION_WINDOW_MS = 10 * 60_000;
+
+/**
+ * Thrown when a deposit or drawer is not in a state that allows the action.
+ */
+export class CashDepositError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CashDepositError";
+    }
+}
+
+/** Cash drawer day for a timestamp (same YYYY-MM-DD convention as wallets/canteen_owner.todayDate). */
+export function drawerDate(now = new Date()): string {
+    return now.toISOString().split("T")[0];
+}
+
+/**
+ * Find a student by their 6-char uniqueCode or roll number.
+ */
+export async function findStudent(lookup: string): Promise<DocumentSnapshot | null> {
+    const users = adminDb.collection("users");
+    const value = lookup.trim();
+    if (!value) return null;
+
+    const [byCode, byRoll] = await Promise.all([
+        users.where("uniqueCode", "==", value.toUpperCase()).limit(1).get(),
+        users.where("rollNumber", "==", value).limit(1).get(),
+    ]);
+    if (!byCode.empty) return byCode.docs[0];
+    if (!byRoll.empty) return byRoll.docs[0];
+
+    // Roll numbers are typed in whatever case the student registered with
+    const byRollUpper = await users.where("rollNumber", "==", value.toUpperCase()).limit(1).get();
+    return byRollUpper.empty ? null : byRollUpper.docs[0];
+}
+
+// ─── Lifecycle ──────────────────────────────────
+
+/**
+ * Open a deposit for cash the admin has taken; the student must confirm it.
+ */
+export async function createCashDeposit(params: {
+    userDoc: DocumentSnapshot;
+    amount: number;
+    adminUsername: string;
+}): Promise<CashDeposit> {
+    const { userDoc, amount, adminUsername } = params;
+    const data = userDoc.data()!;
+    const depositRef = adminDb.collection(CASH_DEPOSITS_COLLECTION).doc();
+    const now = new Date();
+
+    const deposit: Omit<CashDeposit, "id"> = {
+        slipNumber: `CD-${depositRef.id.slice(0, 8).toUpperCase()}`,
+        userId: userDoc.id,
+        userName: data.name || data.email || "Student",
+        ...(data.uniqueCode ? { userUniqueCode: data.uniqueCode } : {}),
+        ...(data.rollNumber ? { userRollNumber: data.rollNumber } : {}),
+        amount,
+        status: "awaiting_confirmation",
+        receivedBy: adminUsername,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + CONFIRMATION_WINDOW_MS).toISOString(),
+    };
+    await depositRef.set(deposit);
+
+    console.log(`[CashDeposits] ${depositRef.id} opened: ₹${amount} for ${userDoc.id} by ${adminUsername}`);
+    return { id: depositRef.id, ...deposit };
+}
+
+/**
+ * Student accepts the deposit: credit the wallet and count the cash in
+ * today's drawer. A lapsed deposit is marked expired instead.
+ */
+export async function confirmCashDeposit(userId: string, depositId: string): Promise<CashDeposit> {
+    const depositRef = adminDb.collection(CASH_DEPOSITS_COLLECTION).doc(depositId);
+    const userRef = adminDb.collection("users").doc(userId);
+
+    const result = await adminDb.runTransaction(async (transaction) => {
+        const depositDoc = await transaction.get(depositRef);
+        if (!depositDoc.exists) throw new CashDepositError("Deposit not found");
+
+        const deposit = { id: depositDoc.id, ...depositDoc.data() } as CashDeposit;
+        if (deposit.userId !== userId) throw new CashDepositError("Deposit not found");
+        if (deposit.status !== "awaiting_confirmation") {
+            throw new CashDepositError(`Deposit is already ${deposit.status}`);
+        }
+
+        const now = new Date();
+        const nowIso = now.toISOString();
+        if (deposit.expiresAt < nowIso) {
+            transaction.update(depositRef, { status: "expired", closedAt: nowIso });
+            return { ...deposit, status: "expired" as const, closedAt: nowIso };
+        }
+
+        const date = drawerDate(now);
+        const [userDoc, drawerDoc] = [await transaction.get(userRef), await transaction.get(cashDrawerRef(date))];
+        if (!userDoc.exists) throw new CashDepositError("User not found");
+
+        transaction.update(userRef, {
+            walletBalance: FieldValue.increment(deposit.amount),
+        });
+
+        const description = `Cash deposit at counter (${deposit.slipNumber})`;
+        const txnRef = adminDb.collection("walletTransactions").doc();
+        transaction.set(txnRef, {
+            userId,
+            type: "topup",
+            amount: deposit.amount,
+            description,
+            referenceId: depositId,
+            transactionId: txnRef.id,
+            createdAt: nowIso,
+        });
+
+        countCashInDrawer(transaction, drawerDoc, deposit.amount, nowIso);
+
+        transaction.update(depositRef, {
+            status: "confirmed",
+            confirmedAt: nowIso,
+            drawerDate: date,
+            walletTransactionId: txnRef.id,
+        });
+
+        postLedgerEntry(transaction, {
+            type: "topup",
+            description,
+            postings: transferPostings(LedgerAccounts.CASH_DRAWER, LedgerAccounts.user(userId), deposit.amount),
+            referenceId: depositId,
+            actorId: deposit.receivedBy,
+        });
+
+        return { ...deposit, status: "confirmed" as const, confirmedAt: nowIso, drawerDate: date, walletTransactionId: txnRef.id };
+    });
+
+    console.log(`[CashDeposits] ${depositId} ${result.status} by ${userId}`);
+    return result;
+}
+
+/**
+ * Close an unconfirmed deposit without crediting anything — the student
+ * declining it, or the admin cancelling a mistaken entry.
+ */
+export async function closeCashDeposit(
+    depositId: string,
+    actor: { type: "user"; id: string } | { type: "admin"; id: string }
+): Promise<void> {
+    const depositRef = adminDb.collection(CASH_DEPOSITS_COLLECTION).doc(depositId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(depositRef);
+        if (!doc.exists) throw new CashDepositError("Deposit not found");
+
+        const deposit = doc.data() as CashDeposit;
+        if (actor.type === "user" && deposit.userId !== actor.id) throw new CashDepositError("Deposit not found");
+        if (deposit.status !== "awaiting_confirmation") {
+            throw new CashDepositError(`Deposit is already ${deposit.status}`);
+        }
+
+        transaction.update(depositRef, {
+            status: actor.type === "user" ? "declined" : "cancelled",
+            closedAt: new Date().toISOString(),
+        });
+    });
+
+    console.log(`[CashDeposits] ${depositId} ${actor.type === "user" ? "declined" : "cancelled"} by ${actor.id}`);
+}
+
+// ─── Cash Drawer ────────────────────────────────
+
+export function cashDrawerRef(date: string): DocumentReference {
+    return adminDb.collection(CASH_DRAWERS_COLLECTION).doc(date);
+}
+
+/**
+ * Add cash taken at the counter to a drawer day.
+ * Write-only — the drawer doc must have been read in this transaction.
+ */
+export function countCashInDrawer(transaction: Transaction, drawerDoc: DocumentSnapshot, amount: number, nowIso: string): void {
+    // Cash counted after the drawer was closed is tracked separately
+    const closed = drawerDoc.exists && !!(drawerDoc.data() as CashDrawerDay).closedAt;
+    transaction.set(
+        drawerDoc.ref,
+        {
+            date: drawerDoc.id,
+            ...(closed ? { lateTotal: FieldValue.increment(amount) } : { expectedTotal: FieldValue.increment(amount) }),
+            depositCount: FieldValue.increment(1),
+            updatedAt: nowIso,
+        },
+        { merge: true }
+    );
+}
+
+/**
+ * Record the end-of-day cash count for a drawer day. Deposits confirmed
+ * afterwards accumulate in lateTotal for the next count.
+ */
+export async function closeCashDrawer(params: {
+    date: string;
+    countedAmount: number;
+    adminUsername: string;
+    note?: string;
+}): Promise<CashDrawerDay> {
+    const { date, countedAmount, adminUsername, note } = params;
+    const drawerRef = cashDrawerRef(date);
+
+    const drawer = await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(drawerRef);
+        const current = doc.exists ? (doc.data() as CashDrawerDay) : null;
+        if (current?.closedAt) throw new CashDepositError(`Cash drawer for ${date} is already closed`);
+
+        const expectedTotal = current?.expectedTotal || 0;
+        const now = new Date().toISOString();
+        const closed: CashDrawerDay = {
+            date,
+            expectedTotal,
+            depositCount: current?.depositCount || 0,
+            closedBy: adminUsername,
+            closedAt: now,
+            countedAmount,
+            variance: Math.round((countedAmount - expectedTotal) * 100) / 100,
+            ...(note ? { closingNote: note } : {}),
+            updatedAt: now,
+        };
+        transaction.set(drawerRef, closed, { merge: true });
+        return closed;
+    });
+
+    console.log(`[CashDeposits] Drawer ${date} closed by ${adminUsername}: counted ₹${countedAmount}, variance ₹${drawer.variance}`);
+    return drawer;
+}
@@ -0,0 +1,267 @@
+/**
+ * Coupons — promo codes applied to a priced cart at checkout.
+ *
+ * A coupon gives a flat (₹) or percentage discount on the *eligible* part of
+ * the cart: every line when it has no restrictions, otherwise only lines
+ * whose menu item id is in `itemIds` or whose category slug is in `categories`.
+ *
+ * SECURITY: Discounts are only ever computed here on the server from the
+ * coupon doc and the server-side PriceBreakdown. Usage is counted inside the
+ * order transaction (coupons.usedCount + couponRedemptions/{code}_{uid}), so
+ * global and per-user limits hold under concurrent checkouts. Cancelling an
+ * order gives its redemption back.
+ */
+
+import { FieldValue, DocumentReference, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import type { PriceBreakdown } from "@/lib/order-pricing";
+import type { Coupon, CouponRedemption } from "@/types";
+
+export const COUPONS_COLLECTION = "coupons";
+export const COUPON_REDEMPTIONS_COLLECTION = "couponRedemptions";
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,20}$/;
+
+/**
+ * Thrown when a code does not exist or cannot be applied to this cart/user.
+ * The message is shown to the user as-is.
+ */
+export class CouponError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CouponError";
+    }
+}
+
+/** Upper-case and trim a user-entered code; null when it cannot be a valid code. */
+export function normalizeCouponCode(input: unknown): string | null {
+    if (typeof input !== "string") return null;
+    const code = input.trim().toUpperCase();
+    return COUPON_CODE_PATTERN.test(code) ? code : null;
+}
+
+// ─── Admin Input ────────────────────────────────
+
+type CouponFields = Omit<Coupon, "id" | "usedCount" | "createdAt" | "updatedAt">;
+
+function optionalNumber(v: unknown): number | undefined {
+    if (v === undefined || v === null || v === "") return undefined;
+    return Number(v);
+}
+
+function optionalDate(v: unknown): string | undefined | null {
+    if (v === undefined || v === null || v === "") return undefined;
+    const date = new Date(String(v));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function stringList(v: unknown): string[] {
+    if (!Array.isArray(v)) return [];
+    return [...new Set(v.filter((s): s is string => typeof s === "string" && s.trim() !== "").map((s) => s.trim()))];
+}
+
+/**
+ * Validate and normalise a coupon from an admin request body.
+ * Returns an error message instead of throwing.
+ */
+export function parseCouponInput(input: unknown): CouponFields | string {
+    if (!input || typeof input !== "object") return "Coupon details are required";
+    const raw = input as Record<string, unknown>;
+
+    const code = normalizeCouponCode(raw.code);
+    if (!code) return "Code must be 3–20 letters, digits, - or _";
+
+    const discountType = raw.discountType;
+    if (discountType !== "flat" && discountType !== "percentage") {
+        return "Discount type must be flat or percentage";
+    }
+
+    const value = Number(raw.value);
+    if (!Number.isFinite(value) || value <= 0) return "Discount value must be positive";
+    if (discountType === "percentage" && value > 100) return "Percentage cannot exceed 100";
+
+    const maxDiscount = optionalNumber(raw.maxDiscount);
+    const minOrderValue = optionalNumber(raw.minOrderValue);
+    const usageLimit = optionalNumber(raw.usageLimit);
+    const perUserLimit = optionalNumber(raw.perUserLimit);
+    for (const [label, n] of [["Max discount", maxDiscount], ["Min order value", minOrderValue]] as const) {
+        if (n !== undefined && (!Number.isFinite(n) || n < 0)) return `${label} must be zero or more`;
+    }
+    for (const [label, n] of [["Usage limit", usageLimit], ["Per-user limit", perUserLimit]] as const) {
+        if (n !== undefined && (!Number.isInteger(n) || n < 1)) return `${label} must be a whole number of at least 1`;
+    }
+
+    const validFrom = optionalDate(raw.validFrom);
+    const validUntil = optionalDate(raw.validUntil);
+    if (validFrom === null || validUntil === null) return "Invalid validity date";
+    if (validFrom && validUntil && validFrom >= validUntil) return "Valid-until must be after valid-from";
+
+    const description = typeof raw.description === "string" ? raw.description.trim().slice(0, 200) : "";
+    const itemIds = stringList(raw.itemIds);
+    const categories = stringList(raw.categories);
+
+    return {
+        code,
+        discountType,
+        value,
+        active: raw.active !== false,
+        ...(description ? { description } : {}),
+        ...(maxDiscount !== undefined && discountType === "percentage" ? { maxDiscount } : {}),
+        ...(minOrderValue ? { minOrderValue } : {}),
+        ...(usageLimit !== undefined ? { usageLimit } : {}),
+        ...(perUserLimit !== undefined ? { perUserLimit } : {}),
+        ...(validFrom ? { validFrom } : {}),
+        ...(validUntil ? { validUntil } : {}),
+        ...(itemIds.length ? { itemIds } : {}),
+        ...(categories.length ? { categories } : {}),
+    };
+}
+
+// ─── Evaluation ─────────────────────────────────
+
+export interface CouponState {
+    coupon: Coupon;
+    couponRef: DocumentReference;
+    redemptionRef: DocumentReference;
+    /** Live redemptions of this coupon by the user */
+    userRedemptions: number;
+}
+
+export function couponRef(code: string): DocumentReference {
+    return adminDb.collection(COUPONS_COLLECTION).doc(code);
+}
+
+function redemptionRef(code: string, userId: string): DocumentReference {
+    return adminDb.collection(COUPON_REDEMPTIONS_COLLECTION).doc(`${code}_${userId}`);
+}
+
+/**
+ * Read a coupon and the user's redemption count.
+ * Pass the order transaction so the limits are checked against the same
+ * snapshot the order commits on.
+ */
+export async function readCoupon(rawCode: unknown, userId: string, transaction?: Transaction): Promise<CouponState> {
+    const code = normalizeCouponCode(rawCode);
+    if (!code) throw new CouponError("Invalid coupon code");
+
+    const ref = couponRef(code);
+    const userRef = redemptionRef(code, userId);
+    const [couponDoc, redemptionDoc] = transaction
+        ? [await transaction.get(ref), await transaction.get(userRef)]
+        : await Promise.all([ref.get(), userRef.get()]);
+
+    if (!couponDoc.exists) throw new CouponError(`Coupon ${code} does not exist`);
+
+    return {
+        coupon: { id: couponDoc.id, ...couponDoc.data() } as Coupon,
+        couponRef: ref,
+        redemptionRef: userRef,
+        userRedemptions: redemptionDoc.exists ? (redemptionDoc.data() as CouponRedemption).count || 0 : 0,
+    };
+}
+
+/** Subtotal of the lines a coupon applies to. */
+export function eligibleSubtotal(coupon: Pick<Coupon, "itemIds" | "categories">, breakdown: PriceBreakdown): number {
+    const itemIds = coupon.itemIds || [];
+    const categories = coupon.categories || [];
+    if (itemIds.length === 0 && categories.length === 0) return breakdown.subtotal;
+
+    return breakdown.lines
+        .filter((line) => itemIds.includes(line.id) || categories.includes(line.category))
+        .reduce((sum, line) => sum + line.lineTotal, 0);
+}
+
+/**
+ * Check every coupon rule and return the breakdown with the discount applied.
+ * Throws CouponError with a user-facing reason when the coupon does not apply.
+ */
+export function applyCoupon(state: CouponState, breakdown: PriceBreakdown, now = new Date()): PriceBreakdown {
+    const { coupon, userRedemptions } = state;
+    const nowIso = now.toISOString();
+
+    if (!coupon.active) throw new CouponError(`Coupon ${coupon.code} is no longer active`);
+    if (coupon.validFrom && nowIso < coupon.validFrom) {
+        throw new CouponError(`Coupon ${coupon.code} is valid from ${new Date(coupon.validFrom).toLocaleDateString("en-IN")}`);
+    }
+    if (coupon.validUntil && nowIso > coupon.validUntil) {
+        throw new CouponError(`Coupon ${coupon.code} has expired`);
+    }
+    if (coupon.usageLimit !== undefined && (coupon.usedCount || 0) >= coupon.usageLimit) {
+        throw new CouponError(`Coupon ${coupon.code} has been fully redeemed`);
+    }
+    if (coupon.perUserLimit !== undefined && userRedemptions >= coupon.perUserLimit) {
+        throw new CouponError(
+            coupon.perUserLimit === 1
+                ? `You have already used coupon ${coupon.code}`
+                : `You have used coupon ${coupon.code} ${coupon.perUserLimit} times already`
+        );
+    }
+
+    const eligible = eligibleSubtotal(coupon, breakdown);
+    if (eligible <= 0) {
+        throw new CouponError(`Coupon ${coupon.code} does not apply to any item in your cart`);
+    }
+    if (coupon.minOrderValue && eligible < coupon.minOrderValue) {
+        throw new CouponError(`Coupon ${coupon.code} needs a minimum order of ₹${coupon.minOrderValue}`);
+    }
+
+    let discount = coupon.discountType === "flat"
+        ? coupon.value
+        : Math.floor((eligible * coupon.value) / 100);
+    if (coupon.discountType === "percentage" && coupon.maxDiscount !== undefined) {
+        discount = Math.min(discount, coupon.maxDiscount);
+    }
+    discount = Math.min(discount, eligible);
+
+    return {
+        ...breakdown,
+        discount,
+        couponCode: coupon.code,
+        total: breakdown.subtotal - discount,
+    };
+}
+
+// ─── Redemption ─────────────────────────────────
+
+/**
+ * Count one redemption for the order being placed. Write-only — call in the
+ * order transaction's write phase after readCoupon().
+ */
+export function recordCouponRedemption(transaction: Transaction, state: CouponState, userId: string, orderId: string): void {
+    const now = new Date().toISOString();
+
+    transaction.update(state.couponRef, {
+        usedCount: FieldValue.increment(1),
+        updatedAt: now,
+    });
+
+    const redemption: Omit<CouponRedemption, "id"> = {
+        couponCode: state.coupon.code,
+        userId,
+        count: state.userRedemptions + 1,
+        lastOrderId: orderId,
+        updatedAt: now,
+    };
+    transaction.set(state.redemptionRef, redemption);
+}
+
+/**
+ * Give a cancelled order's redemption back to the global and per-user limits.
+ * `couponExists` comes from the caller's read of couponRef(code) — coupons
+ * deleted since the order was placed only have the per-user count released.
+ */
+export function releaseCouponRedemption(transaction: Transaction, code: string, userId: string, couponExists: boolean): void {
+    const now = new Date().toISOString();
+
+    if (couponExists) {
+        transaction.update(couponRef(code), {
+            usedCount: FieldValue.increment(-1),
+            updatedAt: now,
+        });
+    }
+    transaction.set(
+        redemptionRef(code, userId),
+        { count: FieldValue.increment(-1), updatedAt: now },
+        { merge: true }
+    );
+}
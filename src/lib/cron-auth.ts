@@ -0,0 +1,27 @@
+/**
+ * Cron authentication helper.
+ *
+ * SECURITY: Cron endpoints place real orders, so they must not be callable
+ * by anyone who knows the URL. Vercel Cron sends `Authorization: Bearer
+ * <CRON_SECRET>`; scripts/dev-cron.js sends the same header locally.
+ */
+
+import crypto from "crypto";
+import { NextRequest } from "next/server";
+
+/**
+ * Verify the CRON_SECRET bearer token on an incoming cron request.
+ * Fails closed when CRON_SECRET is not configured.
+ */
+export function verifyCronRequest(req: NextRequest): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) return false;
+
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader?.startsWith("Bearer ")) return false;
+
+    // Timing-safe comparison prevents timing attacks
+    const provided = Buffer.from(authHeader.slice(7));
+    const expected = Buffer.from(secret);
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -34,15 +34,15 @@ const FAQ_MAP: FaqEntry[] = [
         answer: null,
         dynamic: "combo_suggestion",
     },
-    // F06 — Food preparation started
+    // F06 — Cancelling / modifying an order
     {
-        keywords: ["preparation starts", "preparation start", "food preparation", "once confirmed", "order modify", "can i modify", "change order after", "cancel after preparing"],
-        answer: "Once your order is confirmed by the canteen and preparation starts, the order cannot be modified or cancelled. Please make sure your cart is correct before confirming! ✅",
+        keywords: ["preparation starts", "preparation start", "food preparation", "once confirmed", "order modify", "can i modify", "change order after", "cancel after preparing", "cancel my order", "how to cancel", "order cancel kaise"],
+        answer: "You can cancel an order yourself while it is still pending — tap \"Cancel Order\" on the My Orders page or tell Jarvis \"cancel order\" within a few minutes of placing it, and the amount is refunded to your wallet instantly. Once the canteen confirms the order and preparation starts, it cannot be modified or cancelled from the app. ✅",
     },
     // F10 — Cannot collect order
     {
         keywords: ["cannot collect", "can't collect", "friend collect", "roommate collect", "someone else collect", "not able to collect", "who can collect"],
-        answer: "If you cannot collect your ready order, you can assign a friend or roommate to collect it on your behalf. Just share your Order ID with them! 🤝",
+        answer: "If you cannot collect your ready order, you can assign a friend or roommate to collect it on your behalf. Just share your Order ID and the 4-digit pickup OTP (or the QR code) from My Orders with them — staff verify it at the counter! 🤝",
     },
     // F13 — Wallet credit expiry
     {
@@ -4,6 +4,9 @@
  * "milk 2 packet kar do" → { name: "milk", quantity: 2 }
  * "mere liye 3 upma de do" → { name: "upma", quantity: 3 }
  * "1 boil egg add karo" → { name: "boil egg", quantity: 1 }
+ *
+ * Also recognises cancellation requests:
+ * "cancel order" / "order cancel kar do #ZKO4F7X" → { orderId?: "ZKO4F7X" }
  */
 
 export interface ParsedItem {
@@ -137,3 +140,20 @@ export function fuzzyMatchItem<T extends { name: string }>(
 
     return bestMatch;
 }
+
+export interface CancelIntent {
+    /** Zayko order ID mentioned in the message, if any */
+    orderId?: string;
+}
+
+const CANCEL_PATTERN = /\b(cancel|cancell?ed|radd|rad)\b/i;
+const ORDER_ID_PATTERN = /#?\b(ZKO[A-Z0-9]{4})\b/i;
+
+/**
+ * Detect a request to cancel an order. Returns null for anything else.
+ */
+export function parseCancelIntent(text: string): CancelIntent | null {
+    if (!CANCEL_PATTERN.test(text)) return null;
+    const idMatch = text.match(ORDER_ID_PATTERN);
+    return idMatch ? { orderId: idMatch[1].toUpperCase() } : {};
+}
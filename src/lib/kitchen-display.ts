@@ -0,0 +1,234 @@
+/**
+ * Kitchen Display — what the kitchen has to cook right now.
+ *
+ * Every confirmed or preparing order line that has not been bumped yet is
+ * grouped by menu item + chosen options ("6 × Samosa · Extra chutney"),
+ * and the groups are split into stations mapped from menu categories
+ * (CanteenConfig.kitchen.stations). Categories not mapped to any station
+ * land on the "General" station.
+ *
+ * Bumping a line sets OrderItem.ready; once every line of an order is
+ * ready the order moves to "ready" (see /api/admin/kds).
+ *
+ * Pure module (no Firestore access) — safe to import from client components.
+ */
+
+import type { CanteenConfig, KitchenConfig, KitchenStation, Order, OrderItem, OrderStatus } from "@/types";
+
+export const DEFAULT_KITCHEN_CONFIG: KitchenConfig = {
+    stations: [],
+    parallelism: 3,
+};
+
+export const GENERAL_STATION: KitchenStation = { id: "general", name: "General", categories: [] };
+
+export const MAX_KITCHEN_STATIONS = 10;
+
+export const MAX_KITCHEN_PARALLELISM = 20;
+
+/** Orders the kitchen is working on */
+export const KITCHEN_STATUSES: OrderStatus[] = ["confirmed", "preparing"];
+
+export function getKitchenConfig(config?: Partial<CanteenConfig>): KitchenConfig {
+    return { ...DEFAULT_KITCHEN_CONFIG, ...config?.kitchen };
+}
+
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/**
+ * Validate kitchen settings (stations, parallelism) from the admin settings form.
+ * Returns an error message instead of throwing.
+ */
+export function parseKitchenConfig(raw: unknown): KitchenConfig | string {
+    if (!raw || typeof raw !== "object") return "Invalid kitchen settings";
+    const { stations, parallelism } = { ...DEFAULT_KITCHEN_CONFIG, ...(raw as Partial<KitchenConfig>) };
+
+    if (!Array.isArray(stations)) return "Stations must be a list";
+    if (stations.length > MAX_KITCHEN_STATIONS) {
+        return `At most ${MAX_KITCHEN_STATIONS} kitchen stations`;
+    }
+    const orders = Number(parallelism);
+    if (!Number.isInteger(orders) || orders < 1 || orders > MAX_KITCHEN_PARALLELISM) {
+        return `Kitchen parallelism must be 1–${MAX_KITCHEN_PARALLELISM} orders`;
+    }
+
+    const ids = new Set<string>([GENERAL_STATION.id]);
+    const mapped = new Set<string>();
+    const parsed: KitchenStation[] = [];
+
+    for (const station of stations as Partial<KitchenStation>[]) {
+        const name = typeof station?.name === "string" ? station.name.trim() : "";
+        const id = slugify(name);
+        if (!id || name.length > 30) {
+            return "Each station needs a name of up to 30 characters";
+        }
+        if (ids.has(id)) {
+            return `Duplicate station: ${name}`;
+        }
+        if (!Array.isArray(station.categories) || station.categories.some((c) => typeof c !== "string" || !c)) {
+            return `Invalid categories for ${name}`;
+        }
+        for (const category of station.categories) {
+            if (mapped.has(category)) {
+                return `Category ${category} is mapped to more than one station`;
+            }
+            mapped.add(category);
+        }
+        ids.add(id);
+        parsed.push({ id, name, categories: [...station.categories] });
+    }
+
+    return { stations: parsed, parallelism: orders };
+}
+
+/** The station that cooks items of this category. */
+export function getStationForCategory(kitchen: KitchenConfig, category?: string): KitchenStation {
+    if (!category) return GENERAL_STATION;
+    return kitchen.stations.find((s) => s.categories.includes(category)) || GENERAL_STATION;
+}
+
+// ─── Aggregation ────────────────────────────────
+
+export interface KitchenLine {
+    orderDocId: string;
+    orderId: string;
+    /** Index of the line in order.items */
+    index: number;
+    quantity: number;
+    userName: string;
+    createdAt: string;
+}
+
+export interface KitchenItemGroup {
+    /** Menu item id + sorted option ids — lines with the same key are cooked the same way */
+    key: string;
+    itemId: string;
+    name: string;
+    options: string[];
+    quantity: number;
+    /** createdAt of the oldest order waiting for this group */
+    oldestAt: string;
+    lines: KitchenLine[];
+}
+
+export interface KitchenStationView {
+    id: string;
+    name: string;
+    quantity: number;
+    groups: KitchenItemGroup[];
+}
+
+export interface KitchenTicketItem {
+    index: number;
+    name: string;
+    quantity: number;
+    options: string[];
+    stationId: string;
+    ready: boolean;
+}
+
+export interface KitchenTicket {
+    orderDocId: string;
+    orderId: string;
+    userName: string;
+    status: OrderStatus;
+    createdAt: string;
+    scheduledFor?: string;
+    items: KitchenTicketItem[];
+}
+
+export interface KitchenDisplay {
+    stations: KitchenStationView[];
+    tickets: KitchenTicket[];
+}
+
+export function getItemGroupKey(item: Pick<OrderItem, "id" | "selectedOptions">): string {
+    const optionIds = (item.selectedOptions || []).map((o) => o.optionId).sort();
+    return [item.id, ...optionIds].join("|");
+}
+
+function optionNames(item: OrderItem): string[] {
+    return (item.selectedOptions || []).map((o) => o.optionName);
+}
+
+/**
+ * Build the kitchen display from open orders. Orders outside
+ * KITCHEN_STATUSES are ignored; oldest orders and groups come first.
+ */
+export function buildKitchenDisplay(orders: Order[], kitchen: KitchenConfig): KitchenDisplay {
+    const open = orders
+        .filter((o) => KITCHEN_STATUSES.includes(o.status))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const stationOrder = [...kitchen.stations, GENERAL_STATION];
+    const groups = new Map<string, Map<string, KitchenItemGroup>>(stationOrder.map((s) => [s.id, new Map()]));
+    const tickets: KitchenTicket[] = [];
+
+    for (const order of open) {
+        const items: KitchenTicketItem[] = (order.items || []).map((item, index) => {
+            const station = getStationForCategory(kitchen, item.category);
+            const ticketItem = {
+                index,
+                name: item.name,
+                quantity: item.quantity,
+                options: optionNames(item),
+                stationId: station.id,
+                ready: item.ready === true,
+            };
+            if (ticketItem.ready) return ticketItem;
+
+            const stationGroups = groups.get(station.id)!;
+            const key = getItemGroupKey(item);
+            let group = stationGroups.get(key);
+            if (!group) {
+                group = {
+                    key,
+                    itemId: item.id,
+                    name: item.name,
+                    options: ticketItem.options,
+                    quantity: 0,
+                    oldestAt: order.createdAt,
+                    lines: [],
+                };
+                stationGroups.set(key, group);
+            }
+            group.quantity += item.quantity;
+            group.lines.push({
+                orderDocId: order.id,
+                orderId: order.orderId,
+                index,
+                quantity: item.quantity,
+                userName: order.userName,
+                createdAt: order.createdAt,
+            });
+            return ticketItem;
+        });
+
+        tickets.push({
+            orderDocId: order.id,
+            orderId: order.orderId,
+            userName: order.userName,
+            status: order.status,
+            createdAt: order.createdAt,
+            ...(order.scheduledFor ? { scheduledFor: order.scheduledFor } : {}),
+            items,
+        });
+    }
+
+    const stations = stationOrder
+        .map((station) => {
+            const stationGroups = [...groups.get(station.id)!.values()];
+            return {
+                id: station.id,
+                name: station.name,
+                quantity: stationGroups.reduce((sum, g) => sum + g.quantity, 0),
+                groups: stationGroups,
+            };
+        })
+        // General only shows up when something unmapped is waiting
+        .filter((station) => station.id !== GENERAL_STATION.id || station.groups.length > 0);
+
+    return { stations, tickets };
+}
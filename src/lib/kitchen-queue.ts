@@ -0,0 +1,76 @@
+/**
+ * Kitchen Queue — server side of the order ETA (see lib/order-eta).
+ *
+ * readKitchenQueue() snapshots the confirmed and preparing orders for a
+ * new order's estimate (lib/order-placement, /api/orders/eta).
+ * refreshQueueEstimates() re-runs the queue after it moved — an order was
+ * confirmed, bumped, readied or cancelled — and rewrites
+ * Order.estimatedReadyAt on open orders whose estimate changed.
+ * Orders with an admin-set prep time keep theirs; held pre-orders are
+ * estimated at their pickup slot, not here.
+ */
+
+import { adminDb } from "@/lib/firebase-admin";
+import { getCanteenConfig } from "@/lib/order-placement";
+import { getKitchenConfig, KITCHEN_STATUSES } from "@/lib/kitchen-display";
+import { estimateReadyAt, simulateKitchenQueue, toQueueEntry, type KitchenQueue } from "@/lib/order-eta";
+import type { CanteenConfig, Order, OrderStatus } from "@/types";
+
+/** Estimates closer than this to the stored one are not rewritten */
+const MIN_CHANGE_MS = 60_000;
+
+const OPEN_STATUSES: OrderStatus[] = ["pending", ...KITCHEN_STATUSES];
+
+/**
+ * Confirmed and preparing orders, with the kitchen parallelism from settings.
+ */
+export async function readKitchenQueue(config?: Partial<CanteenConfig>): Promise<KitchenQueue> {
+    const snapshot = await adminDb.collection("orders").where("status", "in", KITCHEN_STATUSES).get();
+    return {
+        entries: snapshot.docs.map((doc) => toQueueEntry({ id: doc.id, ...doc.data() } as Order)),
+        parallelism: getKitchenConfig(config).parallelism,
+    };
+}
+
+/**
+ * Recompute and store estimatedReadyAt for every open order.
+ * Never throws — a stale estimate must not fail the change that triggered it.
+ */
+export async function refreshQueueEstimates(): Promise<void> {
+    try {
+        const [snapshot, config] = await Promise.all([
+            adminDb.collection("orders").where("status", "in", OPEN_STATUSES).get(),
+            getCanteenConfig(),
+        ]);
+        const orders = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Order);
+        const queue: KitchenQueue = {
+            entries: orders.filter((o) => o.status !== "pending").map(toQueueEntry),
+            parallelism: getKitchenConfig(config).parallelism,
+        };
+
+        const now = new Date();
+        const { readyAt } = simulateKitchenQueue(queue, now);
+        const batch = adminDb.batch();
+        let changed = 0;
+
+        for (const order of orders) {
+            if (order.prepTime && order.readyAt) continue;
+            if (order.status === "pending" && order.scheduledFor) continue;
+
+            const estimate = order.status === "pending"
+                ? estimateReadyAt(queue, toQueueEntry(order).prepMinutes, now)
+                : readyAt.get(order.id);
+            if (!estimate) continue;
+
+            const stored = order.estimatedReadyAt ? new Date(order.estimatedReadyAt).getTime() : 0;
+            if (Math.abs(estimate.getTime() - stored) < MIN_CHANGE_MS) continue;
+
+            batch.update(adminDb.collection("orders").doc(order.id), { estimatedReadyAt: estimate.toISOString() });
+            changed++;
+        }
+
+        if (changed > 0) await batch.commit();
+    } catch (error) {
+        console.error("[KitchenQueue] Failed to refresh estimates:", error);
+    }
+}
@@ -0,0 +1,321 @@
+/**
+ * Ledger — double-entry journal for every wallet money movement.
+ *
+ * Each movement (top-up, order payment, refund, P2P transfer, withdrawal,
+ * and the canteen's own pending → balance settlement) is written as one
+ * ledgerEntries doc whose postings sum to zero. A positive posting means
+ * money held by that account; the matching negative posting is where it
+ * came from. Any account's balance is therefore the sum of its postings,
+ * which lets us check the denormalised numbers (users.walletBalance,
+ * wallets/canteen_owner) against the journal.
+ *
+ * Accounts:
+ *   user:{uid}               — a student's wallet (users.walletBalance)
+ *   canteen:orders_clearing  — paid for, order still pending
+ *   canteen:pending          — wallets/canteen_owner.pendingAmount
+ *   canteen:balance          — wallets/canteen_owner.totalBalance
+ *   canteen:reserved         — wallets/canteen_owner.reservedAmount (withdrawals awaiting payout)
+ *   external:*               — money entering/leaving the system
+ *   equity:adjustments       — audited manual corrections
+ *   equity:loyalty           — cashback paid into wallets when points are converted
+ *   equity:opening           — balances that existed before the journal (postOpeningBalances)
+ *
+ * Writers call postLedgerEntry() inside the same Firestore transaction that
+ * updates the balances. It only writes, so it can run anywhere in the
+ * transaction's write phase.
+ *
+ * Wallets funded before the journal existed have no postings, so
+ * postOpeningBalances() is run once after deploying it: it books each
+ * account's unexplained stored balance from equity:opening.
+ */
+
+import { Query, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import type { LedgerEntry, LedgerEntryType, LedgerPosting, OrderStatus } from "@/types";
+
+export const LEDGER_COLLECTION = "ledgerEntries";
+
+/** ledgerMeta/opening marks that opening balances have been posted */
+const OPENING_MARKER = { collection: "ledgerMeta", doc: "opening" };
+
+export const LedgerAccounts = {
+    user: (uid: string) => `user:${uid}`,
+    ORDERS_CLEARING: "canteen:orders_clearing",
+    CANTEEN_PENDING: "canteen:pending",
+    CANTEEN_BALANCE: "canteen:balance",
+    CANTEEN_RESERVED: "canteen:reserved",
+    RAZORPAY: "external:razorpay",
+    ADMIN_TOPUP: "external:admin_topup",
+    CASH_DRAWER: "external:cash_drawer",
+    PAYOUTS: "external:payouts",
+    ADJUSTMENTS: "equity:adjustments",
+    LOYALTY: "equity:loyalty",
+    OPENING: "equity:opening",
+} as const;
+
+/** Balances are compared to the paisa */
+const EPSILON = 0.005;
+
+/**
+ * Thrown when a journal entry does not balance.
+ */
+export class LedgerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "LedgerError";
+    }
+}
+
+/**
+ * Which account currently holds an order's money, given its status.
+ * Refunds and partial refunds are paid back out of this account.
+ */
+export function orderFundsAccount(status: OrderStatus): string {
+    switch (status) {
+        case "pending":
+            return LedgerAccounts.ORDERS_CLEARING;
+        case "confirmed":
+        case "preparing":
+        case "ready":
+            return LedgerAccounts.CANTEEN_PENDING;
+        case "completed":
+            return LedgerAccounts.CANTEEN_BALANCE;
+        default:
+            throw new LedgerError(`Order in status ${status} holds no funds`);
+    }
+}
+
+export interface LedgerEntryInput {
+    type: LedgerEntryType;
+    description: string;
+    postings: LedgerPosting[];
+    /** Order doc id, payment id, withdrawal id, … */
+    referenceId?: string;
+    /** Who caused the movement (uid, admin username, system job) */
+    actorId?: string;
+    /** Fixed doc id, for entries that must be written at most once */
+    entryId?: string;
+}
+
+/**
+ * Build a two-legged entry moving `amount` from one account to another.
+ */
+export function transferPostings(from: string, to: string, amount: number): LedgerPosting[] {
+    return [
+        { account: from, amount: -amount },
+        { account: to, amount },
+    ];
+}
+
+/**
+ * Write a balanced journal entry inside an existing Firestore transaction.
+ * Zero-amount movements are skipped (returns null).
+ * Throws LedgerError if the postings do not sum to zero.
+ */
+export function postLedgerEntry(transaction: Transaction, input: LedgerEntryInput): string | null {
+    const postings = input.postings.filter((p) => p.amount !== 0);
+    if (postings.length === 0) return null;
+    if (postings.length < 2) {
+        throw new LedgerError(`Ledger entry "${input.type}" needs at least two postings`);
+    }
+    if (postings.some((p) => !Number.isFinite(p.amount))) {
+        throw new LedgerError(`Ledger entry "${input.type}" has a non-numeric amount`);
+    }
+    const sum = postings.reduce((s, p) => s + p.amount, 0);
+    if (Math.abs(sum) > EPSILON) {
+        throw new LedgerError(`Ledger entry "${input.type}" is unbalanced by ${sum}`);
+    }
+
+    const ref = input.entryId
+        ? adminDb.collection(LEDGER_COLLECTION).doc(input.entryId)
+        : adminDb.collection(LEDGER_COLLECTION).doc();
+    const entry: Omit<LedgerEntry, "id"> = {
+        type: input.type,
+        description: input.description,
+        postings,
+        accounts: [...new Set(postings.map((p) => p.account))],
+        ...(input.referenceId ? { referenceId: input.referenceId } : {}),
+        ...(input.actorId ? { actorId: input.actorId } : {}),
+        createdAt: new Date().toISOString(),
+    };
+    transaction.set(ref, entry);
+    return ref.id;
+}
+
+// ─── Derived Balances ───────────────────────────
+
+function accountEntries(account: string): Query {
+    return adminDb.collection(LEDGER_COLLECTION).where("accounts", "array-contains", account);
+}
+
+/** Sum of one account's postings in these entries */
+function sumPostings(entries: LedgerEntry[], account: string): number {
+    let balance = 0;
+    for (const entry of entries) {
+        for (const posting of entry.postings) {
+            if (posting.account === account) balance += posting.amount;
+        }
+    }
+    return Math.round(balance * 100) / 100;
+}
+
+/**
+ * Sum every posting to an account across the journal.
+ */
+export async function getLedgerBalance(account: string): Promise<number> {
+    const snapshot = await accountEntries(account).get();
+    return sumPostings(snapshot.docs.map((doc) => doc.data() as LedgerEntry), account);
+}
+
+// ─── Reconciliation ─────────────────────────────
+
+export interface BalanceCheck {
+    account: string;
+    /** Denormalised number stored on the user / wallet doc */
+    stored: number;
+    /** Sum of the account's postings in the journal */
+    derived: number;
+    /** stored − derived */
+    drift: number;
+    ok: boolean;
+}
+
+function compare(account: string, stored: number, derived: number): BalanceCheck {
+    const drift = Math.round((stored - derived) * 100) / 100;
+    return { account, stored, derived, drift, ok: Math.abs(drift) < EPSILON };
+}
+
+/**
+ * Compare every user's stored walletBalance with their ledger account.
+ * Returns the ones that drift, largest first. Reads the whole journal —
+ * admin tool, not for hot paths.
+ */
+export async function checkUserBalances(): Promise<BalanceCheck[]> {
+    const [usersSnap, entriesSnap] = await Promise.all([
+        adminDb.collection("users").get(),
+        adminDb.collection(LEDGER_COLLECTION).get(),
+    ]);
+
+    const derived = new Map<string, number>();
+    for (const doc of entriesSnap.docs) {
+        for (const posting of (doc.data() as LedgerEntry).postings) {
+            derived.set(posting.account, (derived.get(posting.account) || 0) + posting.amount);
+        }
+    }
+
+    return usersSnap.docs
+        .map((doc) => {
+            const account = LedgerAccounts.user(doc.id);
+            return compare(account, doc.data().walletBalance || 0, Math.round((derived.get(account) || 0) * 100) / 100);
+        })
+        .filter((check) => !check.ok)
+        .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+}
+
+/**
+ * Compare wallets/canteen_owner pendingAmount / totalBalance / reservedAmount with the ledger.
+ */
+export async function checkCanteenBalances(): Promise<BalanceCheck[]> {
+    const walletDoc = await adminDb.collection("wallets").doc("canteen_owner").get();
+    const wallet = walletDoc.data() || {};
+
+    const [pending, balance, reserved] = await Promise.all([
+        getLedgerBalance(LedgerAccounts.CANTEEN_PENDING),
+        getLedgerBalance(LedgerAccounts.CANTEEN_BALANCE),
+        getLedgerBalance(LedgerAccounts.CANTEEN_RESERVED),
+    ]);
+
+    return [
+        compare(LedgerAccounts.CANTEEN_PENDING, wallet.pendingAmount || 0, pending),
+        compare(LedgerAccounts.CANTEEN_BALANCE, wallet.totalBalance || 0, balance),
+        compare(LedgerAccounts.CANTEEN_RESERVED, wallet.reservedAmount || 0, reserved),
+    ];
+}
+
+// ─── Opening Balances ───────────────────────────
+
+/** When opening balances were posted, or null if they have not been yet. */
+export async function getOpeningBalancesPostedAt(): Promise<string | null> {
+    const marker = await adminDb.collection(OPENING_MARKER.collection).doc(OPENING_MARKER.doc).get();
+    return marker.exists ? (marker.data()?.postedAt as string) : null;
+}
+
+/**
+ * Book one account's stored balance that the journal does not explain,
+ * from equity:opening. The entry has a fixed id, so an account that already
+ * has one is skipped. Returns whether an entry was written.
+ */
+async function postOpeningBalance(
+    account: string,
+    readStored: (transaction: Transaction) => Promise<number>,
+    actorId: string
+): Promise<boolean> {
+    const entryId = `opening_${account}`;
+    return adminDb.runTransaction(async (transaction) => {
+        const existing = await transaction.get(adminDb.collection(LEDGER_COLLECTION).doc(entryId));
+        if (existing.exists) return false;
+
+        const entries = await transaction.get(accountEntries(account));
+        const stored = await readStored(transaction);
+        const derived = sumPostings(entries.docs.map((doc) => doc.data() as LedgerEntry), account);
+        const amount = Math.round((stored - derived) * 100) / 100;
+        if (Math.abs(amount) < EPSILON) return false;
+
+        postLedgerEntry(transaction, {
+            type: "opening_balance",
+            description: `Opening balance of ${account}`,
+            postings: transferPostings(LedgerAccounts.OPENING, account, amount),
+            actorId,
+            entryId,
+        });
+        return true;
+    });
+}
+
+/**
+ * One-off backfill: give every user wallet and canteen account an opening
+ * entry for the balance it held before the journal existed. Run once, right
+ * after deploying the ledger — any drift at that moment is absorbed into the
+ * opening balance. Idempotent: does nothing once ledgerMeta/opening is set,
+ * and a run that stopped half-way skips the accounts it already opened.
+ */
+export async function postOpeningBalances(actorId: string): Promise<{ posted: number; postedAt: string }> {
+    const markerRef = adminDb.collection(OPENING_MARKER.collection).doc(OPENING_MARKER.doc);
+    const marker = await markerRef.get();
+    if (marker.exists) {
+        throw new LedgerError(`Opening balances were already posted on ${marker.data()?.postedAt}`);
+    }
+
+    const walletRef = adminDb.collection("wallets").doc("canteen_owner");
+    const canteenField = (field: string) => async (transaction: Transaction) =>
+        Number((await transaction.get(walletRef)).data()?.[field]) || 0;
+
+    const accounts: [string, (transaction: Transaction) => Promise<number>][] = [
+        [LedgerAccounts.CANTEEN_PENDING, canteenField("pendingAmount")],
+        [LedgerAccounts.CANTEEN_BALANCE, canteenField("totalBalance")],
+        [LedgerAccounts.CANTEEN_RESERVED, canteenField("reservedAmount")],
+        // Paid orders not yet confirmed — not stored anywhere but on the orders
+        [LedgerAccounts.ORDERS_CLEARING, async (transaction) => {
+            const pending = await transaction.get(adminDb.collection("orders").where("status", "==", "pending"));
+            return pending.docs.reduce((sum, doc) => sum + (Number(doc.data().total) || 0), 0);
+        }],
+    ];
+
+    const usersSnap = await adminDb.collection("users").select().get();
+    for (const userDoc of usersSnap.docs) {
+        accounts.push([
+            LedgerAccounts.user(userDoc.id),
+            async (transaction) => Number((await transaction.get(userDoc.ref)).data()?.walletBalance) || 0,
+        ]);
+    }
+
+    let posted = 0;
+    for (const [account, readStored] of accounts) {
+        if (await postOpeningBalance(account, readStored, actorId)) posted++;
+    }
+
+    const postedAt = new Date().toISOString();
+    await markerRef.set({ postedAt, actorId, posted });
+    console.log(`[Ledger] ${actorId} posted ${posted} opening balances`);
+    return { posted, postedAt };
+}
@@ -0,0 +1,508 @@
+/**
+ * Loyalty — points earned on completed orders, spent at checkout or
+ * converted to wallet credit.
+ *
+ * Every credit (earn on completion, restore on cancellation) is a "lot" in
+ * loyaltyTransactions with its own expiresAt and remaining points. Spending
+ * (redeem, convert, reverse) consumes open lots soonest-expiry first, and
+ * expireLoyaltyPoints() closes lots whose expiresAt has passed.
+ * users.loyaltyPoints is the denormalised sum of remaining points on open lots.
+ *
+ * Accrual: pointsPerRupee × the ₹ actually paid for each line × the line's
+ * category multiplier, rounded down. Cancelling or partially refunding an
+ * order reverses its points (as far as the user still has them) and gives
+ * back points that were spent on it.
+ *
+ * Like lib/order-transitions, the transactional helpers come as read/write
+ * pairs so callers can keep every read ahead of their writes.
+ */
+
+import { FieldValue, DocumentReference, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "@/lib/ledger";
+import type { PriceBreakdown } from "@/lib/order-pricing";
+import type { CanteenConfig, LoyaltyConfig, LoyaltyTransaction, LoyaltyTransactionType, Order } from "@/types";
+
+export const LOYALTY_TRANSACTIONS_COLLECTION = "loyaltyTransactions";
+
+export const DEFAULT_LOYALTY_CONFIG: LoyaltyConfig = {
+    enabled: false,
+    pointsPerRupee: 0.05,
+    categoryMultipliers: {},
+    pointValue: 1,
+    minRedeemPoints: 10,
+    expiryDays: 180,
+};
+
+const EXPIRY_BATCH_SIZE = 200;
+
+/**
+ * Thrown when points cannot be redeemed or converted. The message is shown to the user as-is.
+ */
+export class LoyaltyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "LoyaltyError";
+    }
+}
+
+// ─── Config ─────────────────────────────────────
+
+/** Loyalty settings from settings/canteenConfig with defaults filled in. */
+export function getLoyaltyConfig(config?: Partial<CanteenConfig>): LoyaltyConfig {
+    const loyalty = config?.loyalty || {};
+    return {
+        ...DEFAULT_LOYALTY_CONFIG,
+        ...loyalty,
+        categoryMultipliers: { ...(loyalty.categoryMultipliers || {}) },
+    };
+}
+
+/** Read the loyalty settings inside a transaction (read phase). */
+export async function readLoyaltyConfig(transaction: Transaction): Promise<LoyaltyConfig> {
+    const doc = await transaction.get(adminDb.doc("settings/canteenConfig"));
+    return getLoyaltyConfig(doc.exists ? (doc.data() as Partial<CanteenConfig>) : undefined);
+}
+
+/**
+ * Validate loyalty settings from the admin settings form.
+ * Returns an error message instead of throwing.
+ */
+export function parseLoyaltyConfig(input: unknown): LoyaltyConfig | string {
+    if (!input || typeof input !== "object") return "Loyalty settings are required";
+    const raw = input as Record<string, unknown>;
+    const merged = { ...DEFAULT_LOYALTY_CONFIG, ...raw };
+
+    const pointsPerRupee = Number(merged.pointsPerRupee);
+    const pointValue = Number(merged.pointValue);
+    const minRedeemPoints = Number(merged.minRedeemPoints);
+    const expiryDays = Number(merged.expiryDays);
+
+    if (!Number.isFinite(pointsPerRupee) || pointsPerRupee < 0 || pointsPerRupee > 1) {
+        return "Points per ₹ must be between 0 and 1";
+    }
+    if (!Number.isFinite(pointValue) || pointValue <= 0 || pointValue > 10) {
+        return "Point value must be between ₹0 and ₹10";
+    }
+    if (!Number.isInteger(minRedeemPoints) || minRedeemPoints < 1) {
+        return "Minimum redemption must be at least 1 point";
+    }
+    if (!Number.isInteger(expiryDays) || expiryDays < 1 || expiryDays > 3650) {
+        return "Points must expire after 1–3650 days";
+    }
+
+    const categoryMultipliers: Record<string, number> = {};
+    if (merged.categoryMultipliers && typeof merged.categoryMultipliers === "object") {
+        for (const [slug, value] of Object.entries(merged.categoryMultipliers as Record<string, unknown>)) {
+            const multiplier = Number(value);
+            if (!slug || !Number.isFinite(multiplier) || multiplier < 0 || multiplier > 10) {
+                return `Multiplier for ${slug || "category"} must be 0–10`;
+            }
+            if (multiplier !== 1) categoryMultipliers[slug] = multiplier;
+        }
+    }
+
+    return {
+        enabled: merged.enabled === true,
+        pointsPerRupee,
+        categoryMultipliers,
+        pointValue,
+        minRedeemPoints,
+        expiryDays,
+    };
+}
+
+// ─── Maths ──────────────────────────────────────
+
+/** ₹ value of points at checkout / conversion (rounded down). */
+export function pointsToRupees(points: number, config: LoyaltyConfig): number {
+    return Math.floor(points * config.pointValue);
+}
+
+/**
+ * Points a completed order earns. Lines earn on the share of their price the
+ * user actually paid, so coupon/points discounts and refunds earn nothing.
+ */
+export function pointsForOrder(order: Pick<Order, "items" | "total">, config: LoyaltyConfig): number {
+    const gross = (order.items || []).reduce((sum, item) => sum + item.price * item.quantity, 0);
+    if (gross <= 0 || order.total <= 0) return 0;
+
+    const paidShare = Math.min(order.total / gross, 1);
+    const points = order.items.reduce((sum, item) => {
+        const multiplier = item.category ? config.categoryMultipliers[item.category] ?? 1 : 1;
+        return sum + item.price * item.quantity * paidShare * config.pointsPerRupee * multiplier;
+    }, 0);
+    return Math.floor(points);
+}
+
+// ─── Lots ───────────────────────────────────────
+
+export interface OpenLot {
+    ref: DocumentReference;
+    remaining: number;
+    expiresAt: string;
+}
+
+interface OrderRef {
+    orderDocId: string;
+    orderId: string;
+}
+
+/** Spendable (open, unexpired) lots of a user, soonest expiry first. */
+export async function readOpenLots(transaction: Transaction, userId: string, now = new Date()): Promise<OpenLot[]> {
+    const snapshot = await transaction.get(
+        adminDb.collection(LOYALTY_TRANSACTIONS_COLLECTION)
+            .where("userId", "==", userId)
+            .where("open", "==", true)
+            .orderBy("expiresAt", "asc")
+    );
+    const nowIso = now.toISOString();
+    return snapshot.docs
+        .map((doc) => {
+            const data = doc.data() as LoyaltyTransaction;
+            return { ref: doc.ref, remaining: data.remaining || 0, expiresAt: data.expiresAt || "" };
+        })
+        .filter((lot) => lot.remaining > 0 && lot.expiresAt > nowIso);
+}
+
+export function spendablePoints(lots: OpenLot[]): number {
+    return lots.reduce((sum, lot) => sum + lot.remaining, 0);
+}
+
+/**
+ * Take up to `points` from the lots (the preferred lot first) and return how
+ * many were taken. Mutates `lots` so later calls in the same transaction see
+ * what is left.
+ */
+function consumeLots(transaction: Transaction, lots: OpenLot[], points: number, preferLot?: string): number {
+    const ordered = [
+        ...lots.filter((lot) => lot.ref.id === preferLot),
+        ...lots.filter((lot) => lot.ref.id !== preferLot),
+    ];
+
+    let left = points;
+    for (const lot of ordered) {
+        if (left <= 0) break;
+        const take = Math.min(lot.remaining, left);
+        if (take <= 0) continue;
+        lot.remaining -= take;
+        left -= take;
+        transaction.update(lot.ref, { remaining: lot.remaining, open: lot.remaining > 0 });
+    }
+    return points - left;
+}
+
+function creditLot(
+    transaction: Transaction,
+    userId: string,
+    type: Extract<LoyaltyTransactionType, "earn" | "restore">,
+    points: number,
+    description: string,
+    config: LoyaltyConfig,
+    order?: OrderRef
+): DocumentReference {
+    const now = new Date();
+    const ref = adminDb.collection(LOYALTY_TRANSACTIONS_COLLECTION).doc();
+    const lot: Omit<LoyaltyTransaction, "id"> = {
+        userId,
+        type,
+        points,
+        description,
+        ...order,
+        remaining: points,
+        open: true,
+        expiresAt: new Date(now.getTime() + config.expiryDays * 86_400_000).toISOString(),
+        createdAt: now.toISOString(),
+    };
+    transaction.set(ref, lot);
+    transaction.update(adminDb.collection("users").doc(userId), {
+        loyaltyPoints: FieldValue.increment(points),
+    });
+    return ref;
+}
+
+function recordDebit(
+    transaction: Transaction,
+    userId: string,
+    type: Exclude<LoyaltyTransactionType, "earn" | "restore">,
+    points: number,
+    description: string,
+    order?: OrderRef
+): void {
+    const entry: Omit<LoyaltyTransaction, "id"> = {
+        userId,
+        type,
+        points: -points,
+        description,
+        ...order,
+        createdAt: new Date().toISOString(),
+    };
+    transaction.set(adminDb.collection(LOYALTY_TRANSACTIONS_COLLECTION).doc(), entry);
+    transaction.update(adminDb.collection("users").doc(userId), {
+        loyaltyPoints: FieldValue.increment(-points),
+    });
+}
+
+// ─── Checkout Redemption ────────────────────────
+
+export interface PointsRedemption {
+    points: number;
+    lots: OpenLot[];
+    config: LoyaltyConfig;
+}
+
+/**
+ * Read phase: check the user can spend `points` and load the lots to take them from.
+ */
+export async function readPointsRedemption(
+    transaction: Transaction,
+    userId: string,
+    points: unknown,
+    config: LoyaltyConfig
+): Promise<PointsRedemption> {
+    if (!config.enabled) throw new LoyaltyError("Loyalty points cannot be used right now");
+    const requested = Number(points);
+    if (!Number.isInteger(requested) || requested < config.minRedeemPoints) {
+        throw new LoyaltyError(`Use at least ${config.minRedeemPoints} points`);
+    }
+
+    const lots = await readOpenLots(transaction, userId);
+    const available = spendablePoints(lots);
+    if (available < requested) {
+        throw new LoyaltyError(`You only have ${available} points`);
+    }
+    return { points: requested, lots, config };
+}
+
+/** Apply the points discount after any coupon. */
+export function applyPointsRedemption(breakdown: PriceBreakdown, redemption: PointsRedemption): PriceBreakdown {
+    const pointsDiscount = pointsToRupees(redemption.points, redemption.config);
+    if (pointsDiscount > breakdown.total) {
+        const maxPoints = Math.floor(breakdown.total / redemption.config.pointValue);
+        throw new LoyaltyError(`You can use at most ${maxPoints} points on this order`);
+    }
+    return {
+        ...breakdown,
+        pointsRedeemed: redemption.points,
+        pointsDiscount,
+        total: breakdown.total - pointsDiscount,
+    };
+}
+
+/** Write phase: spend the points on the order being placed. */
+export function recordPointsRedemption(transaction: Transaction, userId: string, redemption: PointsRedemption, order: OrderRef): void {
+    consumeLots(transaction, redemption.lots, redemption.points);
+    recordDebit(transaction, userId, "redeem", redemption.points, `Redeemed on Order #${order.orderId}`, order);
+}
+
+// ─── Order Accrual & Reversal ───────────────────
+
+/**
+ * Write phase: credit the points a completed order earns.
+ * Returns fields to store on the order doc (empty when nothing is earned).
+ */
+export function accrueOrderPoints(
+    transaction: Transaction,
+    orderDocId: string,
+    order: Omit<Order, "id">,
+    config: LoyaltyConfig
+): Record<string, unknown> {
+    if (!config.enabled || order.loyaltyPointsEarned !== undefined) return {};
+    const points = pointsForOrder(order, config);
+    if (points <= 0) return {};
+
+    const ref = creditLot(transaction, order.userId, "earn", points, `Earned on Order #${order.orderId}`, config, {
+        orderDocId,
+        orderId: order.orderId,
+    });
+    return { loyaltyPointsEarned: points, loyaltyEarnId: ref.id };
+}
+
+/** Points an order earned that have not been reversed yet. */
+function outstandingPoints(order: Omit<Order, "id">): number {
+    return Math.max((order.loyaltyPointsEarned || 0) - (order.loyaltyPointsReversed || 0), 0);
+}
+
+/**
+ * Read phase: lots needed to reverse an order's points, or null when there is
+ * nothing to reverse.
+ */
+export async function readLoyaltyReversal(transaction: Transaction, order: Omit<Order, "id">): Promise<OpenLot[] | null> {
+    return outstandingPoints(order) > 0 ? readOpenLots(transaction, order.userId) : null;
+}
+
+/**
+ * Write phase: take back `share` (0–1) of the points an order earned.
+ * Points the user has already spent are forgiven. Returns order doc fields.
+ */
+export function reverseOrderPoints(
+    transaction: Transaction,
+    orderDocId: string,
+    order: Omit<Order, "id">,
+    lots: OpenLot[],
+    share = 1
+): Record<string, unknown> {
+    const outstanding = outstandingPoints(order);
+    const toReverse = share >= 1 ? outstanding : Math.min(Math.round(outstanding * share), outstanding);
+    if (toReverse <= 0) return {};
+
+    const taken = consumeLots(transaction, lots, toReverse, order.loyaltyEarnId);
+    if (taken > 0) {
+        recordDebit(transaction, order.userId, "reverse", taken, `Reversed - Order #${order.orderId} refunded`, {
+            orderDocId,
+            orderId: order.orderId,
+        });
+    }
+    return { loyaltyPointsReversed: (order.loyaltyPointsReversed || 0) + toReverse };
+}
+
+/** Write phase: give back points that were spent on a cancelled/refunded order. */
+export function restoreRedeemedPoints(
+    transaction: Transaction,
+    orderDocId: string,
+    order: Pick<Order, "userId" | "orderId">,
+    points: number,
+    config: LoyaltyConfig
+): void {
+    if (points <= 0) return;
+    creditLot(transaction, order.userId, "restore", points, `Returned - Order #${order.orderId} refunded`, config, {
+        orderDocId,
+        orderId: order.orderId,
+    });
+}
+
+// ─── Wallet Conversion ──────────────────────────
+
+/**
+ * Convert points into wallet credit (cashback). Journaled from equity:loyalty.
+ */
+export async function convertPointsToWallet(userId: string, points: unknown): Promise<{ points: number; amount: number }> {
+    const requested = Number(points);
+
+    return adminDb.runTransaction(async (transaction) => {
+        const config = await readLoyaltyConfig(transaction);
+        if (!config.enabled) throw new LoyaltyError("Loyalty points cannot be converted right now");
+        if (!Number.isInteger(requested) || requested < config.minRedeemPoints) {
+            throw new LoyaltyError(`Convert at least ${config.minRedeemPoints} points`);
+        }
+        const amount = pointsToRupees(requested, config);
+        if (amount < 1) throw new LoyaltyError("That is worth less than ₹1");
+
+        const userRef = adminDb.collection("users").doc(userId);
+        const userDoc = await transaction.get(userRef);
+        if (!userDoc.exists) throw new LoyaltyError("User not found");
+
+        const lots = await readOpenLots(transaction, userId);
+        const available = spendablePoints(lots);
+        if (available < requested) throw new LoyaltyError(`You only have ${available} points`);
+
+        // WRITE PHASE
+        const now = new Date().toISOString();
+        consumeLots(transaction, lots, requested);
+        recordDebit(transaction, userId, "convert", requested, `Converted to ₹${amount} wallet credit`);
+
+        transaction.update(userRef, { walletBalance: FieldValue.increment(amount) });
+
+        const txnRef = adminDb.collection("walletTransactions").doc();
+        transaction.set(txnRef, {
+            userId,
+            type: "topup",
+            amount,
+            description: `Loyalty cashback (${requested} points)`,
+            transactionId: txnRef.id,
+            createdAt: now,
+        });
+
+        postLedgerEntry(transaction, {
+            type: "loyalty_conversion",
+            description: `Loyalty cashback (${requested} points)`,
+            postings: transferPostings(LedgerAccounts.LOYALTY, LedgerAccounts.user(userId), amount),
+            referenceId: txnRef.id,
+            actorId: userId,
+        });
+
+        console.log(`[Loyalty] ${userId.slice(0, 8)}… converted ${requested} points to ₹${amount}`);
+        return { points: requested, amount };
+    });
+}
+
+// ─── Expiry ─────────────────────────────────────
+
+/**
+ * Close lots whose expiry has passed and take their remaining points off the
+ * user balance. Each lot is settled in its own transaction.
+ */
+export async function expireLoyaltyPoints(now = new Date()): Promise<{ expiredLots: number; expiredPoints: number }> {
+    const nowIso = now.toISOString();
+    const snapshot = await adminDb.collection(LOYALTY_TRANSACTIONS_COLLECTION)
+        .where("open", "==", true)
+        .where("expiresAt", "<=", nowIso)
+        .orderBy("expiresAt", "asc")
+        .limit(EXPIRY_BATCH_SIZE)
+        .get();
+
+    let expiredLots = 0;
+    let expiredPoints = 0;
+
+    for (const doc of snapshot.docs) {
+        const expired = await adminDb.runTransaction(async (transaction) => {
+            const lotDoc = await transaction.get(doc.ref);
+            const lot = lotDoc.data() as LoyaltyTransaction | undefined;
+            if (!lot?.open || !lot.expiresAt || lot.expiresAt > nowIso) return 0;
+
+            const remaining = lot.remaining || 0;
+            transaction.update(doc.ref, { remaining: 0, open: false });
+            if (remaining > 0) {
+                recordDebit(transaction, lot.userId, "expire", remaining, `${remaining} points expired`);
+            }
+            return remaining;
+        });
+
+        expiredLots++;
+        expiredPoints += expired;
+    }
+
+    if (expiredLots > 0) {
+        console.log(`[Loyalty] Expired ${expiredPoints} points across ${expiredLots} lots`);
+    }
+    return { expiredLots, expiredPoints };
+}
+
+// ─── Summary ────────────────────────────────────
+
+export interface LoyaltySummary {
+    enabled: boolean;
+    points: number;
+    pointValue: number;
+    pointsPerRupee: number;
+    minRedeemPoints: number;
+    /** Soonest-expiring open lot */
+    nextExpiry: { points: number; expiresAt: string } | null;
+    transactions: LoyaltyTransaction[];
+}
+
+/**
+ * Points balance, program terms and recent history for the wallet page.
+ */
+export async function getLoyaltySummary(userId: string, config: LoyaltyConfig, now = new Date()): Promise<LoyaltySummary> {
+    const collection = adminDb.collection(LOYALTY_TRANSACTIONS_COLLECTION);
+    const [lotsSnapshot, historySnapshot] = await Promise.all([
+        collection.where("userId", "==", userId).where("open", "==", true).orderBy("expiresAt", "asc").get(),
+        collection.where("userId", "==", userId).orderBy("createdAt", "desc").limit(30).get(),
+    ]);
+
+    const nowIso = now.toISOString();
+    const lots = lotsSnapshot.docs
+        .map((doc) => doc.data() as LoyaltyTransaction)
+        .filter((lot) => (lot.remaining || 0) > 0 && (lot.expiresAt || "") > nowIso);
+
+    return {
+        enabled: config.enabled,
+        points: lots.reduce((sum, lot) => sum + (lot.remaining || 0), 0),
+        pointValue: config.pointValue,
+        pointsPerRupee: config.pointsPerRupee,
+        minRedeemPoints: config.minRedeemPoints,
+        nextExpiry: lots[0] ? { points: lots[0].remaining || 0, expiresAt: lots[0].expiresAt! } : null,
+        transactions: historySnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as LoyaltyTransaction),
+    };
+}
@@ -0,0 +1,428 @@
+/**
+ * Money requests — pull-style payments between students.
+ *
+ *   pending → paid
+ *       ↘ declined (payer) / cancelled (requester) / expired
+ *
+ * - A student asks a friend (by uniqueCode) for an amount; nothing moves
+ *   until the friend accepts.
+ * - Accepting is a transfer out of the payer's wallet, so it needs the same
+ *   PIN step-up as /api/wallet/transfer once the payer has a PIN.
+ * - Splitting a bill creates one linked request per friend for their share
+ *   of an order the requester already paid, evenly or by item.
+ * - When the order is later refunded (items removed or cancelled), every
+ *   share shrinks with the order total: pending requests are re-priced or
+ *   closed and friends who already paid get the difference back.
+ *
+ * A paid request is recorded through lib/wallet-transfers as two "transfer"
+ * walletTransactions sharing a reference id — the split id for bill splits,
+ * otherwise the request id.
+ */
+
+import { DocumentReference, DocumentSnapshot, FieldValue, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { PinRequiredError } from "@/lib/pin-token";
+import { recordTransfer } from "@/lib/wallet-transfers";
+import type { BillSplit, BillSplitMode, MoneyRequest, Order } from "@/types";
+
+export const MONEY_REQUESTS_COLLECTION = "moneyRequests";
+export const BILL_SPLITS_COLLECTION = "billSplits";
+
+export const MAX_MONEY_REQUEST = 5000;
+export const MAX_SPLIT_FRIENDS = 10;
+const REQUEST_TTL_MS = 48 * 60 * 60_000;
+
+/**
+ * Thrown when a request or split cannot be created or answered.
+ */
+export class MoneyRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MoneyRequestError";
+    }
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Find a student by their 6-char uniqueCode.
+ */
+export async function findUserByCode(code: string): Promise<DocumentSnapshot | null> {
+    const snap = await adminDb
+        .collection("users")
+        .where("uniqueCode", "==", code.toUpperCase().trim())
+        .limit(1)
+        .get();
+    return snap.empty ? null : snap.docs[0];
+}
+
+function displayName(doc: DocumentSnapshot): string {
+    const data = doc.data()!;
+    return data.name || data.email || "Student";
+}
+
+function newRequest(
+    requesterDoc: DocumentSnapshot,
+    payerDoc: DocumentSnapshot,
+    amount: number,
+    extra: Partial<MoneyRequest>,
+    now: Date
+): Omit<MoneyRequest, "id"> {
+    return {
+        requesterId: requesterDoc.id,
+        requesterName: displayName(requesterDoc),
+        ...(requesterDoc.data()!.uniqueCode ? { requesterCode: requesterDoc.data()!.uniqueCode } : {}),
+        payerId: payerDoc.id,
+        payerName: displayName(payerDoc),
+        ...(payerDoc.data()!.uniqueCode ? { payerCode: payerDoc.data()!.uniqueCode } : {}),
+        amount,
+        status: "pending",
+        ...extra,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + REQUEST_TTL_MS).toISOString(),
+    };
+}
+
+// ─── Requests ───────────────────────────────────
+
+/**
+ * Ask another student for money.
+ */
+export async function createMoneyRequest(params: {
+    requesterId: string;
+    payerCode: string;
+    amount: number;
+    note?: string;
+}): Promise<MoneyRequest> {
+    const { requesterId, payerCode, amount, note } = params;
+
+    const [requesterDoc, payerDoc] = await Promise.all([
+        adminDb.collection("users").doc(requesterId).get(),
+        findUserByCode(payerCode),
+    ]);
+    if (!requesterDoc.exists) throw new MoneyRequestError("User not found");
+    if (!payerDoc) throw new MoneyRequestError("No user found with that code");
+    if (payerDoc.id === requesterId) throw new MoneyRequestError("Cannot request money from yourself");
+
+    const requestRef = adminDb.collection(MONEY_REQUESTS_COLLECTION).doc();
+    const request = newRequest(requesterDoc, payerDoc, amount, note ? { note } : {}, new Date());
+    await requestRef.set(request);
+
+    console.log(`[MoneyRequests] ${requestRef.id} opened: ₹${amount} from ${payerDoc.id} to ${requesterId}`);
+    return { id: requestRef.id, ...request };
+}
+
+/**
+ * Payer accepts: move the amount to the requester. A lapsed request is
+ * marked expired instead.
+ */
+export async function acceptMoneyRequest(
+    payerId: string,
+    requestId: string,
+    pinVerified: boolean
+): Promise<MoneyRequest> {
+    const requestRef = adminDb.collection(MONEY_REQUESTS_COLLECTION).doc(requestId);
+
+    const result = await adminDb.runTransaction(async (transaction) => {
+        const requestDoc = await transaction.get(requestRef);
+        if (!requestDoc.exists) throw new MoneyRequestError("Request not found");
+
+        const request = { id: requestDoc.id, ...requestDoc.data() } as MoneyRequest;
+        if (request.payerId !== payerId) throw new MoneyRequestError("Request not found");
+        if (request.status !== "pending") throw new MoneyRequestError(`Request is already ${request.status}`);
+
+        const nowIso = new Date().toISOString();
+        if (request.expiresAt < nowIso) {
+            transaction.update(requestRef, { status: "expired", respondedAt: nowIso });
+            return { ...request, status: "expired" as const, respondedAt: nowIso };
+        }
+
+        const usersRef = adminDb.collection("users");
+        const [payerDoc, requesterDoc, orderDoc] = await Promise.all([
+            transaction.get(usersRef.doc(payerId)),
+            transaction.get(usersRef.doc(request.requesterId)),
+            request.orderDocId ? transaction.get(adminDb.collection("orders").doc(request.orderDocId)) : null,
+        ]);
+        if (!payerDoc.exists) throw new MoneyRequestError("User not found");
+        if (!requesterDoc.exists) throw new MoneyRequestError("Requester no longer exists");
+        if (orderDoc && (orderDoc.data() as Order | undefined)?.status === "cancelled") {
+            throw new MoneyRequestError("This order was cancelled — nothing to pay");
+        }
+
+        // SECURITY: A Firebase session alone cannot move money out of the wallet
+        if (payerDoc.data()?.pinHash && !pinVerified) {
+            throw new PinRequiredError("Enter your PIN to pay this request");
+        }
+        if ((payerDoc.data()?.walletBalance || 0) < request.amount) {
+            throw new MoneyRequestError("Insufficient wallet balance");
+        }
+
+        const label = request.orderId ? `split of order #${request.orderId}` : request.note || "request";
+        const referenceId = recordTransfer(transaction, {
+            fromId: payerId,
+            fromName: payerDoc.data()?.name || request.payerName,
+            toId: request.requesterId,
+            toName: requesterDoc.data()?.name || request.requesterName,
+            amount: request.amount,
+            referenceId: request.splitId || requestId,
+            debitDescription: `Paid ${request.requesterName} (${label})`,
+            creditDescription: `${request.payerName} paid your ${request.orderId ? label : "request"}`,
+        });
+
+        transaction.update(requestRef, { status: "paid", respondedAt: nowIso, referenceId });
+        return { ...request, status: "paid" as const, respondedAt: nowIso, referenceId };
+    });
+
+    console.log(`[MoneyRequests] ${requestId} ${result.status} by ${payerId}`);
+    return result;
+}
+
+/**
+ * Close a pending request without paying — the payer declining it or the
+ * requester withdrawing it.
+ */
+export async function closeMoneyRequest(
+    requestId: string,
+    actor: { role: "payer" | "requester"; uid: string }
+): Promise<void> {
+    const requestRef = adminDb.collection(MONEY_REQUESTS_COLLECTION).doc(requestId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(requestRef);
+        if (!doc.exists) throw new MoneyRequestError("Request not found");
+
+        const request = doc.data() as MoneyRequest;
+        const owner = actor.role === "payer" ? request.payerId : request.requesterId;
+        if (owner !== actor.uid) throw new MoneyRequestError("Request not found");
+        if (request.status !== "pending") throw new MoneyRequestError(`Request is already ${request.status}`);
+
+        transaction.update(requestRef, {
+            status: actor.role === "payer" ? "declined" : "cancelled",
+            respondedAt: new Date().toISOString(),
+        });
+    });
+
+    console.log(`[MoneyRequests] ${requestId} ${actor.role === "payer" ? "declined" : "cancelled"} by ${actor.uid}`);
+}
+
+// ─── Bill Splits ────────────────────────────────
+
+export interface SplitFriendInput {
+    code: string;
+    /** Required in "items" mode: quantities of order.items[index] this friend had */
+    items?: { index: number; quantity: number }[];
+}
+
+/**
+ * Split an order the requester paid with friends, opening one request per
+ * friend. "even" divides the total by everyone including the requester;
+ * "items" charges each friend for the items assigned to them, scaled by any
+ * coupon/points discount on the order. The requester keeps any remainder.
+ */
+export async function createBillSplit(params: {
+    requesterId: string;
+    orderDocId: string;
+    mode: BillSplitMode;
+    friends: SplitFriendInput[];
+}): Promise<{ split: BillSplit; requests: MoneyRequest[] }> {
+    const { requesterId, orderDocId, mode, friends } = params;
+
+    if (friends.length === 0) throw new MoneyRequestError("Add at least one friend");
+    if (friends.length > MAX_SPLIT_FRIENDS) throw new MoneyRequestError(`Split with at most ${MAX_SPLIT_FRIENDS} friends`);
+
+    const [requesterDoc, friendDocs] = await Promise.all([
+        adminDb.collection("users").doc(requesterId).get(),
+        Promise.all(friends.map((f) => findUserByCode(f.code))),
+    ]);
+    if (!requesterDoc.exists) throw new MoneyRequestError("User not found");
+
+    const seen = new Set<string>();
+    friendDocs.forEach((doc, i) => {
+        if (!doc) throw new MoneyRequestError(`No user found with code ${friends[i].code.toUpperCase()}`);
+        if (doc.id === requesterId) throw new MoneyRequestError("Cannot split a bill with yourself");
+        if (seen.has(doc.id)) throw new MoneyRequestError(`${friends[i].code.toUpperCase()} is listed twice`);
+        seen.add(doc.id);
+    });
+
+    const orderRef = adminDb.collection("orders").doc(orderDocId);
+    const splitRef = adminDb.collection(BILL_SPLITS_COLLECTION).doc();
+
+    const result = await adminDb.runTransaction(async (transaction) => {
+        const orderDoc = await transaction.get(orderRef);
+        if (!orderDoc.exists) throw new MoneyRequestError("Order not found");
+
+        const order = orderDoc.data() as Order;
+        if (order.userId !== requesterId) throw new MoneyRequestError("Order not found");
+        if (order.status === "cancelled") throw new MoneyRequestError("Cancelled orders cannot be split");
+        if (order.splitId) throw new MoneyRequestError("This order has already been split");
+        if (!(order.total > 0)) throw new MoneyRequestError("Nothing to split on this order");
+
+        // ── Work out each friend's share ──
+        let amounts: number[];
+        let itemShares: ({ name: string; quantity: number }[] | undefined)[] = friends.map(() => undefined);
+
+        if (mode === "even") {
+            const share = Math.floor((order.total * 100) / (friends.length + 1)) / 100;
+            amounts = friends.map(() => share);
+        } else {
+            const itemsSubtotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+            const paidRatio = itemsSubtotal > 0 ? order.total / itemsSubtotal : 0;
+            const assigned = order.items.map(() => 0);
+
+            itemShares = friends.map((friend) => {
+                if (!friend.items?.length) throw new MoneyRequestError(`Assign at least one item to ${friend.code.toUpperCase()}`);
+                return friend.items.map(({ index, quantity }) => {
+                    const item = order.items[index];
+                    if (!item || !Number.isInteger(quantity) || quantity < 1) {
+                        throw new MoneyRequestError("Invalid item assignment");
+                    }
+                    assigned[index] += quantity;
+                    if (assigned[index] > item.quantity) {
+                        throw new MoneyRequestError(`Only ${item.quantity}× ${item.name} on this order`);
+                    }
+                    return { name: item.name, quantity };
+                });
+            });
+            amounts = friends.map((friend) =>
+                round2(friend.items!.reduce((sum, { index, quantity }) => sum + order.items[index].price * quantity, 0) * paidRatio)
+            );
+        }
+
+        if (amounts.some((a) => a < 1)) throw new MoneyRequestError("Each share must be at least ₹1");
+        const requesterShare = round2(order.total - amounts.reduce((sum, a) => sum + a, 0));
+        if (requesterShare < 0) throw new MoneyRequestError("Shares exceed the order total");
+
+        // ── Writes ──
+        const now = new Date();
+        const requests: MoneyRequest[] = friendDocs.map((friendDoc, i) => {
+            const requestRef = adminDb.collection(MONEY_REQUESTS_COLLECTION).doc();
+            const request = newRequest(
+                requesterDoc,
+                friendDoc!,
+                amounts[i],
+                {
+                    note: `Split of order #${order.orderId}`,
+                    splitId: splitRef.id,
+                    orderDocId,
+                    orderId: order.orderId,
+                    ...(itemShares[i] ? { items: itemShares[i] } : {}),
+                },
+                now
+            );
+            transaction.set(requestRef, request);
+            return { id: requestRef.id, ...request };
+        });
+
+        const split: Omit<BillSplit, "id"> = {
+            orderDocId,
+            orderId: order.orderId,
+            requesterId,
+            mode,
+            total: order.total,
+            requesterShare,
+            shares: requests.map((r) => ({
+                userId: r.payerId,
+                name: r.payerName,
+                amount: r.amount,
+                requestId: r.id,
+                ...(r.items ? { items: r.items } : {}),
+            })),
+            createdAt: now.toISOString(),
+        };
+        transaction.set(splitRef, split);
+        transaction.update(orderRef, { splitId: splitRef.id, updatedAt: now.toISOString() });
+
+        return { split: { id: splitRef.id, ...split }, requests };
+    });
+
+    console.log(`[MoneyRequests] Split ${splitRef.id} of order ${orderDocId} (${mode}) across ${friends.length} friends`);
+    return result;
+}
+
+// ─── Order Refunds ──────────────────────────────
+
+export interface SplitRefundContext {
+    splitRef: DocumentReference;
+    split: Omit<BillSplit, "id">;
+    requests: DocumentSnapshot[];
+}
+
+/**
+ * Read a split order's bill split and its requests (read phase).
+ * Returns null when the order was never split.
+ */
+export async function readSplitForRefund(
+    transaction: Transaction,
+    order: Pick<Order, "splitId">
+): Promise<SplitRefundContext | null> {
+    if (!order.splitId) return null;
+
+    const splitRef = adminDb.collection(BILL_SPLITS_COLLECTION).doc(order.splitId);
+    const splitDoc = await transaction.get(splitRef);
+    if (!splitDoc.exists) return null;
+
+    const split = splitDoc.data() as Omit<BillSplit, "id">;
+    const requests: DocumentSnapshot[] = [];
+    for (const share of split.shares) {
+        requests.push(await transaction.get(adminDb.collection(MONEY_REQUESTS_COLLECTION).doc(share.requestId)));
+    }
+    return { splitRef, split, requests };
+}
+
+/**
+ * Scale a split down to the order's new total after a refund (write phase;
+ * newTotal 0 for a cancellation). Every share shrinks by the same ratio as
+ * the order: pending requests are re-priced, or cancelled once under ₹1,
+ * and the difference on shares already paid is transferred back from the
+ * requester — covered by the refund credited in the same transaction.
+ */
+export function applySplitRefund(
+    transaction: Transaction,
+    context: SplitRefundContext,
+    order: Pick<Order, "orderId">,
+    newTotal: number
+): void {
+    const { splitRef, split, requests } = context;
+    if (!(split.total > 0) || newTotal >= split.total) return;
+
+    const ratio = Math.max(newTotal, 0) / split.total;
+    const now = new Date().toISOString();
+
+    const shares = split.shares.map((share, i) => {
+        const amount = round2(share.amount * ratio);
+        const requestDoc = requests[i];
+        if (!requestDoc.exists) return { ...share, amount };
+
+        const request = requestDoc.data() as MoneyRequest;
+        if (request.status === "pending") {
+            transaction.update(
+                requestDoc.ref,
+                amount >= 1 ? { amount } : { status: "cancelled", respondedAt: now }
+            );
+        } else if (request.status === "paid") {
+            const back = round2(share.amount - amount);
+            if (back > 0) {
+                recordTransfer(transaction, {
+                    fromId: request.requesterId,
+                    fromName: request.requesterName,
+                    toId: request.payerId,
+                    toName: request.payerName,
+                    amount: back,
+                    referenceId: requestDoc.id,
+                    debitDescription: `Returned to ${request.payerName} (order #${order.orderId} refunded)`,
+                    creditDescription: `${request.requesterName} returned ₹${back} of your split (order #${order.orderId} refunded)`,
+                });
+                transaction.update(requestDoc.ref, { refundedAmount: FieldValue.increment(back) });
+            }
+        }
+        return { ...share, amount };
+    });
+
+    transaction.update(splitRef, {
+        total: newTotal,
+        requesterShare: round2(Math.max(newTotal - shares.reduce((sum, s) => sum + s.amount, 0), 0)),
+        shares,
+    });
+}
@@ -0,0 +1,213 @@
+/**
+ * Order Adjustments — per-item cancellation with partial refunds.
+ *
+ * Lets staff remove or reduce specific OrderItems (e.g. one item ran out)
+ * without cancelling the whole order. The difference is refunded to the
+ * user's wallet, the canteen wallet is adjusted for the order's current
+ * status, the order total is recomputed and loyalty points earned on or
+ * spent for the removed share are settled, a bill split shrinks with the
+ * total and a pre-order's pickup slot gets the removed items back — all in
+ * one transaction.
+ * Lines are addressed by their index in order.items, because the same
+ * menu item can appear on several lines with different options.
+ */
+
+import { FieldValue, DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { refundCanteenWallet } from "@/lib/canteen-wallet";
+import { postLedgerEntry, transferPostings, orderFundsAccount, LedgerAccounts } from "@/lib/ledger";
+import { OrderTransitionError, type OrderActor } from "@/lib/order-lifecycle";
+import { readLoyaltyConfig, readLoyaltyReversal, reverseOrderPoints, restoreRedeemedPoints } from "@/lib/loyalty";
+import { getItemKeywords } from "@/lib/order-search";
+import { releaseSlotItems } from "@/lib/pickup-slot-capacity";
+import { applySplitRefund, readSplitForRefund } from "@/lib/money-requests";
+import type { Order, OrderAdjustment, OrderItem } from "@/types";
+
+export interface LineAdjustment {
+    /** Index of the line in order.items */
+    index: number;
+    /** New quantity for the line (0 removes it) */
+    quantity: number;
+}
+
+export interface AdjustmentOptions {
+    reason?: string;
+    /** Give the removed quantities back to menuItems (default false — usually the item ran out) */
+    restock?: boolean;
+}
+
+export interface AdjustmentResult {
+    refunded: number;
+    newTotal: number;
+    items: OrderItem[];
+}
+
+/**
+ * Reduce or remove order lines inside a Firestore transaction and refund the difference.
+ * Must be called after the order doc has been read and before any other writes.
+ */
+export async function adjustOrderItems(
+    transaction: Transaction,
+    orderDoc: DocumentSnapshot,
+    adjustments: LineAdjustment[],
+    actor: OrderActor,
+    options: AdjustmentOptions = {}
+): Promise<AdjustmentResult> {
+    if (!orderDoc.exists) throw new Error("Order not found");
+
+    const order = orderDoc.data() as Omit<Order, "id">;
+    if (order.status === "cancelled") {
+        throw new OrderTransitionError("Cancelled orders cannot be adjusted");
+    }
+    if (!Array.isArray(adjustments) || adjustments.length === 0) {
+        throw new OrderTransitionError("No items to adjust");
+    }
+
+    // 1. Work out the removed quantity per line. Discounted orders (coupon or
+    //    points) refund each line at the share of its price the user actually paid.
+    const items = order.items || [];
+    const discounted = !!order.subtotal && (order.discount || 0) + (order.pointsDiscount || 0) > 0;
+    const paidShare = discounted ? order.total / order.subtotal! : 1;
+    const removed: OrderAdjustment["lines"] = [];
+    const seen = new Set<number>();
+
+    for (const { index, quantity } of adjustments) {
+        const line = items[index];
+        if (!line || seen.has(index)) {
+            throw new OrderTransitionError(`Invalid order line: ${index}`);
+        }
+        if (!Number.isInteger(quantity) || quantity < 0 || quantity >= line.quantity) {
+            throw new OrderTransitionError(`${line.name}: new quantity must be 0–${line.quantity - 1}`);
+        }
+        seen.add(index);
+        const removedQuantity = line.quantity - quantity;
+        removed.push({
+            index,
+            itemId: line.id,
+            name: line.name,
+            removedQuantity,
+            amount: Math.round(line.price * removedQuantity * paidShare),
+        });
+    }
+
+    const refunded = Math.min(removed.reduce((sum, r) => sum + r.amount, 0), order.total);
+    const newItems = items
+        .map((line, index) => {
+            const adjustment = adjustments.find((a) => a.index === index);
+            return adjustment ? { ...line, quantity: adjustment.quantity } : line;
+        })
+        .filter((line) => line.quantity > 0);
+
+    if (newItems.length === 0) {
+        throw new OrderTransitionError("Removing every item — cancel the order instead");
+    }
+    const newTotal = order.total - refunded;
+
+    // Discounts shrink with the subtotal; points spent on the removed share go back to the user
+    const discountUpdates: Record<string, unknown> = {};
+    let pointsBack = 0;
+    if (discounted) {
+        const newSubtotal = order.subtotal! - removed.reduce((sum, r) => sum + items[r.index].price * r.removedQuantity, 0);
+        const ratio = newSubtotal / order.subtotal!;
+        const pointsRedeemed = order.pointsRedeemed || 0;
+        pointsBack = Math.round(pointsRedeemed * (1 - ratio));
+
+        discountUpdates.subtotal = newSubtotal;
+        if (pointsRedeemed > 0) {
+            const couponDiscount = Math.round((order.discount || 0) * ratio);
+            if (order.discount) discountUpdates.discount = couponDiscount;
+            discountUpdates.pointsRedeemed = pointsRedeemed - pointsBack;
+            discountUpdates.pointsDiscount = Math.max(newSubtotal - newTotal - couponDiscount, 0);
+        } else {
+            discountUpdates.discount = newSubtotal - newTotal;
+        }
+    }
+
+    // 2. READ PHASE: menu items to restock, then the canteen wallet
+    const restock = new Map<string, { snapshot: DocumentSnapshot; quantity: number }>();
+    if (options.restock) {
+        for (const r of removed) {
+            const existing = restock.get(r.itemId);
+            if (existing) {
+                existing.quantity += r.removedQuantity;
+                continue;
+            }
+            const snapshot = await transaction.get(adminDb.collection("menuItems").doc(r.itemId));
+            if (snapshot.exists) restock.set(r.itemId, { snapshot, quantity: r.removedQuantity });
+        }
+    }
+
+    const reversalLots = refunded > 0 ? await readLoyaltyReversal(transaction, order) : null;
+    const loyaltyConfig = pointsBack > 0 ? await readLoyaltyConfig(transaction) : null;
+    const split = refunded > 0 ? await readSplitForRefund(transaction, order) : null;
+
+    await refundCanteenWallet(transaction, order.status, refunded, order.orderId);
+
+    // 3. WRITE PHASE
+    const now = new Date().toISOString();
+    const adjustment: OrderAdjustment = {
+        lines: removed,
+        amount: refunded,
+        actorType: actor.type,
+        ...(actor.id ? { actorId: actor.id } : {}),
+        ...(options.reason ? { reason: options.reason } : {}),
+        createdAt: now,
+    };
+
+    transaction.update(orderDoc.ref, {
+        items: newItems,
+        itemKeywords: getItemKeywords(newItems),
+        total: newTotal,
+        ...discountUpdates,
+        ...(reversalLots && order.total > 0
+            ? reverseOrderPoints(transaction, orderDoc.id, order, reversalLots, refunded / order.total)
+            : {}),
+        refundedTotal: FieldValue.increment(refunded),
+        adjustments: FieldValue.arrayUnion(adjustment),
+        updatedAt: now,
+    });
+
+    for (const [id, { snapshot, quantity }] of restock) {
+        const newQty = (snapshot.data()?.quantity || 0) + quantity;
+        transaction.update(adminDb.collection("menuItems").doc(id), {
+            quantity: newQty,
+            available: newQty > 0,
+            updatedAt: now,
+        });
+    }
+
+    if (loyaltyConfig) restoreRedeemedPoints(transaction, orderDoc.id, order, pointsBack, loyaltyConfig);
+
+    releaseSlotItems(transaction, order, removed.reduce((sum, r) => sum + r.removedQuantity, 0));
+
+    // Refund the difference to the user wallet
+    const userRef = adminDb.collection("users").doc(order.userId);
+    transaction.update(userRef, {
+        walletBalance: FieldValue.increment(refunded),
+    });
+
+    const txnRef = adminDb.collection("walletTransactions").doc();
+    transaction.set(txnRef, {
+        userId: order.userId,
+        type: "refund",
+        amount: refunded,
+        description: `Partial refund - Order #${order.orderId} (${removed.map((r) => `${r.name} ×${r.removedQuantity}`).join(", ")})`,
+        referenceId: orderDoc.id,
+        lineItems: removed,
+        transactionId: txnRef.id,
+        createdAt: now,
+    });
+
+    postLedgerEntry(transaction, {
+        type: "refund",
+        description: `Partial refund - Order #${order.orderId}`,
+        postings: transferPostings(orderFundsAccount(order.status), LedgerAccounts.user(order.userId), refunded),
+        referenceId: orderDoc.id,
+        actorId: actor.id,
+    });
+
+    // A split bill shrinks too: friends owe less, or get the difference back
+    if (split) applySplitRefund(transaction, split, order, newTotal);
+
+    return { refunded, newTotal, items: newItems };
+}
@@ -0,0 +1,98 @@
+/**
+ * Order ETA — queue-aware ready-time estimates.
+ *
+ * The kitchen is modelled as `parallelism` lanes (CanteenConfig.kitchen.parallelism),
+ * each cooking one order at a time. An order takes as long as its slowest
+ * item (MenuItem.preparationTime — items of one order cook side by side).
+ * Confirmed and preparing orders are ahead in the queue, in the order the
+ * kitchen works them (preparing first, then oldest first); each takes the
+ * lane that frees up first. A pending order starts once a lane is free
+ * after that queue.
+ *
+ * When an admin has set a prep time (Order.readyAt) that is taken as fact
+ * for that order. Orders already preparing without one are assumed halfway.
+ *
+ * Pure module (no Firestore access) — safe to import from client components.
+ * Reading the queue and refreshing stored estimates lives in lib/kitchen-queue.
+ */
+
+import type { Order, OrderStatus } from "@/types";
+
+export const DEFAULT_ITEM_PREP_MINUTES = 10;
+
+export interface QueueEntry {
+    id: string;
+    status: OrderStatus;
+    createdAt: string;
+    prepMinutes: number;
+    /** Admin-set ready time (Order.readyAt), taken as fact */
+    fixedReadyAt?: string;
+}
+
+export interface KitchenQueue {
+    /** Confirmed and preparing orders */
+    entries: QueueEntry[];
+    parallelism: number;
+}
+
+/** How long an order takes to cook: its slowest item. */
+export function getOrderPrepMinutes(preparationTimes: (number | undefined)[]): number {
+    const times = preparationTimes.map((t) => (typeof t === "number" && t > 0 ? t : DEFAULT_ITEM_PREP_MINUTES));
+    return times.length > 0 ? Math.max(...times) : DEFAULT_ITEM_PREP_MINUTES;
+}
+
+export function toQueueEntry(order: Pick<Order, "id" | "status" | "createdAt" | "estimatedPrepMinutes" | "prepTime" | "readyAt">): QueueEntry {
+    return {
+        id: order.id,
+        status: order.status,
+        createdAt: order.createdAt,
+        prepMinutes: order.estimatedPrepMinutes || DEFAULT_ITEM_PREP_MINUTES,
+        ...(order.prepTime && order.readyAt ? { fixedReadyAt: order.readyAt } : {}),
+    };
+}
+
+const KITCHEN_ORDER: OrderStatus[] = ["preparing", "confirmed"];
+
+function byKitchenOrder(a: QueueEntry, b: QueueEntry): number {
+    const byStatus = KITCHEN_ORDER.indexOf(a.status) - KITCHEN_ORDER.indexOf(b.status);
+    return byStatus !== 0 ? byStatus : a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * Run the queue through the lanes.
+ * Returns each queued order's estimated ready time and when the first lane frees up afterwards.
+ */
+export function simulateKitchenQueue(
+    queue: KitchenQueue,
+    now = new Date()
+): { readyAt: Map<string, Date>; nextFreeAt: Date } {
+    const start = now.getTime();
+    const lanes = new Array(Math.max(queue.parallelism, 1)).fill(start) as number[];
+    const readyAt = new Map<string, Date>();
+
+    for (const entry of [...queue.entries].sort(byKitchenOrder)) {
+        const lane = lanes.indexOf(Math.min(...lanes));
+        let finish: number;
+        if (entry.fixedReadyAt) {
+            finish = Math.max(new Date(entry.fixedReadyAt).getTime(), start);
+        } else {
+            const remaining = entry.status === "preparing" ? Math.ceil(entry.prepMinutes / 2) : entry.prepMinutes;
+            finish = lanes[lane] + remaining * 60_000;
+        }
+        lanes[lane] = Math.max(lanes[lane], finish);
+        readyAt.set(entry.id, new Date(finish));
+    }
+
+    return { readyAt, nextFreeAt: new Date(Math.min(...lanes)) };
+}
+
+/** Estimated ready time for a new (or pending) order of prepMinutes joining the queue. */
+export function estimateReadyAt(queue: KitchenQueue, prepMinutes: number, now = new Date()): Date {
+    const { nextFreeAt } = simulateKitchenQueue(queue, now);
+    return new Date(nextFreeAt.getTime() + prepMinutes * 60_000);
+}
+
+/** Whole minutes from now until readyAt (at least 1). */
+export function getEtaMinutes(readyAt: Date, now = new Date()): number {
+    return Math.max(Math.ceil((readyAt.getTime() - now.getTime()) / 60_000), 1);
+}
@@ -0,0 +1,158 @@
+/**
+ * Order Lifecycle — the allowed transitions between Order["status"] values.
+ *
+ * Main flow:   pending → confirmed → preparing → ready → completed
+ * Cancelling:  allowed from any state except "cancelled", restricted by actor
+ *
+ * Moving forward several steps at once (e.g. pending → preparing when the
+ * admin sets a prep time) is planned as the individual steps, so every
+ * intermediate state is recorded. Moving backwards is always rejected.
+ *
+ * Users may only cancel their own pending orders, and only within the
+ * cancellation grace period (settings/canteenConfig.cancelGraceMinutes).
+ * Scheduled pre-orders stay cancellable until they are released to the
+ * kitchen (see lib/pickup-slots).
+ *
+ * Pure module (no Firestore access) — safe to import from client components.
+ * Server-side application lives in lib/order-transitions.
+ */
+
+import type { CanteenConfig, Order, OrderStatus } from "@/types";
+
+export type OrderActorType = "admin" | "user" | "system";
+
+export interface OrderActor {
+    type: OrderActorType;
+    /** Admin username, user uid, or system job name */
+    id?: string;
+}
+
+export interface OrderStep {
+    from: OrderStatus;
+    to: OrderStatus;
+}
+
+export const ORDER_FLOW: OrderStatus[] = ["pending", "confirmed", "preparing", "ready", "completed"];
+
+export const ORDER_STATUSES: OrderStatus[] = [...ORDER_FLOW, "cancelled"];
+
+/** Which states each actor may cancel from. */
+const CANCELLABLE_FROM: Record<OrderActorType, OrderStatus[]> = {
+    admin: ["pending", "confirmed", "preparing", "ready", "completed"],
+    user: ["pending"],
+    system: ["pending", "confirmed"],
+};
+
+/** Which actors may move an order forward along ORDER_FLOW. */
+const CAN_ADVANCE: Record<OrderActorType, boolean> = {
+    admin: true,
+    user: false,
+    system: true,
+};
+
+/**
+ * Thrown when a requested status change is not allowed.
+ */
+export class OrderTransitionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "OrderTransitionError";
+    }
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+    return typeof value === "string" && (ORDER_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Plan the steps needed to move an order from `from` to `to`.
+ * Throws OrderTransitionError for illegal or unauthorized transitions.
+ */
+export function planTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): OrderStep[] {
+    if (from === to) {
+        throw new OrderTransitionError(`Order is already ${to}`);
+    }
+    if (from === "cancelled") {
+        throw new OrderTransitionError("Cancelled orders cannot be changed");
+    }
+
+    if (to === "cancelled") {
+        if (!CANCELLABLE_FROM[actor.type].includes(from)) {
+            throw new OrderTransitionError(`Orders that are ${from} cannot be cancelled`);
+        }
+        return [{ from, to }];
+    }
+
+    const fromIndex = ORDER_FLOW.indexOf(from);
+    const toIndex = ORDER_FLOW.indexOf(to);
+    if (toIndex < fromIndex) {
+        throw new OrderTransitionError(`Cannot move order from ${from} back to ${to}`);
+    }
+    if (!CAN_ADVANCE[actor.type]) {
+        throw new OrderTransitionError(`Not allowed to mark order as ${to}`);
+    }
+
+    const steps: OrderStep[] = [];
+    for (let i = fromIndex; i < toIndex; i++) {
+        steps.push({ from: ORDER_FLOW[i], to: ORDER_FLOW[i + 1] });
+    }
+    return steps;
+}
+
+/**
+ * Whether `to` can be reached from `from` by this actor.
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean {
+    try {
+        planTransition(from, to, actor);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// ─── User Cancellation Window ───────────────────
+
+export const DEFAULT_CANCEL_GRACE_MINUTES = 2;
+export const MAX_CANCEL_GRACE_MINUTES = 60;
+
+export function getCancelGraceMinutes(config?: Partial<CanteenConfig>): number {
+    const minutes = config?.cancelGraceMinutes;
+    return typeof minutes === "number" && minutes >= 0 ? minutes : DEFAULT_CANCEL_GRACE_MINUTES;
+}
+
+/**
+ * When the user's cancellation window for an order closes. For a scheduled
+ * order that is the later of the grace period and the moment it is released
+ * to the kitchen, releaseMinutes before its pickup slot.
+ */
+export function getCancelDeadline(
+    order: Pick<Order, "createdAt" | "scheduledFor">,
+    graceMinutes: number,
+    releaseMinutes = 0
+): Date {
+    const graceEnd = new Date(order.createdAt).getTime() + graceMinutes * 60_000;
+    if (!order.scheduledFor) return new Date(graceEnd);
+    return new Date(Math.max(graceEnd, new Date(order.scheduledFor).getTime() - releaseMinutes * 60_000));
+}
+
+/**
+ * Why the user cannot cancel this order right now, or null if they can.
+ */
+export function getUserCancelBlockReason(
+    order: Pick<Order, "status" | "createdAt" | "scheduledFor">,
+    graceMinutes: number,
+    now: Date = new Date(),
+    releaseMinutes = 0
+): string | null {
+    if (!canTransition(order.status, "cancelled", { type: "user" })) {
+        return order.status === "cancelled"
+            ? "Order is already cancelled"
+            : "Order has already been accepted by the canteen — please contact the canteen to cancel";
+    }
+    if (now > getCancelDeadline(order, graceMinutes, releaseMinutes)) {
+        if (order.scheduledFor) return "This pre-order has already been sent to the kitchen";
+        return `Orders can only be cancelled within ${graceMinutes} minutes of placing them`;
+    }
+    return null;
+}
@@ -0,0 +1,293 @@
+/**
+ * Order Placement — the single transactional path for creating wallet-paid orders.
+ *
+ * Used by POST /api/orders and the auto-order executor so both share the
+ * same guarantees: canteen hours check, server-side pricing, coupon limits,
+ * loyalty redemption, stock check, pickup slot capacity, wallet debit,
+ * walletTransactions entry and ledger journal entry in one Firestore transaction.
+ *
+ * Pre-orders for a later pickup slot are paid and take their stock at
+ * placement, exactly like "now" orders; only the slot fields differ.
+ * Every order also gets its pickup QR token and OTP (lib/pickup-verification)
+ * and, given the kitchen queue, a queue-aware estimatedReadyAt (lib/order-eta).
+ */
+
+import { FieldValue, DocumentReference, DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { generateOrderId } from "@/lib/orderIdUtils";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "@/lib/ledger";
+import { PinRequiredError } from "@/lib/pin-token";
+import { readCoupon, applyCoupon, recordCouponRedemption, type CouponState } from "@/lib/coupons";
+import {
+    readPointsRedemption,
+    applyPointsRedemption,
+    recordPointsRedemption,
+    DEFAULT_LOYALTY_CONFIG,
+    type PointsRedemption,
+} from "@/lib/loyalty";
+import {
+    priceCart,
+    assertClientTotalMatches,
+    quantitiesByItem,
+    toOrderItems,
+    CartPricingError,
+    type CartLineInput,
+    type PriceBreakdown,
+} from "@/lib/order-pricing";
+import { readPickupSlot, assertSlotAvailable, recordSlotReservation } from "@/lib/pickup-slot-capacity";
+import type { PickupSlotTime } from "@/lib/pickup-slots";
+import { issuePickupCredentials } from "@/lib/pickup-verification";
+import { estimateReadyAt, getOrderPrepMinutes, type KitchenQueue } from "@/lib/order-eta";
+import { getItemKeywords } from "@/lib/order-search";
+import type { CanteenConfig, LoyaltyConfig, MenuItem, Order, PreOrderConfig } from "@/types";
+
+// ─── Canteen Hours ──────────────────────────────
+
+function toMinutes(hhmm: string): number {
+    const [h, m] = hhmm.split(":").map(Number);
+    return h * 60 + m;
+}
+
+/**
+ * Check canteen open/close state and operating hours.
+ * Returns a user-facing reason when ordering is blocked, or null when open.
+ */
+export function getCanteenClosedReason(config: Partial<CanteenConfig> | undefined, now = new Date()): string | null {
+    if (!config) return null;
+    if (config.isOpen === false) return "Canteen is currently closed";
+
+    if (config.startTime && config.endTime) {
+        const currentMinutes = now.getHours() * 60 + now.getMinutes();
+        if (currentMinutes < toMinutes(config.startTime) || currentMinutes > toMinutes(config.endTime)) {
+            return `Canteen is open from ${config.startTime} to ${config.endTime}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Why a pre-order cannot be placed right now, or null. Pre-orders may be
+ * placed outside opening hours, but not while the canteen is switched off.
+ */
+export function getPreOrderClosedReason(config: Partial<CanteenConfig> | undefined): string | null {
+    if (config?.isOpen === false) return "Canteen is currently closed";
+    if (!config?.preOrders?.enabled) return "Pre-orders are not available right now";
+    return null;
+}
+
+/** Fetch settings/canteenConfig (undefined when not configured yet). */
+export async function getCanteenConfig(): Promise<Partial<CanteenConfig> | undefined> {
+    const configDoc = await adminDb.doc("settings/canteenConfig").get();
+    return configDoc.exists ? (configDoc.data() as Partial<CanteenConfig>) : undefined;
+}
+
+// ─── Placement ──────────────────────────────────
+
+export interface PlaceOrderInput {
+    userId: string;
+    items: CartLineInput[];
+    /** Total the client showed the user; rejected if it differs from the server price */
+    clientTotal?: unknown;
+    /** Promo code to apply (see lib/coupons); the client total must include its discount */
+    couponCode?: string;
+    /** Loyalty points to spend, applied after the coupon */
+    redeemPoints?: number;
+    /** Loyalty settings (getLoyaltyConfig) — needed when redeemPoints is set */
+    loyaltyConfig?: LoyaltyConfig;
+    userName?: string;
+    userEmail?: string;
+    /**
+     * Totals above this need a PIN step-up (only for users who have a PIN).
+     * Omit for system-placed orders such as auto-orders.
+     */
+    pinThreshold?: number;
+    /** Whether the request carried a valid PIN token (see lib/pin-token) */
+    pinVerified?: boolean;
+    /** Pickup slot for a pre-order (see lib/pickup-slots); omit to order for now */
+    pickupSlot?: PickupSlotTime;
+    /** Pre-order settings (getPreOrderConfig) — needed when pickupSlot is set */
+    preOrderConfig?: PreOrderConfig;
+    /** Orders ahead in the kitchen (readKitchenQueue) — omit to skip the ready-time estimate */
+    kitchenQueue?: KitchenQueue;
+    /** Extra fields stored on the order doc (e.g. source / autoOrderId) */
+    extraOrderFields?: Partial<Order> & Record<string, unknown>;
+    /** Additional writes committed atomically with the order (runs after all reads) */
+    onWrite?: (transaction: Transaction, placed: PlacedOrder) => void;
+}
+
+export interface PlacedOrder {
+    orderId: string;
+    orderRef: DocumentReference;
+    breakdown: PriceBreakdown;
+    estimatedReadyAt?: string;
+}
+
+/**
+ * Create a wallet-paid order atomically.
+ * Throws CartPricingError for invalid/stale carts, CouponError when the coupon
+ * does not apply, LoyaltyError when the points cannot be spent, PinRequiredError when a PIN step-up is needed,
+ * PickupSlotError when the pickup slot cannot take the order, and Error for stock/balance failures.
+ */
+export async function placeWalletOrder(input: PlaceOrderInput): Promise<PlacedOrder> {
+    const { userId, items, clientTotal, couponCode, redeemPoints, loyaltyConfig, userName, userEmail, pinThreshold, pinVerified, pickupSlot, preOrderConfig, kitchenQueue, extraOrderFields, onWrite } = input;
+
+    // SECURITY: Server generates the order ID
+    const orderId = generateOrderId();
+
+    return adminDb.runTransaction(async (transaction) => {
+        // 1. READ PHASE: Fetch all required data first
+
+        // 1.1 Fetch user doc
+        const userRef = adminDb.collection("users").doc(userId);
+        const userDoc = await transaction.get(userRef);
+        if (!userDoc.exists) throw new Error("User not found");
+
+        // 1.2 Fetch each distinct menu item once (within the transaction)
+        const menuSnapshots = new Map<string, DocumentSnapshot>();
+        for (const item of items) {
+            if (typeof item?.id !== "string" || !item.id) {
+                throw new CartPricingError("Invalid item in order");
+            }
+            if (menuSnapshots.has(item.id)) continue;
+            const itemRef = adminDb.collection("menuItems").doc(item.id);
+            menuSnapshots.set(item.id, await transaction.get(itemRef));
+        }
+
+        // 1.3 Fetch the coupon and the user's redemption count
+        const coupon: CouponState | null = couponCode ? await readCoupon(couponCode, userId, transaction) : null;
+
+        // 1.4 Fetch the loyalty lots the points will be taken from
+        const redemption: PointsRedemption | null = redeemPoints
+            ? await readPointsRedemption(transaction, userId, redeemPoints, loyaltyConfig || DEFAULT_LOYALTY_CONFIG)
+            : null;
+
+        // 1.5 Fetch the pickup slot's booked capacity
+        const slotDoc = pickupSlot ? await readPickupSlot(transaction, pickupSlot.id) : null;
+
+        // 2. VALIDATION PHASE
+
+        // 2.1 Re-price the cart from Firestore (never trust client prices)
+        const menuItems = new Map<string, Omit<MenuItem, "id">>();
+        for (const [id, snapshot] of menuSnapshots) {
+            if (snapshot.exists) menuItems.set(id, snapshot.data() as Omit<MenuItem, "id">);
+        }
+        const priced = priceCart(items, menuItems);
+        const discounted = coupon ? applyCoupon(coupon, priced) : priced;
+        const breakdown = redemption ? applyPointsRedemption(discounted, redemption) : discounted;
+        assertClientTotalMatches(clientTotal, breakdown);
+
+        const userData = userDoc.data()!;
+
+        // 2.2 SECURITY: Large orders need a PIN step-up token
+        if (pinThreshold !== undefined && userData.pinHash && breakdown.total > pinThreshold && !pinVerified) {
+            throw new PinRequiredError(`Enter your PIN to confirm orders above ₹${pinThreshold}`);
+        }
+
+        // 2.3 Check wallet balance
+        const walletBalance = userData.walletBalance || 0;
+        if (walletBalance < breakdown.total) {
+            throw new Error("Insufficient wallet balance");
+        }
+
+        // 2.4 Check menu item quantities (summed across lines of the same item)
+        const requested = quantitiesByItem(breakdown);
+        for (const [id, qty] of requested) {
+            const data = menuSnapshots.get(id)!.data()!;
+            const currentQty = data.quantity || 0;
+            if (currentQty < qty) {
+                throw new Error(`${data.name} only has ${currentQty} left`);
+            }
+        }
+
+        // 2.5 Check the pickup slot still has room
+        const itemCount = Array.from(requested.values()).reduce((sum, qty) => sum + qty, 0);
+        if (slotDoc && preOrderConfig) assertSlotAvailable(slotDoc, preOrderConfig, itemCount);
+
+        // 2.6 Estimate the ready time: pre-orders are due at their slot, others join the queue
+        const prepMinutes = getOrderPrepMinutes(breakdown.lines.map((line) => menuItems.get(line.id)?.preparationTime));
+        const estimatedReadyAt = pickupSlot
+            ? pickupSlot.start
+            : kitchenQueue ? estimateReadyAt(kitchenQueue, prepMinutes).toISOString() : undefined;
+
+        // 3. WRITE PHASE: All updates happen after all reads/validations
+        const now = new Date().toISOString();
+
+        // 3.1 Update menu item quantities
+        for (const [id, qty] of requested) {
+            const itemRef = adminDb.collection("menuItems").doc(id);
+            const currentQty = menuSnapshots.get(id)!.data()?.quantity || 0;
+            const newQty = currentQty - qty;
+
+            transaction.update(itemRef, {
+                quantity: newQty,
+                available: newQty > 0,
+                updatedAt: now,
+            });
+        }
+
+        // 3.2 Deduct wallet
+        transaction.update(userRef, {
+            walletBalance: FieldValue.increment(-breakdown.total),
+        });
+
+        // 3.3 Create order document
+        const orderRef = adminDb.collection("orders").doc();
+        const orderItems = toOrderItems(breakdown);
+        transaction.set(orderRef, {
+            orderId,
+            userId,
+            userName: userName || userData.name || "Unknown",
+            userEmail: userEmail || userData.email || "Unknown",
+            userPhone: userData.phone || "",
+            userRollNumber: userData.rollNumber || "",
+            items: orderItems,
+            itemKeywords: getItemKeywords(orderItems),
+            total: breakdown.total,
+            ...(coupon || redemption ? { subtotal: breakdown.subtotal } : {}),
+            ...(coupon ? { discount: breakdown.discount, couponCode: breakdown.couponCode } : {}),
+            ...(redemption ? { pointsRedeemed: breakdown.pointsRedeemed, pointsDiscount: breakdown.pointsDiscount } : {}),
+            paymentMode: "Wallet",
+            status: "pending",
+            estimatedPrepMinutes: prepMinutes,
+            ...(estimatedReadyAt ? { estimatedReadyAt } : {}),
+            ...(pickupSlot ? { scheduledFor: pickupSlot.start, pickupSlotId: pickupSlot.id } : {}),
+            ...issuePickupCredentials(orderRef.id),
+            ...extraOrderFields,
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        // 3.3.1 Take the order's place in its pickup slot
+        if (pickupSlot) recordSlotReservation(transaction, pickupSlot, itemCount);
+
+        // 3.4 Record wallet debit transaction
+        const txnRef = adminDb.collection("walletTransactions").doc();
+        transaction.set(txnRef, {
+            userId,
+            type: "payment",
+            amount: breakdown.total,
+            description: `Order #${orderId}`,
+            transactionId: txnRef.id,
+            createdAt: now,
+        });
+
+        // 3.5 Count the coupon redemption against its limits
+        if (coupon) recordCouponRedemption(transaction, coupon, userId, orderId);
+
+        // 3.6 Spend the loyalty points
+        if (redemption) recordPointsRedemption(transaction, userId, redemption, { orderDocId: orderRef.id, orderId });
+
+        // 3.7 Journal: user wallet → orders clearing (settled when the canteen confirms)
+        postLedgerEntry(transaction, {
+            type: "order_payment",
+            description: `Order #${orderId}`,
+            postings: transferPostings(LedgerAccounts.user(userId), LedgerAccounts.ORDERS_CLEARING, breakdown.total),
+            referenceId: orderRef.id,
+            actorId: userId,
+        });
+
+        const placed: PlacedOrder = { orderId, orderRef, breakdown, ...(estimatedReadyAt ? { estimatedReadyAt } : {}) };
+        onWrite?.(transaction, placed);
+        return placed;
+    });
+}
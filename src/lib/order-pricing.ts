@@ -0,0 +1,190 @@
+/**
+ * Order Pricing Engine — rebuilds cart totals from Firestore menu data.
+ *
+ * SECURITY: The client-supplied `price`/`total` values are never trusted.
+ * Every line is re-priced from `MenuItem.price` plus the prices of the
+ * selected `MenuItemCustomization` options, and tampered carts are rejected.
+ */
+
+import type { MenuItem, MenuItemCustomization, OrderItem, SelectedOption } from "@/types";
+
+const MAX_LINE_QUANTITY = 50;
+
+// ─── Types ──────────────────────────────────────
+
+/** A cart line as sent by the client. Only `id`, `quantity` and option ids are trusted. */
+export interface CartLineInput {
+    id: string;
+    name?: string;
+    price?: number;
+    quantity: number;
+    selectedOptions?: Array<Pick<SelectedOption, "customizationId" | "optionId">>;
+}
+
+export interface PricedLine {
+    id: string;
+    name: string;
+    category: string;
+    quantity: number;
+    basePrice: number;
+    optionsPrice: number;
+    unitPrice: number;
+    lineTotal: number;
+    selectedOptions: SelectedOption[];
+}
+
+export interface PriceBreakdown {
+    lines: PricedLine[];
+    subtotal: number;
+    /** Coupon discount (see lib/coupons) — total = subtotal - discount */
+    discount?: number;
+    couponCode?: string;
+    /** Loyalty points spent (see lib/loyalty) — total also excludes pointsDiscount */
+    pointsRedeemed?: number;
+    pointsDiscount?: number;
+    total: number;
+}
+
+/**
+ * Thrown when a cart cannot be priced or its client-side totals do not
+ * match the server price. Carries the server breakdown when one exists so
+ * the client can show the corrected prices.
+ */
+export class CartPricingError extends Error {
+    breakdown?: PriceBreakdown;
+
+    constructor(message: string, breakdown?: PriceBreakdown) {
+        super(message);
+        this.name = "CartPricingError";
+        this.breakdown = breakdown;
+    }
+}
+
+// ─── Pricing ────────────────────────────────────
+
+function resolveOptions(
+    menuItem: Pick<MenuItem, "name" | "customizations">,
+    requested: CartLineInput["selectedOptions"]
+): SelectedOption[] {
+    const customizations: MenuItemCustomization[] = menuItem.customizations || [];
+    const picks = requested || [];
+    const resolved: SelectedOption[] = [];
+
+    for (const pick of picks) {
+        const customization = customizations.find((c) => c.id === pick.customizationId);
+        const option = customization?.options.find((o) => o.id === pick.optionId);
+        if (!customization || !option) {
+            throw new CartPricingError(`Invalid customization selected for ${menuItem.name}`);
+        }
+        if (resolved.some((r) => r.customizationId === customization.id && r.optionId === option.id)) {
+            throw new CartPricingError(`Duplicate option "${option.name}" for ${menuItem.name}`);
+        }
+        resolved.push({
+            customizationId: customization.id,
+            customizationTitle: customization.title,
+            optionId: option.id,
+            optionName: option.name,
+            price: Number(option.price) || 0,
+        });
+    }
+
+    for (const customization of customizations) {
+        const count = resolved.filter((r) => r.customizationId === customization.id).length;
+        if (customization.required && count === 0) {
+            throw new CartPricingError(`${customization.title} is required for ${menuItem.name}`);
+        }
+        if (customization.type === "single" && count > 1) {
+            throw new CartPricingError(`Only one ${customization.title} can be selected for ${menuItem.name}`);
+        }
+    }
+
+    return resolved;
+}
+
+/**
+ * Price a cart against the current menu.
+ * @param items - Cart lines from the client
+ * @param menuItems - Menu docs keyed by menu item id (missing ids are rejected)
+ */
+export function priceCart(
+    items: CartLineInput[],
+    menuItems: Map<string, Omit<MenuItem, "id">>
+): PriceBreakdown {
+    if (!Array.isArray(items) || items.length === 0) {
+        throw new CartPricingError("No items in order");
+    }
+
+    const lines: PricedLine[] = items.map((item) => {
+        const menuItem = menuItems.get(item.id);
+        if (!menuItem) {
+            throw new CartPricingError(`Item ${item.name || item.id} no longer exists`);
+        }
+
+        const quantity = Number(item.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+            throw new CartPricingError(`Invalid quantity for ${menuItem.name}`);
+        }
+
+        const selectedOptions = resolveOptions(menuItem, item.selectedOptions);
+        const basePrice = Number(menuItem.price) || 0;
+        const optionsPrice = selectedOptions.reduce((sum, o) => sum + o.price, 0);
+        const unitPrice = basePrice + optionsPrice;
+
+        return {
+            id: item.id,
+            name: menuItem.name,
+            category: menuItem.category,
+            quantity,
+            basePrice,
+            optionsPrice,
+            unitPrice,
+            lineTotal: unitPrice * quantity,
+            selectedOptions,
+        };
+    });
+
+    const subtotal = lines.reduce((sum, l) => sum + l.lineTotal, 0);
+    if (subtotal <= 0) {
+        throw new CartPricingError("Invalid order total");
+    }
+
+    return { lines, subtotal, total: subtotal };
+}
+
+/**
+ * Reject carts whose client-side total disagrees with the server breakdown,
+ * so a user is never charged an amount they did not confirm.
+ * A missing client total is allowed — the server price is authoritative.
+ */
+export function assertClientTotalMatches(clientTotal: unknown, breakdown: PriceBreakdown): void {
+    if (clientTotal !== undefined && Number(clientTotal) !== breakdown.total) {
+        throw new CartPricingError(
+            `Prices have changed. Updated total is ₹${breakdown.total}`,
+            breakdown
+        );
+    }
+}
+
+/**
+ * Total quantity requested per menu item across all lines
+ * (the same item can appear on several lines with different options).
+ */
+export function quantitiesByItem(breakdown: PriceBreakdown): Map<string, number> {
+    const totals = new Map<string, number>();
+    for (const line of breakdown.lines) {
+        totals.set(line.id, (totals.get(line.id) || 0) + line.quantity);
+    }
+    return totals;
+}
+
+/** Convert priced lines into the `OrderItem` shape stored on the order doc. */
+export function toOrderItems(breakdown: PriceBreakdown): OrderItem[] {
+    return breakdown.lines.map((line) => ({
+        id: line.id,
+        name: line.name,
+        price: line.unitPrice,
+        quantity: line.quantity,
+        ...(line.category ? { category: line.category } : {}),
+        ...(line.selectedOptions.length > 0 ? { selectedOptions: line.selectedOptions } : {}),
+    }));
+}
@@ -0,0 +1,214 @@
+/**
+ * Order Search — paginated, filterable order lookups for admins
+ * (GET /api/admin/orders).
+ *
+ * Filters are exact matches on status, userEmail, userRollNumber, orderId
+ * and paymentMode, a createdAt range, and free text over item names.
+ * Results are newest first and paged with a cursor (the last order's doc id).
+ *
+ * Free text matches whole words: every order stores Order.itemKeywords,
+ * the lowercased words of its item names (written at placement and when
+ * items are adjusted). The first term is queried with array-contains — the
+ * only array filter Firestore allows per query — and the remaining terms are
+ * checked on the fetched page, so a page can hold fewer than `limit` orders
+ * while more remain.
+ *
+ * Each filter has a composite index with createdAt DESC in
+ * firestore.indexes.json; combined filters are served by merging those.
+ *
+ * Orders placed before itemKeywords existed get them from
+ * backfillItemKeywords() (POST /api/admin/orders/keywords), run once per
+ * deployment — see DEPLOYMENT.md.
+ */
+
+import { Query } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { isOrderStatus } from "@/lib/order-lifecycle";
+import type { Order, OrderItem, OrderStatus } from "@/types";
+
+export const ORDER_SEARCH_PAGE_SIZE = 50;
+
+export const MAX_ORDER_SEARCH_PAGE_SIZE = 100;
+
+const MAX_SEARCH_TERMS = 5;
+
+export class OrderSearchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "OrderSearchError";
+    }
+}
+
+export interface OrderSearchFilters {
+    status?: OrderStatus;
+    /** createdAt bounds (ISO), inclusive */
+    from?: string;
+    to?: string;
+    userEmail?: string;
+    rollNumber?: string;
+    orderId?: string;
+    paymentMode?: string;
+    /** Lowercased words that must all appear in the order's item names */
+    terms: string[];
+}
+
+export interface OrderSearchRequest {
+    filters: OrderSearchFilters;
+    limit: number;
+    /** Doc id of the last order of the previous page */
+    cursor?: string;
+}
+
+export interface OrderSearchPage {
+    orders: Order[];
+    /** Pass back as `cursor` for the next page — null on the last one */
+    nextCursor: string | null;
+}
+
+function toKeywords(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length >= 2);
+}
+
+/** Order.itemKeywords for these items: unique lowercased words of their names. */
+export function getItemKeywords(items: Pick<OrderItem, "name">[]): string[] {
+    return [...new Set(items.flatMap((item) => toKeywords(item.name || "")))];
+}
+
+function parseDate(value: string): string | null {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Read the search from the query string
+ * (status, from, to, email, rollNumber, orderId, paymentMode, q, limit, cursor).
+ * Returns an error message instead of throwing.
+ */
+export function parseOrderSearch(params: URLSearchParams): OrderSearchRequest | string {
+    const get = (name: string) => params.get(name)?.trim() || undefined;
+    const filters: OrderSearchFilters = { terms: [] };
+
+    const status = get("status");
+    if (status !== undefined) {
+        if (!isOrderStatus(status)) return `Invalid status: ${status}`;
+        filters.status = status;
+    }
+
+    for (const name of ["from", "to"] as const) {
+        const value = get(name);
+        if (value === undefined) continue;
+        const iso = parseDate(value);
+        if (!iso) return `Invalid ${name} date`;
+        filters[name] = iso;
+    }
+    if (filters.from && filters.to && filters.from > filters.to) {
+        return "The from date is after the to date";
+    }
+
+    const email = get("email");
+    if (email) filters.userEmail = email.toLowerCase();
+    const rollNumber = get("rollNumber");
+    if (rollNumber) filters.rollNumber = rollNumber;
+    const orderId = get("orderId");
+    if (orderId) filters.orderId = orderId.replace(/^#/, "").toUpperCase();
+    const paymentMode = get("paymentMode");
+    if (paymentMode) filters.paymentMode = paymentMode;
+
+    const terms = [...new Set(toKeywords(get("q") || ""))];
+    if (terms.length > MAX_SEARCH_TERMS) return `Search at most ${MAX_SEARCH_TERMS} words`;
+    filters.terms = terms;
+
+    const limitParam = get("limit");
+    const limit = limitParam === undefined ? ORDER_SEARCH_PAGE_SIZE : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ORDER_SEARCH_PAGE_SIZE) {
+        return `Limit must be 1–${MAX_ORDER_SEARCH_PAGE_SIZE}`;
+    }
+
+    return { filters, limit, cursor: get("cursor") };
+}
+
+/**
+ * One page of orders matching the filters, newest first.
+ * Throws OrderSearchError for an unknown cursor.
+ */
+export async function searchOrders({ filters, limit, cursor }: OrderSearchRequest): Promise<OrderSearchPage> {
+    let query: Query = adminDb.collection("orders");
+
+    if (filters.status) query = query.where("status", "==", filters.status);
+    if (filters.userEmail) query = query.where("userEmail", "==", filters.userEmail);
+    if (filters.rollNumber) query = query.where("userRollNumber", "==", filters.rollNumber);
+    if (filters.orderId) query = query.where("orderId", "==", filters.orderId);
+    if (filters.paymentMode) query = query.where("paymentMode", "==", filters.paymentMode);
+    if (filters.terms.length > 0) query = query.where("itemKeywords", "array-contains", filters.terms[0]);
+    if (filters.from) query = query.where("createdAt", ">=", filters.from);
+    if (filters.to) query = query.where("createdAt", "<=", filters.to);
+
+    query = query.orderBy("createdAt", "desc");
+
+    if (cursor) {
+        const cursorDoc = await adminDb.collection("orders").doc(cursor).get();
+        if (!cursorDoc.exists) throw new OrderSearchError("Invalid cursor — start the search again");
+        query = query.startAfter(cursorDoc);
+    }
+
+    // One extra doc tells whether another page exists
+    const snapshot = await query.limit(limit + 1).get();
+    const docs = snapshot.docs.slice(0, limit);
+    const otherTerms = filters.terms.slice(1);
+
+    const orders = docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Order)
+        .filter((order) => otherTerms.every((term) => order.itemKeywords?.includes(term)));
+
+    return {
+        orders,
+        nextCursor: snapshot.docs.length > limit ? docs[docs.length - 1].id : null,
+    };
+}
+
+// ─── Backfill ───────────────────────────────────
+
+const BACKFILL_PAGE_SIZE = 400;
+
+export interface KeywordBackfillPage {
+    scanned: number;
+    updated: number;
+    /** Pass back as `cursor` to continue — null once every order has been scanned */
+    nextCursor: string | null;
+}
+
+/**
+ * Write itemKeywords on one page of orders that predate them, oldest first.
+ * Orders that already have keywords are left alone, so it is safe to re-run.
+ * Throws OrderSearchError for an unknown cursor.
+ */
+export async function backfillItemKeywords(cursor?: string): Promise<KeywordBackfillPage> {
+    let query: Query = adminDb.collection("orders").orderBy("createdAt", "asc");
+
+    if (cursor) {
+        const cursorDoc = await adminDb.collection("orders").doc(cursor).get();
+        if (!cursorDoc.exists) throw new OrderSearchError("Invalid cursor — start the backfill again");
+        query = query.startAfter(cursorDoc);
+    }
+
+    const snapshot = await query.limit(BACKFILL_PAGE_SIZE).get();
+    const batch = adminDb.batch();
+    let updated = 0;
+
+    for (const doc of snapshot.docs) {
+        const order = doc.data() as Order;
+        if (Array.isArray(order.itemKeywords)) continue;
+        batch.update(doc.ref, { itemKeywords: getItemKeywords(order.items || []) });
+        updated++;
+    }
+    if (updated > 0) await batch.commit();
+
+    return {
+        scanned: snapshot.docs.length,
+        updated,
+        nextCursor: snapshot.docs.length === BACKFILL_PAGE_SIZE ? snapshot.docs[snapshot.docs.length - 1].id : null,
+    };
+}
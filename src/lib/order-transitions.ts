@@ -0,0 +1,205 @@
+/**
+ * Order Transitions — applies lifecycle changes to Firestore.
+ *
+ * Every status change goes through transitionOrder(), which validates it
+ * against lib/order-lifecycle, syncs the canteen wallet, refunds the user,
+ * restocks menuItems, releases coupon usage and pickup slot capacity and
+ * unwinds a bill split on cancellation, accrues or reverses loyalty points,
+ * and appends one orderEvents doc per step.
+ * Must be called inside an existing Firestore transaction, after the order
+ * doc has been read and before any other writes.
+ */
+
+import { FieldValue, DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { updateCanteenWallet } from "@/lib/canteen-wallet";
+import { postLedgerEntry, transferPostings, orderFundsAccount, LedgerAccounts } from "@/lib/ledger";
+import { couponRef, releaseCouponRedemption } from "@/lib/coupons";
+import {
+    readLoyaltyConfig,
+    readLoyaltyReversal,
+    accrueOrderPoints,
+    reverseOrderPoints,
+    restoreRedeemedPoints,
+} from "@/lib/loyalty";
+import { planTransition, type OrderActor, type OrderStep } from "@/lib/order-lifecycle";
+import { releaseSlotReservation } from "@/lib/pickup-slot-capacity";
+import { applySplitRefund, readSplitForRefund } from "@/lib/money-requests";
+import type { Order, OrderEvent, OrderStatus } from "@/types";
+
+export interface TransitionOptions {
+    /** Free-text reason stored on the order events (e.g. cancellation reason) */
+    reason?: string;
+    /** Extra fields written to the order doc together with the status change */
+    updates?: Record<string, unknown>;
+    /**
+     * On cancellation, give the ordered quantities back to menuItems (default true).
+     * Pass false when the food was already cooked and is wasted.
+     */
+    restock?: boolean;
+}
+
+export interface TransitionResult {
+    from: OrderStatus;
+    to: OrderStatus;
+    steps: OrderStep[];
+    refunded: number;
+    restocked: boolean;
+}
+
+/**
+ * Read the menu items of a cancelled order so their stock can be restored.
+ * Completed orders were handed over, so they are never restocked.
+ * Returns the quantity to give back per existing menu item doc.
+ */
+async function readRestock(
+    transaction: Transaction,
+    order: Omit<Order, "id">
+): Promise<Map<string, { snapshot: DocumentSnapshot; quantity: number }>> {
+    const quantities = new Map<string, number>();
+    for (const item of order.items || []) {
+        if (!item.id || !(item.quantity > 0)) continue;
+        quantities.set(item.id, (quantities.get(item.id) || 0) + item.quantity);
+    }
+
+    const restock = new Map<string, { snapshot: DocumentSnapshot; quantity: number }>();
+    for (const [id, quantity] of quantities) {
+        const snapshot = await transaction.get(adminDb.collection("menuItems").doc(id));
+        // Items deleted from the menu since the order was placed are skipped
+        if (snapshot.exists) restock.set(id, { snapshot, quantity });
+    }
+    return restock;
+}
+
+/**
+ * Move an order to a new status inside a Firestore transaction.
+ * Throws OrderTransitionError for illegal transitions.
+ */
+export async function transitionOrder(
+    transaction: Transaction,
+    orderDoc: DocumentSnapshot,
+    to: OrderStatus,
+    actor: OrderActor,
+    options: TransitionOptions = {}
+): Promise<TransitionResult> {
+    if (!orderDoc.exists) throw new Error("Order not found");
+
+    const order = orderDoc.data() as Omit<Order, "id">;
+    const from = order.status;
+    const steps = planTransition(from, to, actor);
+    const now = new Date().toISOString();
+
+    // READ PHASE: all transaction reads must happen before any write
+    const shouldRestock = to === "cancelled" && from !== "completed" && options.restock !== false;
+    const restock = shouldRestock ? await readRestock(transaction, order) : new Map();
+    const couponDoc = to === "cancelled" && order.couponCode
+        ? await transaction.get(couponRef(order.couponCode))
+        : null;
+
+    // Loyalty: settings for accrual / restoring spent points, lots for reversal
+    const needsLoyaltyConfig = (to === "completed" && order.loyaltyPointsEarned === undefined)
+        || (to === "cancelled" && (order.pointsRedeemed || 0) > 0);
+    const loyaltyConfig = needsLoyaltyConfig ? await readLoyaltyConfig(transaction) : null;
+    const reversalLots = to === "cancelled" ? await readLoyaltyReversal(transaction, order) : null;
+    const split = to === "cancelled" ? await readSplitForRefund(transaction, order) : null;
+
+    // Sync canteen wallet once for the net change (reads the wallet doc, so it runs before our writes)
+    await updateCanteenWallet(transaction, from, to, order.total, order.orderId);
+
+    const updateData: Record<string, unknown> = {
+        ...options.updates,
+        status: to,
+        updatedAt: now,
+    };
+
+    // When status is set to "ready", clear countdowns
+    if (to === "ready") {
+        updateData.readyAt = null;
+        updateData.estimatedReadyAt = null;
+    }
+
+    if (to === "cancelled") {
+        updateData.stockRestored = shouldRestock;
+    }
+
+    // Completed orders earn points; cancelled ones lose them and get spent points back
+    if (to === "completed" && loyaltyConfig) {
+        Object.assign(updateData, accrueOrderPoints(transaction, orderDoc.id, order, loyaltyConfig));
+    }
+    if (to === "cancelled") {
+        if (reversalLots) Object.assign(updateData, reverseOrderPoints(transaction, orderDoc.id, order, reversalLots));
+        if (loyaltyConfig) restoreRedeemedPoints(transaction, orderDoc.id, order, order.pointsRedeemed || 0, loyaltyConfig);
+    }
+
+    transaction.update(orderDoc.ref, updateData);
+
+    // Give cancelled quantities back to the menu
+    for (const [id, { snapshot, quantity }] of restock) {
+        const newQty = (snapshot.data()?.quantity || 0) + quantity;
+        transaction.update(adminDb.collection("menuItems").doc(id), {
+            quantity: newQty,
+            available: newQty > 0,
+            updatedAt: now,
+        });
+    }
+
+    // Refund the user wallet on cancellation
+    let refunded = 0;
+    if (to === "cancelled" && order.total > 0) {
+        refunded = order.total;
+
+        const userRef = adminDb.collection("users").doc(order.userId);
+        transaction.update(userRef, {
+            walletBalance: FieldValue.increment(refunded),
+        });
+
+        const txnRef = adminDb.collection("walletTransactions").doc();
+        transaction.set(txnRef, {
+            userId: order.userId,
+            type: "refund",
+            amount: refunded,
+            description: `Refund - Order #${order.orderId} Cancelled`,
+            transactionId: txnRef.id,
+            createdAt: now,
+        });
+
+        // Journal: paid back out of whichever account held the order's money
+        postLedgerEntry(transaction, {
+            type: "refund",
+            description: `Refund - Order #${order.orderId} Cancelled`,
+            postings: transferPostings(orderFundsAccount(from), LedgerAccounts.user(order.userId), refunded),
+            referenceId: orderDoc.id,
+            actorId: actor.id,
+        });
+
+        // Friends who split the bill get back what they paid; open requests close
+        if (split) applySplitRefund(transaction, split, order, 0);
+    }
+
+    // Cancelled orders give their coupon redemption back
+    if (to === "cancelled" && order.couponCode) {
+        releaseCouponRedemption(transaction, order.couponCode, order.userId, !!couponDoc?.exists);
+    }
+
+    // …and free their place in the pickup slot
+    if (to === "cancelled") releaseSlotReservation(transaction, order);
+
+    // Append history — one event per lifecycle step
+    for (const step of steps) {
+        const eventRef = adminDb.collection("orderEvents").doc();
+        const event: Omit<OrderEvent, "id"> = {
+            orderDocId: orderDoc.id,
+            orderId: order.orderId,
+            userId: order.userId,
+            from: step.from,
+            to: step.to,
+            actorType: actor.type,
+            ...(actor.id ? { actorId: actor.id } : {}),
+            ...(options.reason ? { reason: options.reason } : {}),
+            createdAt: now,
+        };
+        transaction.set(eventRef, event);
+    }
+
+    return { from, to, steps, refunded, restocked: shouldRestock };
+}
@@ -5,6 +5,9 @@
  * Examples: ZKO4F7X, ZKO9K2Q
  */
 
+/** Prefix of the pickup QR payload: "ZAYKO-PICKUP:<signed token>" (see lib/pickup-verification) */
+export const PICKUP_QR_PREFIX = "ZAYKO-PICKUP:";
+
 const LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ"; // no I, O to avoid confusion
 const DIGITS = "0123456789";
 const ALPHANUMERIC = LETTERS + DIGITS;
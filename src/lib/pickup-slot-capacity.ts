@@ -0,0 +1,147 @@
+/**
+ * Pickup Slot Capacity — server-side bookkeeping for pre-order slots.
+ *
+ * Each booked slot has a pickupSlots/{YYYY-MM-DD_HHMM} doc counting its
+ * orders and items. Placement checks and increments it in the order
+ * transaction (lib/order-placement); cancellation gives the capacity back
+ * (lib/order-transitions) and removing lines gives the items back
+ * (lib/order-adjustments). Cancelling a whole slot is handled by
+ * /api/admin/pickup-slots.
+ */
+
+import { DocumentSnapshot, FieldValue, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { getPickupSlots, getPreOrderConfig, type PickupSlotTime } from "@/lib/pickup-slots";
+import type { CanteenConfig, Order, PickupSlot, PreOrderConfig } from "@/types";
+
+export const PICKUP_SLOTS_COLLECTION = "pickupSlots";
+
+/**
+ * Thrown when a slot is full, cancelled or no longer offered. The message is shown to the user as-is.
+ */
+export class PickupSlotError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PickupSlotError";
+    }
+}
+
+export function slotRef(slotId: string) {
+    return adminDb.collection(PICKUP_SLOTS_COLLECTION).doc(slotId);
+}
+
+/** Units of capacity an order takes in its slot. */
+function usage(preOrders: PreOrderConfig, itemCount: number): number {
+    return preOrders.capacityUnit === "items" ? itemCount : 1;
+}
+
+// ─── Booking (inside the order transaction) ─────
+
+/** Read the slot doc (read phase). */
+export function readPickupSlot(transaction: Transaction, slotId: string): Promise<DocumentSnapshot> {
+    return transaction.get(slotRef(slotId));
+}
+
+/**
+ * Throw PickupSlotError unless the slot can take an order of itemCount items (validation phase).
+ */
+export function assertSlotAvailable(snapshot: DocumentSnapshot, preOrders: PreOrderConfig, itemCount: number): void {
+    const slot = snapshot.exists ? (snapshot.data() as PickupSlot) : null;
+    if (slot?.cancelled) {
+        throw new PickupSlotError("This pickup slot has been cancelled — please choose another");
+    }
+    if (preOrders.capacity <= 0) return;
+
+    const booked = preOrders.capacityUnit === "items" ? slot?.items || 0 : slot?.orders || 0;
+    if (booked + usage(preOrders, itemCount) > preOrders.capacity) {
+        throw new PickupSlotError("This pickup slot is full — please choose another");
+    }
+}
+
+/** Count the order against its slot (write phase). */
+export function recordSlotReservation(transaction: Transaction, slot: PickupSlotTime, itemCount: number): void {
+    transaction.set(
+        slotRef(slot.id),
+        {
+            start: slot.start,
+            orders: FieldValue.increment(1),
+            items: FieldValue.increment(itemCount),
+            updatedAt: new Date().toISOString(),
+        },
+        { merge: true }
+    );
+}
+
+/** Give a cancelled order's capacity back (write phase, no read needed). */
+export function releaseSlotReservation(transaction: Transaction, order: Pick<Order, "pickupSlotId" | "items">): void {
+    if (!order.pickupSlotId) return;
+    const itemCount = (order.items || []).reduce((sum, item) => sum + (item.quantity || 0), 0);
+    transaction.set(
+        slotRef(order.pickupSlotId),
+        {
+            orders: FieldValue.increment(-1),
+            items: FieldValue.increment(-itemCount),
+            updatedAt: new Date().toISOString(),
+        },
+        { merge: true }
+    );
+}
+
+/** Give back items removed from an order that keeps its slot (write phase, no read needed). */
+export function releaseSlotItems(transaction: Transaction, order: Pick<Order, "pickupSlotId">, itemCount: number): void {
+    if (!order.pickupSlotId || itemCount <= 0) return;
+    transaction.set(
+        slotRef(order.pickupSlotId),
+        {
+            items: FieldValue.increment(-itemCount),
+            updatedAt: new Date().toISOString(),
+        },
+        { merge: true }
+    );
+}
+
+// ─── Listing ────────────────────────────────────
+
+export interface SlotAvailability extends PickupSlotTime {
+    orders: number;
+    items: number;
+    /** Capacity units left, or null when slots are unlimited */
+    remaining: number | null;
+    cancelled: boolean;
+}
+
+/**
+ * Today's bookable slots with how much capacity each has left.
+ */
+export async function listAvailableSlots(config: Partial<CanteenConfig> | undefined): Promise<SlotAvailability[]> {
+    const preOrders = getPreOrderConfig(config);
+    const slots = getPickupSlots(config);
+    if (slots.length === 0) return [];
+
+    const docs = await adminDb.getAll(...slots.map((slot) => slotRef(slot.id)));
+    return slots.map((slot, i) => {
+        const data = docs[i].exists ? (docs[i].data() as PickupSlot) : null;
+        const orders = data?.orders || 0;
+        const items = data?.items || 0;
+        const booked = preOrders.capacityUnit === "items" ? items : orders;
+        return {
+            ...slot,
+            orders,
+            items,
+            remaining: preOrders.capacity > 0 ? Math.max(preOrders.capacity - booked, 0) : null,
+            cancelled: !!data?.cancelled,
+        };
+    });
+}
+
+/**
+ * Booked slot docs starting on or after `from` (admin view).
+ */
+export async function listBookedSlots(from: Date): Promise<PickupSlot[]> {
+    const snap = await adminDb
+        .collection(PICKUP_SLOTS_COLLECTION)
+        .where("start", ">=", from.toISOString())
+        .orderBy("start")
+        .get();
+    return snap.docs.map((d) => ({ id: d.id, ...d.data() }) as PickupSlot);
+}
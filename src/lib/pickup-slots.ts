@@ -0,0 +1,154 @@
+/**
+ * Pickup Slots — scheduled pre-orders for a later time today.
+ *
+ * Slots are generated from the canteen hours (CanteenConfig.startTime/endTime)
+ * in steps of preOrders.slotMinutes. A student picks one at checkout; the
+ * order is paid and its stock taken right away, but it only surfaces in the
+ * admin queue preOrders.releaseMinutes before the slot starts.
+ *
+ * Slot ids are "YYYY-MM-DD_HHMM" in canteen local time — the same clock
+ * getCanteenClosedReason() uses for opening hours.
+ *
+ * Pure module (no Firestore access) — safe to import from client components.
+ * Capacity bookkeeping lives in lib/pickup-slot-capacity.
+ */
+
+import type { CanteenConfig, Order, PreOrderConfig } from "@/types";
+
+export const DEFAULT_PRE_ORDER_CONFIG: PreOrderConfig = {
+    enabled: false,
+    slotMinutes: 15,
+    capacity: 20,
+    capacityUnit: "orders",
+    minLeadMinutes: 30,
+    releaseMinutes: 20,
+};
+
+export const SLOT_LENGTHS = [10, 15, 20, 30, 60];
+
+export interface PickupSlotTime {
+    id: string;
+    /** ISO timestamp of the slot start — stored as Order.scheduledFor */
+    start: string;
+    /** "HH:MM – HH:MM" */
+    label: string;
+}
+
+export function getPreOrderConfig(config?: Partial<CanteenConfig>): PreOrderConfig {
+    return { ...DEFAULT_PRE_ORDER_CONFIG, ...config?.preOrders };
+}
+
+/**
+ * Validate pre-order settings from the admin settings form.
+ * Returns an error message instead of throwing.
+ */
+export function parsePreOrderConfig(raw: unknown): PreOrderConfig | string {
+    if (!raw || typeof raw !== "object") return "Invalid pre-order settings";
+    const merged = { ...DEFAULT_PRE_ORDER_CONFIG, ...(raw as Partial<PreOrderConfig>) };
+
+    const slotMinutes = Number(merged.slotMinutes);
+    const capacity = Number(merged.capacity);
+    const minLeadMinutes = Number(merged.minLeadMinutes);
+    const releaseMinutes = Number(merged.releaseMinutes);
+
+    if (!SLOT_LENGTHS.includes(slotMinutes)) {
+        return `Slot length must be one of ${SLOT_LENGTHS.join(", ")} minutes`;
+    }
+    if (!Number.isInteger(capacity) || capacity < 0 || capacity > 1000) {
+        return "Slot capacity must be 0–1000 (0 = unlimited)";
+    }
+    if (merged.capacityUnit !== "orders" && merged.capacityUnit !== "items") {
+        return "Capacity must be counted in orders or items";
+    }
+    if (!Number.isInteger(minLeadMinutes) || minLeadMinutes < 0 || minLeadMinutes > 240) {
+        return "Minimum lead time must be 0–240 minutes";
+    }
+    if (!Number.isInteger(releaseMinutes) || releaseMinutes < 0 || releaseMinutes > 240) {
+        return "Release time must be 0–240 minutes";
+    }
+
+    return {
+        enabled: merged.enabled === true,
+        slotMinutes,
+        capacity,
+        capacityUnit: merged.capacityUnit,
+        minLeadMinutes,
+        releaseMinutes,
+    };
+}
+
+// ─── Slot Generation ────────────────────────────
+
+function toMinutes(hhmm: string): number {
+    const [h, m] = hhmm.split(":").map(Number);
+    return h * 60 + m;
+}
+
+function pad(n: number): string {
+    return String(n).padStart(2, "0");
+}
+
+function formatMinutes(minutes: number): string {
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/** Local calendar date of a timestamp as YYYY-MM-DD. */
+function localDate(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Today's pickup slots that can still be booked (start at least
+ * minLeadMinutes from now and end by closing time).
+ */
+export function getPickupSlots(config: Partial<CanteenConfig> | undefined, now = new Date()): PickupSlotTime[] {
+    const preOrders = getPreOrderConfig(config);
+    if (!preOrders.enabled || config?.isOpen === false) return [];
+
+    const open = toMinutes(config?.startTime || "09:00");
+    const close = toMinutes(config?.endTime || "17:00");
+    const earliest = now.getTime() + preOrders.minLeadMinutes * 60_000;
+    const date = localDate(now);
+
+    const slots: PickupSlotTime[] = [];
+    for (let start = open; start + preOrders.slotMinutes <= close; start += preOrders.slotMinutes) {
+        const startsAt = new Date(now);
+        startsAt.setHours(Math.floor(start / 60), start % 60, 0, 0);
+        if (startsAt.getTime() < earliest) continue;
+
+        slots.push({
+            id: `${date}_${formatMinutes(start).replace(":", "")}`,
+            start: startsAt.toISOString(),
+            label: `${formatMinutes(start)} – ${formatMinutes(start + preOrders.slotMinutes)}`,
+        });
+    }
+    return slots;
+}
+
+/** The bookable slot with this id, or null when it is not offered (any more). */
+export function findPickupSlot(
+    config: Partial<CanteenConfig> | undefined,
+    slotId: string,
+    now = new Date()
+): PickupSlotTime | null {
+    return getPickupSlots(config, now).find((slot) => slot.id === slotId) || null;
+}
+
+/** "HH:MM" pickup time of a scheduled order, in local time. */
+export function formatPickupTime(scheduledFor: string): string {
+    const date = new Date(scheduledFor);
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Whether a scheduled order is still held back from the kitchen queue.
+ * Orders without a slot are never held.
+ */
+export function isHeldForSlot(
+    order: Pick<Order, "scheduledFor" | "status">,
+    releaseMinutes: number,
+    now = new Date()
+): boolean {
+    if (!order.scheduledFor || order.status !== "pending") return false;
+    return now.getTime() < new Date(order.scheduledFor).getTime() - releaseMinutes * 60_000;
+}
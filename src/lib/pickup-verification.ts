@@ -0,0 +1,128 @@
+/**
+ * Pickup Verification — proof of collection at the counter.
+ *
+ * SECURITY: Every order gets two credentials at placement (lib/order-placement):
+ * - pickupToken: a JWT signed with PICKUP_TOKEN_SECRET whose subject is the
+ *   order doc id, shown as a QR code ("ZAYKO-PICKUP:<token>") on /orders
+ *   and on the printed receipt
+ * - pickupOtp: a random 4-digit code the student reads out (or shares with
+ *   a friend collecting for them) together with the Order ID
+ *
+ * Only the order owner can read either (firestore.rules). Staff scan or type
+ * it on /admin/pickup; completePickup() checks it and moves the order
+ * ready → completed. Orders carrying a pickup code cannot be completed
+ * through the plain status buttons (/api/admin/orders).
+ */
+
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import { transitionOrder, type TransitionResult } from "@/lib/order-transitions";
+import type { OrderActor } from "@/lib/order-lifecycle";
+import { PICKUP_QR_PREFIX } from "@/lib/orderIdUtils";
+import type { Order } from "@/types";
+
+interface PickupTokenPayload {
+    purpose: "order-pickup";
+    sub: string;
+}
+
+export type PickupProof = { token: string } | { otp: string };
+
+/**
+ * Thrown when a pickup code does not match or the order cannot be collected.
+ * The message is shown to staff as-is.
+ */
+export class PickupVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PickupVerificationError";
+    }
+}
+
+function getSecret(): string {
+    const secret = process.env.PICKUP_TOKEN_SECRET;
+    if (!secret) {
+        throw new Error("PICKUP_TOKEN_SECRET not configured");
+    }
+    return secret;
+}
+
+/**
+ * Pickup credentials for a new order. No expiry — the order status decides
+ * whether it can still be collected.
+ */
+export function issuePickupCredentials(orderDocId: string): { pickupToken: string; pickupOtp: string } {
+    const pickupToken = jwt.sign(
+        { purpose: "order-pickup" } as Omit<PickupTokenPayload, "sub">,
+        getSecret(),
+        { subject: orderDocId }
+    );
+    const pickupOtp = crypto.randomInt(0, 10_000).toString().padStart(4, "0");
+    return { pickupToken, pickupOtp };
+}
+
+/**
+ * The order doc id and token in a scanned QR payload (or bare token), or
+ * null when it is not a valid pickup token.
+ */
+export function readPickupToken(scanned: string): { orderDocId: string; token: string } | null {
+    const trimmed = scanned.trim();
+    const token = trimmed.startsWith(PICKUP_QR_PREFIX) ? trimmed.slice(PICKUP_QR_PREFIX.length) : trimmed;
+    try {
+        const decoded = jwt.verify(token, getSecret()) as PickupTokenPayload;
+        return decoded.purpose === "order-pickup" && decoded.sub ? { orderDocId: decoded.sub, token } : null;
+    } catch {
+        return null;
+    }
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Check the pickup proof against the order and complete it.
+ * Must be called inside a transaction, after the order doc has been read
+ * and before any other writes.
+ */
+export async function completePickup(
+    transaction: Transaction,
+    orderDoc: DocumentSnapshot,
+    proof: PickupProof,
+    actor: OrderActor
+): Promise<TransitionResult> {
+    if (!orderDoc.exists) throw new PickupVerificationError("Order not found");
+    const order = orderDoc.data() as Omit<Order, "id">;
+
+    if (!order.pickupToken || !order.pickupOtp) {
+        throw new PickupVerificationError(`Order #${order.orderId} has no pickup code — complete it from the orders screen`);
+    }
+    const matches = "token" in proof
+        ? safeEqual(proof.token, order.pickupToken)
+        : safeEqual(proof.otp, order.pickupOtp);
+    if (!matches) {
+        throw new PickupVerificationError(`Pickup code does not match order #${order.orderId}`);
+    }
+
+    if (order.status === "cancelled") {
+        throw new PickupVerificationError(`Order #${order.orderId} was cancelled — do not hand it out`);
+    }
+    if (order.status === "completed") {
+        const at = order.collectedAt ? ` at ${new Date(order.collectedAt).toLocaleTimeString()}` : "";
+        throw new PickupVerificationError(`Order #${order.orderId} was already collected${at}`);
+    }
+    if (order.status !== "ready") {
+        throw new PickupVerificationError(`Order #${order.orderId} is ${order.status}, not ready yet`);
+    }
+
+    return transitionOrder(transaction, orderDoc, "completed", actor, {
+        reason: "Collected at counter",
+        updates: {
+            collectedAt: new Date().toISOString(),
+            collectedVia: "token" in proof ? "qr" : "otp",
+        },
+    });
+}
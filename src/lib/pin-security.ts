@@ -0,0 +1,180 @@
+/**
+ * PIN Security — brute-force lockout and security audit log.
+ *
+ * SECURITY: A 4-digit PIN has only 10,000 values, so wrong guesses are
+ * tracked on the users doc (pinFailedAttempts / pinLockedUntil) and
+ * survive across sessions and server instances. After MAX_FREE_ATTEMPTS
+ * consecutive failures every further failure locks PIN checks for an
+ * exponentially growing period (1 min, 2 min, 4 min, … capped at 24 h).
+ * A correct PIN or a PIN reset clears the counter.
+ *
+ * PIN failures, lockouts, changes and resets are written to the
+ * securityEvents collection.
+ */
+
+import bcrypt from "bcryptjs";
+import { Transaction, DocumentReference } from "firebase-admin/firestore";
+import { NextRequest } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import type { SecurityEvent, SecurityEventType } from "@/types";
+
+export const SECURITY_EVENTS_COLLECTION = "securityEvents";
+
+export const PIN_PATTERN = /^\d{4}$/;
+export const PIN_HASH_ROUNDS = 10;
+
+const MAX_FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 60_000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60_000;
+
+/**
+ * Lockout applied after the given number of consecutive failures (0 = none).
+ */
+export function getLockoutMs(failedAttempts: number): number {
+    if (failedAttempts < MAX_FREE_ATTEMPTS) return 0;
+    return Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - MAX_FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+// ─── Audit Log ──────────────────────────────────
+
+export interface SecurityEventDetails {
+    failedAttempts?: number;
+    lockedUntil?: string;
+}
+
+/**
+ * Append a securityEvents doc, inside a transaction when one is given.
+ */
+export function recordSecurityEvent(
+    req: NextRequest,
+    userId: string,
+    type: SecurityEventType,
+    details: SecurityEventDetails = {},
+    transaction?: Transaction
+): void | Promise<unknown> {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || req.headers.get("x-real-ip") || undefined;
+    const userAgent = req.headers.get("user-agent")?.slice(0, 200) || undefined;
+
+    const event: Omit<SecurityEvent, "id"> = {
+        userId,
+        type,
+        ...details,
+        ...(ip ? { ip } : {}),
+        ...(userAgent ? { userAgent } : {}),
+        createdAt: new Date().toISOString(),
+    };
+
+    const ref = adminDb.collection(SECURITY_EVENTS_COLLECTION).doc();
+    if (transaction) {
+        transaction.set(ref, event);
+        return;
+    }
+    return ref.set(event);
+}
+
+// ─── Verification ───────────────────────────────
+
+export type PinCheckResult =
+    | { status: "ok" }
+    | { status: "incorrect"; attemptsLeft: number; lockedUntil?: string }
+    | { status: "locked"; lockedUntil: string }
+    | { status: "not_set" }
+    | { status: "no_user" };
+
+/**
+ * Check a PIN against the user's pinHash, enforcing and updating the lockout.
+ * `onSuccess` runs inside the same transaction when the PIN is correct
+ * (e.g. to store a new PIN hash atomically).
+ */
+export async function checkPin(
+    req: NextRequest,
+    uid: string,
+    pin: string,
+    onSuccess?: (transaction: Transaction, userRef: DocumentReference) => void
+): Promise<PinCheckResult> {
+    const userRef = adminDb.collection("users").doc(uid);
+
+    return adminDb.runTransaction(async (transaction): Promise<PinCheckResult> => {
+        const userDoc = await transaction.get(userRef);
+        if (!userDoc.exists) return { status: "no_user" };
+
+        const data = userDoc.data()!;
+        if (!data.pinHash) return { status: "not_set" };
+
+        const now = Date.now();
+        if (data.pinLockedUntil && new Date(data.pinLockedUntil).getTime() > now) {
+            return { status: "locked", lockedUntil: data.pinLockedUntil };
+        }
+
+        const failedAttempts: number = data.pinFailedAttempts || 0;
+
+        if (await bcrypt.compare(pin, data.pinHash)) {
+            if (failedAttempts > 0 || data.pinLockedUntil) {
+                transaction.update(userRef, { pinFailedAttempts: 0, pinLockedUntil: null });
+            }
+            onSuccess?.(transaction, userRef);
+            return { status: "ok" };
+        }
+
+        const attempts = failedAttempts + 1;
+        const lockoutMs = getLockoutMs(attempts);
+        const lockedUntil = lockoutMs > 0 ? new Date(now + lockoutMs).toISOString() : undefined;
+
+        transaction.update(userRef, {
+            pinFailedAttempts: attempts,
+            pinLockedUntil: lockedUntil ?? null,
+        });
+        recordSecurityEvent(req, uid, "pin_failed", { failedAttempts: attempts }, transaction);
+        if (lockedUntil) {
+            recordSecurityEvent(req, uid, "pin_locked", { failedAttempts: attempts, lockedUntil }, transaction);
+            console.warn(`[PinSecurity] User ${uid.slice(0, 8)}… locked until ${lockedUntil} after ${attempts} failures`);
+        }
+
+        return {
+            status: "incorrect",
+            attemptsLeft: Math.max(MAX_FREE_ATTEMPTS - attempts, 0),
+            ...(lockedUntil ? { lockedUntil } : {}),
+        };
+    });
+}
+
+function minutesUntil(iso: string): number {
+    return Math.max(Math.ceil((new Date(iso).getTime() - Date.now()) / 60_000), 1);
+}
+
+/**
+ * User-facing message for a failed PIN check.
+ */
+export function describePinFailure(result: Exclude<PinCheckResult, { status: "ok" }>): string {
+    switch (result.status) {
+        case "locked":
+            return `Too many wrong PINs. Try again in ${minutesUntil(result.lockedUntil)} min`;
+        case "incorrect":
+            if (result.lockedUntil) {
+                return `Incorrect PIN. PIN entry is locked for ${minutesUntil(result.lockedUntil)} min`;
+            }
+            return result.attemptsLeft > 0
+                ? `Incorrect PIN. ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? "" : "s"} left`
+                : "Incorrect PIN";
+        case "not_set":
+            return "PIN not set for this account";
+        case "no_user":
+            return "User profile not found";
+    }
+}
+
+/**
+ * HTTP status for a failed PIN check.
+ */
+export function pinFailureStatus(result: Exclude<PinCheckResult, { status: "ok" }>): number {
+    switch (result.status) {
+        case "locked":
+            return 423;
+        case "incorrect":
+            return result.lockedUntil ? 423 : 401;
+        case "not_set":
+            return 400;
+        case "no_user":
+            return 404;
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * PIN step-up tokens.
+ *
+ * SECURITY: A Firebase session alone must not be enough to move money.
+ * After a successful /api/users/verify-pin the server issues a short-lived
+ * JWT (signed with PIN_TOKEN_SECRET) bound to the user's uid. Endpoints that
+ * move money out of a wallet require it in the `X-Pin-Token` header:
+ * - POST /api/wallet/transfer — always
+ * - POST /api/orders — when the total is above canteenConfig.pinOrderThreshold
+ *
+ * Accounts without a PIN set cannot present a token, so the requirement
+ * only applies once the user has a pinHash. Fails closed when
+ * PIN_TOKEN_SECRET is not configured.
+ */
+
+import jwt from "jsonwebtoken";
+import { NextRequest, NextResponse } from "next/server";
+import type { CanteenConfig } from "@/types";
+
+export const PIN_TOKEN_HEADER = "x-pin-token";
+
+const PIN_TOKEN_TTL_SECONDS = 5 * 60;
+
+export const DEFAULT_PIN_ORDER_THRESHOLD = 200;
+
+interface PinTokenPayload {
+    purpose: "pin-step-up";
+    sub: string;
+}
+
+/**
+ * Thrown (inside transactions) when an action needs a PIN token the request did not carry.
+ */
+export class PinRequiredError extends Error {
+    constructor(message = "PIN verification required") {
+        super(message);
+        this.name = "PinRequiredError";
+    }
+}
+
+/**
+ * Issue a PIN token for a user who just entered the correct PIN.
+ */
+export function signPinToken(uid: string): { pinToken: string; expiresAt: string } {
+    const secret = process.env.PIN_TOKEN_SECRET;
+    if (!secret) {
+        throw new Error("PIN_TOKEN_SECRET not configured");
+    }
+
+    const pinToken = jwt.sign(
+        { purpose: "pin-step-up" } as Omit<PinTokenPayload, "sub">,
+        secret,
+        { subject: uid, expiresIn: PIN_TOKEN_TTL_SECONDS }
+    );
+    return {
+        pinToken,
+        expiresAt: new Date(Date.now() + PIN_TOKEN_TTL_SECONDS * 1000).toISOString(),
+    };
+}
+
+/**
+ * Whether the request carries a valid, unexpired PIN token for this uid.
+ */
+export function hasValidPinToken(req: NextRequest, uid: string): boolean {
+    const secret = process.env.PIN_TOKEN_SECRET;
+    if (!secret) return false;
+
+    const token = req.headers.get(PIN_TOKEN_HEADER);
+    if (!token) return false;
+
+    try {
+        const decoded = jwt.verify(token, secret) as PinTokenPayload;
+        return decoded.purpose === "pin-step-up" && decoded.sub === uid;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Orders above this total need a PIN token.
+ */
+export function getPinOrderThreshold(config?: Partial<CanteenConfig>): number {
+    const threshold = config?.pinOrderThreshold;
+    return typeof threshold === "number" && threshold >= 0 ? threshold : DEFAULT_PIN_ORDER_THRESHOLD;
+}
+
+/**
+ * 403 response telling the client to ask for the PIN and retry.
+ */
+export function pinRequiredResponse(message = "PIN verification required"): NextResponse {
+    return NextResponse.json({ error: message, pinRequired: true }, { status: 403 });
+}
@@ -0,0 +1,150 @@
+/**
+ * Razorpay gateway — the small slice of the Razorpay API the wallet uses,
+ * behind an interface so a local fake can stand in for it.
+ *
+ * getRazorpayGateway() returns the real SDK-backed client. Outside
+ * production, RAZORPAY_FAKE_GATEWAY=1 swaps in an in-memory fake so
+ * top-ups can be exercised without a Razorpay account (see
+ * createFakeRazorpayGateway). The sweeper tests drive the fake directly,
+ * paying or failing orders with addPayment (test/topup-sweeper.test.ts).
+ */
+
+import crypto from "crypto";
+import Razorpay from "razorpay";
+
+export interface GatewayOrder {
+    id: string;
+    amount: number; // paise
+    status: "created" | "attempted" | "paid";
+    notes: Record<string, string>;
+}
+
+export interface GatewayPayment {
+    id: string;
+    orderId: string;
+    amount: number; // paise
+    status: "created" | "authorized" | "captured" | "refunded" | "failed";
+    errorDescription?: string;
+}
+
+export interface RazorpayGateway {
+    createOrder(params: { amountPaise: number; receipt: string; notes: Record<string, string> }): Promise<GatewayOrder>;
+    fetchOrder(orderId: string): Promise<GatewayOrder>;
+    fetchOrderPayments(orderId: string): Promise<GatewayPayment[]>;
+}
+
+function stringNotes(notes: unknown): Record<string, string> {
+    if (!notes || Array.isArray(notes) || typeof notes !== "object") return {};
+    return Object.fromEntries(Object.entries(notes).map(([k, v]) => [k, String(v)]));
+}
+
+// ─── Real Client ────────────────────────────────
+
+export function createRazorpayGateway(keyId: string, keySecret: string): RazorpayGateway {
+    const razorpay = new Razorpay({ key_id: keyId, key_secret: keySecret });
+
+    return {
+        async createOrder({ amountPaise, receipt, notes }) {
+            const order = await razorpay.orders.create({
+                amount: amountPaise,
+                currency: "INR",
+                receipt,
+                notes,
+            });
+            return { id: order.id, amount: Number(order.amount), status: order.status, notes: stringNotes(order.notes) };
+        },
+
+        async fetchOrder(orderId) {
+            const order = await razorpay.orders.fetch(orderId);
+            return { id: order.id, amount: Number(order.amount), status: order.status, notes: stringNotes(order.notes) };
+        },
+
+        async fetchOrderPayments(orderId) {
+            const { items } = await razorpay.orders.fetchPayments(orderId);
+            return items.map((p) => ({
+                id: p.id,
+                orderId,
+                amount: Number(p.amount),
+                status: p.status,
+                ...(p.error_description ? { errorDescription: p.error_description } : {}),
+            }));
+        },
+    };
+}
+
+// ─── Fake Client ────────────────────────────────
+
+export interface FakeRazorpayGateway extends RazorpayGateway {
+    /** Simulate the customer paying (or failing to pay) an order */
+    addPayment(orderId: string, status?: GatewayPayment["status"], errorDescription?: string): GatewayPayment;
+}
+
+/**
+ * In-memory stand-in for Razorpay. State lives for the life of the process.
+ */
+export function createFakeRazorpayGateway(): FakeRazorpayGateway {
+    const orders = new Map<string, GatewayOrder>();
+    const payments = new Map<string, GatewayPayment[]>();
+    const id = (prefix: string) => `${prefix}_fake${crypto.randomBytes(7).toString("hex")}`;
+
+    return {
+        async createOrder({ amountPaise, notes }) {
+            const order: GatewayOrder = { id: id("order"), amount: amountPaise, status: "created", notes };
+            orders.set(order.id, order);
+            return order;
+        },
+
+        async fetchOrder(orderId) {
+            const order = orders.get(orderId);
+            if (!order) throw new Error(`Fake Razorpay: order ${orderId} not found`);
+            return order;
+        },
+
+        async fetchOrderPayments(orderId) {
+            return payments.get(orderId) || [];
+        },
+
+        addPayment(orderId, status = "captured", errorDescription) {
+            const order = orders.get(orderId);
+            if (!order) throw new Error(`Fake Razorpay: order ${orderId} not found`);
+
+            const payment: GatewayPayment = {
+                id: id("pay"),
+                orderId,
+                amount: order.amount,
+                status,
+                ...(errorDescription ? { errorDescription } : {}),
+            };
+            payments.set(orderId, [...(payments.get(orderId) || []), payment]);
+            order.status = status === "captured" ? "paid" : "attempted";
+            return payment;
+        },
+    };
+}
+
+// ─── Shared Instance ────────────────────────────
+
+let gateway: RazorpayGateway | null = null;
+
+export function getRazorpayGateway(): RazorpayGateway {
+    if (gateway) return gateway;
+
+    if (process.env.RAZORPAY_FAKE_GATEWAY === "1" && process.env.NODE_ENV !== "production") {
+        console.warn("[Razorpay] Using in-memory fake gateway (RAZORPAY_FAKE_GATEWAY=1)");
+        gateway = createFakeRazorpayGateway();
+        return gateway;
+    }
+
+    if (!process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+        throw new Error(
+            "[FATAL] Missing Razorpay env vars. Set NEXT_PUBLIC_RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET in .env.local"
+        );
+    }
+    gateway = createRazorpayGateway(process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID, process.env.RAZORPAY_KEY_SECRET);
+    return gateway;
+}
+
+/** Replace the shared gateway (tests and local tooling) */
+export function setRazorpayGateway(next: RazorpayGateway | null): void {
+    gateway = next;
+}
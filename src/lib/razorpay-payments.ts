@@ -0,0 +1,360 @@
+/**
+ * Razorpay payments — wallet crediting shared by the browser callback
+ * (/api/razorpay/verify) and the server-to-server webhook
+ * (/api/razorpay/webhook).
+ *
+ * SECURITY:
+ * - payments/{payment_id} is the dedup doc. Whichever path runs first
+ *   credits the wallet; the other finds the doc and changes nothing, so a
+ *   payment is credited exactly once even when both arrive.
+ * - Amounts always come from Razorpay (order fetch or signed webhook
+ *   payload), never from the client.
+ * - The topupIntents doc written at order creation pins each order to one
+ *   user; a payment for someone else's order is refused.
+ * - Webhook signatures are HMAC-SHA256 of the raw body with
+ *   RAZORPAY_WEBHOOK_SECRET, compared timing-safe.
+ */
+
+import crypto from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "@/lib/ledger";
+import { getTopupIntentOwner, markIntentCredited, topupIntentRef, updateTopupIntent } from "@/lib/topup-intents";
+import type { Payment, TopupIntent } from "@/types";
+
+export const MIN_TOPUP_AMOUNT = 1;
+export const MAX_TOPUP_AMOUNT = 5000;
+
+export const WEBHOOK_EVENTS_COLLECTION = "razorpayWebhookEvents";
+
+// ─── Signatures ─────────────────────────────────
+
+/**
+ * Timing-safe comparison of a hex HMAC-SHA256 signature.
+ */
+export function isValidSignature(payload: string, signature: string, secret: string): boolean {
+    const expected = crypto.createHmac("sha256", secret).update(payload).digest("hex");
+    const sigBuffer = Buffer.from(signature, "hex");
+    const expectedBuffer = Buffer.from(expected, "hex");
+    return sigBuffer.length === expectedBuffer.length && crypto.timingSafeEqual(sigBuffer, expectedBuffer);
+}
+
+// ─── Crediting ──────────────────────────────────
+
+export interface RazorpayTopup {
+    paymentId: string;
+    orderId: string;
+    userId: string;
+    amountPaise: number;
+    source: "verify" | "webhook" | "sweep";
+}
+
+/**
+ * Credit a captured payment to the user's wallet, once.
+ * Returns credited: false when the payment was already processed.
+ */
+export async function creditRazorpayTopup(topup: RazorpayTopup): Promise<{ credited: boolean; amount: number }> {
+    // Paise → rupees, keeping paise as refunds do
+    const amount = Math.round(topup.amountPaise) / 100;
+    if (amount < MIN_TOPUP_AMOUNT || amount > MAX_TOPUP_AMOUNT) {
+        throw new Error("Invalid amount");
+    }
+
+    return adminDb.runTransaction(async (transaction) => {
+        const intentDoc = await transaction.get(topupIntentRef(topup.orderId));
+        const intent = intentDoc.exists ? (intentDoc.data() as TopupIntent) : null;
+        if (intent && intent.userId !== topup.userId) {
+            throw new Error("Payment belongs to another user");
+        }
+
+        const paymentRef = adminDb.collection("payments").doc(topup.paymentId);
+        const paymentDoc = await transaction.get(paymentRef);
+        if (paymentDoc.exists) {
+            const existing = paymentDoc.data() as Payment;
+            if (existing.userId !== topup.userId) {
+                throw new Error("Payment belongs to another user");
+            }
+            // A failed attempt recorded earlier does not block a later capture
+            if (existing.status !== "failed") {
+                if (intent && intent.status !== "credited") {
+                    markIntentCredited(transaction, topup.orderId, topup.paymentId, true);
+                }
+                return { credited: false, amount: existing.amount };
+            }
+        }
+
+        const userRef = adminDb.collection("users").doc(topup.userId);
+        const userDoc = await transaction.get(userRef);
+        if (!userDoc.exists) {
+            throw new Error("User not found");
+        }
+
+        const now = new Date().toISOString();
+
+        // Record payment for dedup
+        transaction.set(paymentRef, {
+            razorpayPaymentId: topup.paymentId,
+            razorpayOrderId: topup.orderId,
+            userId: topup.userId,
+            amount,
+            amountPaise: topup.amountPaise,
+            verified: true,
+            status: "captured",
+            source: topup.source,
+            createdAt: now,
+        });
+
+        // Credit wallet
+        transaction.update(userRef, {
+            walletBalance: FieldValue.increment(amount),
+        });
+
+        // Record wallet transaction
+        const txnRef = adminDb.collection("walletTransactions").doc();
+        transaction.set(txnRef, {
+            userId: topup.userId,
+            fromUserId: "razorpay",
+            toUserId: topup.userId,
+            type: "topup",
+            amount,
+            description: "Wallet top-up via Razorpay",
+            razorpayPaymentId: topup.paymentId,
+            razorpayOrderId: topup.orderId,
+            transactionId: txnRef.id,
+            createdAt: now,
+        });
+
+        postLedgerEntry(transaction, {
+            type: "topup",
+            description: "Wallet top-up via Razorpay",
+            postings: transferPostings(LedgerAccounts.RAZORPAY, LedgerAccounts.user(topup.userId), amount),
+            referenceId: topup.paymentId,
+            actorId: topup.userId,
+        });
+
+        markIntentCredited(transaction, topup.orderId, topup.paymentId, intent !== null);
+
+        return { credited: true, amount };
+    });
+}
+
+/**
+ * Record a failed payment attempt so support can see it. Never overwrites
+ * a captured payment.
+ */
+export async function recordFailedPayment(failure: {
+    paymentId: string;
+    orderId: string;
+    userId: string;
+    amountPaise: number;
+    errorDescription?: string;
+}): Promise<void> {
+    const paymentRef = adminDb.collection("payments").doc(failure.paymentId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const paymentDoc = await transaction.get(paymentRef);
+        if (paymentDoc.exists) return;
+
+        transaction.set(paymentRef, {
+            razorpayPaymentId: failure.paymentId,
+            razorpayOrderId: failure.orderId,
+            userId: failure.userId,
+            amount: Math.round(failure.amountPaise) / 100,
+            amountPaise: failure.amountPaise,
+            verified: false,
+            status: "failed",
+            source: "webhook",
+            ...(failure.errorDescription ? { errorDescription: failure.errorDescription.slice(0, 300) } : {}),
+            createdAt: new Date().toISOString(),
+        });
+    });
+}
+
+/**
+ * Take a processed Razorpay refund back out of the wallet it was credited to.
+ * Idempotent per refund id. If the user already spent the money, only the
+ * remaining balance is taken and the shortfall is stored on the payment doc.
+ */
+export async function debitRazorpayRefund(refund: {
+    refundId: string;
+    paymentId: string;
+    amountPaise: number;
+}): Promise<{ debited: number; shortfall: number } | null> {
+    const paymentRef = adminDb.collection("payments").doc(refund.paymentId);
+
+    return adminDb.runTransaction(async (transaction) => {
+        const paymentDoc = await transaction.get(paymentRef);
+        if (!paymentDoc.exists) return null;
+
+        const payment = paymentDoc.data() as Payment;
+        if (payment.status === "failed" || payment.refundIds?.includes(refund.refundId)) return null;
+
+        const userRef = adminDb.collection("users").doc(payment.userId);
+        const userDoc = await transaction.get(userRef);
+        const balance = userDoc.exists ? Number(userDoc.data()!.walletBalance) || 0 : 0;
+
+        const amount = Math.round(refund.amountPaise) / 100;
+        const debited = Math.max(Math.min(amount, balance), 0);
+        const shortfall = Math.round((amount - debited) * 100) / 100;
+        const now = new Date().toISOString();
+
+        transaction.update(paymentRef, {
+            refundIds: FieldValue.arrayUnion(refund.refundId),
+            refundedAmount: FieldValue.increment(amount),
+            ...(shortfall > 0 ? { refundShortfall: FieldValue.increment(shortfall) } : {}),
+            updatedAt: now,
+        });
+
+        if (debited > 0) {
+            transaction.update(userRef, {
+                walletBalance: FieldValue.increment(-debited),
+            });
+
+            const txnRef = adminDb.collection("walletTransactions").doc();
+            transaction.set(txnRef, {
+                userId: payment.userId,
+                fromUserId: payment.userId,
+                toUserId: "razorpay",
+                type: "payment",
+                amount: debited,
+                description: "Razorpay top-up refunded to source",
+                razorpayPaymentId: refund.paymentId,
+                referenceId: refund.refundId,
+                transactionId: txnRef.id,
+                createdAt: now,
+            });
+
+            postLedgerEntry(transaction, {
+                type: "refund",
+                description: "Razorpay top-up refunded to source",
+                postings: transferPostings(LedgerAccounts.user(payment.userId), LedgerAccounts.RAZORPAY, debited),
+                referenceId: refund.refundId,
+            });
+        }
+
+        return { debited, shortfall };
+    });
+}
+
+// ─── Webhooks ───────────────────────────────────
+
+interface RazorpayPaymentEntity {
+    id: string;
+    order_id: string;
+    amount: number; // paise
+    status: string;
+    notes?: Record<string, string> | unknown[];
+    error_description?: string;
+}
+
+interface RazorpayRefundEntity {
+    id: string;
+    payment_id: string;
+    amount: number; // paise
+}
+
+export interface RazorpayWebhookEvent {
+    event: string;
+    payload: {
+        payment?: { entity: RazorpayPaymentEntity };
+        refund?: { entity: RazorpayRefundEntity };
+    };
+    created_at?: number;
+}
+
+export interface WebhookResult {
+    handled: boolean;
+    detail: string;
+}
+
+/** Finds the user an order was created for (from the order's notes) */
+export type OrderOwnerLookup = (orderId: string) => Promise<string | null>;
+
+async function resolvePaymentOwner(payment: RazorpayPaymentEntity, lookupOrderOwner: OrderOwnerLookup): Promise<string | null> {
+    if (payment.order_id) {
+        const intentOwner = await getTopupIntentOwner(payment.order_id);
+        if (intentOwner) return intentOwner;
+    }
+    // Orders from before intents: checkout copies userId into the payment notes; empty notes arrive as []
+    const notes = Array.isArray(payment.notes) ? undefined : payment.notes;
+    if (notes?.userId) return notes.userId;
+    return payment.order_id ? lookupOrderOwner(payment.order_id) : null;
+}
+
+/**
+ * Apply a verified webhook event. Safe to call more than once per event.
+ */
+export async function handleRazorpayWebhookEvent(
+    event: RazorpayWebhookEvent,
+    lookupOrderOwner: OrderOwnerLookup
+): Promise<WebhookResult> {
+    switch (event.event) {
+        case "payment.captured": {
+            const payment = event.payload.payment?.entity;
+            if (!payment) throw new Error("payment.captured without payment entity");
+
+            const userId = await resolvePaymentOwner(payment, lookupOrderOwner);
+            if (!userId) return { handled: false, detail: `No user for payment ${payment.id}` };
+
+            let result: { credited: boolean; amount: number };
+            try {
+                result = await creditRazorpayTopup({
+                    paymentId: payment.id,
+                    orderId: payment.order_id,
+                    userId,
+                    amountPaise: payment.amount,
+                    source: "webhook",
+                });
+            } catch (error) {
+                // Money was captured — leave the intent for the sweeper / support
+                await updateTopupIntent(payment.order_id, "paid", {
+                    paymentId: payment.id,
+                    failureReason: error instanceof Error ? error.message : "Crediting failed",
+                });
+                throw error;
+            }
+            const { credited, amount } = result;
+            return { handled: true, detail: credited ? `Credited ₹${amount}` : "Already credited" };
+        }
+
+        case "payment.failed": {
+            const payment = event.payload.payment?.entity;
+            if (!payment) throw new Error("payment.failed without payment entity");
+
+            const userId = await resolvePaymentOwner(payment, lookupOrderOwner);
+            if (!userId) return { handled: false, detail: `No user for payment ${payment.id}` };
+
+            await recordFailedPayment({
+                paymentId: payment.id,
+                orderId: payment.order_id,
+                userId,
+                amountPaise: payment.amount,
+                errorDescription: payment.error_description,
+            });
+            await updateTopupIntent(payment.order_id, "failed", {
+                paymentId: payment.id,
+                failureReason: payment.error_description || "Payment failed",
+            });
+            return { handled: true, detail: "Failure recorded" };
+        }
+
+        case "refund.processed": {
+            const refund = event.payload.refund?.entity;
+            if (!refund) throw new Error("refund.processed without refund entity");
+
+            const result = await debitRazorpayRefund({
+                refundId: refund.id,
+                paymentId: refund.payment_id,
+                amountPaise: refund.amount,
+            });
+            if (!result) return { handled: false, detail: "No credited payment for refund, or already applied" };
+            return {
+                handled: true,
+                detail: `Debited ₹${result.debited}${result.shortfall > 0 ? ` (shortfall ₹${result.shortfall})` : ""}`,
+            };
+        }
+
+        default:
+            return { handled: false, detail: `Ignored event ${event.event}` };
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * Top-up intents — our own record of every Razorpay order created for a
+ * wallet top-up, keyed by the Razorpay order id.
+ *
+ * Lifecycle:
+ *   created  → written by /api/razorpay/create-order
+ *   paid     → Razorpay captured the money but crediting failed (retried by the sweeper)
+ *   credited → wallet credited (verify, webhook or sweeper — whichever is first)
+ *   failed   → only failed payment attempts so far (a retry on the same order can still credit)
+ *   expired  → no captured payment within INTENT_EXPIRE_HOURS
+ *
+ * Support can answer "I paid but didn't get money" from this collection;
+ * lib/topup-sweeper settles intents the browser and webhook never did.
+ */
+
+import { Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import type { TopupIntent, TopupIntentStatus } from "@/types";
+
+export const TOPUP_INTENTS_COLLECTION = "topupIntents";
+
+/** Statuses the sweeper still re-checks against Razorpay */
+export const OPEN_INTENT_STATUSES: TopupIntentStatus[] = ["created", "paid", "failed"];
+
+export function topupIntentRef(orderId: string) {
+    return adminDb.collection(TOPUP_INTENTS_COLLECTION).doc(orderId);
+}
+
+/**
+ * Record a freshly created Razorpay order.
+ */
+export async function createTopupIntent(orderId: string, userId: string, amountPaise: number): Promise<void> {
+    const now = new Date().toISOString();
+    const intent: Omit<TopupIntent, "id"> = {
+        userId,
+        amount: Math.round(amountPaise) / 100,
+        amountPaise,
+        status: "created",
+        createdAt: now,
+        updatedAt: now,
+    };
+    await topupIntentRef(orderId).set(intent);
+}
+
+/**
+ * Owner of an intent, or null for orders created before intents existed.
+ */
+export async function getTopupIntentOwner(orderId: string): Promise<string | null> {
+    const doc = await topupIntentRef(orderId).get();
+    return doc.exists ? (doc.data() as TopupIntent).userId : null;
+}
+
+/**
+ * Mark an intent credited inside the crediting transaction.
+ * `exists` comes from the transaction's earlier read of the intent.
+ */
+export function markIntentCredited(transaction: Transaction, orderId: string, paymentId: string, exists: boolean): void {
+    if (!exists) return;
+    const now = new Date().toISOString();
+    transaction.update(topupIntentRef(orderId), {
+        status: "credited",
+        razorpayPaymentId: paymentId,
+        failureReason: null,
+        creditedAt: now,
+        updatedAt: now,
+    });
+}
+
+/**
+ * Move an intent to a non-credited status. Never downgrades a credited intent.
+ */
+export async function updateTopupIntent(
+    orderId: string,
+    status: Exclude<TopupIntentStatus, "created" | "credited">,
+    details: { paymentId?: string; failureReason?: string } = {}
+): Promise<void> {
+    const ref = topupIntentRef(orderId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (!doc.exists || (doc.data() as TopupIntent).status === "credited") return;
+
+        transaction.update(ref, {
+            status,
+            ...(details.paymentId ? { razorpayPaymentId: details.paymentId } : {}),
+            ...(details.failureReason ? { failureReason: details.failureReason.slice(0, 300) } : {}),
+            updatedAt: new Date().toISOString(),
+        });
+    });
+}
@@ -0,0 +1,130 @@
+/**
+ * Top-up sweeper — settles intents that neither /api/razorpay/verify nor
+ * the webhook finished, by asking Razorpay what happened to the order.
+ *
+ * For each open intent untouched for INTENT_STALE_MINUTES:
+ * - a captured payment   → credit the wallet (idempotent, same path as verify)
+ * - only failed attempts → failed (expired once past INTENT_EXPIRE_HOURS)
+ * - no payments at all   → left alone until INTENT_EXPIRE_HOURS, then expired
+ *
+ * The Razorpay client is passed in, so a fake gateway can drive it locally.
+ */
+
+import { adminDb } from "@/lib/firebase-admin";
+import { creditRazorpayTopup } from "@/lib/razorpay-payments";
+import type { RazorpayGateway } from "@/lib/razorpay-gateway";
+import {
+    TOPUP_INTENTS_COLLECTION,
+    OPEN_INTENT_STATUSES,
+    topupIntentRef,
+    updateTopupIntent,
+} from "@/lib/topup-intents";
+import type { TopupIntent } from "@/types";
+
+export const INTENT_STALE_MINUTES = 15;
+export const INTENT_EXPIRE_HOURS = 24;
+
+const SWEEP_BATCH_SIZE = 50;
+
+export type SweepOutcome = "credited" | "already_credited" | "failed" | "expired" | "pending" | "error";
+
+export interface SweepResult {
+    checked: number;
+    outcomes: Record<SweepOutcome, number>;
+    details: { orderId: string; outcome: SweepOutcome; detail?: string }[];
+}
+
+async function sweepIntent(gateway: RazorpayGateway, intent: TopupIntent, now: Date): Promise<{ outcome: SweepOutcome; detail?: string }> {
+    const payments = await gateway.fetchOrderPayments(intent.id);
+    const expired = now.getTime() - new Date(intent.createdAt).getTime() > INTENT_EXPIRE_HOURS * 60 * 60_000;
+
+    const captured = payments.find((p) => p.status === "captured" || p.status === "refunded");
+    if (captured) {
+        try {
+            const { credited, amount } = await creditRazorpayTopup({
+                paymentId: captured.id,
+                orderId: intent.id,
+                userId: intent.userId,
+                amountPaise: captured.amount,
+                source: "sweep",
+            });
+            return { outcome: credited ? "credited" : "already_credited", detail: `₹${amount}` };
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : "Crediting failed";
+            await updateTopupIntent(intent.id, "paid", { paymentId: captured.id, failureReason: reason });
+            return { outcome: "error", detail: reason };
+        }
+    }
+
+    // Authorized but not yet captured — Razorpay will capture or void it
+    if (payments.some((p) => p.status === "authorized" || p.status === "created") && !expired) {
+        return { outcome: "pending" };
+    }
+
+    const lastFailure = [...payments].reverse().find((p) => p.status === "failed");
+    if (expired) {
+        await updateTopupIntent(intent.id, "expired", {
+            failureReason: lastFailure?.errorDescription || (payments.length ? "Payment not completed" : "No payment made"),
+        });
+        return { outcome: "expired" };
+    }
+    if (lastFailure) {
+        if (intent.status !== "failed") {
+            await updateTopupIntent(intent.id, "failed", {
+                paymentId: lastFailure.id,
+                failureReason: lastFailure.errorDescription || "Payment failed",
+            });
+        }
+        return { outcome: "failed", detail: lastFailure.errorDescription };
+    }
+    return { outcome: "pending" };
+}
+
+/**
+ * Re-check stale open intents against Razorpay and settle them.
+ */
+export async function sweepTopupIntents(gateway: RazorpayGateway, now = new Date()): Promise<SweepResult> {
+    const staleBefore = new Date(now.getTime() - INTENT_STALE_MINUTES * 60_000).toISOString();
+
+    const snapshot = await adminDb.collection(TOPUP_INTENTS_COLLECTION)
+        .where("status", "in", OPEN_INTENT_STATUSES)
+        .where("updatedAt", "<=", staleBefore)
+        .orderBy("updatedAt", "asc")
+        .limit(SWEEP_BATCH_SIZE)
+        .get();
+
+    const result: SweepResult = {
+        checked: snapshot.size,
+        outcomes: { credited: 0, already_credited: 0, failed: 0, expired: 0, pending: 0, error: 0 },
+        details: [],
+    };
+
+    // Sequential — keeps Razorpay API usage gentle
+    for (const doc of snapshot.docs) {
+        const intent = { id: doc.id, ...doc.data() } as TopupIntent;
+        let swept: { outcome: SweepOutcome; detail?: string };
+        try {
+            swept = await sweepIntent(gateway, intent, now);
+        } catch (error) {
+            swept = { outcome: "error", detail: error instanceof Error ? error.message : "Sweep failed" };
+        }
+
+        result.outcomes[swept.outcome]++;
+        result.details.push({ orderId: intent.id, ...swept });
+
+        // Bump updatedAt so still-open intents go to the back of the queue
+        if (swept.outcome === "pending" || swept.outcome === "failed" || swept.outcome === "error") {
+            const nowIso = now.toISOString();
+            await topupIntentRef(intent.id).update({
+                sweepAttempts: (intent.sweepAttempts || 0) + 1,
+                lastSweptAt: nowIso,
+                updatedAt: nowIso,
+            });
+        }
+    }
+
+    if (result.checked > 0) {
+        console.log(`[TopupSweep] Checked ${result.checked}:`, JSON.stringify(result.outcomes));
+    }
+    return result;
+}
@@ -7,21 +7,38 @@
  */
 
 import { NextRequest } from "next/server";
+import type { DecodedIdToken } from "firebase-admin/auth";
 import { adminAuth } from "@/lib/firebase-admin";
 
 /**
  * Extract and verify the Firebase ID token from the Authorization header.
- * Returns the authenticated user's UID, or null if invalid/missing.
+ * Returns the decoded token, or null if invalid/missing.
  */
-export async function getAuthenticatedUser(req: NextRequest): Promise<string | null> {
+export async function getAuthenticatedToken(req: NextRequest): Promise<DecodedIdToken | null> {
     const authHeader = req.headers.get("authorization");
     if (!authHeader?.startsWith("Bearer ")) return null;
 
     const token = authHeader.slice(7);
     try {
-        const decoded = await adminAuth.verifyIdToken(token);
-        return decoded.uid;
+        return await adminAuth.verifyIdToken(token);
     } catch {
         return null;
     }
 }
+
+/**
+ * Extract and verify the Firebase ID token from the Authorization header.
+ * Returns the authenticated user's UID, or null if invalid/missing.
+ */
+export async function getAuthenticatedUser(req: NextRequest): Promise<string | null> {
+    const decoded = await getAuthenticatedToken(req);
+    return decoded?.uid ?? null;
+}
+
+/**
+ * Whether the user signed in (not just refreshed their token) within the last maxAgeSeconds.
+ * Used to gate sensitive actions such as resetting a forgotten PIN.
+ */
+export function isRecentLogin(decoded: DecodedIdToken, maxAgeSeconds: number): boolean {
+    return Date.now() / 1000 - decoded.auth_time <= maxAgeSeconds;
+}
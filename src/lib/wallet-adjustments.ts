@@ -0,0 +1,296 @@
+/**
+ * Wallet adjustments — manual admin credits/debits to a user's wallet.
+ *
+ *   pending → applied
+ *      ↘
+ *       rejected
+ *
+ * - Every adjustment needs a reason code and records the admin who asked
+ *   for it; it may link the order or feedback it settles.
+ * - Amounts up to the approval threshold (settings adjustmentApprovalThreshold)
+ *   are applied at once. Larger ones wait as "pending" until a different
+ *   admin approves them (four-eyes rule, as for withdrawals).
+ * - Applying updates the balance, writes the walletTransactions record and
+ *   journals the ledger entry in one transaction. Cash deposits come in from
+ *   external:admin_topup and are counted in the day's cash drawer
+ *   (lib/cash-deposits); every other reason is funded by equity:adjustments.
+ *
+ * SECURITY: Admin-only (callers verify the admin JWT); debits never take a
+ * wallet below zero.
+ */
+
+import { DocumentReference, DocumentSnapshot, FieldValue, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "@/lib/ledger";
+import { cashDrawerRef, countCashInDrawer, drawerDate } from "@/lib/cash-deposits";
+import type { CanteenConfig, WalletAdjustment, WalletAdjustmentReason } from "@/types";
+
+export const WALLET_ADJUSTMENTS_COLLECTION = "walletAdjustments";
+
+export const DEFAULT_ADJUSTMENT_APPROVAL_THRESHOLD = 500;
+export const MAX_ADJUSTMENT = 5000;
+
+const REASON_LABELS: Record<WalletAdjustmentReason, string> = {
+    goodwill: "Goodwill",
+    correction: "Correction",
+    cash_deposit: "Cash deposit",
+    complaint_compensation: "Complaint compensation",
+};
+
+/**
+ * Thrown when an adjustment cannot be requested or is not in a state that allows the action.
+ */
+export class AdjustmentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AdjustmentError";
+    }
+}
+
+/**
+ * Adjustments above this amount need a second admin.
+ */
+export function getAdjustmentApprovalThreshold(config?: Partial<CanteenConfig>): number {
+    const threshold = config?.adjustmentApprovalThreshold;
+    return typeof threshold === "number" && threshold >= 0 ? threshold : DEFAULT_ADJUSTMENT_APPROVAL_THRESHOLD;
+}
+
+// ─── Admin Input ────────────────────────────────
+
+export type AdjustmentInput = Pick<WalletAdjustment, "userId" | "direction" | "amount" | "reason" | "note" | "orderId" | "feedbackId">;
+
+function optionalId(v: unknown): string | undefined {
+    return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+/**
+ * Validate and normalise an adjustment from an admin request body.
+ * Returns an error message instead of throwing.
+ */
+export function parseAdjustmentInput(input: unknown): AdjustmentInput | string {
+    if (!input || typeof input !== "object") return "Adjustment details are required";
+    const raw = input as Record<string, unknown>;
+
+    const userId = optionalId(raw.userId);
+    if (!userId) return "userId is required";
+
+    if (raw.direction !== "credit" && raw.direction !== "debit") return "direction must be credit or debit";
+
+    const amount = Math.round(Number(raw.amount) * 100) / 100;
+    if (!Number.isFinite(amount) || amount <= 0) return "Amount must be positive";
+    if (amount > MAX_ADJUSTMENT) return `Maximum adjustment is ₹${MAX_ADJUSTMENT.toLocaleString("en-IN")}`;
+
+    const reason = raw.reason as WalletAdjustmentReason;
+    if (!(reason in REASON_LABELS)) {
+        return "reason must be goodwill, correction, cash_deposit or complaint_compensation";
+    }
+    if (reason === "cash_deposit" && raw.direction !== "credit") return "A cash deposit can only be a credit";
+
+    const note = typeof raw.note === "string" ? raw.note.trim().slice(0, 300) : "";
+    const orderId = optionalId(raw.orderId);
+    const feedbackId = optionalId(raw.feedbackId);
+
+    return {
+        userId,
+        direction: raw.direction,
+        amount,
+        reason,
+        ...(note ? { note } : {}),
+        ...(orderId ? { orderId } : {}),
+        ...(feedbackId ? { feedbackId } : {}),
+    };
+}
+
+// ─── Lifecycle ──────────────────────────────────
+
+function userRef(userId: string): DocumentReference {
+    return adminDb.collection("users").doc(userId);
+}
+
+interface AdjustmentTargets {
+    userDoc: DocumentSnapshot;
+    drawerDoc?: DocumentSnapshot;   // Today's cash drawer, for cash deposits
+}
+
+/**
+ * Check the user exists and that linked records belong to that user. Read-only — call in the transaction's read phase.
+ */
+async function readAdjustmentTargets(transaction: Transaction, input: AdjustmentInput): Promise<AdjustmentTargets> {
+    const userDoc = await transaction.get(userRef(input.userId));
+    if (!userDoc.exists) throw new AdjustmentError("User not found");
+
+    if (input.orderId) {
+        const orderDoc = await transaction.get(adminDb.collection("orders").doc(input.orderId));
+        if (!orderDoc.exists) throw new AdjustmentError(`Order ${input.orderId} not found`);
+        if (orderDoc.data()!.userId !== input.userId) {
+            throw new AdjustmentError("Linked order belongs to a different user");
+        }
+    }
+
+    if (input.feedbackId) {
+        // General feedback lives in userFeedbacks, order ratings in feedbacks
+        const [generalDoc, orderFeedbackDoc] = [
+            await transaction.get(adminDb.collection("userFeedbacks").doc(input.feedbackId)),
+            await transaction.get(adminDb.collection("feedbacks").doc(input.feedbackId)),
+        ];
+        const feedbackDoc = generalDoc.exists ? generalDoc : orderFeedbackDoc;
+        if (!feedbackDoc.exists) throw new AdjustmentError(`Feedback ${input.feedbackId} not found`);
+        if (feedbackDoc.data()!.userId !== input.userId) {
+            throw new AdjustmentError("Linked feedback belongs to a different user");
+        }
+    }
+
+    const drawerDoc = input.reason === "cash_deposit"
+        ? await transaction.get(cashDrawerRef(drawerDate()))
+        : undefined;
+
+    return { userDoc, drawerDoc };
+}
+
+/**
+ * Move the money and write the wallet transaction + ledger entry.
+ * Write-only — the targets must have been read in this transaction.
+ */
+function applyAdjustment(
+    transaction: Transaction,
+    adjustmentId: string,
+    adjustment: AdjustmentInput,
+    { userDoc, drawerDoc }: AdjustmentTargets,
+    actorId: string
+): string {
+    const { userId, direction, amount, reason } = adjustment;
+
+    if (direction === "debit" && (userDoc.data()!.walletBalance || 0) < amount) {
+        throw new AdjustmentError("Wallet balance is lower than the debit");
+    }
+
+    const signed = direction === "credit" ? amount : -amount;
+    const description = `${REASON_LABELS[reason]} ${direction} (Admin)${adjustment.orderId ? ` - Order ${adjustment.orderId}` : ""}`;
+
+    transaction.update(userDoc.ref, {
+        walletBalance: FieldValue.increment(signed),
+    });
+
+    const now = new Date().toISOString();
+    const txnRef = adminDb.collection("walletTransactions").doc();
+    transaction.set(txnRef, {
+        userId,
+        type: direction === "credit" ? "topup" : "payment",
+        amount,
+        description,
+        referenceId: adjustmentId,
+        transactionId: txnRef.id,
+        createdAt: now,
+    });
+
+    if (drawerDoc) countCashInDrawer(transaction, drawerDoc, amount, now);
+
+    const source = reason === "cash_deposit" ? LedgerAccounts.ADMIN_TOPUP : LedgerAccounts.ADJUSTMENTS;
+    postLedgerEntry(transaction, {
+        type: reason === "cash_deposit" ? "topup" : "adjustment",
+        description,
+        postings: transferPostings(source, LedgerAccounts.user(userId), signed),
+        referenceId: adjustmentId,
+        actorId,
+    });
+
+    return txnRef.id;
+}
+
+/**
+ * Record an adjustment, applying it straight away when it is within the
+ * approval threshold.
+ */
+export async function requestAdjustment(params: {
+    input: AdjustmentInput;
+    adminUsername: string;
+    approvalThreshold: number;
+}): Promise<{ adjustmentId: string; status: WalletAdjustment["status"] }> {
+    const { input, adminUsername, approvalThreshold } = params;
+    const adjustmentRef = adminDb.collection(WALLET_ADJUSTMENTS_COLLECTION).doc();
+    const requiresApproval = input.amount > approvalThreshold;
+
+    await adminDb.runTransaction(async (transaction) => {
+        const targets = await readAdjustmentTargets(transaction, input);
+        const now = new Date().toISOString();
+
+        const adjustment: Omit<WalletAdjustment, "id"> = {
+            ...input,
+            status: requiresApproval ? "pending" : "applied",
+            requiresApproval,
+            requestedBy: adminUsername,
+            requestedAt: now,
+        };
+
+        if (!requiresApproval) {
+            adjustment.walletTransactionId = applyAdjustment(transaction, adjustmentRef.id, input, targets, adminUsername);
+            adjustment.appliedAt = now;
+        }
+
+        transaction.set(adjustmentRef, adjustment);
+    });
+
+    console.log(
+        `[Adjustments] ${adjustmentRef.id} ${requiresApproval ? "requested" : "applied"}: ${input.direction} ₹${input.amount} ` +
+        `for ${input.userId} (${input.reason}) by ${adminUsername}`
+    );
+    return { adjustmentId: adjustmentRef.id, status: requiresApproval ? "pending" : "applied" };
+}
+
+/**
+ * Approve and apply a pending adjustment. The approver must not be the requester.
+ */
+export async function approveAdjustment(adjustmentId: string, adminUsername: string): Promise<void> {
+    const adjustmentRef = adminDb.collection(WALLET_ADJUSTMENTS_COLLECTION).doc(adjustmentId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(adjustmentRef);
+        if (!doc.exists) throw new AdjustmentError("Adjustment not found");
+
+        const adjustment = doc.data() as WalletAdjustment;
+        if (adjustment.status !== "pending") {
+            throw new AdjustmentError(`Adjustment is already ${adjustment.status}`);
+        }
+        if (adjustment.requestedBy === adminUsername) {
+            throw new AdjustmentError("A different admin must approve this adjustment");
+        }
+
+        const targets = await readAdjustmentTargets(transaction, adjustment);
+        const walletTransactionId = applyAdjustment(transaction, adjustmentId, adjustment, targets, adminUsername);
+
+        transaction.update(adjustmentRef, {
+            status: "applied",
+            approvedBy: adminUsername,
+            appliedAt: new Date().toISOString(),
+            walletTransactionId,
+        });
+    });
+
+    console.log(`[Adjustments] ${adjustmentId} approved by ${adminUsername}`);
+}
+
+/**
+ * Reject a pending adjustment; nothing was moved, so nothing is reversed.
+ */
+export async function rejectAdjustment(adjustmentId: string, adminUsername: string, reason: string): Promise<void> {
+    const adjustmentRef = adminDb.collection(WALLET_ADJUSTMENTS_COLLECTION).doc(adjustmentId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(adjustmentRef);
+        if (!doc.exists) throw new AdjustmentError("Adjustment not found");
+
+        const adjustment = doc.data() as WalletAdjustment;
+        if (adjustment.status !== "pending") {
+            throw new AdjustmentError(`Adjustment is already ${adjustment.status}`);
+        }
+
+        transaction.update(adjustmentRef, {
+            status: "rejected",
+            rejectedBy: adminUsername,
+            rejectedAt: new Date().toISOString(),
+            rejectionReason: reason,
+        });
+    });
+
+    console.log(`[Adjustments] ${adjustmentId} rejected by ${adminUsername}: ${reason}`);
+}
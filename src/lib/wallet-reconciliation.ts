@@ -0,0 +1,412 @@
+/**
+ * Wallet Reconciliation — proves the denormalised wallet numbers are right.
+ *
+ * Three checks:
+ * 1. Users:    users.walletBalance vs the signed sum of their walletTransactions
+ * 2. Canteen:  wallets/canteen_owner pendingAmount / totalBalance / reservedAmount
+ *              vs the orders in each status and the withdrawals in each status
+ * 3. Payments: payments/{payment_id} dedup docs vs "topup" walletTransactions
+ *
+ * Alongside, every stored balance is compared with the ledger (lib/ledger),
+ * which only covers history once opening balances have been posted.
+ *
+ * Corrections are applied in a Firestore transaction that recomputes the
+ * expected value first, so a stale report can never over-correct. Every
+ * correction is journaled in the ledger (when a balance moves) and audited
+ * in walletCorrections with the admin's username and reason.
+ */
+
+import { QueryDocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import {
+    postLedgerEntry,
+    transferPostings,
+    checkCanteenBalances,
+    checkUserBalances,
+    getOpeningBalancesPostedAt,
+    LedgerAccounts,
+    type BalanceCheck,
+} from "@/lib/ledger";
+import { toWalletTransactionType } from "@/lib/wallet-transaction-types";
+import type { Order, Payment, WalletTransaction } from "@/types";
+
+export const CORRECTIONS_COLLECTION = "walletCorrections";
+
+const ACTIVE_STATUSES = ["confirmed", "preparing", "ready"];
+
+/** Amounts are compared to the paisa */
+function round(n: number): number {
+    return Math.round(n * 100) / 100;
+}
+
+function differs(a: number, b: number): boolean {
+    return Math.abs(a - b) >= 0.005;
+}
+
+/**
+ * Effect of one walletTransactions record (legacy types included) on its owner's balance.
+ */
+export function signedTransactionAmount(txn: Pick<WalletTransaction, "amount" | "userId" | "toUserId"> & { type: string }): number {
+    const amount = Number(txn.amount) || 0;
+    switch (toWalletTransactionType(txn.type)) {
+        case "topup":
+        case "refund":
+            return amount;
+        case "payment":
+            return -amount;
+        case "transfer":
+            // Each side of a P2P transfer has its own record; the receiver's has toUserId === userId
+            return txn.toUserId === txn.userId ? amount : -amount;
+        default:
+            return 0;
+    }
+}
+
+// ─── Report Types ───────────────────────────────
+
+export interface UserDiscrepancy {
+    userId: string;
+    name: string;
+    walletBalance: number;
+    transactionsTotal: number;
+    /** walletBalance − transactionsTotal */
+    drift: number;
+}
+
+/** Canteen wallet fields, in the same order as checkCanteenBalances() */
+export const CANTEEN_FIELDS = ["pendingAmount", "totalBalance", "reservedAmount"] as const;
+export type CanteenField = (typeof CANTEEN_FIELDS)[number];
+
+export interface CanteenDiscrepancy {
+    field: CanteenField;
+    stored: number;
+    expected: number;
+    drift: number;
+}
+
+export interface PaymentDiscrepancy {
+    paymentId: string;
+    userId: string;
+    issue: "missing_topup" | "missing_payment" | "amount_mismatch";
+    paymentAmount?: number;
+    topupAmount?: number;
+}
+
+export interface ReconciliationReport {
+    users: UserDiscrepancy[];
+    usersChecked: number;
+    canteen: CanteenDiscrepancy[];
+    /** Ledger-derived canteen balances (see lib/ledger) */
+    canteenLedger: BalanceCheck[];
+    /** User wallets whose walletBalance differs from their ledger account */
+    usersLedger: BalanceCheck[];
+    /** null until opening balances are posted — before that, ledger drift is expected */
+    openingBalancesPostedAt: string | null;
+    payments: PaymentDiscrepancy[];
+    paymentsChecked: number;
+    generatedAt: string;
+}
+
+// ─── Checks ─────────────────────────────────────
+
+async function reconcileUsers(): Promise<{ users: UserDiscrepancy[]; checked: number }> {
+    const [usersSnap, txnSnap] = await Promise.all([
+        adminDb.collection("users").get(),
+        adminDb.collection("walletTransactions").get(),
+    ]);
+
+    const totals = new Map<string, number>();
+    for (const doc of txnSnap.docs) {
+        const txn = doc.data() as WalletTransaction;
+        if (!txn.userId) continue;
+        totals.set(txn.userId, (totals.get(txn.userId) || 0) + signedTransactionAmount(txn));
+    }
+
+    const users: UserDiscrepancy[] = [];
+    for (const doc of usersSnap.docs) {
+        const data = doc.data();
+        const walletBalance = round(data.walletBalance || 0);
+        const transactionsTotal = round(totals.get(doc.id) || 0);
+        if (differs(walletBalance, transactionsTotal)) {
+            users.push({
+                userId: doc.id,
+                name: data.name || "Unknown",
+                walletBalance,
+                transactionsTotal,
+                drift: round(walletBalance - transactionsTotal),
+            });
+        }
+    }
+
+    users.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+    return { users, checked: usersSnap.size };
+}
+
+/**
+ * Expected canteen wallet numbers, derived from orders and withdrawals.
+ * Pass a transaction to read consistently while correcting.
+ */
+async function expectedCanteenBalances(transaction?: Transaction): Promise<Record<CanteenField, number>> {
+    const activeQuery = adminDb.collection("orders").where("status", "in", ACTIVE_STATUSES);
+    const completedQuery = adminDb.collection("orders").where("status", "==", "completed");
+    const withdrawalsQuery = adminDb.collection("withdrawals");
+
+    const [activeSnap, completedSnap, withdrawalsSnap] = transaction
+        ? [
+            await transaction.get(activeQuery),
+            await transaction.get(completedQuery),
+            await transaction.get(withdrawalsQuery),
+        ]
+        : await Promise.all([activeQuery.get(), completedQuery.get(), withdrawalsQuery.get()]);
+
+    const sumTotals = (docs: QueryDocumentSnapshot[]) =>
+        docs.reduce((sum, d) => sum + (Number((d.data() as Order).total) || 0), 0);
+
+    // Requested/approved withdrawals sit in reservedAmount; paid (and legacy "completed"
+    // or status-less) ones have left. Either way they are out of totalBalance.
+    const sumWithdrawals = (statuses: (string | undefined)[]) => withdrawalsSnap.docs
+        .filter((d) => statuses.includes(d.data().status))
+        .reduce((sum, d) => sum + (Number(d.data().amount) || 0), 0);
+    const reserved = sumWithdrawals(["requested", "approved"]);
+    const withdrawn = sumWithdrawals([undefined, "completed", "paid"]);
+
+    return {
+        pendingAmount: round(sumTotals(activeSnap.docs)),
+        totalBalance: round(sumTotals(completedSnap.docs) - withdrawn - reserved),
+        reservedAmount: round(reserved),
+    };
+}
+
+async function reconcileCanteen(): Promise<CanteenDiscrepancy[]> {
+    const [walletDoc, expected] = await Promise.all([
+        adminDb.collection("wallets").doc("canteen_owner").get(),
+        expectedCanteenBalances(),
+    ]);
+    const wallet = walletDoc.data() || {};
+
+    const result: CanteenDiscrepancy[] = [];
+    for (const field of CANTEEN_FIELDS) {
+        const stored = round(wallet[field] || 0);
+        if (differs(stored, expected[field])) {
+            result.push({ field, stored, expected: expected[field], drift: round(stored - expected[field]) });
+        }
+    }
+    return result;
+}
+
+async function reconcilePayments(): Promise<{ payments: PaymentDiscrepancy[]; checked: number }> {
+    const [paymentsSnap, topupsSnap] = await Promise.all([
+        adminDb.collection("payments").get(),
+        adminDb.collection("walletTransactions").where("type", "==", "topup").get(),
+    ]);
+
+    const topups = new Map<string, WalletTransaction>();
+    for (const doc of topupsSnap.docs) {
+        const txn = doc.data() as WalletTransaction;
+        if (txn.razorpayPaymentId) topups.set(txn.razorpayPaymentId, txn);
+    }
+
+    const payments: PaymentDiscrepancy[] = [];
+    for (const doc of paymentsSnap.docs) {
+        const payment = doc.data() as Payment;
+        const topup = topups.get(doc.id);
+        topups.delete(doc.id);
+
+        // Failed attempts (recorded by the webhook) are never credited
+        if (payment.status === "failed") continue;
+
+        if (!topup) {
+            payments.push({ paymentId: doc.id, userId: payment.userId, issue: "missing_topup", paymentAmount: payment.amount });
+        } else if (differs(payment.amount, topup.amount)) {
+            payments.push({
+                paymentId: doc.id,
+                userId: payment.userId,
+                issue: "amount_mismatch",
+                paymentAmount: payment.amount,
+                topupAmount: topup.amount,
+            });
+        }
+    }
+
+    // Top-ups that claim a Razorpay payment we never recorded
+    for (const [paymentId, topup] of topups) {
+        payments.push({ paymentId, userId: topup.userId, issue: "missing_payment", topupAmount: topup.amount });
+    }
+
+    return { payments, checked: paymentsSnap.size };
+}
+
+/**
+ * Run every check. Reads whole collections — admin tool, not for hot paths.
+ */
+export async function buildReconciliationReport(): Promise<ReconciliationReport> {
+    const [users, canteen, canteenLedger, usersLedger, openingBalancesPostedAt, payments] = await Promise.all([
+        reconcileUsers(),
+        reconcileCanteen(),
+        checkCanteenBalances(),
+        checkUserBalances(),
+        getOpeningBalancesPostedAt(),
+        reconcilePayments(),
+    ]);
+
+    return {
+        users: users.users,
+        usersChecked: users.checked,
+        canteen,
+        canteenLedger,
+        usersLedger,
+        openingBalancesPostedAt,
+        payments: payments.payments,
+        paymentsChecked: payments.checked,
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+// ─── Corrections ────────────────────────────────
+
+export type CorrectionAction =
+    /** Set users.walletBalance to the walletTransactions total */
+    | "user_balance"
+    /** Record a correcting walletTransactions entry so the history matches the balance */
+    | "user_transactions"
+    /** Set wallets/canteen_owner pendingAmount/totalBalance/reservedAmount to the order- and withdrawal-derived values */
+    | "canteen"
+    /** Record the missing "topup" walletTransactions entry for a payments doc */
+    | "payment_topup";
+
+export const CORRECTION_ACTIONS: CorrectionAction[] = ["user_balance", "user_transactions", "canteen", "payment_topup"];
+
+export interface CorrectionRequest {
+    action: CorrectionAction;
+    /** userId for user_* actions, payment id for payment_topup */
+    target?: string;
+    reason: string;
+    adminUsername: string;
+}
+
+export interface CorrectionResult {
+    correctionId: string;
+    changes: Record<string, { before: number; after: number }>;
+}
+
+/**
+ * Apply one audited correction. Throws if there is nothing to correct.
+ */
+export async function applyCorrection(request: CorrectionRequest): Promise<CorrectionResult> {
+    const { action, target, reason, adminUsername } = request;
+    const auditRef = adminDb.collection(CORRECTIONS_COLLECTION).doc();
+    const now = new Date().toISOString();
+
+    const changes = await adminDb.runTransaction(async (transaction) => {
+        const changes: CorrectionResult["changes"] = {};
+
+        if (action === "user_balance" || action === "user_transactions") {
+            if (!target) throw new Error("User ID required");
+            const userRef = adminDb.collection("users").doc(target);
+            const userDoc = await transaction.get(userRef);
+            if (!userDoc.exists) throw new Error("User not found");
+            const txnSnap = await transaction.get(adminDb.collection("walletTransactions").where("userId", "==", target));
+
+            const walletBalance = round(userDoc.data()?.walletBalance || 0);
+            const transactionsTotal = round(txnSnap.docs.reduce(
+                (sum, d) => sum + signedTransactionAmount(d.data() as WalletTransaction), 0
+            ));
+            const drift = round(walletBalance - transactionsTotal);
+            if (!differs(drift, 0)) throw new Error("Wallet is already reconciled");
+
+            if (action === "user_balance") {
+                transaction.update(userRef, { walletBalance: transactionsTotal });
+                postLedgerEntry(transaction, {
+                    type: "adjustment",
+                    description: `Reconciliation: walletBalance ${walletBalance} → ${transactionsTotal}`,
+                    postings: transferPostings(LedgerAccounts.ADJUSTMENTS, LedgerAccounts.user(target), -drift),
+                    referenceId: auditRef.id,
+                    actorId: adminUsername,
+                });
+                changes.walletBalance = { before: walletBalance, after: transactionsTotal };
+            } else {
+                const txnRef = adminDb.collection("walletTransactions").doc();
+                transaction.set(txnRef, {
+                    userId: target,
+                    type: drift > 0 ? "topup" : "payment",
+                    amount: Math.abs(drift),
+                    description: "Reconciliation correction",
+                    referenceId: auditRef.id,
+                    transactionId: txnRef.id,
+                    createdAt: now,
+                });
+                changes.transactionsTotal = { before: transactionsTotal, after: walletBalance };
+            }
+        } else if (action === "canteen") {
+            const walletRef = adminDb.collection("wallets").doc("canteen_owner");
+            const walletDoc = await transaction.get(walletRef);
+            const expected = await expectedCanteenBalances(transaction);
+            const wallet = walletDoc.data() || {};
+
+            const updates: Record<string, number | string> = {};
+            const ledgerAccounts: Record<CanteenField, string> = {
+                pendingAmount: LedgerAccounts.CANTEEN_PENDING,
+                totalBalance: LedgerAccounts.CANTEEN_BALANCE,
+                reservedAmount: LedgerAccounts.CANTEEN_RESERVED,
+            };
+            for (const field of CANTEEN_FIELDS) {
+                const stored = round(wallet[field] || 0);
+                if (!differs(stored, expected[field])) continue;
+                updates[field] = expected[field];
+                changes[field] = { before: stored, after: expected[field] };
+                postLedgerEntry(transaction, {
+                    type: "adjustment",
+                    description: `Reconciliation: canteen ${field} ${stored} → ${expected[field]}`,
+                    postings: transferPostings(LedgerAccounts.ADJUSTMENTS, ledgerAccounts[field], round(expected[field] - stored)),
+                    referenceId: auditRef.id,
+                    actorId: adminUsername,
+                });
+            }
+            if (Object.keys(updates).length === 0) throw new Error("Canteen wallet is already reconciled");
+
+            updates.lastUpdated = now;
+            transaction.set(walletRef, updates, { merge: true });
+        } else if (action === "payment_topup") {
+            if (!target) throw new Error("Payment ID required");
+            const paymentDoc = await transaction.get(adminDb.collection("payments").doc(target));
+            if (!paymentDoc.exists) throw new Error("Payment not found");
+            const existing = await transaction.get(
+                adminDb.collection("walletTransactions").where("razorpayPaymentId", "==", target).limit(1)
+            );
+            if (!existing.empty) throw new Error("Top-up transaction already exists");
+
+            const payment = paymentDoc.data() as Payment;
+            if (payment.status === "failed") throw new Error("Payment failed — nothing to credit");
+            const txnRef = adminDb.collection("walletTransactions").doc();
+            transaction.set(txnRef, {
+                userId: payment.userId,
+                fromUserId: "razorpay",
+                toUserId: payment.userId,
+                type: "topup",
+                amount: payment.amount,
+                description: "Wallet top-up via Razorpay (reconciled)",
+                razorpayPaymentId: target,
+                ...(payment.razorpayOrderId ? { razorpayOrderId: payment.razorpayOrderId } : {}),
+                referenceId: auditRef.id,
+                transactionId: txnRef.id,
+                createdAt: now,
+            });
+            changes.topupAmount = { before: 0, after: payment.amount };
+        } else {
+            throw new Error(`Unknown correction: ${action}`);
+        }
+
+        transaction.set(auditRef, {
+            action,
+            ...(target ? { target } : {}),
+            changes,
+            reason,
+            adminUsername,
+            createdAt: now,
+        });
+        return changes;
+    });
+
+    console.log(`[Reconcile] ${adminUsername} applied ${action}${target ? ` on ${target}` : ""}:`, changes);
+    return { correctionId: auditRef.id, changes };
+}
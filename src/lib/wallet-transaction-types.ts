@@ -0,0 +1,32 @@
+/**
+ * Wallet Transaction Types — what walletTransactions.type means.
+ *
+ * Writers store WalletTransaction["type"]: money into the wallet is a
+ * "topup" (or "refund"), money out is a "payment", and P2P moves are
+ * "transfer". Records written before that was enforced (order payments,
+ * admin top-ups) carry "debit" / "credit"; readers pass every record
+ * through readWalletTransaction() so they see the same four types.
+ *
+ * Pure module (no Firestore access) — safe to import from client components.
+ */
+
+import type { WalletTransaction } from "@/types";
+
+type WalletTransactionType = WalletTransaction["type"];
+
+/** Legacy stored type → current type */
+const LEGACY_TYPES: Record<string, WalletTransactionType> = {
+    credit: "topup",
+    debit: "payment",
+};
+
+export function toWalletTransactionType(stored: string): WalletTransactionType {
+    return LEGACY_TYPES[stored] || (stored as WalletTransactionType);
+}
+
+/** A stored walletTransactions record with its legacy type mapped. */
+export function readWalletTransaction<T extends { type: string }>(
+    data: T
+): Omit<T, "type"> & { type: WalletTransactionType } {
+    return { ...data, type: toWalletTransactionType(data.type) };
+}
@@ -0,0 +1,76 @@
+/**
+ * Wallet-to-wallet transfers — the write half shared by direct transfers
+ * (/api/wallet/transfer) and paid money requests (lib/money-requests).
+ *
+ * Callers do their own reads, PIN check and balance check inside the
+ * transaction first; recordTransfer() only writes:
+ *   - both balance increments
+ *   - a "transfer" walletTransactions record for each side, sharing referenceId
+ *   - the user:{from} → user:{to} ledger entry
+ */
+
+import { FieldValue, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "@/lib/ledger";
+
+export interface TransferParams {
+    fromId: string;
+    fromName: string;
+    toId: string;
+    toName: string;
+    amount: number;
+    /** Links both records (e.g. a money request or bill split); defaults to the debit record's id */
+    referenceId?: string;
+    debitDescription?: string;
+    creditDescription?: string;
+}
+
+/**
+ * Record a transfer inside a transaction whose reads are already done.
+ * Returns the shared reference id.
+ */
+export function recordTransfer(transaction: Transaction, params: TransferParams): string {
+    const { fromId, fromName, toId, toName, amount } = params;
+    const usersRef = adminDb.collection("users");
+    const debitRef = adminDb.collection("walletTransactions").doc();
+    const creditRef = adminDb.collection("walletTransactions").doc();
+    const referenceId = params.referenceId || debitRef.id;
+    const now = new Date().toISOString();
+
+    transaction.update(usersRef.doc(fromId), { walletBalance: FieldValue.increment(-amount) });
+    transaction.update(usersRef.doc(toId), { walletBalance: FieldValue.increment(amount) });
+
+    transaction.set(debitRef, {
+        userId: fromId,
+        fromUserId: fromId,
+        toUserId: toId,
+        type: "transfer",
+        amount,
+        description: params.debitDescription || `Transfer to ${toName}`,
+        referenceId,
+        transactionId: debitRef.id,
+        createdAt: now,
+    });
+
+    transaction.set(creditRef, {
+        userId: toId,
+        fromUserId: fromId,
+        toUserId: toId,
+        type: "transfer",
+        amount,
+        description: params.creditDescription || `Received from ${fromName}`,
+        referenceId,
+        transactionId: creditRef.id,
+        createdAt: now,
+    });
+
+    postLedgerEntry(transaction, {
+        type: "transfer",
+        description: `Transfer ${fromName} → ${toName}`,
+        postings: transferPostings(LedgerAccounts.user(fromId), LedgerAccounts.user(toId), amount),
+        referenceId,
+        actorId: fromId,
+    });
+
+    return referenceId;
+}
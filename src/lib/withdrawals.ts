@@ -0,0 +1,251 @@
+/**
+ * Canteen withdrawals — payout lifecycle for wallets/canteen_owner.
+ *
+ *   requested → approved → paid
+ *        ↘          ↘
+ *         rejected   rejected
+ *
+ * - Requesting moves the amount from totalBalance into reservedAmount, so
+ *   it cannot be withdrawn twice while the payout is pending.
+ * - A different admin from the requester must approve (four-eyes rule).
+ * - Marking paid records the bank/UPI reference and releases the reserve
+ *   out of the system; rejecting returns it to totalBalance.
+ *
+ * Every step is journaled in the ledger (canteen:balance ⇄ canteen:reserved
+ * → external:payouts) inside the same transaction as the wallet update.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { postLedgerEntry, transferPostings, LedgerAccounts } from "@/lib/ledger";
+import type { PayoutDetails, Withdrawal } from "@/types";
+
+export const WITHDRAWALS_COLLECTION = "withdrawals";
+
+const UPI_ID_PATTERN = /^[\w.-]{2,256}@[a-zA-Z]{2,64}$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+
+/**
+ * Thrown when a withdrawal is not in a state that allows the action.
+ */
+export class WithdrawalError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "WithdrawalError";
+    }
+}
+
+/**
+ * Validate and normalise payout details from a request body.
+ * Returns an error message instead of throwing.
+ */
+export function parsePayoutDetails(input: unknown): PayoutDetails | string {
+    if (!input || typeof input !== "object") return "Payout details are required";
+    const raw = input as Record<string, unknown>;
+    const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+    if (raw.method === "upi") {
+        const upiId = str(raw.upiId).toLowerCase();
+        if (!UPI_ID_PATTERN.test(upiId)) return "Enter a valid UPI ID (e.g. name@bank)";
+        return { method: "upi", upiId };
+    }
+
+    if (raw.method === "bank") {
+        const accountName = str(raw.accountName).slice(0, 100);
+        const accountNumber = str(raw.accountNumber).replace(/\s/g, "");
+        const ifsc = str(raw.ifsc).toUpperCase();
+        const bankName = str(raw.bankName).slice(0, 100);
+        if (!accountName) return "Account holder name is required";
+        if (!ACCOUNT_NUMBER_PATTERN.test(accountNumber)) return "Account number must be 9–18 digits";
+        if (!IFSC_PATTERN.test(ifsc)) return "Enter a valid IFSC code";
+        return { method: "bank", accountName, accountNumber, ifsc, ...(bankName ? { bankName } : {}) };
+    }
+
+    return "Payout method must be upi or bank";
+}
+
+// ─── Lifecycle ──────────────────────────────────
+
+/**
+ * Reserve `amount` from the canteen balance and open a withdrawal request.
+ */
+export async function requestWithdrawal(params: {
+    amount: number;
+    payout: PayoutDetails;
+    note?: string;
+    adminUsername: string;
+}): Promise<string> {
+    const { amount, payout, note, adminUsername } = params;
+    const walletRef = adminDb.collection("wallets").doc("canteen_owner");
+    const withdrawRef = adminDb.collection(WITHDRAWALS_COLLECTION).doc();
+
+    await adminDb.runTransaction(async (transaction) => {
+        const walletDoc = await transaction.get(walletRef);
+        if (!walletDoc.exists) throw new WithdrawalError("Wallet not found");
+
+        const currentBalance = walletDoc.data()!.totalBalance || 0;
+        if (currentBalance < amount) {
+            throw new WithdrawalError("Insufficient balance for withdrawal");
+        }
+
+        const now = new Date().toISOString();
+
+        // Move the amount into the reserved bucket until it is paid or rejected
+        transaction.update(walletRef, {
+            totalBalance: FieldValue.increment(-amount),
+            reservedAmount: FieldValue.increment(amount),
+            lastUpdated: now,
+        });
+
+        const withdrawal: Omit<Withdrawal, "id"> = {
+            amount,
+            status: "requested",
+            payout,
+            ...(note ? { note } : {}),
+            requestedBy: adminUsername,
+            requestedAt: now,
+        };
+        transaction.set(withdrawRef, withdrawal);
+
+        postLedgerEntry(transaction, {
+            type: "withdrawal",
+            description: "Withdrawal requested — amount reserved",
+            postings: transferPostings(LedgerAccounts.CANTEEN_BALANCE, LedgerAccounts.CANTEEN_RESERVED, amount),
+            referenceId: withdrawRef.id,
+            actorId: adminUsername,
+        });
+    });
+
+    console.log(`[Withdrawals] ${withdrawRef.id} requested: ₹${amount} by ${adminUsername}`);
+    return withdrawRef.id;
+}
+
+/**
+ * Approve a requested withdrawal. The approver must not be the requester.
+ */
+export async function approveWithdrawal(withdrawalId: string, adminUsername: string): Promise<void> {
+    const withdrawRef = adminDb.collection(WITHDRAWALS_COLLECTION).doc(withdrawalId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(withdrawRef);
+        if (!doc.exists) throw new WithdrawalError("Withdrawal not found");
+
+        const withdrawal = doc.data() as Withdrawal;
+        if (withdrawal.status !== "requested") {
+            throw new WithdrawalError(`Cannot approve a ${withdrawal.status} withdrawal`);
+        }
+        if (withdrawal.requestedBy === adminUsername) {
+            throw new WithdrawalError("A different admin must approve this withdrawal");
+        }
+
+        transaction.update(withdrawRef, {
+            status: "approved",
+            approvedBy: adminUsername,
+            approvedAt: new Date().toISOString(),
+        });
+    });
+
+    console.log(`[Withdrawals] ${withdrawalId} approved by ${adminUsername}`);
+}
+
+/**
+ * Record that an approved withdrawal was transferred to the payout account.
+ */
+export async function markWithdrawalPaid(withdrawalId: string, adminUsername: string, payoutReference: string): Promise<void> {
+    const walletRef = adminDb.collection("wallets").doc("canteen_owner");
+    const withdrawRef = adminDb.collection(WITHDRAWALS_COLLECTION).doc(withdrawalId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(withdrawRef);
+        if (!doc.exists) throw new WithdrawalError("Withdrawal not found");
+
+        const withdrawal = doc.data() as Withdrawal;
+        if (withdrawal.status !== "approved") {
+            throw new WithdrawalError(
+                withdrawal.status === "requested"
+                    ? "Withdrawal must be approved before it is paid"
+                    : `Cannot pay a ${withdrawal.status} withdrawal`
+            );
+        }
+
+        const now = new Date().toISOString();
+
+        transaction.update(withdrawRef, {
+            status: "paid",
+            paidBy: adminUsername,
+            paidAt: now,
+            processedAt: now,
+            payoutReference,
+        });
+
+        transaction.update(walletRef, {
+            reservedAmount: FieldValue.increment(-withdrawal.amount),
+            lastUpdated: now,
+        });
+
+        // Record Global Transaction
+        const txnRef = adminDb.collection("canteenTransactions").doc();
+        transaction.set(txnRef, {
+            amount: withdrawal.amount,
+            type: "withdrawal",
+            description: `Wallet Withdrawal (${payoutReference})`,
+            withdrawalId,
+            createdAt: now,
+        });
+
+        postLedgerEntry(transaction, {
+            type: "withdrawal",
+            description: `Withdrawal paid out (${payoutReference})`,
+            postings: transferPostings(LedgerAccounts.CANTEEN_RESERVED, LedgerAccounts.PAYOUTS, withdrawal.amount),
+            referenceId: withdrawalId,
+            actorId: adminUsername,
+        });
+    });
+
+    console.log(`[Withdrawals] ${withdrawalId} paid by ${adminUsername} (ref ${payoutReference})`);
+}
+
+/**
+ * Reject a withdrawal that has not been paid and return the reserve to the balance.
+ */
+export async function rejectWithdrawal(withdrawalId: string, adminUsername: string, reason: string): Promise<void> {
+    const walletRef = adminDb.collection("wallets").doc("canteen_owner");
+    const withdrawRef = adminDb.collection(WITHDRAWALS_COLLECTION).doc(withdrawalId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(withdrawRef);
+        if (!doc.exists) throw new WithdrawalError("Withdrawal not found");
+
+        const withdrawal = doc.data() as Withdrawal;
+        if (withdrawal.status !== "requested" && withdrawal.status !== "approved") {
+            throw new WithdrawalError(`Cannot reject a ${withdrawal.status} withdrawal`);
+        }
+
+        const now = new Date().toISOString();
+
+        transaction.update(withdrawRef, {
+            status: "rejected",
+            rejectedBy: adminUsername,
+            rejectedAt: now,
+            rejectionReason: reason,
+            processedAt: now,
+        });
+
+        transaction.update(walletRef, {
+            reservedAmount: FieldValue.increment(-withdrawal.amount),
+            totalBalance: FieldValue.increment(withdrawal.amount),
+            lastUpdated: now,
+        });
+
+        postLedgerEntry(transaction, {
+            type: "withdrawal",
+            description: "Withdrawal rejected — reserve released",
+            postings: transferPostings(LedgerAccounts.CANTEEN_RESERVED, LedgerAccounts.CANTEEN_BALANCE, withdrawal.amount),
+            referenceId: withdrawalId,
+            actorId: adminUsername,
+        });
+    });
+
+    console.log(`[Withdrawals] ${withdrawalId} rejected by ${adminUsername}: ${reason}`);
+}
@@ -21,8 +21,8 @@ export async function getStats(): Promise<Record<string, unknown>> {
 
 export async function updateOrder(
     orderId: string,
-    data: { status?: string; prepTime?: number }
-): Promise<{ success: boolean }> {
+    data: { status?: string; prepTime?: number; wasted?: boolean }
+): Promise<{ success: boolean; error?: string }> {
     const res = await fetch("/api/admin/orders", {
         method: "PATCH",
         headers: getAdminHeaders(),
@@ -27,3 +27,35 @@ export async function lookupByUniqueCode(
     if (!res.ok) return null;
     return res.json();
 }
+
+export async function changePin(
+    token: string,
+    oldPin: string,
+    newPin: string
+): Promise<{ success?: boolean; error?: string; attemptsLeft?: number }> {
+    const res = await fetch("/api/users/change-pin", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ oldPin, newPin }),
+    });
+    return res.json();
+}
+
+/** Requires an ID token from a sign-in within the last few minutes */
+export async function resetPin(
+    token: string,
+    newPin: string
+): Promise<{ success?: boolean; error?: string; reauthRequired?: boolean; pinToken?: string; expiresAt?: string }> {
+    const res = await fetch("/api/users/reset-pin", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ newPin }),
+    });
+    return res.json();
+}
@@ -8,8 +8,8 @@ export interface AutoOrderResponse {
     error?: string;
 }
 
-export async function getAutoOrders(token: string, userId: string): Promise<AutoOrderResponse> {
-    const res = await fetch(`/api/auto-orders?userId=${userId}`, {
+export async function getAutoOrders(token: string): Promise<AutoOrderResponse> {
+    const res = await fetch("/api/auto-orders", {
         headers: { Authorization: `Bearer ${token}` },
     });
     return res.json();
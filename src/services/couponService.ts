@@ -0,0 +1,29 @@
+/**
+ * Coupon Service — Client-side API wrappers for promo codes.
+ */
+
+import type { CartItem } from "@/types";
+import type { PriceBreakdown } from "@/lib/order-pricing";
+
+export async function validateCoupon(
+    token: string,
+    items: CartItem[],
+    couponCode: string
+): Promise<{ valid?: boolean; couponCode?: string; description?: string | null; discount?: number; breakdown?: PriceBreakdown; error?: string }> {
+    const res = await fetch("/api/coupons/validate", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+            couponCode,
+            items: items.map((item) => ({
+                id: item.id,
+                quantity: item.quantity,
+                selectedOptions: item.selectedOptions,
+            })),
+        }),
+    });
+    return res.json();
+}
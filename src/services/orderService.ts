@@ -3,6 +3,9 @@
  */
 
 import type { OrderItem } from "@/types";
+import type { PriceBreakdown } from "@/lib/order-pricing";
+import type { SlotAvailability } from "@/lib/pickup-slot-capacity";
+import { fetchWithPin } from "@/services/pinService";
 
 export async function createOrder(
     token: string,
@@ -10,18 +13,22 @@ export async function createOrder(
         userId: string;
         items: OrderItem[];
         total: number;
+        couponCode?: string;
+        redeemPoints?: number;
+        pickupSlotId?: string;
         userName: string;
         userEmail: string;
-    }
-): Promise<{ success: boolean; orderId?: string; error?: string }> {
-    const res = await fetch("/api/orders", {
+    },
+    getPinToken: () => Promise<string | null> = async () => null
+): Promise<{ success: boolean; orderId?: string; total?: number; breakdown?: PriceBreakdown; pinRequired?: boolean; couponInvalid?: boolean; pointsInvalid?: boolean; slotInvalid?: boolean; scheduledFor?: string; estimatedReadyAt?: string; error?: string }> {
+    const res = await fetchWithPin("/api/orders", {
         method: "POST",
         headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify(data),
-    });
+    }, getPinToken);
     return res.json();
 }
 
@@ -35,3 +42,45 @@ export async function getOrders(
     if (!res.ok) throw new Error("Failed to fetch orders");
     return res.json();
 }
+
+export async function cancelOrder(
+    token: string,
+    orderId: string,
+    reason?: string
+): Promise<{ success: boolean; refunded?: number; restocked?: boolean; error?: string }> {
+    const res = await fetch("/api/orders/cancel", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ orderId, reason }),
+    });
+    return res.json();
+}
+
+export async function getPickupSlots(
+    token: string
+): Promise<{ enabled: boolean; capacityUnit?: "orders" | "items"; slots: SlotAvailability[] }> {
+    const res = await fetch("/api/pickup-slots", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error("Failed to fetch pickup slots");
+    return res.json();
+}
+
+export async function getOrderEta(
+    token: string,
+    items: { id: string; quantity: number }[]
+): Promise<{ estimatedReadyAt: string; minutes: number; ordersAhead: number }> {
+    const res = await fetch("/api/orders/eta", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ items }),
+    });
+    if (!res.ok) throw new Error("Failed to estimate ready time");
+    return res.json();
+}
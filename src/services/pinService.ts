@@ -0,0 +1,29 @@
+/**
+ * PIN Service — Client-side helper for PIN step-up protected endpoints.
+ *
+ * Money-moving endpoints answer 403 { pinRequired: true } when the request
+ * has no valid X-Pin-Token. fetchWithPin() then asks for a token (which may
+ * prompt for the PIN, see AuthContext.getPinToken) and retries once.
+ */
+
+export const PIN_TOKEN_HEADER = "X-Pin-Token";
+
+export async function fetchWithPin(
+    url: string,
+    init: RequestInit,
+    getPinToken: () => Promise<string | null>
+): Promise<Response> {
+    const res = await fetch(url, init);
+    if (res.status !== 403) return res;
+
+    const data = await res.clone().json().catch(() => null);
+    if (!data?.pinRequired) return res;
+
+    const pinToken = await getPinToken();
+    if (!pinToken) return res; // User cancelled the PIN prompt
+
+    return fetch(url, {
+        ...init,
+        headers: { ...(init.headers as Record<string, string>), [PIN_TOKEN_HEADER]: pinToken },
+    });
+}
@@ -2,7 +2,8 @@
  * Wallet Service — Client-side API wrappers for wallet operations.
  */
 
-import type { WalletTransaction } from "@/types";
+import type { BillSplitMode, LoyaltyTransaction, WalletTransaction } from "@/types";
+import { fetchWithPin } from "@/services/pinService";
 
 export async function getWallet(
     token: string,
@@ -18,15 +19,116 @@ export async function getWallet(
 export async function transferByCode(
     token: string,
     recipientCode: string,
-    amount: number
-): Promise<{ success: boolean; message?: string; error?: string }> {
-    const res = await fetch("/api/wallet/transfer", {
+    amount: number,
+    getPinToken: () => Promise<string | null> = async () => null
+): Promise<{ success: boolean; message?: string; pinRequired?: boolean; error?: string }> {
+    const res = await fetchWithPin("/api/wallet/transfer", {
         method: "POST",
         headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({ recipientCode, amount }),
+    }, getPinToken);
+    return res.json();
+}
+
+export interface LoyaltyInfo {
+    enabled: boolean;
+    points: number;
+    pointValue: number;
+    pointsPerRupee: number;
+    minRedeemPoints: number;
+    nextExpiry: { points: number; expiresAt: string } | null;
+    transactions: LoyaltyTransaction[];
+}
+
+export async function getLoyalty(token: string): Promise<LoyaltyInfo> {
+    const res = await fetch("/api/wallet/loyalty", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error("Failed to fetch loyalty points");
+    return res.json();
+}
+
+export async function convertLoyaltyPoints(
+    token: string,
+    points: number
+): Promise<{ success?: boolean; points?: number; amount?: number; error?: string }> {
+    const res = await fetch("/api/wallet/loyalty", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ points }),
+    });
+    return res.json();
+}
+
+export async function respondToCashDeposit(
+    token: string,
+    depositId: string,
+    action: "confirm" | "decline"
+): Promise<{ success?: boolean; error?: string }> {
+    const res = await fetch("/api/wallet/cash-deposits", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ depositId, action }),
+    });
+    return res.json();
+}
+
+export async function requestMoney(
+    token: string,
+    payerCode: string,
+    amount: number,
+    note?: string
+): Promise<{ success?: boolean; message?: string; error?: string }> {
+    const res = await fetch("/api/wallet/requests", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ payerCode, amount, note }),
+    });
+    return res.json();
+}
+
+export async function respondToMoneyRequest(
+    token: string,
+    requestId: string,
+    action: "accept" | "decline" | "cancel",
+    getPinToken: () => Promise<string | null> = async () => null
+): Promise<{ success?: boolean; message?: string; pinRequired?: boolean; error?: string }> {
+    const res = await fetchWithPin("/api/wallet/requests", {
+        method: "PATCH",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ requestId, action }),
+    }, getPinToken);
+    return res.json();
+}
+
+export async function splitBill(
+    token: string,
+    orderId: string,
+    mode: BillSplitMode,
+    friends: { code: string; items?: { index: number; quantity: number }[] }[]
+): Promise<{ success?: boolean; message?: string; error?: string }> {
+    const res = await fetch("/api/wallet/requests/split", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ orderId, mode, friends }),
     });
     return res.json();
 }
@@ -10,9 +10,13 @@ export interface UserProfile {
     email: string;
     phone: string;
     pinHash: string; // BCrypt hash of 4-digit PIN
+    pinFailedAttempts?: number; // Consecutive wrong PINs (reset on success)
+    pinLockedUntil?: string | null; // ISO time until which PIN checks are refused
+    pinUpdatedAt?: string;
     name: string;
     rollNumber?: string;
     walletBalance: number;
+    loyaltyPoints?: number; // sum of open loyalty lots (see lib/loyalty)
     uniqueCode: string;
     role: "user" | "admin";
     createdAt: string;
@@ -93,8 +97,12 @@ export interface OrderItem {
     name: string;
     price: number; // base price + options
     quantity: number;
+    category?: string; // MenuItem.category slug at order time (loyalty multipliers, kitchen stations)
     selectedOptions?: SelectedOption[];
+    ready?: boolean;   // bumped on the kitchen display
 }
+export type OrderStatus = "pending" | "confirmed" | "preparing" | "ready" | "completed" | "cancelled";
+
 export interface Order {
     id: string;
     orderId: string;
@@ -103,16 +111,66 @@ export interface Order {
     userEmail: string;
     userRollNumber?: string;
     items: OrderItem[];
+    itemKeywords?: string[]; // lowercased words of the item names, for admin search (lib/order-search)
     total: number;
+    subtotal?: number;   // before discount — only set when a coupon was applied
+    discount?: number;
+    couponCode?: string;
+    pointsRedeemed?: number;      // loyalty points spent on this order…
+    pointsDiscount?: number;      // …and the ₹ they covered
+    loyaltyPointsEarned?: number; // accrued on completion
+    loyaltyPointsReversed?: number;
+    loyaltyEarnId?: string;       // loyaltyTransactions doc of the accrual
     paymentMode?: string;
-    status: "pending" | "confirmed" | "preparing" | "ready" | "completed" | "cancelled";
+    status: OrderStatus;
     prepTime?: number;
-    estimatedReadyAt?: string;
+    estimatedPrepMinutes?: number; // slowest item's preparationTime at order time (lib/order-eta)
+    estimatedReadyAt?: string;     // queue-aware estimate, refreshed as the queue moves
     readyAt?: string; // canonical countdown target (ISO string)
+    stockRestored?: boolean; // set on cancellation — false when food was marked wasted
+    refundedTotal?: number;  // sum of partial refunds (see adjustments)
+    adjustments?: OrderAdjustment[];
+    source?: "app" | "auto-order";
+    autoOrderId?: string; // set when placed by the auto-order executor
+    splitId?: string;     // billSplits/{id} once the bill has been split with friends
+    scheduledFor?: string; // Pickup slot start (ISO) for pre-orders — absent for "now" orders
+    pickupSlotId?: string; // pickupSlots/{YYYY-MM-DD_HHMM} holding this order's capacity
+    pickupToken?: string;  // Signed QR token proving the right to collect (lib/pickup-verification)
+    pickupOtp?: string;    // 4-digit collection code shown with the Order ID
+    collectedAt?: string;  // Set when staff verified the pickup
+    collectedVia?: "qr" | "otp";
     createdAt: string;
     updatedAt?: string;
 }
 
+export interface OrderAdjustment {
+    lines: {
+        index: number;        // position in order.items at the time of adjustment
+        itemId: string;
+        name: string;
+        removedQuantity: number;
+        amount: number;       // refunded for this line
+    }[];
+    amount: number;
+    actorType: "admin" | "user" | "system";
+    actorId?: string;
+    reason?: string;
+    createdAt: string;
+}
+
+export interface OrderEvent {
+    id: string;
+    orderDocId: string;   // Firestore doc id of the order
+    orderId: string;      // display id, e.g. ZKO4F7X
+    userId: string;
+    from: OrderStatus;
+    to: OrderStatus;
+    actorType: "admin" | "user" | "system";
+    actorId?: string;
+    reason?: string;
+    createdAt: string;
+}
+
 // ─── Wallet ─────────────────────────────────────
 
 export interface WalletTransaction {
@@ -121,7 +179,7 @@ export interface WalletTransaction {
     toUserId: string;
     userId: string; // owner of this transaction record
     amount: number;
-    type: "topup" | "transfer" | "payment" | "refund";
+    type: "topup" | "transfer" | "payment" | "refund"; // legacy "credit"/"debit" are mapped on read (lib/wallet-transaction-types)
     description: string;
     referenceId?: string;
     razorpayPaymentId?: string;
@@ -129,14 +187,326 @@ export interface WalletTransaction {
     createdAt: string;
 }
 
+// ─── Ledger (double-entry journal) ──────────────
+
+export type LedgerEntryType =
+    | "topup"
+    | "order_payment"
+    | "order_settlement"
+    | "refund"
+    | "transfer"
+    | "withdrawal"
+    | "adjustment"
+    | "loyalty_conversion"
+    | "opening_balance";
+
+export interface LedgerPosting {
+    account: string; // e.g. "user:{uid}", "canteen:pending"
+    amount: number;  // positive = money into the account
+}
+
+export interface LedgerEntry {
+    id: string;
+    type: LedgerEntryType;
+    description: string;
+    postings: LedgerPosting[]; // always sum to zero
+    accounts: string[];        // distinct posting accounts (for array-contains queries)
+    referenceId?: string;
+    actorId?: string;
+    createdAt: string;
+}
+
+// ─── Security Audit ─────────────────────────────
+
+export type SecurityEventType = "pin_failed" | "pin_locked" | "pin_changed" | "pin_reset";
+
+export interface SecurityEvent {
+    id: string;
+    userId: string;
+    type: SecurityEventType;
+    failedAttempts?: number;
+    lockedUntil?: string;
+    ip?: string;
+    userAgent?: string;
+    createdAt: string;
+}
+
 // ─── Payments (Razorpay dedup) ──────────────────
 
 export interface Payment {
     razorpayPaymentId: string;
+    razorpayOrderId?: string;
     userId: string;
     amount: number;
+    amountPaise?: number;
     verified: boolean;
+    status?: "captured" | "failed"; // Older docs have no status — treat as captured
+    source?: "verify" | "webhook" | "sweep"; // Which path recorded it first
+    errorDescription?: string;
+    refundIds?: string[];
+    refundedAmount?: number;
+    refundShortfall?: number;       // Refunded to source but already spent from the wallet
+    createdAt: string;
+    updatedAt?: string;
+}
+
+// ─── Canteen Withdrawals ────────────────────────
+
+// requested → approved (by a different admin) → paid; requested/approved → rejected
+export type WithdrawalStatus = "requested" | "approved" | "paid" | "rejected";
+
+export type PayoutDetails =
+    | { method: "upi"; upiId: string }
+    | { method: "bank"; accountName: string; accountNumber: string; ifsc: string; bankName?: string };
+
+export interface Withdrawal {
+    id: string;
+    amount: number;
+    status: WithdrawalStatus | "completed"; // "completed" = legacy instant withdrawal
+    payout?: PayoutDetails;
+    note?: string;
+    requestedBy?: string;
+    requestedAt: string;
+    approvedBy?: string;
+    approvedAt?: string;
+    paidBy?: string;
+    paidAt?: string;
+    payoutReference?: string; // UTR / bank reference of the actual transfer
+    rejectedBy?: string;
+    rejectedAt?: string;
+    rejectionReason?: string;
+    processedAt?: string;
+}
+
+// ─── Wallet Adjustments ─────────────────────────
+
+export type WalletAdjustmentReason = "goodwill" | "correction" | "cash_deposit" | "complaint_compensation";
+
+// pending (above the approval threshold) → applied | rejected; small adjustments are applied at once
+export type WalletAdjustmentStatus = "pending" | "applied" | "rejected";
+
+export interface WalletAdjustment {
+    id: string;
+    userId: string;
+    direction: "credit" | "debit";
+    amount: number;
+    reason: WalletAdjustmentReason;
+    note?: string;
+    orderId?: string;      // orders/{id} this adjustment relates to
+    feedbackId?: string;   // userFeedbacks/{id} this adjustment relates to
+    status: WalletAdjustmentStatus;
+    requiresApproval: boolean;
+    requestedBy: string;
+    requestedAt: string;
+    approvedBy?: string;   // Second admin; absent when applied without approval
+    appliedAt?: string;
+    walletTransactionId?: string;
+    rejectedBy?: string;
+    rejectedAt?: string;
+    rejectionReason?: string;
+}
+
+// ─── Counter Cash Deposits ──────────────────────
+
+// awaiting_confirmation → confirmed (student accepts on their device) | declined | cancelled (admin) | expired
+export type CashDepositStatus = "awaiting_confirmation" | "confirmed" | "declined" | "cancelled" | "expired";
+
+export interface CashDeposit {
+    id: string;
+    slipNumber: string;        // Short human-readable number printed on the slip
+    userId: string;
+    userName: string;
+    userUniqueCode?: string;
+    userRollNumber?: string;
+    amount: number;
+    status: CashDepositStatus;
+    receivedBy: string;        // Admin who took the cash
     createdAt: string;
+    expiresAt: string;         // Unconfirmed deposits lapse after this
+    confirmedAt?: string;
+    drawerDate?: string;       // YYYY-MM-DD cash drawer day the confirmed cash counts towards
+    walletTransactionId?: string;
+    closedAt?: string;         // When declined/cancelled/expired
+}
+
+// One doc per day (cashDrawers/{YYYY-MM-DD}); totals grow as deposits are confirmed
+export interface CashDrawerDay {
+    date: string;
+    expectedTotal: number;
+    depositCount: number;
+    closedBy?: string;
+    closedAt?: string;
+    countedAmount?: number;
+    variance?: number;         // countedAmount - expectedTotal at close
+    closingNote?: string;
+    lateTotal?: number;        // Confirmed after the drawer was closed
+    updatedAt: string;
+}
+
+// ─── Money Requests & Bill Splits ───────────────
+
+// pending → paid (payer accepts with their PIN) | declined (payer) | cancelled (requester) | expired
+export type MoneyRequestStatus = "pending" | "paid" | "declined" | "cancelled" | "expired";
+
+export interface MoneyRequest {
+    id: string;
+    requesterId: string;       // Receives the money
+    requesterName: string;
+    requesterCode?: string;
+    payerId: string;           // Asked to pay
+    payerName: string;
+    payerCode?: string;
+    amount: number;
+    note?: string;
+    status: MoneyRequestStatus;
+    splitId?: string;          // billSplits/{id} when generated by a bill split
+    orderDocId?: string;       // orders/{id} being split…
+    orderId?: string;          // …and its human-readable number
+    items?: { name: string; quantity: number }[]; // Share of a by-item split
+    createdAt: string;
+    expiresAt: string;         // Pending requests lapse after this
+    respondedAt?: string;      // When paid/declined/cancelled/expired
+    referenceId?: string;      // Shared by the two transfer walletTransactions
+    refundedAmount?: number;   // Part of a paid split share returned after the order was refunded
+}
+
+export type BillSplitMode = "even" | "items";
+
+export interface BillSplit {
+    id: string;
+    orderDocId: string;
+    orderId: string;
+    requesterId: string;
+    mode: BillSplitMode;
+    total: number;             // Order total, kept in step with later refunds
+    requesterShare: number;    // Part the payer of the order keeps
+    shares: {
+        userId: string;
+        name: string;
+        amount: number;
+        requestId: string;
+        items?: { name: string; quantity: number }[];
+    }[];
+    createdAt: string;
+}
+
+// ─── Top-up Intents ─────────────────────────────
+
+// created → paid → credited; created/paid → failed | expired (failed may still be credited on retry)
+export type TopupIntentStatus = "created" | "paid" | "credited" | "failed" | "expired";
+
+export interface TopupIntent {
+    id: string;                 // Razorpay order id
+    userId: string;
+    amount: number;             // Rupees
+    amountPaise: number;
+    status: TopupIntentStatus;
+    razorpayPaymentId?: string;
+    failureReason?: string;
+    sweepAttempts?: number;
+    lastSweptAt?: string;
+    createdAt: string;
+    updatedAt: string;
+    creditedAt?: string;
+}
+
+// ─── Coupons ────────────────────────────────────
+
+export type CouponDiscountType = "flat" | "percentage";
+
+export interface Coupon {
+    id: string;                 // = code
+    code: string;               // upper-case, e.g. "WELCOME50"
+    description?: string;
+    discountType: CouponDiscountType;
+    value: number;              // Rupees for flat, percent for percentage
+    maxDiscount?: number;       // cap for percentage coupons
+    minOrderValue?: number;     // on the eligible subtotal
+    usageLimit?: number;        // total redemptions across all users
+    perUserLimit?: number;
+    usedCount: number;
+    validFrom?: string;
+    validUntil?: string;
+    itemIds?: string[];         // restrict to these menu items…
+    categories?: string[];      // …and/or these MenuItem.category slugs
+    active: boolean;
+    createdAt: string;
+    updatedAt?: string;
+}
+
+export interface CouponRedemption {
+    id: string;                 // `${code}_${userId}`
+    couponCode: string;
+    userId: string;
+    count: number;              // live redemptions (cancelled orders give theirs back)
+    lastOrderId?: string;
+    updatedAt: string;
+}
+
+// ─── Loyalty ────────────────────────────────────
+
+export interface LoyaltyConfig {
+    enabled: boolean;
+    pointsPerRupee: number;                      // e.g. 0.1 = 1 point per ₹10 paid
+    categoryMultipliers: Record<string, number>; // MenuItem.category slug → multiplier
+    pointValue: number;                          // ₹ per point when redeemed or converted
+    minRedeemPoints: number;
+    expiryDays: number;
+}
+
+// Credits (earn, restore) are "lots" that are consumed oldest-expiry first and expire on their own
+export type LoyaltyTransactionType = "earn" | "restore" | "redeem" | "convert" | "reverse" | "expire";
+
+export interface LoyaltyTransaction {
+    id: string;
+    userId: string;
+    type: LoyaltyTransactionType;
+    points: number;             // positive for credits, negative for debits
+    description: string;
+    orderDocId?: string;
+    orderId?: string;
+    // Lots only
+    remaining?: number;
+    open?: boolean;
+    expiresAt?: string;
+    createdAt: string;
+}
+
+// ─── Pre-orders & Pickup Slots ──────────────────
+
+export interface PreOrderConfig {
+    enabled: boolean;
+    slotMinutes: number;            // Length of each pickup slot
+    capacity: number;               // Per slot, counted in capacityUnit (0 = unlimited)
+    capacityUnit: "orders" | "items";
+    minLeadMinutes: number;         // Earliest bookable slot starts this far ahead
+    releaseMinutes: number;         // Surface the order in the admin queue this long before its slot
+}
+
+// One doc per booked slot (pickupSlots/{YYYY-MM-DD_HHMM}); counts move with placements and cancellations
+export interface PickupSlot {
+    id: string;
+    start: string;                  // ISO slot start
+    orders: number;
+    items: number;
+    cancelled?: boolean;            // Closed by an admin — its orders were cancelled and refunded
+    cancelledBy?: string;
+    cancelledAt?: string;
+    cancelReason?: string;
+    updatedAt: string;
+}
+
+// ─── Kitchen Display ────────────────────────────
+
+export interface KitchenStation {
+    id: string;                     // slug of the name, e.g. "tandoor"
+    name: string;
+    categories: string[];           // Category slugs cooked at this station
+}
+
+export interface KitchenConfig {
+    stations: KitchenStation[];     // Unmapped categories go to the "General" station
+    parallelism: number;            // Orders the kitchen can cook at once (ETA estimates)
 }
 
 // ─── Canteen Settings ───────────────────────────
@@ -145,6 +515,12 @@ export interface CanteenConfig {
     startTime: string; // "HH:MM" format, e.g. "09:00"
     endTime: string;   // "HH:MM" format, e.g. "17:00"
     isOpen: boolean;
+    cancelGraceMinutes?: number; // How long after placing a pending order the user may cancel it
+    pinOrderThreshold?: number;  // Orders above this total need a PIN step-up token
+    adjustmentApprovalThreshold?: number; // Manual wallet adjustments above this need a second admin
+    loyalty?: Partial<LoyaltyConfig>;
+    preOrders?: Partial<PreOrderConfig>;
+    kitchen?: Partial<KitchenConfig>;
 }
 
 // ─── Chat ───────────────────────────────────────
@@ -176,18 +552,20 @@ export interface AutoOrder {
     lastFailureReason?: string;
     totalExecutions: number;
     totalFailures: number;
+    nextDueAt?: string;            // computed by the API, not stored
     createdAt: string;
     updatedAt: string;
 }
 
 export interface AutoOrderExecution {
-    id: string;
+    id: string;                    // execution key: {autoOrderId}_{YYYYMMDD}_{HHMM}
     autoOrderId: string;
     userId: string;
     orderId?: string;
     success: boolean;
     failureReason?: string;
     amountDeducted?: number;
+    scheduledFor: string;          // ISO instant of the slot being executed
     executedAt: string;
 }
 
@@ -0,0 +1,116 @@
+/**
+ * Bill splits following order refunds — removing items and cancelling a
+ * split order against the in-memory Firestore (helpers/fake-firestore).
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FakeFirestore } from "./helpers/fake-firestore";
+
+vi.mock("@/lib/firebase-admin", async () => {
+    const { createFakeFirestore } = await import("./helpers/fake-firestore");
+    return { adminDb: createFakeFirestore(), adminAuth: {} };
+});
+vi.mock("firebase-admin/firestore", async () => (await import("./helpers/fake-firestore")).firestoreModule);
+
+import { adminDb } from "@/lib/firebase-admin";
+import { acceptMoneyRequest, createBillSplit } from "@/lib/money-requests";
+import { adjustOrderItems } from "@/lib/order-adjustments";
+import { transitionOrder } from "@/lib/order-transitions";
+import type { MoneyRequest } from "@/types";
+
+const db = adminDb as unknown as FakeFirestore;
+const ORDER = "order_1";
+const ADMIN = { type: "admin" as const, id: "admin" };
+
+function balance(uid: string): number {
+    return db.dump("users")[uid].walletBalance as number;
+}
+
+function request(id: string): MoneyRequest {
+    return db.dump("moneyRequests")[id] as unknown as MoneyRequest;
+}
+
+/** ₹300 order by "me", split evenly three ways; alice pays, bob has not yet */
+async function splitOrder(): Promise<{ alice: string; bob: string }> {
+    const { requests } = await createBillSplit({
+        requesterId: "me",
+        orderDocId: ORDER,
+        mode: "even",
+        friends: [{ code: "ALICE1" }, { code: "BOB001" }],
+    });
+    await acceptMoneyRequest("alice", requests[0].id, true);
+    return { alice: requests[0].id, bob: requests[1].id };
+}
+
+/** Cut the single Dosa line down to quantity */
+function reduceTo(quantity: number) {
+    return adminDb.runTransaction(async (transaction) => {
+        const orderDoc = await transaction.get(adminDb.collection("orders").doc(ORDER));
+        return adjustOrderItems(transaction, orderDoc, [{ index: 0, quantity }], ADMIN);
+    });
+}
+
+function cancelOrder() {
+    return adminDb.runTransaction(async (transaction) => {
+        const orderDoc = await transaction.get(adminDb.collection("orders").doc(ORDER));
+        return transitionOrder(transaction, orderDoc, "cancelled", ADMIN);
+    });
+}
+
+beforeEach(async () => {
+    db.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const users = adminDb.collection("users");
+    await users.doc("me").set({ name: "Me", uniqueCode: "MEME01", walletBalance: 0 });
+    await users.doc("alice").set({ name: "Alice", uniqueCode: "ALICE1", walletBalance: 500 });
+    await users.doc("bob").set({ name: "Bob", uniqueCode: "BOB001", walletBalance: 500 });
+    await adminDb.collection("orders").doc(ORDER).set({
+        orderId: "1001",
+        userId: "me",
+        status: "confirmed",
+        total: 300,
+        items: [{ id: "dosa", name: "Dosa", price: 100, quantity: 3 }],
+        createdAt: new Date().toISOString(),
+    });
+});
+
+describe("bill splits after a refund", () => {
+    it("scales the shares when items are removed", async () => {
+        const { alice, bob } = await splitOrder();
+        expect(balance("me")).toBe(100);
+
+        await reduceTo(1);
+
+        // Order is now ₹100: each share is ₹33.33, so alice gets ₹66.67 back
+        expect(balance("alice")).toBeCloseTo(466.67, 2);
+        expect(request(alice)).toMatchObject({ status: "paid", refundedAmount: 66.67 });
+        expect(request(bob)).toMatchObject({ status: "pending", amount: 33.33 });
+        expect(balance("me")).toBeCloseTo(100 + 200 - 66.67, 2);
+
+        const split = Object.values(db.dump("billSplits"))[0];
+        expect(split).toMatchObject({ total: 100, requesterShare: 33.34 });
+    });
+
+    it("returns paid shares and closes open requests when the order is cancelled", async () => {
+        const { alice, bob } = await splitOrder();
+
+        await cancelOrder();
+
+        expect(balance("alice")).toBe(500);
+        expect(balance("bob")).toBe(500);
+        expect(balance("me")).toBe(300);
+        expect(request(alice)).toMatchObject({ status: "paid", refundedAmount: 100 });
+        expect(request(bob)).toMatchObject({ status: "cancelled" });
+    });
+
+    it("only returns what is still outstanding after an earlier adjustment", async () => {
+        const { alice } = await splitOrder();
+
+        await reduceTo(2);
+        await cancelOrder();
+
+        expect(balance("alice")).toBe(500);
+        expect(request(alice).refundedAmount).toBeCloseTo(100, 2);
+    });
+});
@@ -0,0 +1,403 @@
+/**
+ * In-memory Firestore for tests — the slice of the Admin SDK the libs use:
+ * documents, queries (==, !=, in, <, <=, >, >=, array-contains, orderBy,
+ * limit, startAfter), transactions (writes applied on commit), batches and
+ * the FieldValue sentinels.
+ *
+ * Wire it in with vi.mock (see razorpay-webhook.test.ts):
+ *   vi.mock("@/lib/firebase-admin", …)      → { adminDb: createFakeFirestore() }
+ *   vi.mock("firebase-admin/firestore", …)  → firestoreModule
+ */
+
+import crypto from "crypto";
+
+type Data = Record<string, unknown>;
+type Op = "==" | "!=" | "in" | "<" | "<=" | ">" | ">=" | "array-contains";
+
+// ─── FieldValue ─────────────────────────────────
+
+class Sentinel {
+    constructor(
+        readonly kind: "increment" | "arrayUnion" | "arrayRemove" | "delete" | "serverTimestamp",
+        readonly operand?: unknown
+    ) {}
+}
+
+export const FieldValue = {
+    increment: (n: number) => new Sentinel("increment", n),
+    arrayUnion: (...values: unknown[]) => new Sentinel("arrayUnion", values),
+    arrayRemove: (...values: unknown[]) => new Sentinel("arrayRemove", values),
+    delete: () => new Sentinel("delete"),
+    serverTimestamp: () => new Sentinel("serverTimestamp"),
+};
+
+/** Stand-in for the "firebase-admin/firestore" module */
+export const firestoreModule = { FieldValue };
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : structuredClone(value);
+}
+
+function resolve(current: unknown, value: unknown): unknown {
+    if (!(value instanceof Sentinel)) return clone(value);
+    switch (value.kind) {
+        case "increment":
+            return (Number(current) || 0) + (value.operand as number);
+        case "arrayUnion": {
+            const list = Array.isArray(current) ? [...current] : [];
+            for (const v of value.operand as unknown[]) {
+                if (!list.some((x) => JSON.stringify(x) === JSON.stringify(v))) list.push(clone(v));
+            }
+            return list;
+        }
+        case "arrayRemove": {
+            const remove = (value.operand as unknown[]).map((v) => JSON.stringify(v));
+            return (Array.isArray(current) ? current : []).filter((x) => !remove.includes(JSON.stringify(x)));
+        }
+        case "serverTimestamp":
+            return new Date().toISOString();
+        case "delete":
+            return undefined;
+    }
+}
+
+/** Apply `field.path: value` pairs (sentinels included) to a document */
+function applyFields(target: Data, fields: Data): Data {
+    const next = clone(target);
+    for (const [path, value] of Object.entries(fields)) {
+        const keys = path.split(".");
+        let node = next;
+        for (const key of keys.slice(0, -1)) {
+            if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+            node = node[key] as Data;
+        }
+        const last = keys[keys.length - 1];
+        const resolved = resolve(node[last], value);
+        if (resolved === undefined) delete node[last];
+        else node[last] = resolved;
+    }
+    return next;
+}
+
+function getField(data: Data, path: string): unknown {
+    return path.split(".").reduce<unknown>((node, key) => (node as Data | undefined)?.[key], data);
+}
+
+function compare(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return -1;
+    if (b === undefined || b === null) return 1;
+    return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function matches(data: Data, field: string, op: Op, value: unknown): boolean {
+    const actual = getField(data, field);
+    switch (op) {
+        case "==":
+            return JSON.stringify(actual) === JSON.stringify(value);
+        case "!=":
+            return actual !== undefined && JSON.stringify(actual) !== JSON.stringify(value);
+        case "in":
+            return (value as unknown[]).some((v) => JSON.stringify(v) === JSON.stringify(actual));
+        case "array-contains":
+            return Array.isArray(actual) && actual.some((v) => JSON.stringify(v) === JSON.stringify(value));
+        default:
+            if (actual === undefined || actual === null) return false;
+            if (op === "<") return compare(actual, value) < 0;
+            if (op === "<=") return compare(actual, value) <= 0;
+            if (op === ">") return compare(actual, value) > 0;
+            return compare(actual, value) >= 0;
+    }
+}
+
+// ─── Snapshots & References ─────────────────────
+
+export class FakeDocumentSnapshot {
+    constructor(
+        readonly ref: FakeDocumentReference,
+        private readonly stored: Data | undefined
+    ) {}
+
+    get id(): string {
+        return this.ref.id;
+    }
+
+    get exists(): boolean {
+        return this.stored !== undefined;
+    }
+
+    data(): Data | undefined {
+        return clone(this.stored);
+    }
+
+    get(field: string): unknown {
+        return this.stored ? clone(getField(this.stored, field)) : undefined;
+    }
+}
+
+export class FakeDocumentReference {
+    constructor(
+        private readonly db: FakeFirestore,
+        readonly collectionName: string,
+        readonly id: string
+    ) {}
+
+    get path(): string {
+        return `${this.collectionName}/${this.id}`;
+    }
+
+    async get(): Promise<FakeDocumentSnapshot> {
+        return this.db.snapshot(this);
+    }
+
+    async set(data: Data, options?: { merge?: boolean }): Promise<void> {
+        this.db.write({ kind: "set", ref: this, data, merge: options?.merge });
+    }
+
+    async create(data: Data): Promise<void> {
+        this.db.write({ kind: "create", ref: this, data });
+    }
+
+    async update(data: Data): Promise<void> {
+        this.db.write({ kind: "update", ref: this, data });
+    }
+
+    async delete(): Promise<void> {
+        this.db.write({ kind: "delete", ref: this });
+    }
+}
+
+// ─── Queries ────────────────────────────────────
+
+interface QueryState {
+    filters: { field: string; op: Op; value: unknown }[];
+    order: { field: string; direction: "asc" | "desc" }[];
+    limit?: number;
+    startAfter?: FakeDocumentSnapshot;
+}
+
+export class FakeQuery {
+    constructor(
+        protected readonly db: FakeFirestore,
+        readonly collectionName: string,
+        private readonly state: QueryState = { filters: [], order: [] }
+    ) {}
+
+    private with(patch: Partial<QueryState>): FakeQuery {
+        return new FakeQuery(this.db, this.collectionName, { ...this.state, ...patch });
+    }
+
+    where(field: string, op: Op, value: unknown): FakeQuery {
+        return this.with({ filters: [...this.state.filters, { field, op, value }] });
+    }
+
+    orderBy(field: string, direction: "asc" | "desc" = "asc"): FakeQuery {
+        return this.with({ order: [...this.state.order, { field, direction }] });
+    }
+
+    limit(n: number): FakeQuery {
+        return this.with({ limit: n });
+    }
+
+    startAfter(snapshot: FakeDocumentSnapshot): FakeQuery {
+        return this.with({ startAfter: snapshot });
+    }
+
+    select(): FakeQuery {
+        return this;
+    }
+
+    async get(): Promise<FakeQuerySnapshot> {
+        return this.db.runQuery(this.collectionName, this.state);
+    }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+    doc(id: string = crypto.randomBytes(10).toString("hex")): FakeDocumentReference {
+        return new FakeDocumentReference(this.db, this.collectionName, id);
+    }
+
+    async add(data: Data): Promise<FakeDocumentReference> {
+        const ref = this.doc();
+        await ref.set(data);
+        return ref;
+    }
+}
+
+export interface FakeQuerySnapshot {
+    docs: FakeDocumentSnapshot[];
+    size: number;
+    empty: boolean;
+}
+
+// ─── Writes, Transactions, Batches ──────────────
+
+type Write =
+    | { kind: "set"; ref: FakeDocumentReference; data: Data; merge?: boolean }
+    | { kind: "create" | "update"; ref: FakeDocumentReference; data: Data }
+    | { kind: "delete"; ref: FakeDocumentReference };
+
+class WriteQueue {
+    protected readonly writes: Write[] = [];
+
+    constructor(protected readonly db: FakeFirestore) {}
+
+    set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }): this {
+        this.writes.push({ kind: "set", ref, data, merge: options?.merge });
+        return this;
+    }
+
+    create(ref: FakeDocumentReference, data: Data): this {
+        this.writes.push({ kind: "create", ref, data });
+        return this;
+    }
+
+    update(ref: FakeDocumentReference, data: Data): this {
+        this.writes.push({ kind: "update", ref, data });
+        return this;
+    }
+
+    delete(ref: FakeDocumentReference): this {
+        this.writes.push({ kind: "delete", ref });
+        return this;
+    }
+
+    /** All writes succeed or none do */
+    flush(): void {
+        const before = this.db.backup();
+        try {
+            for (const write of this.writes) this.db.write(write);
+        } catch (error) {
+            this.db.restore(before);
+            throw error;
+        }
+    }
+}
+
+class FakeTransaction extends WriteQueue {
+    async get(target: FakeDocumentReference | FakeQuery): Promise<FakeDocumentSnapshot | FakeQuerySnapshot> {
+        if (this.writes.length > 0) {
+            throw new Error("Firestore transactions require all reads to be executed before all writes");
+        }
+        return target.get();
+    }
+
+    async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+        return Promise.all(refs.map((ref) => this.get(ref) as Promise<FakeDocumentSnapshot>));
+    }
+}
+
+class FakeWriteBatch extends WriteQueue {
+    async commit(): Promise<void> {
+        this.flush();
+    }
+}
+
+// ─── Database ───────────────────────────────────
+
+export class FakeFirestore {
+    private collections = new Map<string, Map<string, Data>>();
+
+    collection(name: string): FakeCollectionReference {
+        return new FakeCollectionReference(this, name);
+    }
+
+    async runTransaction<T>(fn: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+        const transaction = new FakeTransaction(this);
+        const result = await fn(transaction);
+        transaction.flush();
+        return result;
+    }
+
+    batch(): FakeWriteBatch {
+        return new FakeWriteBatch(this);
+    }
+
+    async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+        return refs.map((ref) => this.snapshot(ref));
+    }
+
+    // ─── Internals (used by references, queries and write queues) ───
+
+    private docs(name: string): Map<string, Data> {
+        let docs = this.collections.get(name);
+        if (!docs) {
+            docs = new Map();
+            this.collections.set(name, docs);
+        }
+        return docs;
+    }
+
+    snapshot(ref: FakeDocumentReference): FakeDocumentSnapshot {
+        return new FakeDocumentSnapshot(ref, clone(this.docs(ref.collectionName).get(ref.id)));
+    }
+
+    write(write: Write): void {
+        const docs = this.docs(write.ref.collectionName);
+        const existing = docs.get(write.ref.id);
+
+        switch (write.kind) {
+            case "set":
+                docs.set(write.ref.id, applyFields(write.merge && existing ? existing : {}, write.data));
+                return;
+            case "create":
+                if (existing) throw new Error(`ALREADY_EXISTS: ${write.ref.path}`);
+                docs.set(write.ref.id, applyFields({}, write.data));
+                return;
+            case "update":
+                if (!existing) throw new Error(`NOT_FOUND: No document to update: ${write.ref.path}`);
+                docs.set(write.ref.id, applyFields(existing, write.data));
+                return;
+            case "delete":
+                docs.delete(write.ref.id);
+        }
+    }
+
+    runQuery(name: string, state: QueryState): FakeQuerySnapshot {
+        let entries = [...this.docs(name).entries()].filter(([, data]) =>
+            state.filters.every((f) => matches(data, f.field, f.op, f.value))
+        );
+
+        if (state.order.length > 0) {
+            entries.sort(([, a], [, b]) => {
+                for (const { field, direction } of state.order) {
+                    const c = compare(getField(a, field), getField(b, field));
+                    if (c !== 0) return direction === "desc" ? -c : c;
+                }
+                return 0;
+            });
+        }
+        if (state.startAfter) {
+            const index = entries.findIndex(([id]) => id === state.startAfter!.id);
+            entries = index >= 0 ? entries.slice(index + 1) : entries;
+        }
+        if (state.limit !== undefined) entries = entries.slice(0, state.limit);
+
+        const collection = this.collection(name);
+        const docs = entries.map(([id, data]) => new FakeDocumentSnapshot(collection.doc(id), clone(data)));
+        return { docs, size: docs.length, empty: docs.length === 0 };
+    }
+
+    backup(): Map<string, Map<string, Data>> {
+        return new Map([...this.collections].map(([name, docs]) => [name, new Map(docs)]));
+    }
+
+    restore(backup: Map<string, Map<string, Data>>): void {
+        this.collections = backup;
+    }
+
+    // ─── Test Helpers ───
+
+    /** Every document of a collection, by id */
+    dump(name: string): Record<string, Data> {
+        return Object.fromEntries([...this.docs(name)].map(([id, data]) => [id, clone(data)]));
+    }
+
+    reset(): void {
+        this.collections.clear();
+    }
+}
+
+export function createFakeFirestore(): FakeFirestore {
+    return new FakeFirestore();
+}
@@ -0,0 +1,211 @@
+/**
+ * Razorpay webhook — signed fixture payloads through POST /api/razorpay/webhook
+ * against the in-memory Firestore (helpers/fake-firestore).
+ */
+
+import crypto from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import type { FakeFirestore } from "./helpers/fake-firestore";
+
+vi.mock("@/lib/firebase-admin", async () => {
+    const { createFakeFirestore } = await import("./helpers/fake-firestore");
+    return { adminDb: createFakeFirestore(), adminAuth: {} };
+});
+vi.mock("firebase-admin/firestore", async () => (await import("./helpers/fake-firestore")).firestoreModule);
+
+import { adminDb } from "@/lib/firebase-admin";
+import { POST } from "@/app/api/razorpay/webhook/route";
+import { createFakeRazorpayGateway, setRazorpayGateway } from "@/lib/razorpay-gateway";
+import { createTopupIntent } from "@/lib/topup-intents";
+
+const db = adminDb as unknown as FakeFirestore;
+const SECRET = "whsec_test_secret";
+const USER = "user_1";
+
+// ─── Fixtures ───────────────────────────────────
+
+let counter = 0;
+const nextId = (prefix: string) => `${prefix}_fixture${++counter}`;
+
+function paymentEvent(
+    event: "payment.captured" | "payment.failed",
+    payment: { id: string; orderId: string; amountPaise: number; notes?: Record<string, string> }
+) {
+    return {
+        entity: "event",
+        event,
+        payload: {
+            payment: {
+                entity: {
+                    id: payment.id,
+                    order_id: payment.orderId,
+                    amount: payment.amountPaise,
+                    status: event === "payment.captured" ? "captured" : "failed",
+                    notes: payment.notes || [],
+                    ...(event === "payment.failed" ? { error_description: "Payment was cancelled by the user" } : {}),
+                },
+            },
+        },
+    };
+}
+
+function refundEvent(refund: { id: string; paymentId: string; amountPaise: number }) {
+    return {
+        entity: "event",
+        event: "refund.processed",
+        payload: { refund: { entity: { id: refund.id, payment_id: refund.paymentId, amount: refund.amountPaise } } },
+    };
+}
+
+async function deliver(event: object, options: { eventId?: string; secret?: string } = {}) {
+    const body = JSON.stringify(event);
+    const signature = crypto.createHmac("sha256", options.secret ?? SECRET).update(body).digest("hex");
+    const res = await POST(new NextRequest("http://localhost/api/razorpay/webhook", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "X-Razorpay-Signature": signature,
+            "X-Razorpay-Event-Id": options.eventId ?? nextId("evt"),
+        },
+        body,
+    }));
+    return { status: res.status, body: await res.json() };
+}
+
+// ─── State Helpers ──────────────────────────────
+
+async function seedUser(walletBalance = 0) {
+    await db.collection("users").doc(USER).set({ name: "Test Student", walletBalance });
+}
+
+function walletBalance(): number {
+    return db.dump("users")[USER].walletBalance as number;
+}
+
+function ledgerBalance(account: string): number {
+    return Object.values(db.dump("ledgerEntries"))
+        .flatMap((entry) => entry.postings as { account: string; amount: number }[])
+        .filter((p) => p.account === account)
+        .reduce((sum, p) => sum + p.amount, 0);
+}
+
+beforeEach(() => {
+    db.reset();
+    setRazorpayGateway(null);
+    process.env.RAZORPAY_WEBHOOK_SECRET = SECRET;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+// ─── Tests ──────────────────────────────────────
+
+describe("POST /api/razorpay/webhook", () => {
+    it("rejects a payload signed with the wrong secret", async () => {
+        await seedUser();
+        const event = paymentEvent("payment.captured", {
+            id: nextId("pay"), orderId: nextId("order"), amountPaise: 10_000, notes: { userId: USER },
+        });
+
+        const res = await deliver(event, { secret: "not-the-secret" });
+
+        expect(res.status).toBe(400);
+        expect(walletBalance()).toBe(0);
+        expect(db.dump("payments")).toEqual({});
+    });
+
+    it("fails closed when no webhook secret is configured", async () => {
+        delete process.env.RAZORPAY_WEBHOOK_SECRET;
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        const res = await deliver(refundEvent({ id: nextId("rfnd"), paymentId: nextId("pay"), amountPaise: 100 }));
+
+        expect(res.status).toBe(500);
+    });
+
+    it("credits payment.captured exactly once across redeliveries", async () => {
+        await seedUser();
+        const orderId = nextId("order");
+        await createTopupIntent(orderId, USER, 10_000);
+        const event = paymentEvent("payment.captured", { id: nextId("pay"), orderId, amountPaise: 10_000 });
+
+        const first = await deliver(event, { eventId: "evt_same" });
+        const sameEvent = await deliver(event, { eventId: "evt_same" });
+        const newEventId = await deliver(event);
+
+        expect(first.body).toMatchObject({ success: true, handled: true, detail: "Credited ₹100" });
+        expect(sameEvent.body).toMatchObject({ success: true, duplicate: true });
+        expect(newEventId.body).toMatchObject({ success: true, detail: "Already credited" });
+
+        expect(walletBalance()).toBe(100);
+        expect(Object.values(db.dump("walletTransactions"))).toHaveLength(1);
+        expect(ledgerBalance(`user:${USER}`)).toBe(100);
+        expect(db.dump("topupIntents")[orderId]).toMatchObject({ status: "credited" });
+    });
+
+    it("finds the owner from the Razorpay order notes when there is no intent", async () => {
+        await seedUser();
+        const gateway = createFakeRazorpayGateway();
+        setRazorpayGateway(gateway);
+        const order = await gateway.createOrder({ amountPaise: 5_000, receipt: "r1", notes: { userId: USER } });
+
+        const res = await deliver(paymentEvent("payment.captured", { id: nextId("pay"), orderId: order.id, amountPaise: 5_000 }));
+
+        expect(res.body).toMatchObject({ handled: true, detail: "Credited ₹50" });
+        expect(walletBalance()).toBe(50);
+    });
+
+    it("records payment.failed without crediting, and a later capture still credits", async () => {
+        await seedUser();
+        const orderId = nextId("order");
+        await createTopupIntent(orderId, USER, 10_000);
+        const failedId = nextId("pay");
+
+        const failed = await deliver(paymentEvent("payment.failed", { id: failedId, orderId, amountPaise: 10_000 }));
+
+        expect(failed.body).toMatchObject({ handled: true, detail: "Failure recorded" });
+        expect(walletBalance()).toBe(0);
+        expect(db.dump("payments")[failedId]).toMatchObject({ status: "failed", verified: false });
+        expect(db.dump("topupIntents")[orderId]).toMatchObject({
+            status: "failed",
+            failureReason: "Payment was cancelled by the user",
+        });
+
+        // The student retries on the same Razorpay order
+        const retry = await deliver(paymentEvent("payment.captured", { id: nextId("pay"), orderId, amountPaise: 10_000 }));
+
+        expect(retry.body).toMatchObject({ detail: "Credited ₹100" });
+        expect(walletBalance()).toBe(100);
+        expect(db.dump("topupIntents")[orderId]).toMatchObject({ status: "credited" });
+    });
+
+    it("takes a refund back out of the wallet and records the shortfall once spent", async () => {
+        await seedUser();
+        const paymentId = nextId("pay");
+        await deliver(paymentEvent("payment.captured", {
+            id: paymentId, orderId: nextId("order"), amountPaise: 10_000, notes: { userId: USER },
+        }));
+        // The student spends ₹70 of the ₹100 before the refund arrives
+        await db.collection("users").doc(USER).update({ walletBalance: 30 });
+
+        const refund = refundEvent({ id: nextId("rfnd"), paymentId, amountPaise: 10_000 });
+        const first = await deliver(refund);
+        const redelivered = await deliver(refund);
+
+        expect(first.body).toMatchObject({ handled: true, detail: "Debited ₹30 (shortfall ₹70)" });
+        expect(redelivered.body).toMatchObject({ handled: false });
+        expect(walletBalance()).toBe(0);
+        expect(db.dump("payments")[paymentId]).toMatchObject({
+            refundedAmount: 100,
+            refundShortfall: 70,
+            refundIds: [refund.payload.refund.entity.id],
+        });
+    });
+
+    it("ignores a refund for a payment it never credited", async () => {
+        const res = await deliver(refundEvent({ id: nextId("rfnd"), paymentId: "pay_unknown", amountPaise: 10_000 }));
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ handled: false });
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Top-up sweeper — stale intents settled against the fake Razorpay gateway
+ * (lib/razorpay-gateway) and the in-memory Firestore.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FakeFirestore } from "./helpers/fake-firestore";
+
+vi.mock("@/lib/firebase-admin", async () => {
+    const { createFakeFirestore } = await import("./helpers/fake-firestore");
+    return { adminDb: createFakeFirestore(), adminAuth: {} };
+});
+vi.mock("firebase-admin/firestore", async () => (await import("./helpers/fake-firestore")).firestoreModule);
+
+import { adminDb } from "@/lib/firebase-admin";
+import { createFakeRazorpayGateway, type FakeRazorpayGateway } from "@/lib/razorpay-gateway";
+import { createTopupIntent } from "@/lib/topup-intents";
+import { INTENT_EXPIRE_HOURS, INTENT_STALE_MINUTES, sweepTopupIntents } from "@/lib/topup-sweeper";
+
+const db = adminDb as unknown as FakeFirestore;
+const USER = "user_1";
+
+let gateway: FakeRazorpayGateway;
+
+/** A Razorpay order with its intent, as /api/razorpay/create-order leaves them */
+async function createTopup(amountPaise = 10_000): Promise<string> {
+    const order = await gateway.createOrder({ amountPaise, receipt: "r", notes: { userId: USER } });
+    await createTopupIntent(order.id, USER, amountPaise);
+    return order.id;
+}
+
+function minutesFromNow(minutes: number): Date {
+    return new Date(Date.now() + minutes * 60_000);
+}
+
+function intent(orderId: string) {
+    return db.dump("topupIntents")[orderId];
+}
+
+beforeEach(async () => {
+    db.reset();
+    gateway = createFakeRazorpayGateway();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await db.collection("users").doc(USER).set({ name: "Test Student", walletBalance: 0 });
+});
+
+describe("sweepTopupIntents", () => {
+    it("leaves intents alone until they are stale", async () => {
+        const orderId = await createTopup();
+        gateway.addPayment(orderId);
+
+        const result = await sweepTopupIntents(gateway, minutesFromNow(INTENT_STALE_MINUTES - 5));
+
+        expect(result.checked).toBe(0);
+        expect(intent(orderId)).toMatchObject({ status: "created" });
+    });
+
+    it("credits a captured payment the browser and webhook never reported", async () => {
+        const orderId = await createTopup();
+        gateway.addPayment(orderId);
+
+        const result = await sweepTopupIntents(gateway, minutesFromNow(20));
+
+        expect(result.outcomes.credited).toBe(1);
+        expect(intent(orderId)).toMatchObject({ status: "credited" });
+        expect(db.dump("users")[USER].walletBalance).toBe(100);
+    });
+
+    it("moves created → paid when crediting fails, then → credited on a later sweep", async () => {
+        const orderId = await createTopup();
+        gateway.addPayment(orderId);
+        await db.collection("users").doc(USER).delete();
+
+        const first = await sweepTopupIntents(gateway, minutesFromNow(20));
+
+        expect(first.details[0]).toMatchObject({ outcome: "error", detail: "User not found" });
+        expect(intent(orderId)).toMatchObject({ status: "paid", failureReason: "User not found", sweepAttempts: 1 });
+
+        // Support restores the account; the next sweep picks the intent up again
+        await db.collection("users").doc(USER).set({ name: "Test Student", walletBalance: 0 });
+        const second = await sweepTopupIntents(gateway, minutesFromNow(40));
+
+        expect(second.outcomes.credited).toBe(1);
+        expect(intent(orderId)).toMatchObject({ status: "credited" });
+        expect(db.dump("users")[USER].walletBalance).toBe(100);
+    });
+
+    it("does not credit twice when the webhook got there first", async () => {
+        const orderId = await createTopup();
+        gateway.addPayment(orderId);
+
+        await sweepTopupIntents(gateway, minutesFromNow(20));
+        // Reopen the intent as if the credit had raced a stale read
+        await db.collection("topupIntents").doc(orderId).update({ status: "paid" });
+        const again = await sweepTopupIntents(gateway, minutesFromNow(40));
+
+        expect(again.outcomes.already_credited).toBe(1);
+        expect(db.dump("users")[USER].walletBalance).toBe(100);
+        expect(intent(orderId)).toMatchObject({ status: "credited" });
+    });
+
+    it("marks an intent with only failed attempts as failed", async () => {
+        const orderId = await createTopup();
+        gateway.addPayment(orderId, "failed", "Card declined");
+
+        const result = await sweepTopupIntents(gateway, minutesFromNow(20));
+
+        expect(result.outcomes.failed).toBe(1);
+        expect(intent(orderId)).toMatchObject({ status: "failed", failureReason: "Card declined" });
+        expect(db.dump("users")[USER].walletBalance).toBe(0);
+    });
+
+    it("keeps an authorized payment pending", async () => {
+        const orderId = await createTopup();
+        gateway.addPayment(orderId, "authorized");
+
+        const result = await sweepTopupIntents(gateway, minutesFromNow(20));
+
+        expect(result.outcomes.pending).toBe(1);
+        expect(intent(orderId)).toMatchObject({ status: "created", sweepAttempts: 1 });
+    });
+
+    it("expires an intent with no payment after INTENT_EXPIRE_HOURS", async () => {
+        const orderId = await createTopup();
+
+        const early = await sweepTopupIntents(gateway, minutesFromNow(20));
+        expect(early.outcomes.pending).toBe(1);
+
+        const late = await sweepTopupIntents(gateway, minutesFromNow(INTENT_EXPIRE_HOURS * 60 + 5));
+
+        expect(late.outcomes.expired).toBe(1);
+        expect(intent(orderId)).toMatchObject({ status: "expired", failureReason: "No payment made" });
+    });
+});